@@ -72,6 +72,11 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Scheduled batch workers authenticate with a shared secret, checked by the route itself
+  if (pathname === '/api/admin/uploads/batch/worker' && request.headers.has('x-batch-worker-secret')) {
+    return NextResponse.next();
+  }
+
   // Check for authentication on protected routes
   const authResult = await verifyAuth(request);
   
@@ -5,6 +5,8 @@ const nextConfig = {
   },
   experimental: {
     outputFileTracingRoot: undefined,
+    // src/instrumentation.ts checks the storage configuration at startup
+    instrumentationHook: true,
   },
   env: {
     DATABASE_URL: process.env.DATABASE_URL,
@@ -0,0 +1,106 @@
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient({
+  log: ['info', 'warn', 'error'],
+});
+
+// Links every lead without a patient to a Patient record keyed by MBI.
+// The most recent lead for an MBI supplies the patient demographics.
+// PHI is encrypted, so leads are grouped by the MBI blind index and the
+// ciphertext and indexes are copied as-is - run encrypt-phi first.
+// Safe to run more than once - leads that already have a patient are skipped.
+async function backfillPatients() {
+  console.log('🧬 Starting patient backfill...\n');
+
+  try {
+    const unlinkedLeads = await prisma.lead.findMany({
+      where: { patientId: null },
+      select: {
+        id: true,
+        mbi: true,
+        mbiHash: true,
+        firstName: true,
+        lastName: true,
+        dateOfBirth: true,
+        dateOfBirthHash: true,
+        phone: true,
+        phoneHash: true,
+        street: true,
+        city: true,
+        state: true,
+        zipCode: true,
+        zipCodeHash: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    console.log(`📊 Found ${unlinkedLeads.length} leads without a patient`);
+
+    const notEncrypted = unlinkedLeads.filter(lead => !lead.mbiHash);
+    if (notEncrypted.length > 0) {
+      throw new Error(`${notEncrypted.length} leads have no MBI blind index - run encrypt-phi first`);
+    }
+
+    // Group by MBI - first entry per MBI is the most recent lead
+    const leadsByMbi = new Map();
+    for (const lead of unlinkedLeads) {
+      if (!leadsByMbi.has(lead.mbiHash)) leadsByMbi.set(lead.mbiHash, []);
+      leadsByMbi.get(lead.mbiHash).push(lead);
+    }
+
+    let patientsCreated = 0;
+    let leadsLinked = 0;
+
+    for (const [mbiHash, leads] of leadsByMbi) {
+      const latest = leads[0];
+
+      await prisma.$transaction(async (tx) => {
+        let patient = await tx.patient.findUnique({ where: { mbiHash } });
+
+        if (!patient) {
+          patient = await tx.patient.create({
+            data: {
+              mbi: latest.mbi,
+              mbiHash,
+              firstName: latest.firstName,
+              lastName: latest.lastName,
+              dateOfBirth: latest.dateOfBirth,
+              dateOfBirthHash: latest.dateOfBirthHash,
+              phone: latest.phone,
+              phoneHash: latest.phoneHash,
+              street: latest.street,
+              city: latest.city,
+              state: latest.state,
+              zipCode: latest.zipCode,
+              zipCodeHash: latest.zipCodeHash
+            }
+          });
+          patientsCreated++;
+        }
+
+        const linked = await tx.lead.updateMany({
+          where: { id: { in: leads.map(lead => lead.id) } },
+          data: { patientId: patient.id }
+        });
+        leadsLinked += linked.count;
+      });
+
+      if (leads.length > 1) {
+        console.log(`   🔗 Patient ${patient.id}: linked ${leads.length} test orders`);
+      }
+    }
+
+    console.log('\n✅ Patient backfill complete');
+    console.log(`   Patients created: ${patientsCreated}`);
+    console.log(`   Leads linked: ${leadsLinked}`);
+
+  } catch (error) {
+    console.error('❌ Patient backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillPatients();
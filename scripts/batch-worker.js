@@ -0,0 +1,60 @@
+// Keeps the batch upload queue moving: calls the worker endpoint every few seconds.
+// Each call recovers jobs whose worker died, then claims and runs queued jobs for up to
+// BATCH_WORKER_BUDGET_SECONDS, resuming each at the chunk it reached.
+//
+//   APP_URL=https://your-app BATCH_WORKER_SECRET=... npm run batch-worker
+//   npm run batch-worker -- --once    # a single pass, e.g. from cron
+
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+const SECRET = process.env.BATCH_WORKER_SECRET;
+const INTERVAL_MS = parseInt(process.env.BATCH_WORKER_INTERVAL_SECONDS || '15', 10) * 1000;
+const ONCE = process.argv.includes('--once');
+
+async function runPass() {
+  const response = await fetch(`${APP_URL}/api/admin/uploads/batch/worker`, {
+    method: 'POST',
+    headers: { 'x-batch-worker-secret': SECRET }
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(`Worker endpoint returned ${response.status}: ${body.error || response.statusText}`);
+  }
+
+  const { recovered, jobs } = body.data;
+  if (recovered > 0 || jobs.length > 0) {
+    console.log(`⚙️  ${new Date().toISOString()} recovered ${recovered}, ran ${jobs.length} jobs`);
+    jobs.forEach(job => console.log(`   ${job.id}: ${job.status} (${job.chunksProcessed}/${job.totalChunks ?? '?'} chunks)`));
+  }
+  return jobs.length;
+}
+
+async function main() {
+  if (!SECRET) {
+    throw new Error('BATCH_WORKER_SECRET is not set');
+  }
+
+  console.log(`🚀 Batch worker polling ${APP_URL} every ${INTERVAL_MS / 1000}s`);
+  do {
+    try {
+      const ran = await runPass();
+      // Jobs may still be waiting if the pass ran out of time - go again straight away
+      if (ran > 0 && !ONCE) continue;
+    } catch (error) {
+      console.error('❌ Worker pass failed:', error.message);
+      if (ONCE) throw error;
+    }
+    if (!ONCE) await new Promise(resolve => setTimeout(resolve, INTERVAL_MS));
+  } while (!ONCE);
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('💥 Batch worker failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = { runPass };
@@ -14,7 +14,7 @@ async function cleanupTestData() {
       // 1. Count current data for reporting
       console.log('📊 Current database state:');
       const currentCounts = {
-        leads: await tx.lead.count(),
+        leads: await tx.lead.count({ where: { deletedAt: null } }),
         fileUploads: await tx.fileUpload.count(),
         contactAttempts: await tx.contactAttempt.count(),
         callbacks: await tx.callback.count(),
@@ -31,24 +31,8 @@ async function cleanupTestData() {
       });
       console.log('');
 
-      // 2. Delete related data first (due to foreign key constraints)
-      console.log('🗑️  Cleaning up related data...');
-      
-      // Delete lead alerts
-      const deletedAlerts = await tx.leadAlert.deleteMany({});
-      console.log(`   ✅ Deleted ${deletedAlerts.count} lead alerts`);
-      
-      // Delete compliance checklists
-      const deletedChecklists = await tx.complianceChecklist.deleteMany({});
-      console.log(`   ✅ Deleted ${deletedChecklists.count} compliance checklists`);
-      
-      // Delete contact attempts
-      const deletedAttempts = await tx.contactAttempt.deleteMany({});
-      console.log(`   ✅ Deleted ${deletedAttempts.count} contact attempts`);
-      
-      // Delete callbacks
-      const deletedCallbacks = await tx.callback.deleteMany({});
-      console.log(`   ✅ Deleted ${deletedCallbacks.count} callbacks`);
+      // 2. Delete upload records and metrics
+      console.log('🗑️  Cleaning up upload records...');
       
       // Delete file uploads
       const deletedUploads = await tx.fileUpload.deleteMany({});
@@ -58,10 +42,14 @@ async function cleanupTestData() {
       const deletedMetrics = await tx.dailyMetrics.deleteMany({});
       console.log(`   ✅ Deleted ${deletedMetrics.count} daily metrics`);
 
-      // 3. Delete all leads
+      // 3. Soft-delete all leads - alerts, checklists, attempts and callbacks stay
+      // with them, and the leads can be restored from the admin API
       console.log('\n🎯 Cleaning up leads...');
-      const deletedLeads = await tx.lead.deleteMany({});
-      console.log(`   ✅ Deleted ${deletedLeads.count} leads`);
+      const deletedLeads = await tx.lead.updateMany({
+        where: { deletedAt: null },
+        data: { deletedAt: new Date(), deletionReason: 'Test data cleanup script' }
+      });
+      console.log(`   ✅ Soft-deleted ${deletedLeads.count} leads`);
 
       // 4. Clean up vendors (keep system vendors, remove test vendors)
       console.log('\n🏢 Cleaning up test vendors...');
@@ -88,14 +76,15 @@ async function cleanupTestData() {
         );
         
         if (isTestVendor) {
-          await tx.vendor.delete({ where: { id: vendor.id } });
-          console.log(`   ✅ Deleted test vendor: ${vendor.name} (${vendor.code})`);
+          // Retained leads still reference the vendor, so deactivate it
+          await tx.vendor.update({ where: { id: vendor.id }, data: { isActive: false } });
+          console.log(`   ✅ Deactivated test vendor: ${vendor.name} (${vendor.code})`);
           deletedVendors++;
         }
       }
       
       if (deletedVendors === 0) {
-        console.log('   ℹ️  No test vendors found to delete');
+        console.log('   ℹ️  No test vendors found to deactivate');
       }
 
       // 5. Clean up test users (keep admin users)
@@ -126,8 +115,8 @@ async function cleanupTestData() {
           continue;
         }
         
-        await tx.user.delete({ where: { id: user.id } });
-        console.log(`   ✅ Deleted test user: ${user.firstName} ${user.lastName} (${user.email})`);
+        await tx.user.update({ where: { id: user.id }, data: { isActive: false } });
+        console.log(`   ✅ Deactivated test user: ${user.firstName} ${user.lastName} (${user.email})`);
       }
 
       // 6. Clean up test teams
@@ -143,13 +132,14 @@ async function cleanupTestData() {
       });
       
       for (const team of testTeams) {
+        await tx.user.updateMany({ where: { teamId: team.id }, data: { teamId: null } });
         await tx.team.delete({ where: { id: team.id } });
         console.log(`   ✅ Deleted test team: ${team.name}`);
       }
 
       console.log('\n📊 Final database state:');
       const finalCounts = {
-        leads: await tx.lead.count(),
+        leads: await tx.lead.count({ where: { deletedAt: null } }),
         fileUploads: await tx.fileUpload.count(),
         contactAttempts: await tx.contactAttempt.count(),
         callbacks: await tx.callback.count(),
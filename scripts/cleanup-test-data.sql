@@ -91,6 +91,7 @@ DELETE FROM "DailyMetrics";
 -- ========================================
 
 DELETE FROM "Lead";
+DELETE FROM "Patient";
 
 -- ========================================
 -- STEP 3: Clean up test vendors
@@ -0,0 +1,149 @@
+const { PrismaClient } = require('@prisma/client');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const prisma = new PrismaClient({
+  log: ['info', 'warn', 'error'],
+});
+
+// Encrypts plaintext PHI on leads and patients and fills in the blind indexes.
+// Run after `npx prisma db push` has converted dateOfBirth to text and added the *Hash columns.
+// Uses the same keys and ciphertext format as src/lib/crypto/phiEncryption.ts.
+// Safe to run more than once - values that are already encrypted are skipped.
+
+const PREFIX = 'enc:v1:';
+const ENCRYPTED_FIELDS = ['mbi', 'dateOfBirth', 'phone', 'street', 'city', 'zipCode'];
+const INDEXED_FIELDS = ['mbi', 'dateOfBirth', 'phone', 'zipCode'];
+const BATCH_SIZE = 500;
+
+function loadKeys() {
+  const provider = process.env.PHI_KEY_PROVIDER || (process.env.NODE_ENV === 'production' ? 'env' : 'local');
+
+  if (provider === 'env') {
+    const dataKeys = Object.fromEntries(
+      (process.env.PHI_DATA_KEYS || '').split(',').filter(Boolean).map(pair => {
+        const separator = pair.indexOf(':');
+        return [pair.slice(0, separator).trim(), pair.slice(separator + 1).trim()];
+      })
+    );
+    const ids = Object.keys(dataKeys);
+    return {
+      activeKeyId: process.env.PHI_ACTIVE_KEY_ID || ids[ids.length - 1],
+      dataKeys,
+      indexKey: process.env.PHI_INDEX_KEY
+    };
+  }
+
+  // Same default location as the app, resolved from the repo root
+  const keyFile = process.env.PHI_KEY_FILE || path.join(__dirname, '..', '.keys', 'phi-keys.json');
+  if (!fs.existsSync(keyFile)) {
+    throw new Error(`PHI key file not found at ${keyFile} - start the app once to generate development keys`);
+  }
+  return JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+}
+
+const keys = loadKeys();
+if (!keys.activeKeyId || !keys.dataKeys[keys.activeKeyId] || !keys.indexKey) {
+  throw new Error('PHI keys are incomplete - need an active data key and an index key');
+}
+const dataKey = Buffer.from(keys.dataKeys[keys.activeKeyId], 'base64');
+const indexKey = Buffer.from(keys.indexKey, 'base64');
+
+function toDateOnly(value) {
+  const text = String(value).trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+  return new Date(text).toISOString().slice(0, 10);
+}
+
+function normalize(field, value) {
+  switch (field) {
+    case 'mbi':
+      return String(value).replace(/[\s-]/g, '').toUpperCase();
+    case 'dateOfBirth':
+      return toDateOnly(value);
+    case 'phone':
+      return String(value).replace(/\D/g, '').slice(-10);
+    case 'zipCode':
+      return String(value).replace(/\D/g, '').slice(0, 5);
+    default:
+      return String(value);
+  }
+}
+
+function encrypt(plaintext) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return `${PREFIX}${keys.activeKeyId}:${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${data.toString('base64')}`;
+}
+
+function blindIndex(field, value) {
+  return crypto.createHmac('sha256', indexKey).update(`${field}:${normalize(field, value)}`).digest('hex');
+}
+
+function protect(row) {
+  const data = {};
+  for (const field of ENCRYPTED_FIELDS) {
+    const value = row[field];
+    if (value === null || value === undefined || String(value).startsWith(PREFIX)) continue;
+
+    const plaintext = field === 'dateOfBirth' ? toDateOnly(value) : String(value);
+    data[field] = encrypt(plaintext);
+    if (INDEXED_FIELDS.includes(field)) {
+      data[`${field}Hash`] = blindIndex(field, plaintext);
+    }
+  }
+  return data;
+}
+
+async function encryptTable(model, label) {
+  const select = { id: true };
+  ENCRYPTED_FIELDS.forEach(field => { select[field] = true; });
+
+  let cursor;
+  let encrypted = 0;
+
+  for (;;) {
+    const rows = await prisma[model].findMany({
+      select,
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    });
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const data = protect(row);
+      if (Object.keys(data).length === 0) continue;
+      await prisma[model].update({ where: { id: row.id }, data });
+      encrypted++;
+    }
+
+    cursor = rows[rows.length - 1].id;
+    console.log(`   ${label}: ${encrypted} encrypted so far`);
+  }
+
+  return encrypted;
+}
+
+async function encryptPhi() {
+  console.log(`🔐 Encrypting PHI with key "${keys.activeKeyId}"...\n`);
+
+  try {
+    const patients = await encryptTable('patient', 'Patients');
+    const leads = await encryptTable('lead', 'Leads');
+
+    console.log('\n✅ PHI encryption complete');
+    console.log(`   Patients encrypted: ${patients}`);
+    console.log(`   Leads encrypted: ${leads}`);
+
+  } catch (error) {
+    console.error('❌ PHI encryption failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+encryptPhi();
@@ -87,7 +87,7 @@ function Test-Files {
     Write-Host "📁 Checking Required Files..." -ForegroundColor Yellow
     
     $requiredFiles = @(
-        "src/lib/services/upsService.ts",
+        "src/lib/shipping/upsCarrier.ts",
         "src/app/api/webhooks/ups-tracking/route.ts", 
         "src/app/api/admin/ship-lead/route.ts",
         "src/lib/services/notificationService.ts",
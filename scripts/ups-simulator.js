@@ -0,0 +1,453 @@
+// Local stand-in for the UPS APIs the app calls, so shipping can be run end to end
+// without the UPS account. Serves the OAuth token, Ship (outbound and return labels),
+// Void, Track and Address Validation endpoints under /api, like the real host, and
+// pushes scripted tracking sequences at the app's /api/webhooks/ups-tracking.
+//
+// Tracking numbers and labels are deterministic: the same lead always gets the same
+// outbound and return numbers, and a label image depends only on its tracking number.
+// Shipments are kept in memory and are gone when the simulator stops.
+//
+//   npm run ups-simulator                                  # listens on UPS_SIMULATOR_PORT (4010)
+//   UPS_API_BASE_URL=http://localhost:4010/api npm run dev # in the app
+//
+// Drive tracking through the control endpoints:
+//   GET  /simulator/shipments
+//   POST /simulator/push { "trackingNumber": "1Z...", "sequence": "outbound" }
+// Sequences: in-transit, out-for-delivery, exception, delivered, outbound (in transit
+// then delivered), exception-then-delivered, return. Or pass a list of steps:
+// "sequence": ["pickup", "in-transit", "exception", "out-for-delivery", "delivered"].
+// Events are timed from the ship date, so pushing a sequence twice sends the same
+// events again - a way to exercise the webhook's duplicate handling.
+
+const http = require('http');
+const crypto = require('crypto');
+const zlib = require('zlib');
+
+const PORT = parseInt(process.env.UPS_SIMULATOR_PORT || '4010', 10);
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+const WEBHOOK_CREDENTIAL = process.env.UPS_WEBHOOK_CREDENTIAL || '';
+
+const LAB_LOCATION = { city: 'ATLANTA', stateProvince: 'GA', postalCode: '30309', country: 'US' };
+const HUB_LOCATION = { city: 'LOUISVILLE', stateProvince: 'KY', postalCode: '40209', country: 'US' };
+
+// Each step is one UPS activity, `hours` after the label was created
+const STEPS = {
+  'label-created': { type: 'M', code: 'MP', description: 'Shipper created a label, UPS has not received the package yet.', hours: 0, at: 'origin' },
+  'pickup': { type: 'P', code: 'PU', description: 'Pickup Scan', hours: 6, at: 'origin' },
+  'in-transit': { type: 'I', code: 'DP', description: 'Departed from Facility', hours: 20, at: 'hub' },
+  'exception': { type: 'X', code: 'X1', description: 'The receiver was not available for delivery.', hours: 50, at: 'destination' },
+  'out-for-delivery': { type: 'I', code: 'OT', description: 'Out For Delivery Today', hours: 70, at: 'destination' },
+  'delivered': { type: 'D', code: 'KB', description: 'DELIVERED', hours: 74, at: 'destination' }
+};
+
+const SEQUENCES = {
+  'in-transit': ['pickup', 'in-transit'],
+  'out-for-delivery': ['out-for-delivery'],
+  'exception': ['exception'],
+  'delivered': ['delivered'],
+  'outbound': ['pickup', 'in-transit', 'out-for-delivery', 'delivered'],
+  'exception-then-delivered': ['pickup', 'in-transit', 'exception', 'out-for-delivery', 'delivered'],
+  'return': ['pickup', 'in-transit', 'delivered']
+};
+
+const tokens = new Set();
+const shipments = new Map();
+
+// --- Tracking numbers ---
+
+// UPS check digit: letters count as (position in alphabet + 2) mod 10, odd positions
+// are summed and even positions doubled
+function checkDigit(body) {
+  let sum = 0;
+  [...body].forEach((char, index) => {
+    const value = /\d/.test(char) ? Number(char) : (char.charCodeAt(0) - 63) % 10;
+    sum += index % 2 === 0 ? value : value * 2;
+  });
+  return String((10 - (sum % 10)) % 10);
+}
+
+function trackingNumberFor(shipperNumber, reference) {
+  const shipper = (shipperNumber || 'SIM001').toUpperCase().replace(/[^A-Z0-9]/g, '').padEnd(6, '0').slice(0, 6);
+  const digits = BigInt('0x' + crypto.createHash('sha256').update(reference).digest('hex').slice(0, 12)) % 10000000n;
+  const body = `${shipper}03${digits.toString().padStart(7, '0')}`;
+  return `1Z${body}${checkDigit(body)}`;
+}
+
+// --- Labels: a 4x6 inch image at 100 dpi, bars drawn from the tracking number ---
+
+const LABEL_WIDTH = 400;
+const LABEL_HEIGHT = 600;
+
+function labelPixels(trackingNumber) {
+  const pixels = new Uint8Array(LABEL_WIDTH * LABEL_HEIGHT); // 0 white, 1 black
+  const fill = (x0, y0, width, height) => {
+    for (let y = y0; y < y0 + height; y++) pixels.fill(1, y * LABEL_WIDTH + x0, y * LABEL_WIDTH + x0 + width);
+  };
+
+  // Border and a header band
+  fill(0, 0, LABEL_WIDTH, 4);
+  fill(0, LABEL_HEIGHT - 4, LABEL_WIDTH, 4);
+  fill(0, 0, 4, LABEL_HEIGHT);
+  fill(LABEL_WIDTH - 4, 0, 4, LABEL_HEIGHT);
+  fill(0, 120, LABEL_WIDTH, 6);
+
+  // A barcode-like strip: each character of the tracking number becomes 8 bars
+  const bits = [...Buffer.from(trackingNumber)].flatMap(byte => [7, 6, 5, 4, 3, 2, 1, 0].map(bit => (byte >> bit) & 1));
+  let x = 20;
+  for (const bit of bits) {
+    const width = bit ? 3 : 1;
+    fill(x, 300, width, 160);
+    x += width + 1;
+  }
+  return pixels;
+}
+
+function crc32(buffer) {
+  let crc = ~0;
+  for (const byte of buffer) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return ~crc >>> 0;
+}
+
+function pngChunk(type, data) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function encodePng(pixels) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(LABEL_WIDTH, 0);
+  header.writeUInt32BE(LABEL_HEIGHT, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // greyscale
+  const raw = Buffer.alloc((LABEL_WIDTH + 1) * LABEL_HEIGHT);
+  for (let y = 0; y < LABEL_HEIGHT; y++) {
+    for (let x = 0; x < LABEL_WIDTH; x++) raw[y * (LABEL_WIDTH + 1) + 1 + x] = pixels[y * LABEL_WIDTH + x] ? 0 : 255;
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// Uncompressed GIF: every pixel is written as a 9-bit literal code, with a clear code
+// often enough that the decoder's code size never grows past 9 bits
+function encodeGif(pixels) {
+  const codes = [256];
+  pixels.forEach((pixel, index) => {
+    codes.push(pixel);
+    if ((index + 1) % 250 === 0) codes.push(256);
+  });
+  codes.push(257);
+
+  const bytes = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const code of codes) {
+    buffer |= code << bits;
+    bits += 9;
+    while (bits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  }
+  if (bits > 0) bytes.push(buffer & 0xff);
+
+  const blocks = [];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+
+  const screen = Buffer.alloc(7);
+  screen.writeUInt16LE(LABEL_WIDTH, 0);
+  screen.writeUInt16LE(LABEL_HEIGHT, 2);
+  screen[4] = 0xf7; // global colour table of 256 entries
+  const palette = Buffer.alloc(256 * 3);
+  palette.fill(255, 0, 3); // 0 white, 1 black
+  const descriptor = Buffer.alloc(10);
+  descriptor[0] = 0x2c;
+  descriptor.writeUInt16LE(LABEL_WIDTH, 5);
+  descriptor.writeUInt16LE(LABEL_HEIGHT, 7);
+
+  return Buffer.concat([
+    Buffer.from('GIF89a'), screen, palette, descriptor,
+    Buffer.from([8, ...blocks, 0, 0x3b])
+  ]);
+}
+
+function labelImage(trackingNumber, format) {
+  const pixels = labelPixels(trackingNumber);
+  return (format === 'PNG' ? encodePng(pixels) : encodeGif(pixels)).toString('base64');
+}
+
+// --- UPS endpoints ---
+
+function upsError(res, status, code, message) {
+  send(res, status, { response: { errors: [{ code, message }] } });
+}
+
+function authorized(req) {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  return tokens.has(token);
+}
+
+function issueToken(req, res) {
+  if (!(req.headers.authorization || '').startsWith('Basic ')) {
+    return upsError(res, 401, '10401', 'ClientId is Invalid');
+  }
+  const token = `sim-${crypto.randomBytes(12).toString('hex')}`;
+  tokens.add(token);
+  send(res, 200, { access_token: token, token_type: 'Bearer', expires_in: 14399, status: 'approved' });
+}
+
+function ship(body, res) {
+  const request = body.ShipmentRequest;
+  const shipment = request?.Shipment;
+  if (!shipment?.ShipTo?.Address || !shipment?.Shipper) {
+    return upsError(res, 400, '120100', 'Missing or invalid shipment');
+  }
+
+  const reference = request.Request?.TransactionReference?.CustomerContext || JSON.stringify(shipment.ShipTo);
+  const trackingNumber = trackingNumberFor(shipment.Shipper.ShipperNumber, reference);
+  const format = request.LabelSpecification?.LabelImageFormat?.Code || 'GIF';
+  const isReturn = !!shipment.ReturnService;
+  const destination = shipment.ShipTo.Address;
+
+  // A voided label can be created again and starts afresh
+  if (!shipments.has(trackingNumber) || shipments.get(trackingNumber).voided) {
+    shipments.set(trackingNumber, {
+      trackingNumber,
+      reference,
+      isReturn,
+      shippedAt: new Date(),
+      origin: isReturn ? addressLocation(shipment.ShipFrom?.Address) : LAB_LOCATION,
+      destination: addressLocation(destination),
+      activities: [],
+      voided: false
+    });
+    recordActivity(shipments.get(trackingNumber), 'label-created');
+  }
+  console.log(`🏷️  ${isReturn ? 'Return label' : 'Label'} ${trackingNumber} for ${reference}`);
+
+  send(res, 200, {
+    ShipmentResponse: {
+      Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+      ShipmentResults: {
+        ShipmentIdentificationNumber: trackingNumber,
+        PackageResults: [{
+          TrackingNumber: trackingNumber,
+          ShippingLabel: { ImageFormat: { Code: format }, GraphicImage: labelImage(trackingNumber, format) }
+        }]
+      }
+    }
+  });
+}
+
+function voidShipment(trackingNumber, res) {
+  const shipment = shipments.get(trackingNumber);
+  if (!shipment || shipment.activities.some(activity => activity.status.type !== 'M')) {
+    return upsError(res, 400, '190117', 'The shipment cannot be voided - it is unknown or already in the UPS network');
+  }
+  shipment.voided = true;
+  send(res, 200, { VoidShipmentResponse: { SummaryResult: { Status: { Code: '1', Description: 'Voided' } } } });
+}
+
+function track(trackingNumber, res) {
+  const shipment = shipments.get(trackingNumber);
+  if (!shipment) {
+    return upsError(res, 404, '151044', 'No tracking information available');
+  }
+  send(res, 200, {
+    trackResponse: {
+      shipment: [{
+        package: [{
+          trackingNumber,
+          // Newest first, as UPS returns them
+          activity: [...shipment.activities].reverse()
+        }]
+      }]
+    }
+  });
+}
+
+// Any street with a house number and a five digit ZIP is deliverable
+function validateAddress(body, res) {
+  const address = body.XAVRequest?.AddressKeyFormat || {};
+  const street = [].concat(address.AddressLine || []).join(' ');
+  const valid = /^\d+\s+\S/.test(street) && /^\d{5}/.test(address.PostcodePrimaryLow || '');
+
+  send(res, 200, {
+    XAVResponse: valid ? {
+      ValidAddressIndicator: '',
+      Candidate: [{
+        AddressKeyFormat: {
+          AddressLine: [street.toUpperCase()],
+          PoliticalDivision2: (address.PoliticalDivision2 || '').toUpperCase(),
+          PoliticalDivision1: (address.PoliticalDivision1 || '').toUpperCase(),
+          PostcodePrimaryLow: address.PostcodePrimaryLow.slice(0, 5),
+          CountryCode: 'US'
+        }
+      }]
+    } : { NoCandidatesIndicator: '' }
+  });
+}
+
+// --- Scripted tracking ---
+
+function addressLocation(address = {}) {
+  return {
+    city: (address.City || '').toUpperCase(),
+    stateProvince: address.StateProvinceCode || '',
+    postalCode: address.PostalCode || '',
+    country: address.CountryCode || 'US'
+  };
+}
+
+const pad = value => String(value).padStart(2, '0');
+
+function recordActivity(shipment, step) {
+  const definition = STEPS[step];
+  const when = new Date(shipment.shippedAt.getTime() + definition.hours * 3600 * 1000);
+  const location = { origin: shipment.origin, hub: HUB_LOCATION, destination: shipment.destination }[definition.at];
+  const activity = {
+    location: { address: location },
+    status: { type: definition.type, code: definition.code, description: definition.description },
+    date: `${when.getFullYear()}${pad(when.getMonth() + 1)}${pad(when.getDate())}`,
+    time: `${pad(when.getHours())}${pad(when.getMinutes())}${pad(when.getSeconds())}`
+  };
+  if (!shipment.activities.some(existing => existing.status.code === activity.status.code && existing.date === activity.date && existing.time === activity.time)) {
+    shipment.activities.push(activity);
+  }
+  return activity;
+}
+
+async function pushWebhook(trackingNumber, activity) {
+  const payload = {
+    trackingNumber,
+    localActivityDate: activity.date,
+    localActivityTime: activity.time,
+    activityLocation: activity.location.address,
+    activityStatus: activity.status,
+    ...(activity.status.type === 'D' ? { actualDeliveryDate: activity.date, actualDeliveryTime: activity.time } : {})
+  };
+
+  try {
+    const response = await fetch(`${APP_URL}/api/webhooks/ups-tracking`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'credential': WEBHOOK_CREDENTIAL,
+        'user-agent': 'UPSPubSubTrackingService'
+      },
+      body: JSON.stringify(payload)
+    });
+    const body = await response.json().catch(() => ({}));
+    return { step: activity.status.description, status: response.status, response: body };
+  } catch (error) {
+    // The app is not up - the activity is still recorded for the Track API
+    return { step: activity.status.description, status: null, error: `Could not reach ${APP_URL}: ${error.message}` };
+  }
+}
+
+async function push(body, res) {
+  const shipment = shipments.get(body.trackingNumber);
+  if (!shipment) {
+    return send(res, 404, { error: `No simulated shipment ${body.trackingNumber} - create its label through the app first` });
+  }
+  if (shipment.voided) {
+    return send(res, 409, { error: `Shipment ${body.trackingNumber} was voided` });
+  }
+
+  const steps = Array.isArray(body.sequence) ? body.sequence : SEQUENCES[body.sequence];
+  const unknown = (steps || []).filter(step => !STEPS[step]);
+  if (!steps || unknown.length > 0) {
+    return send(res, 400, {
+      error: `Unknown sequence or steps: ${unknown.join(', ') || body.sequence}`,
+      sequences: Object.keys(SEQUENCES),
+      steps: Object.keys(STEPS)
+    });
+  }
+
+  const delayMs = Number(body.delayMs) || 0;
+  const results = [];
+  for (const step of steps) {
+    results.push(await pushWebhook(shipment.trackingNumber, recordActivity(shipment, step)));
+    if (delayMs) await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+  console.log(`📡 Pushed ${steps.join(' → ')} for ${shipment.trackingNumber}`);
+  send(res, 200, { trackingNumber: shipment.trackingNumber, results });
+}
+
+// --- Server ---
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+async function handle(req, res) {
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+  const route = `${req.method} ${pathname}`;
+
+  if (route === 'POST /api/security/v1/oauth/token') return issueToken(req, res);
+  if (route === 'GET /simulator/shipments') return send(res, 200, { shipments: [...shipments.values()] });
+  if (route === 'POST /simulator/push') return push(await readJson(req), res);
+
+  if (pathname.startsWith('/api/') && !authorized(req)) {
+    return upsError(res, 401, '250002', 'Invalid Authentication Information.');
+  }
+
+  if (route === 'POST /api/shipments/v1/ship') return ship(await readJson(req), res);
+  if (route === 'POST /api/addressvalidation/v1/1') return validateAddress(await readJson(req), res);
+
+  let match = pathname.match(/^\/api\/shipments\/v1\/void\/cancel\/(\w+)$/);
+  if (req.method === 'DELETE' && match) return voidShipment(match[1], res);
+  match = pathname.match(/^\/api\/track\/v1\/details\/(\w+)$/);
+  if (req.method === 'GET' && match) return track(match[1], res);
+
+  send(res, 404, { error: `Not simulated: ${route}` });
+}
+
+function start(port = PORT) {
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error('❌ Simulator error:', error);
+      send(res, 500, { error: error.message });
+    });
+  });
+  return new Promise(resolve => server.listen(port, () => resolve(server)));
+}
+
+if (require.main === module) {
+  start().then(() => {
+    console.log(`🚚 UPS simulator on http://localhost:${PORT}/api - webhooks go to ${APP_URL}`);
+    if (!WEBHOOK_CREDENTIAL) console.warn('⚠️  UPS_WEBHOOK_CREDENTIAL is not set - the app will reject pushed events');
+  });
+}
+
+module.exports = { start, trackingNumberFor, labelImage, SEQUENCES, STEPS };
@@ -131,7 +131,7 @@ function testConfigurationFiles() {
   console.log('📁 Test 4: Configuration Files');
   
   const requiredFiles = [
-    'src/lib/services/upsService.ts',
+    'src/lib/shipping/upsCarrier.ts',
     'src/app/api/webhooks/ups-tracking/route.ts',
     'src/app/api/admin/ship-lead/route.ts',
     'src/lib/services/notificationService.ts',
@@ -24,6 +24,9 @@ import {
   Upload,
   CheckCircle,
   Analytics as AnalyticsIcon,
+  Rule as RuleIcon,
+  FactCheck as FactCheckIcon,
+  TableChart as TableChartIcon,
 } from '@mui/icons-material';
 import { AnalyticsDashboard } from '@/components/dashboard/AnalyticsDashboard';
 import useStore from '@/store/useStore';
@@ -32,8 +35,11 @@ import { apiClient } from '@/lib/api/client';
 import { VendorManagement } from '@/components/admin/VendorManagement';
 import { AgentManagement } from '@/components/admin/AgentManagement';
 import { VendorMetricsDisplay } from '@/components/admin/VendorMetricsDisplay';
+import { DuplicateRuleManagement } from '@/components/admin/DuplicateRuleManagement';
+import { MatchReviewQueue } from '@/components/admin/MatchReviewQueue';
 import { PortalLayout } from '@/components/layout/PortalLayout';
-import DragDropUpload from '../../../components/DragDropUpload';
+import { ColumnMappingManagement } from '@/components/admin/ColumnMappingManagement';
+import DragDropUpload, { appendUploadOptions, UploadOptions } from '../../../components/DragDropUpload';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -217,12 +223,11 @@ export default function AdminDashboard() {
         ...prev,
         'reset': { 
           loading: false, 
-          message: `✅ ${result.message}\n\nDeleted ${result.summary.totalRecordsDeleted} records:\n` +
-                   `• ${result.deletionStats.leads} leads\n` +
-                   `• ${result.deletionStats.vendors} vendors\n` +
-                   `• ${result.deletionStats.fileUploads} file uploads\n` +
-                   `• ${result.deletionStats.leadAlerts} alerts\n\n` +
-                   `✅ Created fresh BULK_UPLOAD vendor\n` +
+          message: `✅ ${result.message}\n\nCleared ${result.summary.totalRecordsDeleted} records:\n` +
+                   `• ${result.deletionStats.leads} leads soft-deleted (restorable)\n` +
+                   `• ${result.deletionStats.vendorsDeactivated} vendors deactivated\n` +
+                   `• ${result.deletionStats.fileUploads} file uploads\n\n` +
+                   `✅ BULK_UPLOAD vendor active\n` +
                    `✅ Preserved user accounts and settings\n\n` +
                    `🎉 System is ready for clean data upload!`,
           error: false 
@@ -242,7 +247,7 @@ export default function AdminDashboard() {
     }
   };
 
-  const handleFileUpload = async (uploadType: string, file: File) => {
+  const handleFileUpload = async (uploadType: string, file: File, options?: UploadOptions) => {
     // Update loading state
     setUploadStates(prev => ({
       ...prev,
@@ -252,6 +257,7 @@ export default function AdminDashboard() {
     try {
       const formData = new FormData();
       formData.append('file', file);
+      appendUploadOptions(formData, options);
 
       // Get JWT token from localStorage
       const token = localStorage.getItem('authToken');
@@ -589,6 +595,21 @@ export default function AdminDashboard() {
             iconPosition="start"
             label="Vendor Metrics"
           />
+          <Tab
+            icon={<RuleIcon />}
+            iconPosition="start"
+            label="Duplicate Rules"
+          />
+          <Tab
+            icon={<FactCheckIcon />}
+            iconPosition="start"
+            label="Match Review"
+          />
+          <Tab
+            icon={<TableChartIcon />}
+            iconPosition="start"
+            label="Column Mappings"
+          />
         </Tabs>
       </Paper>
 
@@ -708,7 +729,7 @@ export default function AdminDashboard() {
               loading={uploadStates['bulk-lead'].loading}
               message={uploadStates['bulk-lead'].message}
               error={uploadStates['bulk-lead'].error}
-              onFileUpload={(file: File) => handleFileUpload('bulk-lead', file)}
+              onFileUpload={(file: File, options?: UploadOptions) => handleFileUpload('bulk-lead', file, options)}
               onClear={() => setUploadStates(prev => ({ ...prev, 'bulk-lead': { loading: false, message: '', error: false } }))}
             />
           </Box>
@@ -723,7 +744,7 @@ export default function AdminDashboard() {
               loading={uploadStates['doctor-approval'].loading}
               message={uploadStates['doctor-approval'].message}
               error={uploadStates['doctor-approval'].error}
-              onFileUpload={(file: File) => handleFileUpload('doctor-approval', file)}
+              onFileUpload={(file: File, options?: UploadOptions) => handleFileUpload('doctor-approval', file, options)}
               onClear={() => setUploadStates(prev => ({ ...prev, 'doctor-approval': { loading: false, message: '', error: false } }))}
             />
           </Box>
@@ -738,7 +759,7 @@ export default function AdminDashboard() {
               loading={uploadStates['shipping-report'].loading}
               message={uploadStates['shipping-report'].message}
               error={uploadStates['shipping-report'].error}
-              onFileUpload={(file: File) => handleFileUpload('shipping-report', file)}
+              onFileUpload={(file: File, options?: UploadOptions) => handleFileUpload('shipping-report', file, options)}
               onClear={() => setUploadStates(prev => ({ ...prev, 'shipping-report': { loading: false, message: '', error: false } }))}
             />
           </Box>
@@ -753,7 +774,7 @@ export default function AdminDashboard() {
               loading={uploadStates['kit-return'].loading}
               message={uploadStates['kit-return'].message}
               error={uploadStates['kit-return'].error}
-              onFileUpload={(file: File) => handleFileUpload('kit-return', file)}
+              onFileUpload={(file: File, options?: UploadOptions) => handleFileUpload('kit-return', file, options)}
               onClear={() => setUploadStates(prev => ({ ...prev, 'kit-return': { loading: false, message: '', error: false } }))}
             />
           </Box>
@@ -768,7 +789,7 @@ export default function AdminDashboard() {
               loading={uploadStates['master-data'].loading}
               message={uploadStates['master-data'].message}
               error={uploadStates['master-data'].error}
-              onFileUpload={(file: File) => handleFileUpload('master-data', file)}
+              onFileUpload={(file: File, options?: UploadOptions) => handleFileUpload('master-data', file, options)}
               onClear={() => setUploadStates(prev => ({ ...prev, 'master-data': { loading: false, message: '', error: false } }))}
             />
           </Box>
@@ -783,6 +804,18 @@ export default function AdminDashboard() {
         <VendorMetricsDisplay mode="admin" refreshInterval={15} />
       </TabPanel>
 
+      <TabPanel value={tabValue} index={6}>
+        <DuplicateRuleManagement />
+      </TabPanel>
+
+      <TabPanel value={tabValue} index={7}>
+        <MatchReviewQueue />
+      </TabPanel>
+
+      <TabPanel value={tabValue} index={8}>
+        <ColumnMappingManagement />
+      </TabPanel>
+
       {/* Upload Results Dialog */}
       <Dialog
         open={resultsDialog}
@@ -844,6 +877,12 @@ export default function AdminDashboard() {
                   </Typography>
                 </Paper>
               </Box>
+
+              {uploadResults.results.queuedForReview > 0 && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  {uploadResults.results.queuedForReview} rows could not be matched with confidence and are waiting in the Match Review tab.
+                </Alert>
+              )}
               
               {uploadResults.errors && uploadResults.errors.length > 0 && (
                 <Box>
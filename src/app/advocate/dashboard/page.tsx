@@ -144,7 +144,7 @@ export default function AdvocateDashboard() {
       
       // Get leads assigned to this advocate (include all statuses they might have set)
       const advocateId = String(user.id);
-      const queryUrl = `leads?advocateId=${advocateId}&status=ADVOCATE_REVIEW,QUALIFIED,SENT_TO_CONSULT,DOESNT_QUALIFY,PATIENT_DECLINED,DUPLICATE,COMPLIANCE_ISSUE`;
+      const queryUrl = `leads?advocateId=${advocateId}&status=ADVOCATE_REVIEW,QUALIFIED,SENT_TO_CONSULT,RETURNED`;
       
       // API client returns the data array directly, not the full response object
       const leadsData = await apiClient.get<Lead[]>(queryUrl);
@@ -158,7 +158,7 @@ export default function AdvocateDashboard() {
           pendingReview: leadsData.filter((l: Lead) => l.status === 'ADVOCATE_REVIEW').length,
           qualified: leadsData.filter((l: Lead) => ['QUALIFIED', 'SENT_TO_CONSULT'].includes(l.status)).length,
           completedToday: leadsData.filter((l: Lead) => 
-            ['QUALIFIED', 'SENT_TO_CONSULT', 'DOESNT_QUALIFY', 'PATIENT_DECLINED', 'DUPLICATE', 'COMPLIANCE_ISSUE'].includes(l.status) &&
+            ['QUALIFIED', 'SENT_TO_CONSULT', 'RETURNED'].includes(l.status) &&
             new Date(l.createdAt).toDateString() === new Date().toDateString()
           ).length,
         });
@@ -211,10 +211,7 @@ export default function AdvocateDashboard() {
       case 'ADVOCATE_REVIEW': return 'warning';
       case 'QUALIFIED': return 'success';
       case 'SENT_TO_CONSULT': return 'success';
-      case 'DOESNT_QUALIFY': return 'error';
-      case 'PATIENT_DECLINED': return 'error';
-      case 'DUPLICATE': return 'error';
-      case 'COMPLIANCE_ISSUE': return 'error';
+      case 'RETURNED': return 'error';
       default: return 'default';
     }
   };
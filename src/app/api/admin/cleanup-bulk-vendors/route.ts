@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { ANY_LEAD_STATE } from '@/lib/retention/softDeleteExtension';
 
 export async function POST(request: NextRequest) {
   // Verify admin authentication
@@ -67,9 +68,10 @@ export async function POST(request: NextRequest) {
       if (leadCount > 0) {
         console.log(`📦 Migrating ${leadCount} leads from vendor "${vendor.name}" (${vendor.code}) to BULK_UPLOAD`);
         
-        // Update all leads from this vendor to use BULK_UPLOAD
+        // Update all leads from this vendor to use BULK_UPLOAD - deleted and archived
+        // leads too, otherwise they would keep the vendor from being deleted
         await prisma.lead.updateMany({
-          where: { vendorId: vendor.id },
+          where: { vendorId: vendor.id, ...ANY_LEAD_STATE },
           data: {
             vendorId: bulkUploadVendor.id,
             vendorCode: 'BULK_UPLOAD'
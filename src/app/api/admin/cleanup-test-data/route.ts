@@ -9,6 +9,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: authResult.error }, { status: authResult.status });
   }
 
+  const actorId = authResult.user!.userId;
+
   try {
     console.log('🧹 Starting test data cleanup via API...');
     
@@ -29,28 +31,15 @@ export async function POST(request: NextRequest) {
         teams: await tx.team.count()
       };
 
-      // 2. Delete related data first (due to foreign key constraints)
-      
-      // Delete lead alerts
-      const deletedAlerts = await tx.leadAlert.deleteMany({});
-      
-      // Delete compliance checklists
-      const deletedChecklists = await tx.complianceChecklist.deleteMany({});
-      
-      // Delete contact attempts
-      const deletedAttempts = await tx.contactAttempt.deleteMany({});
-      
-      // Delete callbacks
-      const deletedCallbacks = await tx.callback.deleteMany({});
-      
-      // Delete file uploads
+      // 2. Delete upload records and metrics
       const deletedUploads = await tx.fileUpload.deleteMany({});
-      
-      // Delete daily metrics
       const deletedMetrics = await tx.dailyMetrics.deleteMany({});
 
-      // 3. Delete all leads
-      const deletedLeads = await tx.lead.deleteMany({});
+      // 3. Soft-delete all leads - their alerts, checklists, attempts and callbacks stay with them
+      const deletedLeads = await tx.lead.updateMany({
+        where: { deletedAt: null },
+        data: { deletedAt: new Date(), deletedById: actorId, deletionReason: 'Test data cleanup' }
+      });
 
       // 4. Clean up test vendors
       const testVendorPatterns = ['TEST', 'DEMO', 'SAMPLE', 'BASELINE', 'EXAMPLE'];
@@ -64,11 +53,11 @@ export async function POST(request: NextRequest) {
         }
       });
       
-      let deletedVendorsCount = 0;
-      for (const vendor of testVendors) {
-        await tx.vendor.delete({ where: { id: vendor.id } });
-        deletedVendorsCount++;
-      }
+      // Deactivate rather than delete - retained leads still reference them
+      const deactivatedVendors = await tx.vendor.updateMany({
+        where: { id: { in: testVendors.map(vendor => vendor.id) } },
+        data: { isActive: false }
+      });
 
       // 5. Clean up test users (keep admin users)
       const testUsers = await tx.user.findMany({
@@ -90,11 +79,10 @@ export async function POST(request: NextRequest) {
         }
       });
       
-      let deletedUsersCount = 0;
-      for (const user of testUsers) {
-        await tx.user.delete({ where: { id: user.id } });
-        deletedUsersCount++;
-      }
+      const deactivatedUsers = await tx.user.updateMany({
+        where: { id: { in: testUsers.map(user => user.id) } },
+        data: { isActive: false }
+      });
 
       // 6. Clean up test teams
       const testTeams = await tx.team.findMany({
@@ -107,11 +95,14 @@ export async function POST(request: NextRequest) {
         }
       });
       
-      let deletedTeamsCount = 0;
-      for (const team of testTeams) {
-        await tx.team.delete({ where: { id: team.id } });
-        deletedTeamsCount++;
-      }
+      // Users keep their accounts, so detach them before removing the team
+      await tx.user.updateMany({
+        where: { teamId: { in: testTeams.map(team => team.id) } },
+        data: { teamId: null }
+      });
+      const deletedTeams = await tx.team.deleteMany({
+        where: { id: { in: testTeams.map(team => team.id) } }
+      });
 
       // Final counts
       const finalCounts = {
@@ -133,14 +124,12 @@ export async function POST(request: NextRequest) {
         deletedCounts: {
           leads: deletedLeads.count,
           fileUploads: deletedUploads.count,
-          contactAttempts: deletedAttempts.count,
-          callbacks: deletedCallbacks.count,
-          complianceChecklists: deletedChecklists.count,
-          leadAlerts: deletedAlerts.count,
           dailyMetrics: deletedMetrics.count,
-          vendors: deletedVendorsCount,
-          users: deletedUsersCount,
-          teams: deletedTeamsCount
+          teams: deletedTeams.count
+        },
+        deactivatedCounts: {
+          vendors: deactivatedVendors.count,
+          users: deactivatedUsers.count
         }
       };
     });
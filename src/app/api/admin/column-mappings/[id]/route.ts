@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import {
+  ColumnMappingService,
+  ColumnMappingError,
+  columnMappingProfileSchema
+} from '@/lib/services/columnMappingService';
+
+const columnMappingProfileUpdateSchema = columnMappingProfileSchema.partial();
+
+// PUT /api/admin/column-mappings/[id] - Update a mapping profile
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const { id } = params;
+    const body = await request.json();
+    const validatedData = columnMappingProfileUpdateSchema.parse(body);
+
+    const existingProfile = await prisma.columnMappingProfile.findUnique({ where: { id } });
+    if (!existingProfile) {
+      return NextResponse.json(
+        { error: 'Column mapping profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const profile = await ColumnMappingService.updateProfile(id, validatedData);
+    console.log(`🗂️ Column mapping profile updated: "${profile.name}" by ${authResult.user?.email}`);
+
+    return NextResponse.json({ success: true, data: profile });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ColumnMappingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error updating column mapping profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to update column mapping profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/column-mappings/[id] - Delete a mapping profile
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const { id } = params;
+
+    const existingProfile = await prisma.columnMappingProfile.findUnique({ where: { id } });
+    if (!existingProfile) {
+      return NextResponse.json(
+        { error: 'Column mapping profile not found' },
+        { status: 404 }
+      );
+    }
+
+    await ColumnMappingService.deleteProfile(id);
+    console.log(`🗂️ Column mapping profile deleted: "${existingProfile.name}" by ${authResult.user?.email}`);
+
+    return NextResponse.json({ success: true, message: 'Column mapping profile deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting column mapping profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete column mapping profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { FileUploadType } from '@prisma/client';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { ColumnMappingService } from '@/lib/services/columnMappingService';
+
+const detectSchema = z.object({
+  uploadType: z.nativeEnum(FileUploadType),
+  // Header row of the file - headers only, never row values
+  headers: z.array(z.string()).min(1, 'At least one header is required')
+});
+
+// POST /api/admin/column-mappings/detect - Pick the best profile for a file's headers
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const body = await request.json();
+    const { uploadType, headers } = detectSchema.parse(body);
+
+    const detection = await ColumnMappingService.detect(uploadType, headers);
+    console.log(`🗂️ Column mapping detection for ${uploadType}: ${detection.profile ? `profile "${detection.profile.name}"` : 'no profile'}, ${detection.missingRequired.length} required fields missing`);
+
+    return NextResponse.json({ success: true, data: detection });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error detecting column mapping:', error);
+    return NextResponse.json(
+      { error: 'Failed to detect column mapping' },
+      { status: 500 }
+    );
+  }
+}
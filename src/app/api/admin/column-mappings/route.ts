@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { FileUploadType } from '@prisma/client';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import {
+  ColumnMappingService,
+  ColumnMappingError,
+  columnMappingProfileSchema,
+  UPLOAD_FIELDS
+} from '@/lib/services/columnMappingService';
+
+// GET /api/admin/column-mappings - List mapping profiles and the fields each upload type reads
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const uploadTypeParam = request.nextUrl.searchParams.get('uploadType');
+    const uploadType = uploadTypeParam ? z.nativeEnum(FileUploadType).parse(uploadTypeParam) : undefined;
+
+    const profiles = await ColumnMappingService.listProfiles(uploadType);
+    return NextResponse.json({ success: true, data: { profiles, fields: UPLOAD_FIELDS } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid upload type', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching column mapping profiles:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch column mapping profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/column-mappings - Create a mapping profile
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = columnMappingProfileSchema.parse(body);
+
+    const profile = await ColumnMappingService.createProfile(validatedData, authResult.user?.userId);
+    console.log(`🗂️ Column mapping profile created: "${profile.name}" (${profile.uploadType}) by ${authResult.user?.email}`);
+
+    return NextResponse.json({ success: true, data: profile }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ColumnMappingError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error creating column mapping profile:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create column mapping profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { DuplicateRuleError, DuplicateRuleService, duplicateRuleSchema } from '@/lib/services/duplicateRuleService';
+
+const duplicateRuleUpdateSchema = duplicateRuleSchema.partial();
+
+// PUT /api/admin/duplicate-rules/[id] - Update a duplicate rule
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const { id } = params;
+    const body = await request.json();
+    const validatedData = duplicateRuleUpdateSchema.parse(body);
+
+    const existingRule = await prisma.duplicateRule.findUnique({ where: { id } });
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: 'Duplicate rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const rule = await DuplicateRuleService.updateRule(id, validatedData);
+    console.log(`📏 Duplicate rule updated: "${rule.name}" by ${authResult.user?.email}`);
+
+    return NextResponse.json({ success: true, data: rule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating duplicate rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update duplicate rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/duplicate-rules/[id] - Delete a duplicate rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const { id } = params;
+
+    const existingRule = await prisma.duplicateRule.findUnique({ where: { id } });
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: 'Duplicate rule not found' },
+        { status: 404 }
+      );
+    }
+
+    await DuplicateRuleService.deleteRule(id);
+    console.log(`📏 Duplicate rule deleted: "${existingRule.name}" by ${authResult.user?.email}`);
+
+    return NextResponse.json({ success: true, message: 'Duplicate rule deleted successfully' });
+  } catch (error) {
+    if (error instanceof DuplicateRuleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error deleting duplicate rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete duplicate rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { DuplicateRuleService, duplicateRuleSchema } from '@/lib/services/duplicateRuleService';
+
+// GET /api/admin/duplicate-rules - List duplicate rules in evaluation order
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const rules = await DuplicateRuleService.listRules();
+    return NextResponse.json({ success: true, data: rules });
+  } catch (error) {
+    console.error('Error fetching duplicate rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch duplicate rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/duplicate-rules - Create a duplicate rule
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = duplicateRuleSchema.parse(body);
+
+    const rule = await DuplicateRuleService.createRule(validatedData);
+    console.log(`📏 Duplicate rule created: "${rule.name}" (${rule.action}) by ${authResult.user?.email}`);
+
+    return NextResponse.json({ success: true, data: rule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating duplicate rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create duplicate rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { TestType } from '@prisma/client';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { DuplicateRuleService, duplicateRuleSchema } from '@/lib/services/duplicateRuleService';
+import { mbiSchema } from '@/lib/utils/mbi';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+
+const simulateSchema = z.object({
+  mbi: mbiSchema,
+  // Omit to simulate every test type
+  testType: z.nativeEnum(TestType).optional(),
+  // Draft rules to try instead of the saved ones
+  rules: z.array(duplicateRuleSchema.extend({ id: z.string().optional() })).optional()
+});
+
+// POST /api/admin/duplicate-rules/simulate - Show what the duplicate rules decide for an MBI
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const body = await request.json();
+    const { mbi, testType, rules: draftRules } = simulateSchema.parse(body);
+
+    const [rules, ordersByMbi] = await Promise.all([
+      draftRules
+        ? Promise.resolve(draftRules.map(rule => ({ ...rule, description: rule.description ?? null })))
+        : DuplicateRuleService.getActiveRules(),
+      DuplicateRuleService.loadExistingOrders([mbi])
+    ]);
+    const existingOrders = ordersByMbi.get(mbi) || [];
+
+    const testTypes = testType ? [testType] : Object.values(TestType);
+    const results = testTypes.map(type => ({
+      testType: type,
+      ...DuplicateRuleService.evaluateOrders(rules, existingOrders, type)
+    }));
+
+    console.log(`🧪 Duplicate rule simulation for MBI ${PhiEncryption.maskMBI(mbi)}: ${results.map(r => `${r.testType}=${r.status}`).join(', ')}`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        mbi,
+        rulesSource: draftRules ? 'draft' : 'saved',
+        rulesEvaluated: rules.filter(rule => rule.isActive).length,
+        existingOrders: existingOrders.length,
+        results
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error simulating duplicate rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to simulate duplicate rules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { LeadRetentionService, LeadRetentionError } from '@/lib/services/leadRetentionService';
+
+// POST /api/admin/leads/[id]/restore - Bring a deleted or archived lead back
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const lead = await LeadRetentionService.restore(params.id, authResult.user!.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: { id: lead.id, status: lead.status, restoredAt: lead.restoredAt }
+    });
+  } catch (error) {
+    if (error instanceof LeadRetentionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error restoring lead:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore lead' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { LeadRetentionService, LeadRetentionError } from '@/lib/services/leadRetentionService';
+
+const deleteSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(500)
+});
+
+// DELETE /api/admin/leads/[id] - Soft-delete a lead; it can be restored later
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const body = await request.json();
+    const { reason } = deleteSchema.parse(body);
+
+    const lead = await LeadRetentionService.softDelete(params.id, authResult.user!.userId, reason);
+
+    return NextResponse.json({
+      success: true,
+      data: { id: lead.id, deletedAt: lead.deletedAt, deletionReason: lead.deletionReason }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof LeadRetentionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error deleting lead:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete lead' },
+      { status: 500 }
+    );
+  }
+}
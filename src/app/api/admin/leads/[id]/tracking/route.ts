@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { TrackingEventService } from '@/lib/services/trackingEventService';
+import { CarrierApiError } from '@/lib/shipping/shippingCarrier';
+
+// POST /api/admin/leads/[id]/tracking - Pull the lead's tracking from its carrier
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const result = await TrackingEventService.sync(params.id);
+    if (!result) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: result.lead.id,
+        status: result.lead.status,
+        carrier: result.lead.shippingCarrier,
+        recorded: result.recorded,
+        statusChange: result.statusChange
+      }
+    });
+  } catch (error) {
+    if (error instanceof CarrierApiError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+
+    console.error('Error syncing lead tracking:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync tracking' },
+      { status: 500 }
+    );
+  }
+}
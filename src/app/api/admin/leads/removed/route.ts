@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { LeadRetentionService, RemovedLeadTier } from '@/lib/services/leadRetentionService';
+
+// GET /api/admin/leads/removed?tier=deleted|archived - Leads hidden from the working set
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const tier: RemovedLeadTier = searchParams.get('tier') === 'archived' ? 'archived' : 'deleted';
+    const page = Math.max(parseInt(searchParams.get('page') || '1'), 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50'), 1), 200);
+
+    const { leads, total } = await LeadRetentionService.listRemoved(tier, page, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: { tier, leads, total, page, limit }
+    });
+  } catch (error) {
+    console.error('Error fetching removed leads:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch removed leads' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { LeadRetentionService } from '@/lib/services/leadRetentionService';
+
+const archiveSchema = z.object({
+  dryRun: z.boolean().optional()
+});
+
+// GET /api/admin/leads/retention - Retention policy and lead counts per tier
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const summary = await LeadRetentionService.getSummary();
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error fetching retention summary:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch retention summary' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/leads/retention - Archive leads past the retention period
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { dryRun } = archiveSchema.parse(body);
+
+    const result = await LeadRetentionService.archiveExpired({ dryRun });
+    console.log(`📦 Retention run by ${authResult.user?.email}${dryRun ? ' (dry run)' : ''}: ${result.eligible} eligible`);
+
+    return NextResponse.json({ success: true, data: { ...result, dryRun: !!dryRun } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error archiving leads:', error);
+    return NextResponse.json(
+      { error: 'Failed to archive leads' },
+      { status: 500 }
+    );
+  }
+}
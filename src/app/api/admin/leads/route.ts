@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { PatientService } from '@/lib/services/patientService';
+import { validateMBI, describeMBIErrors } from '@/lib/utils/mbi';
 
 export async function GET(request: NextRequest) {
   try {
@@ -133,10 +135,18 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
 
+    const mbiCheck = validateMBI(body.mbi);
+    if (!mbiCheck.valid) {
+      return NextResponse.json(
+        { error: `Invalid MBI: ${describeMBIErrors(mbiCheck)}` },
+        { status: 400 }
+      );
+    }
+
     // Create new lead (for admin purposes)
     const lead = await prisma.lead.create({
-      data: {
-        mbi: body.mbi,
+      data: await PatientService.withPatient({
+        mbi: mbiCheck.normalized,
         firstName: body.firstName,
         lastName: body.lastName,
         dateOfBirth: body.dateOfBirth,
@@ -151,7 +161,7 @@ export async function POST(request: NextRequest) {
         status: body.status || 'SUBMITTED',
         testType: body.testType,
         contactAttempts: 0,
-      },
+      }),
       include: {
         vendor: {
           select: {
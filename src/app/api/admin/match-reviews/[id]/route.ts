@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { MatchReviewService, MatchReviewError } from '@/lib/services/matchReviewService';
+import { InvalidLeadTransitionError } from '@/lib/services/leadLifecycle';
+
+const resolveSchema = z.discriminatedUnion('action', [
+  // Apply the row to a suggested candidate or any other lead
+  z.object({ action: z.literal('CONFIRM'), leadId: z.string().min(1) }),
+  z.object({ action: z.literal('DISCARD'), note: z.string().max(500).optional() })
+]);
+
+// POST /api/admin/match-reviews/[id] - Confirm a match or discard the row
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  const actorId = authResult.user!.userId;
+
+  try {
+    const { id } = params;
+    const body = await request.json();
+    const resolution = resolveSchema.parse(body);
+
+    if (resolution.action === 'CONFIRM') {
+      const { review, result } = await MatchReviewService.confirm(id, resolution.leadId, actorId);
+      console.log(`🧐 Match review ${id} confirmed by ${authResult.user?.email}`);
+
+      return NextResponse.json({
+        success: true,
+        data: { review, leadStatus: result.lead.status, warning: result.warning }
+      });
+    }
+
+    const review = await MatchReviewService.discard(id, actorId, resolution.note);
+    console.log(`🧐 Match review ${id} discarded by ${authResult.user?.email}`);
+
+    return NextResponse.json({ success: true, data: { review } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof MatchReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidLeadTransitionError) {
+      // The chosen lead cannot take this update, e.g. a kit return for an order that never shipped
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Error resolving match review:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve match review' },
+      { status: 500 }
+    );
+  }
+}
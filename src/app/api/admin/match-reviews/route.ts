@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { FileUploadType, MatchReviewStatus } from '@prisma/client';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { MatchReviewService } from '@/lib/services/matchReviewService';
+
+const listQuerySchema = z.object({
+  status: z.nativeEnum(MatchReviewStatus).optional(),
+  uploadType: z.nativeEnum(FileUploadType).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional()
+});
+
+// GET /api/admin/match-reviews - List upload rows waiting for a match decision
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const url = new URL(request.url);
+    const filters = listQuerySchema.parse({
+      status: url.searchParams.get('status') || 'PENDING',
+      uploadType: url.searchParams.get('uploadType') || undefined,
+      page: url.searchParams.get('page') || undefined,
+      limit: url.searchParams.get('limit') || undefined
+    });
+
+    const data = await MatchReviewService.list(filters);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching match reviews:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch match reviews' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { LeadRetentionService } from '@/lib/services/leadRetentionService';
 
 export async function POST(request: NextRequest) {
   // Verify admin authentication
@@ -12,59 +13,42 @@ export async function POST(request: NextRequest) {
   try {
     console.log('🧹 Starting comprehensive system data reset...');
 
-    // Track what we're deleting for the response
+    // Leads are soft-deleted so the orders and their history stay on file for retention
     const deletionStats = {
-      leadAlerts: 0,
-      complianceChecklists: 0,
-      contactAttempts: 0,
-      callbacks: 0,
       leads: 0,
       fileUploads: 0,
       dailyMetrics: 0,
-      vendors: 0
+      vendorsDeactivated: 0
     };
 
-    // Step 1: Delete all lead-related data (cascading deletes)
-    console.log('🗑️ Deleting lead alerts...');
-    const deletedAlerts = await prisma.leadAlert.deleteMany({});
-    deletionStats.leadAlerts = deletedAlerts.count;
+    // Step 1: Soft-delete all leads (alerts, checklists, attempts and callbacks stay with them)
+    console.log('🗑️ Soft-deleting all leads...');
+    deletionStats.leads = await LeadRetentionService.softDeleteMany({}, authResult.user!.userId, 'System data reset');
 
-    console.log('🗑️ Deleting compliance checklists...');
-    const deletedChecklists = await prisma.complianceChecklist.deleteMany({});
-    deletionStats.complianceChecklists = deletedChecklists.count;
-
-    console.log('🗑️ Deleting contact attempts...');
-    const deletedContactAttempts = await prisma.contactAttempt.deleteMany({});
-    deletionStats.contactAttempts = deletedContactAttempts.count;
-
-    console.log('🗑️ Deleting callbacks...');
-    const deletedCallbacks = await prisma.callback.deleteMany({});
-    deletionStats.callbacks = deletedCallbacks.count;
-
-    // Step 2: Delete all leads
-    console.log('🗑️ Deleting all leads...');
-    const deletedLeads = await prisma.lead.deleteMany({});
-    deletionStats.leads = deletedLeads.count;
-
-    // Step 3: Delete file uploads
+    // Step 2: Delete file uploads
     console.log('🗑️ Deleting file uploads...');
     const deletedFileUploads = await prisma.fileUpload.deleteMany({});
     deletionStats.fileUploads = deletedFileUploads.count;
 
-    // Step 4: Delete daily metrics
+    // Step 3: Delete daily metrics
     console.log('🗑️ Deleting daily metrics...');
     const deletedMetrics = await prisma.dailyMetrics.deleteMany({});
     deletionStats.dailyMetrics = deletedMetrics.count;
 
-    // Step 5: Delete all vendors (we'll recreate BULK_UPLOAD later)
-    console.log('🗑️ Deleting all vendors...');
-    const deletedVendors = await prisma.vendor.deleteMany({});
-    deletionStats.vendors = deletedVendors.count;
-
-    // Step 6: Create the BULK_UPLOAD vendor for future use
-    console.log('✅ Creating BULK_UPLOAD vendor...');
-    const bulkUploadVendor = await prisma.vendor.create({
-      data: {
+    // Step 4: Deactivate all vendors - retained leads still reference them
+    console.log('🚫 Deactivating all vendors...');
+    const deactivatedVendors = await prisma.vendor.updateMany({
+      where: { code: { not: 'BULK_UPLOAD' }, isActive: true },
+      data: { isActive: false }
+    });
+    deletionStats.vendorsDeactivated = deactivatedVendors.count;
+
+    // Step 5: Make sure the BULK_UPLOAD vendor exists for future uploads
+    console.log('✅ Activating BULK_UPLOAD vendor...');
+    const bulkUploadVendor = await prisma.vendor.upsert({
+      where: { code: 'BULK_UPLOAD' },
+      update: { isActive: true },
+      create: {
         name: 'BULK_UPLOAD',
         code: 'BULK_UPLOAD',
         staticCode: 'BULK_UPLOAD',
@@ -88,6 +72,7 @@ export async function POST(request: NextRequest) {
         preserved: [
           'User accounts',
           'Teams',
+          'Soft-deleted leads and their history (restorable)',
           'Authentication settings',
           'System configuration'
         ]
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Carrier } from '@prisma/client';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { KitShipmentService, MAX_BULK_SHIPMENT } from '@/lib/services/kitShipmentService';
+
+const bulkShipSchema = z.object({
+  leadIds: z.array(z.string().min(1)).min(1).max(MAX_BULK_SHIPMENT).optional(),
+  // Ship the leads ready to ship that match, longest approved first
+  filter: z.object({
+    vendorCode: z.string().min(1).optional(),
+    carrier: z.nativeEnum(Carrier).optional(),
+    approvedBefore: z.coerce.date().optional(),
+    limit: z.number().int().min(1).max(MAX_BULK_SHIPMENT).default(MAX_BULK_SHIPMENT)
+  }).optional()
+}).refine(body => !body.leadIds !== !body.filter, 'Send either leadIds or a filter');
+
+// POST /api/admin/ship-lead/bulk - Ship many approved leads, with one label sheet and a packing manifest
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const body = bulkShipSchema.parse(await request.json());
+    const leads = body.leadIds ?? await KitShipmentService.readyToShip(body.filter);
+    if (leads.length === 0) {
+      return NextResponse.json({ error: 'No leads ready to ship match the filter' }, { status: 404 });
+    }
+
+    console.log(`🚚 Bulk shipping ${leads.length} leads for ${authResult.user?.email}`);
+    const result = await KitShipmentService.shipMany(leads, authResult.user?.userId);
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.shipped} of ${result.results.length} kits shipped`,
+      data: {
+        shipped: result.shipped,
+        failed: result.failed,
+        results: result.results,
+        // Base64 PDF, a 4x6 page per label
+        labelSheet: result.labelSheet?.toString('base64') ?? null,
+        manifestCsv: result.manifestCsv
+      }
+    }, {
+      // The manifest holds patient names and addresses
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Bulk ship error:', error);
+    return NextResponse.json(
+      { error: 'Failed to ship leads', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { upsService } from '@/lib/services/upsService';
+import { carrierForLead } from '@/lib/shipping/carriers';
+import { InvalidLeadTransitionError } from '@/lib/services/leadLifecycle';
+import { KitShipmentService, KitShipmentError } from '@/lib/services/kitShipmentService';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
 
 export async function POST(request: NextRequest) {
@@ -20,126 +22,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Find the lead and verify it's approved
-    const lead = await prisma.lead.findUnique({
-      where: { id: leadId }
-    });
-
-    if (!lead) {
-      return NextResponse.json(
-        { error: 'Lead not found' },
-        { status: 404 }
-      );
-    }
-
-    if (lead.status !== 'APPROVED') {
-      return NextResponse.json(
-        { error: 'Lead must be in APPROVED status to ship' },
-        { status: 400 }
-      );
-    }
-
-    if (lead.trackingNumber) {
-      return NextResponse.json(
-        { error: 'Lead already has a tracking number' },
-        { status: 400 }
-      );
-    }
-
-    console.log('🚚 Auto-shipping approved lead:', leadId);
-
-    // Create UPS shipping label
-    const shippingResult = await upsService.createShippingLabel({
-      leadId: lead.id,
-      recipient: {
-        name: `${lead.firstName} ${lead.lastName}`,
-        address: {
-          street: lead.street,
-          city: lead.city,
-          state: lead.state,
-          zipCode: lead.zipCode
-        },
-        phone: lead.phone
-      },
-      package: {
-        weight: '1.0',
-        dimensions: '12x8x4',
-        description: 'Medical Test Kit'
-      }
-    });
-
-    if (!shippingResult.success) {
-      console.error('❌ Shipping label creation failed:', shippingResult.error);
-      return NextResponse.json(
-        { error: `Shipping failed: ${shippingResult.error}` },
-        { status: 500 }
-      );
-    }
-
-    // Update lead with shipping information
-    const updatedLead = await prisma.lead.update({
-      where: { id: leadId },
-      data: {
-        status: 'SHIPPED',
-        trackingNumber: shippingResult.trackingNumber,
-        inboundTrackingNumber: shippingResult.returnTrackingNumber,
-        kitShippedDate: new Date(),
-        lastTrackingUpdate: new Date(),
-        collectionsNotes: lead.collectionsNotes 
-          ? `${lead.collectionsNotes}\n\n📦 SHIPPED: ${new Date().toISOString()}\nTracking: ${shippingResult.trackingNumber}\nReturn Tracking: ${shippingResult.returnTrackingNumber}`
-          : `📦 SHIPPED: ${new Date().toISOString()}\nTracking: ${shippingResult.trackingNumber}\nReturn Tracking: ${shippingResult.returnTrackingNumber}`
-      }
-    });
-
-    // Create initial tracking event
-    await prisma.trackingEvent.create({
-      data: {
-        leadId: lead.id,
-        trackingNumber: shippingResult.trackingNumber!,
-        eventType: 'OUTBOUND',
-        activityType: 'S',
-        activityCode: 'SH',
-        description: 'SHIPPED - Label Created',
-        location: 'Atlanta, GA 30309',
-        eventDate: new Date(),
-        eventTime: new Date().toTimeString().substring(0, 8)
-      }
-    });
-
-    // Create return tracking event
-    if (shippingResult.returnTrackingNumber) {
-      await prisma.trackingEvent.create({
-        data: {
-          leadId: lead.id,
-          trackingNumber: shippingResult.returnTrackingNumber,
-          eventType: 'INBOUND',
-          activityType: 'S',
-          activityCode: 'RT',
-          description: 'RETURN LABEL CREATED',
-          location: 'Atlanta, GA 30309',
-          eventDate: new Date(),
-          eventTime: new Date().toTimeString().substring(0, 8)
-        }
-      });
-    }
-
-    // Create notification alert for collections team
-    await prisma.leadAlert.create({
-      data: {
-        type: 'DATA_QUALITY',
-        severity: 'MEDIUM',
-        message: `Test kit shipped to ${lead.firstName} ${lead.lastName}. Tracking: ${shippingResult.trackingNumber}`,
-        leadId: lead.id,
-        isAcknowledged: false
-      }
-    });
-
-    console.log('✅ Lead shipped successfully:', {
-      leadId: lead.id,
-      patientName: `${lead.firstName} ${lead.lastName}`,
-      trackingNumber: shippingResult.trackingNumber,
-      returnTrackingNumber: shippingResult.returnTrackingNumber
-    });
+    const { lead, shipment } = await KitShipmentService.ship(leadId, authResult.user?.userId);
 
     // Send patient notification (SMS/Email would go here)
     console.log('📱 Patient notification: Kit shipped to', lead.firstName, lead.lastName);
@@ -148,17 +31,30 @@ export async function POST(request: NextRequest) {
       success: true,
       message: 'Lead shipped successfully',
       data: {
-        leadId: updatedLead.id,
-        status: updatedLead.status,
-        trackingNumber: updatedLead.trackingNumber,
-        returnTrackingNumber: updatedLead.inboundTrackingNumber,
-        kitShippedDate: updatedLead.kitShippedDate,
-        labelUrl: shippingResult.labelUrl,
-        returnLabelUrl: shippingResult.returnLabelUrl
+        leadId: lead.id,
+        status: lead.status,
+        trackingNumber: lead.trackingNumber,
+        returnTrackingNumber: lead.inboundTrackingNumber,
+        kitShippedDate: lead.kitShippedDate,
+        carrier: shipment.carrier,
+        label: shipment.label?.labelImage,
+        labelFormat: shipment.label?.labelFormat,
+        returnLabel: shipment.returnLabel?.labelImage,
+        returnLabelFormat: shipment.returnLabel?.labelFormat
       }
     });
 
   } catch (error) {
+    if (error instanceof KitShipmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidLeadTransitionError) {
+      return NextResponse.json(
+        { error: error.message, from: error.from, to: error.to },
+        { status: 409 }
+      );
+    }
+
     console.error('❌ Auto-ship lead error:', error);
     return NextResponse.json(
       { error: 'Failed to ship lead', details: error instanceof Error ? error.message : 'Unknown error' },
@@ -189,7 +85,9 @@ export async function GET(request: NextRequest) {
         state: true,
         vendorCode: true,
         createdAt: true,
-        doctorApprovalDate: true
+        doctorApprovalDate: true,
+        shippingCarrier: true,
+        vendor: { select: { shippingCarrier: true } }
       },
       orderBy: {
         doctorApprovalDate: 'asc'
@@ -199,7 +97,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       count: readyToShip.length,
-      leads: readyToShip
+      leads: readyToShip.map(({ vendor, ...lead }) => ({ ...lead, carrier: carrierForLead({ ...lead, vendor }) }))
     });
 
   } catch (error) {
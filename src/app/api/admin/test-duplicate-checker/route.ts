@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
 
 // Helper function to check if a status indicates consultation/approval
 function isConsultationStatus(status: string): boolean {
@@ -23,11 +24,12 @@ export async function GET(request: NextRequest) {
   try {
     console.log('🧪 === DUPLICATE CHECKER TEST STARTING ===');
 
-    // Test 1: Get all unique MBIs in the system
+    // Test 1: Get all unique MBIs in the system (grouped by blind index - MBIs are encrypted)
     const uniqueMBIs = await prisma.lead.groupBy({
-      by: ['mbi'],
-      _count: { mbi: true },
-      orderBy: { _count: { mbi: 'desc' } },
+      by: ['mbiHash'],
+      where: { mbiHash: { not: null } },
+      _count: { mbiHash: true },
+      orderBy: { _count: { mbiHash: 'desc' } },
       take: 10 // Top 10 most common MBIs
     });
 
@@ -56,7 +58,7 @@ export async function GET(request: NextRequest) {
     for (const lead of consultedLeads.slice(0, 5)) { // Test top 5 consulted leads
       const sameMbiLeads = await prisma.lead.findMany({
         where: {
-          mbi: lead.mbi,
+          mbiHash: PhiEncryption.blindIndex('mbi', lead.mbi),
           id: { not: lead.id }
         },
         select: {
@@ -241,7 +243,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`🧪 Testing duplicate check for MBI: ${mbi}, Test Type: ${testType}`);
+    console.log(`🧪 Testing duplicate check for MBI: ${PhiEncryption.maskMBI(mbi)}, Test Type: ${testType}`);
 
     // Call the actual duplicate checking API
     const response = await fetch(`${request.nextUrl.origin}/api/leads/check-mbi-duplicate`, {
@@ -256,7 +258,7 @@ export async function POST(request: NextRequest) {
 
     // Get detailed information about existing leads with this MBI
     const existingLeads = await prisma.lead.findMany({
-      where: { mbi },
+      where: { mbiHash: PhiEncryption.blindIndex('mbi', mbi) },
       include: {
         vendor: { select: { name: true, code: true } },
         alerts: {
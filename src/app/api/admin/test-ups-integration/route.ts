@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { upsService } from '@/lib/services/upsService';
+import { getCarrier } from '@/lib/shipping/carriers';
 import { notificationService } from '@/lib/services/notificationService';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
 
@@ -82,7 +82,7 @@ export async function GET(request: NextRequest) {
     // Test 3: Service Validation
     console.log('🚚 Testing UPS service...');
     try {
-      const upsValidation = await upsService.validateConfiguration();
+      const upsValidation = await getCarrier('UPS').validateConfiguration();
       const notificationValidation = await notificationService.validateConfiguration();
 
       if (upsValidation.valid && notificationValidation.valid) {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { UploadRollbackService, UploadRollbackError } from '@/lib/services/uploadRollbackService';
+
+// POST /api/admin/uploads/[id]/rollback - Restore the leads a file upload or batch job changed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const userId = authResult.user?.userId || 'system';
+    const summary = await UploadRollbackService.rollback(params.id, userId);
+    console.log(`↩️ Upload ${params.id} rolled back by ${authResult.user?.email}: ${summary.reverted.length} reverted, ${summary.skipped.length} skipped`);
+
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    if (error instanceof UploadRollbackError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error rolling back upload:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back upload' },
+      { status: 500 }
+    );
+  }
+}
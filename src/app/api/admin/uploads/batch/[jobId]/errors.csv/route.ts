@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { UploadErrorReport } from '@/lib/services/uploadErrorReport';
+
+// GET /api/admin/uploads/batch/[jobId]/errors.csv - The failed rows as uploaded, with the error appended
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const job = await prisma.batchJob.findUnique({
+      where: { id: params.jobId },
+      select: { id: true, fileName: true, errorLog: true }
+    });
+    if (!job) {
+      return NextResponse.json({ error: 'Batch job not found' }, { status: 404 });
+    }
+
+    const csv = UploadErrorReport.toCsv(UploadErrorReport.fromStored(job.errorLog));
+    const baseName = job.fileName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+    console.log(`📄 Error report for batch job ${job.id} downloaded by ${authResult.user?.email}`);
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${baseName}-errors.csv"`,
+        // Failed rows are PHI
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error building batch job error report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build error report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { BatchJobQueue, BatchJobError, batchJobSummary } from '@/lib/services/batchJobQueue';
+
+// POST /api/admin/uploads/batch/[jobId]/pause - Pause a batch job after the chunk in progress
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const job = await BatchJobQueue.pause(params.jobId);
+    console.log(`⏸️ Batch job ${job.id} paused by ${authResult.user?.email}`);
+
+    return NextResponse.json({ success: true, data: batchJobSummary(job) });
+  } catch (error) {
+    if (error instanceof BatchJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error trying to pause batch job:', error);
+    return NextResponse.json(
+      { error: 'Failed to pause batch job' },
+      { status: 500 }
+    );
+  }
+}
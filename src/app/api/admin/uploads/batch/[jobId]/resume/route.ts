@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { BatchJobQueue, BatchJobError, batchJobSummary } from '@/lib/services/batchJobQueue';
+
+// POST /api/admin/uploads/batch/[jobId]/resume - Put a paused batch job back in the queue
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const job = await BatchJobQueue.resume(params.jobId);
+    console.log(`▶️ Batch job ${job.id} resumed by ${authResult.user?.email}`);
+    BatchJobQueue.kick();
+
+    return NextResponse.json({ success: true, data: batchJobSummary(job) });
+  } catch (error) {
+    if (error instanceof BatchJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error trying to resume batch job:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume batch job' },
+      { status: 500 }
+    );
+  }
+}
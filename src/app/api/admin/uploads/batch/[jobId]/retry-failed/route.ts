@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { BatchJobQueue, BatchJobError, batchJobSummary } from '@/lib/services/batchJobQueue';
+
+// POST /api/admin/uploads/batch/[jobId]/retry-failed - Queue a child job with only the rows that failed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const userId = authResult.user?.userId || 'system';
+    const job = await BatchJobQueue.retryFailed(params.jobId, userId);
+    console.log(`🔁 Batch job ${job.id} retries ${job.totalRows} failed rows of ${params.jobId} for ${authResult.user?.email}`);
+    BatchJobQueue.kick();
+
+    return NextResponse.json({ success: true, data: batchJobSummary(job) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BatchJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error trying to retry failed rows of batch job:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry failed rows of batch job' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
-import Papa from 'papaparse';
+import { BatchJobQueue, toBatchRows } from '@/lib/services/batchJobQueue';
 import { BatchProcessor } from '@/lib/services/batchProcessor';
+import { UploadPreviewService } from '@/lib/services/uploadPreviewService';
+import { UploadFileReader, UploadFileError, UploadRowStream, UploadSourceRow } from '@/lib/services/uploadFileReader';
+import { ColumnMappingService, ColumnMappingError } from '@/lib/services/columnMappingService';
+import { UploadFingerprintService, DuplicateUploadError } from '@/lib/services/uploadFingerprintService';
+import { MultipartUpload } from '@/lib/storage/multipartUpload';
+import { getUploadStorage } from '@/lib/storage/uploadStorage';
 
-// Validation schema for the request
+const formFlag = z.enum(['true', 'false']).optional().transform(value => value === 'true');
+
+// Validation schema for the form fields sent with the file (multipart/form-data, file part "file")
 const startBatchSchema = z.object({
   uploadType: z.enum(['BULK_LEAD', 'DOCTOR_APPROVAL', 'SHIPPING_REPORT', 'KIT_RETURN', 'MASTER_DATA']),
-  fileName: z.string(),
-  fileContent: z.string(), // Base64 encoded file content
+  sheet: z.string().optional(), // Workbook sheet to read - the first one when omitted
+  dryRun: formFlag, // Return the per-row plan instead of queueing the job
+  mappingProfileId: z.string().optional(), // Saved column-mapping profile to rename headers with
+  columnMapping: z.string().optional(), // Or a JSON object of field -> header renames picked for this file
+  allowDuplicate: formFlag, // Queue a file that was already uploaded
 });
 
 // Configuration for different upload types
@@ -20,205 +30,131 @@ const UPLOAD_CONFIG = {
   MASTER_DATA: { chunkSize: 500, processingTime: 15 },
 } as const;
 
+// Rows planned by a dry run - matching every row of a large file would outlast the request
+const DRY_RUN_ROW_LIMIT = 1000;
+
+// Rough size of an uploaded row, for the time estimate given before the rows are counted
+const ESTIMATED_BYTES_PER_ROW = 200;
+
+// Largest file the queue accepts
+const MAX_UPLOAD_BYTES = parseInt(process.env.BATCH_UPLOAD_MAX_MB || '200', 10) * 1024 * 1024;
+
 export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    
-    const { uploadType, fileName, fileContent } = startBatchSchema.parse(body);
-
-    // Manual JWT verification (bypassing middleware dependency)
-    const authHeader = request.headers.get('authorization');
-    let userId: string;
-    
-    if (authHeader?.startsWith('Bearer ')) {
-      try {
-        const token = authHeader.substring(7);
-        const jwt = require('jsonwebtoken');
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'healthcare-platform-jwt-secret-2024') as any;
-        userId = decoded.userId;
-      } catch (jwtError) {
-        return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-      }
-    } else {
-      return NextResponse.json({ error: 'No authorization token' }, { status: 401 });
+  // Manual JWT verification (bypassing middleware dependency) - before any of the file is stored
+  const authHeader = request.headers.get('authorization');
+  let userId: string;
+
+  if (authHeader?.startsWith('Bearer ')) {
+    try {
+      const token = authHeader.substring(7);
+      const jwt = require('jsonwebtoken');
+      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'healthcare-platform-jwt-secret-2024') as any;
+      userId = decoded.userId;
+    } catch (jwtError) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
+  } else {
+    return NextResponse.json({ error: 'No authorization token' }, { status: 401 });
+  }
+
+  const storage = getUploadStorage();
+  // Set once the file is stored; removed again unless it ends up on a queued job
+  let storedFileUrl: string | null = null;
+  let queued = false;
+  // Opened for the headers; closed once the request is done with it
+  let file: UploadRowStream | null = null;
 
-    // Decode and parse CSV content
-    const csvContent = Buffer.from(fileContent, 'base64').toString('utf-8');
-    const parseResult = Papa.parse(csvContent, { 
-      header: true, 
-      skipEmptyLines: true,
-      transformHeader: (header: string) => header.trim().toLowerCase()
+  try {
+    // The file streams into upload storage as it arrives
+    const upload = await MultipartUpload.receive(request, { prefix: 'batch', maxBytes: MAX_UPLOAD_BYTES });
+    storedFileUrl = upload.fileUrl;
+    const { fileName } = upload;
+
+    const {
+      uploadType, sheet, dryRun, mappingProfileId, columnMapping, allowDuplicate
+    } = startBatchSchema.parse(upload.fields);
+
+    // Read the stored file back for its headers - the rows are left to the worker, which counts them
+    file = await UploadFileReader.openStream(fileName, storage.open(upload.fileUrl), { sheet });
+    const contentHash = UploadFileReader.contentHash(upload.bytesHash, file.sheet);
+    console.log(`📄 Stored ${file.format} file ${fileName}${file.sheet ? ` (sheet "${file.sheet}")` : ''}: ${upload.bytes} bytes`);
+
+    // Refuse an exact re-upload unless the uploader confirmed it - a preview only warns
+    const duplicateOf = await UploadFingerprintService.check(uploadType, contentHash, { dryRun, allowDuplicate });
+
+    // Resolved once here and stored on the job, so every chunk is read the same way
+    const headerMapping = await ColumnMappingService.resolve(uploadType, file.headers, {
+      profileId: mappingProfileId,
+      mappings: columnMapping
     });
 
-    if (parseResult.errors.length > 0) {
-      return NextResponse.json({ 
-        error: 'Invalid CSV file', 
-        details: parseResult.errors 
-      }, { status: 400 });
+    if (dryRun) {
+      // A preview still reports the file's size, so it reads every row but keeps only the ones it plans
+      const sampleRows: UploadSourceRow[] = [];
+      let totalRows = 0;
+      for await (const row of file.rows) {
+        if (sampleRows.length < DRY_RUN_ROW_LIMIT) sampleRows.push(row);
+        totalRows++;
+      }
+      const planned = await BatchProcessor.planRows(
+        uploadType,
+        fileName,
+        toBatchRows(sampleRows.map(row => row.values), headerMapping.mappings),
+        sampleRows.map(row => row.rowNumber)
+      );
+      return NextResponse.json({
+        success: true,
+        plan: UploadPreviewService.buildPlan(uploadType, fileName, totalRows, planned),
+        duplicateOf
+      });
     }
 
-    const totalRows = parseResult.data.length;
     const config = UPLOAD_CONFIG[uploadType];
-    const totalChunks = Math.ceil(totalRows / config.chunkSize);
-
-    // Store file content (in production, this would be uploaded to S3 or similar)
-    const fileUrl = `temp://${Date.now()}-${fileName}`;
 
-    // Create batch job record
-    const batchJob = await prisma.batchJob.create({
-      data: {
-        type: uploadType,
-        fileName,
-        fileUrl,
-        uploadedById: userId,
-        totalRows,
-        totalChunks,
-        status: 'PENDING',
-        progressMessage: 'Batch job created, preparing to process...',
-      },
+    // The job points at the stored file, so any worker can pick it up
+    const batchJob = await BatchJobQueue.enqueue({
+      type: uploadType,
+      fileName,
+      fileUrl: upload.fileUrl,
+      sheet: file.sheet,
+      uploadedById: userId,
+      chunkSize: config.chunkSize,
+      columnMapping: headerMapping.mappings,
+      contentHash
     });
+    queued = true;
 
-    // In a real production environment, you would trigger a background job here
-    // For now, we'll start processing immediately in the background
-    processBatchJobAsync(batchJob.id, csvContent, config);
+    // Start a worker right away so small jobs finish without waiting for the scheduled run
+    BatchJobQueue.kick();
 
     return NextResponse.json({
       success: true,
       batchJobId: batchJob.id,
-      message: `Batch job started for ${totalRows} rows in ${totalChunks} chunks`,
-      estimatedTime: `${Math.ceil(totalChunks * config.processingTime / 60)} minutes`,
+      message: `Batch job started for ${fileName} in chunks of ${config.chunkSize} rows`,
+      // Estimated from the file size until a worker has counted the rows
+      estimatedTime: `${Math.ceil(upload.bytes / ESTIMATED_BYTES_PER_ROW / config.chunkSize * config.processingTime / 60)} minutes`,
+      mappingProfile: headerMapping.profile?.name ?? null,
     });
 
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 });
+    }
+    if (error instanceof DuplicateUploadError) {
+      return NextResponse.json({ error: error.message, duplicateOf: error.previous }, { status: error.status });
+    }
+    if (error instanceof ColumnMappingError || error instanceof UploadFileError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error starting batch job:', error);
     return NextResponse.json({ 
       error: 'Failed to start batch job',
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
-  }
-}
-
-// Async function to process batch job (this would be a separate service in production)
-async function processBatchJobAsync(
-  batchJobId: string, 
-  csvContent: string,
-  config: { chunkSize: number; processingTime: number }
-) {
-  try {
-    // Update status to processing
-    await prisma.batchJob.update({
-      where: { id: batchJobId },
-      data: { 
-        status: 'PROCESSING',
-        startedAt: new Date(),
-        progressMessage: 'Starting batch processing...'
-      }
-    });
-
-    // Parse CSV again for processing
-    const parseResult = Papa.parse(csvContent, { 
-      header: true, 
-      skipEmptyLines: true,
-      transformHeader: (header: string) => header.trim().toLowerCase()
-    });
-
-    const rows = parseResult.data;
-    const chunks = [];
-    
-    // Split into chunks
-    for (let i = 0; i < rows.length; i += config.chunkSize) {
-      chunks.push(rows.slice(i, i + config.chunkSize));
+  } finally {
+    file?.close();
+    if (storedFileUrl && !queued) {
+      await storage.remove(storedFileUrl).catch(error => console.error(`Error removing stored upload ${storedFileUrl}:`, error));
     }
-
-    let totalProcessed = 0;
-    let totalSucceeded = 0;
-    let totalFailed = 0;
-    const errorLog: any[] = [];
-
-    // Process each chunk
-    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-      const chunk = chunks[chunkIndex];
-      
-      try {
-        // Update progress
-        await prisma.batchJob.update({
-          where: { id: batchJobId },
-          data: {
-            chunksProcessed: chunkIndex + 1,
-            progressMessage: `Processing chunk ${chunkIndex + 1} of ${chunks.length}...`
-          }
-        });
-
-        // Process chunk (this would call the actual upload processing logic)
-        const result = await processChunk(chunk, batchJobId);
-        
-        totalProcessed += chunk.length;
-        totalSucceeded += result.succeeded;
-        totalFailed += result.failed;
-        
-        if (result.errors.length > 0) {
-          errorLog.push({
-            chunkIndex,
-            errors: result.errors
-          });
-        }
-
-        // Small delay to prevent overwhelming the database
-        await new Promise(resolve => setTimeout(resolve, 100));
-
-      } catch (error) {
-        console.error(`Error processing chunk ${chunkIndex}:`, error);
-        totalFailed += chunk.length;
-        errorLog.push({
-          chunkIndex,
-          errors: [error instanceof Error ? error.message : 'Unknown error']
-        });
-      }
-    }
-
-    // Update final status
-    await prisma.batchJob.update({
-      where: { id: batchJobId },
-      data: {
-        status: totalFailed > 0 ? 'COMPLETED' : 'COMPLETED', // You might want 'PARTIAL' status
-        completedAt: new Date(),
-        recordsProcessed: totalProcessed,
-        recordsSucceeded: totalSucceeded,
-        recordsFailed: totalFailed,
-        errorLog: errorLog.length > 0 ? errorLog : undefined,
-        progressMessage: `Completed: ${totalSucceeded} succeeded, ${totalFailed} failed`
-      }
-    });
-
-  } catch (error) {
-    console.error('Error in batch processing:', error);
-    await prisma.batchJob.update({
-      where: { id: batchJobId },
-      data: {
-        status: 'FAILED',
-        completedAt: new Date(),
-        errorLog: [{
-          error: error instanceof Error ? error.message : 'Unknown error'
-        }],
-        progressMessage: 'Batch processing failed'
-      }
-    });
   }
 }
-
-// Process a single chunk using the BatchProcessor service
-async function processChunk(chunk: any[], batchJobId: string) {
-  // Get the batch job to determine the upload type
-  const batchJob = await prisma.batchJob.findUnique({
-    where: { id: batchJobId },
-    select: { type: true }
-  });
-
-  if (!batchJob) {
-    throw new Error('Batch job not found');
-  }
-
-  // Use the BatchProcessor service to process the chunk
-  return await BatchProcessor.processChunk(batchJob.type, chunk, batchJobId);
-} 
\ No newline at end of file
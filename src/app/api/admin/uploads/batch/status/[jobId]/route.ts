@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { BatchJobQueue, BatchJobError } from '@/lib/services/batchJobQueue';
+import { UploadErrorReport } from '@/lib/services/uploadErrorReport';
 
 export async function GET(
   request: NextRequest,
@@ -46,10 +48,12 @@ export async function GET(
       return NextResponse.json({ error: 'Batch job not found' }, { status: 404 });
     }
 
-    // Calculate progress percentage
-    const progressPercentage = batchJob.totalChunks > 0 
-      ? Math.round((batchJob.chunksProcessed / batchJob.totalChunks) * 100)
-      : 0;
+    // Calculate progress percentage - unknown (null) until a worker has counted the rows
+    const progressPercentage = batchJob.totalChunks === null
+      ? null
+      : batchJob.totalChunks > 0
+        ? Math.round((batchJob.chunksProcessed / batchJob.totalChunks) * 100)
+        : 0;
 
     // Calculate time estimates
     const startTime = batchJob.startedAt?.getTime();
@@ -60,7 +64,7 @@ export async function GET(
     if (startTime && batchJob.status === 'PROCESSING') {
       elapsedTime = Math.round((currentTime - startTime) / 1000); // seconds
       
-      if (batchJob.chunksProcessed > 0) {
+      if (batchJob.chunksProcessed > 0 && batchJob.totalChunks !== null) {
         const timePerChunk = elapsedTime / batchJob.chunksProcessed;
         const remainingChunks = batchJob.totalChunks - batchJob.chunksProcessed;
         estimatedTimeRemaining = Math.round(remainingChunks * timePerChunk);
@@ -85,6 +89,15 @@ export async function GET(
       recordsProcessed: batchJob.recordsProcessed,
       recordsSucceeded: batchJob.recordsSucceeded,
       recordsFailed: batchJob.recordsFailed,
+      queuedForReview: batchJob.recordsQueued,
+      
+      // Queue information
+      attempts: batchJob.attempts,
+      maxAttempts: batchJob.maxAttempts,
+      lastHeartbeat: batchJob.heartbeatAt,
+      lastError: batchJob.lastError,
+      // Set when this job re-runs the failed rows of another
+      parentJobId: batchJob.parentJobId,
       
       // Timestamps
       createdAt: batchJob.createdAt,
@@ -95,8 +108,8 @@ export async function GET(
       elapsedTime: elapsedTime ? `${elapsedTime}s` : null,
       estimatedTimeRemaining: estimatedTimeRemaining ? `${estimatedTimeRemaining}s` : null,
       
-      // Error information
-      errorLog: batchJob.errorLog,
+      // Error information - row errors without the row values; /errors.csv has the rows
+      errorLog: UploadErrorReport.forResponse(UploadErrorReport.fromStored(batchJob.errorLog)),
       
       // User information
       uploadedBy: batchJob.uploadedBy,
@@ -155,18 +168,15 @@ export async function POST(
     // Handle different actions
     switch (action) {
       case 'cancel':
-        if (batchJob.status === 'PROCESSING' || batchJob.status === 'PENDING') {
-          await prisma.batchJob.update({
-            where: { id: jobId },
-            data: {
-              status: 'CANCELLED',
-              completedAt: new Date(),
-              progressMessage: 'Batch job cancelled by user',
-            },
-          });
+        // Same as POST /api/admin/uploads/batch/[jobId]/cancel
+        try {
+          await BatchJobQueue.cancel(jobId);
           return NextResponse.json({ success: true, message: 'Batch job cancelled' });
-        } else {
-          return NextResponse.json({ error: 'Cannot cancel completed batch job' }, { status: 400 });
+        } catch (cancelError) {
+          if (cancelError instanceof BatchJobError) {
+            return NextResponse.json({ error: cancelError.message }, { status: 400 });
+          }
+          throw cancelError;
         }
 
       case 'retry':
@@ -179,7 +189,11 @@ export async function POST(
               recordsProcessed: 0,
               recordsSucceeded: 0,
               recordsFailed: 0,
+              recordsQueued: 0,
               errorLog: undefined,
+              attempts: 0,
+              availableAt: new Date(),
+              lastError: null,
               progressMessage: 'Batch job queued for retry',
               startedAt: null,
               completedAt: null,
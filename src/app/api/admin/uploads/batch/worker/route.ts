@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { BatchJobQueue } from '@/lib/services/batchJobQueue';
+
+// Leave headroom under the platform's request timeout
+const DEFAULT_BUDGET_MS = parseInt(process.env.BATCH_WORKER_BUDGET_SECONDS || '50', 10) * 1000;
+
+// Compare in constant time so the secret cannot be guessed from response timings
+function isWorkerSecret(presented: string | null, secret: string): boolean {
+  if (presented === null) return false;
+  const presentedBytes = Buffer.from(presented);
+  const secretBytes = Buffer.from(secret);
+  return presentedBytes.length === secretBytes.length && crypto.timingSafeEqual(presentedBytes, secretBytes);
+}
+
+// POST /api/admin/uploads/batch/worker - Run one worker pass over the batch queue.
+// Called on a schedule (scripts/batch-worker.js or a cron) with x-batch-worker-secret,
+// or by an admin to nudge stuck jobs.
+export async function POST(request: NextRequest) {
+  const workerSecret = process.env.BATCH_WORKER_SECRET;
+  const presentedSecret = request.headers.get('x-batch-worker-secret');
+
+  if (!workerSecret || !isWorkerSecret(presentedSecret, workerSecret)) {
+    const authResult = await verifyAdminAuth(request);
+    if (authResult.error) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+    }
+  }
+
+  try {
+    const summary = await BatchJobQueue.work({ budgetMs: DEFAULT_BUDGET_MS });
+
+    if (summary.recovered > 0 || summary.jobs.length > 0) {
+      console.log(`⚙️ Batch worker ${summary.workerId}: recovered ${summary.recovered}, ran ${summary.jobs.length} jobs`);
+    }
+
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error running batch worker:', error);
+    return NextResponse.json(
+      { error: 'Failed to run batch worker' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
-import { parse } from 'csv-parse/sync';
 import { LeadStatus, FileUploadType } from '@prisma/client';
+import { PatientService } from '@/lib/services/patientService';
+import { MedicalIntakeService, MedicalIntakeInput } from '@/lib/services/medicalIntakeService';
+import { DuplicateRuleService, ExistingTestOrder } from '@/lib/services/duplicateRuleService';
+import { generateMBI, validateMBI, describeMBIErrors } from '@/lib/utils/mbi';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { UploadPreviewService, PlannedRow } from '@/lib/services/uploadPreviewService';
+import { ColumnMappingService, ColumnMappingError } from '@/lib/services/columnMappingService';
+import { UploadFileReader, UploadFileError } from '@/lib/services/uploadFileReader';
+import { UploadErrorReport, UploadRowError } from '@/lib/services/uploadErrorReport';
+import { UploadFingerprintService, DuplicateUploadError } from '@/lib/services/uploadFingerprintService';
+import { UploadRollbackService } from '@/lib/services/uploadRollbackService';
 
 // Utility function to parse dates in various formats
 function parseDate(dateStr: string): Date | null {
@@ -42,23 +52,6 @@ function normalizePhone(phone: string): string {
   return phone.replace(/\D/g, '').slice(-10);
 }
 
-// Generate unique MBI
-function generateMBI(): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let mbi = '';
-  
-  // First character must be numeric (1-9)
-  mbi += Math.floor(Math.random() * 9) + 1;
-  
-  // Characters 2-11 can be letters or numbers (excluding S, L, O, I, B, Z)
-  const validChars = chars.replace(/[SLOIBZ]/g, '');
-  for (let i = 1; i < 11; i++) {
-    mbi += validChars.charAt(Math.floor(Math.random() * validChars.length));
-  }
-  
-  return mbi;
-}
-
 // Utility function to ensure string is not empty
 function ensureNonEmptyString(value: string | undefined | null, defaultValue: string): string {
   if (!value || value.trim() === '') {
@@ -67,6 +60,17 @@ function ensureNonEmptyString(value: string | undefined | null, defaultValue: st
   return value.trim();
 }
 
+// Fields an uploaded row overwrites on the lead it matches
+const UPDATED_FIELDS = [
+  'firstName', 'lastName', 'phone', 'street', 'city', 'state', 'zipCode',
+  'dateOfBirth', 'testType', 'vendorId', 'vendorCode'
+] as const;
+type UpdatedField = typeof UPDATED_FIELDS[number];
+
+function updatedFields<T extends Record<UpdatedField, unknown>>(data: T): Pick<T, UpdatedField> {
+  return Object.fromEntries(UPDATED_FIELDS.map(field => [field, data[field]])) as Pick<T, UpdatedField>;
+}
+
 export async function POST(request: NextRequest) {
   // Verify admin authentication
   const authResult = await verifyAdminAuth(request);
@@ -79,6 +83,8 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    // Dry run: return the per-row plan without writing anything
+    const dryRun = formData.get('dryRun') === 'true';
     
     if (!file) {
       return NextResponse.json(
@@ -87,13 +93,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!file.name.endsWith('.csv')) {
-      return NextResponse.json(
-        { error: 'File must be a CSV' },
-        { status: 400 }
-      );
-    }
-
     // Check file size (limit to 10MB to prevent timeouts)
     const maxSize = 10 * 1024 * 1024; // 10MB
     if (file.size > maxSize) {
@@ -103,32 +102,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Read file content
-    const fileContent = await file.text();
-    
-    // Parse CSV
-    let csvData;
+    // CSV, TSV or XLSX - sniffed from the content, with an optional workbook sheet
+    let csvData: Record<string, string>[];
+    let contentHash: string;
     try {
-      csvData = parse(fileContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true
-      });
-    } catch (parseError) {
-      console.error('CSV parse error:', parseError);
-      return NextResponse.json(
-        { error: 'Invalid CSV format', details: parseError },
-        { status: 400 }
-      );
+      const upload = await UploadFileReader.readFile(file, { sheet: formData.get('sheet') as string | null });
+      console.log(`📄 Read ${upload.format} file ${file.name}${upload.sheet ? ` (sheet "${upload.sheet}")` : ''}: ${upload.rows.length} rows`);
+      csvData = upload.rows;
+      contentHash = upload.contentHash;
+    } catch (readError) {
+      if (readError instanceof UploadFileError) {
+        return NextResponse.json({ error: readError.message }, { status: readError.status });
+      }
+      throw readError;
     }
 
     if (!csvData || csvData.length === 0) {
       return NextResponse.json(
-        { error: 'CSV file is empty' },
+        { error: 'File has no data rows' },
         { status: 400 }
       );
     }
 
+    // The rows as read - a failed row is recorded with these values, before any renaming
+    const sourceRows = csvData;
+
+    // Rename headers using the mapping sent with the upload, or the best saved profile
+    const headerMapping = await ColumnMappingService.resolve('BULK_LEAD', Object.keys(csvData[0]), {
+      profileId: formData.get('mappingProfileId') as string | null,
+      mappings: formData.get('columnMapping') as string | null
+    });
+    csvData = ColumnMappingService.applyMappings(csvData, headerMapping.mappings);
+
     // Limit row count to prevent timeouts
     const maxRows = 10000;
     if (csvData.length > maxRows) {
@@ -143,14 +148,24 @@ export async function POST(request: NextRequest) {
     console.log(`📋 CSV column names found:`, columnNames);
     console.log(`🔄 Starting optimized bulk lead upload with ${csvData.length} rows`);
 
-    // Create file upload record
-    const fileUpload = await prisma.fileUpload.create({
+    // Refuse an exact re-upload unless the uploader confirmed it - a preview only warns
+    const duplicateOf = await UploadFingerprintService.check('BULK_LEAD', contentHash, {
+      dryRun,
+      allowDuplicate: formData.get('allowDuplicate') === 'true'
+    });
+    if (duplicateOf && !dryRun) {
+      console.log(`🔁 Confirmed re-upload of ${duplicateOf.fileName} (${duplicateOf.source} ${duplicateOf.id})`);
+    }
+
+    // Create file upload record - a dry run leaves no trace
+    const fileUpload = dryRun ? null : await prisma.fileUpload.create({
       data: {
         type: 'BULK_LEAD' as FileUploadType,
         fileName: file.name,
         fileUrl: `uploads/bulk-lead/${Date.now()}-${file.name}`,
         uploadedById: userId,
-        recordsProcessed: 0
+        recordsProcessed: 0,
+        contentHash
       }
     });
 
@@ -159,15 +174,22 @@ export async function POST(request: NextRequest) {
       processed: 0,
       created: 0,
       updated: 0,
-      errors: [] as Array<{ row: number; error: string; data?: any }>
+      // Rows matching a lead that already had every value - nothing written
+      alreadyApplied: 0,
+      errors: [] as UploadRowError[],
+      warnings: [] as Array<{ row: number; warning: string }>
     };
+    const planned: PlannedRow[] = [];
+
+    // Same duplicate rules as the MBI checker and submit endpoint, loaded once per file
+    const duplicateRules = await DuplicateRuleService.getActiveRules();
 
     // Pre-fetch BULK_UPLOAD vendor to avoid repeated lookups
     let bulkUploadVendor = await prisma.vendor.findFirst({
       where: { code: 'BULK_UPLOAD' }
     });
 
-    if (!bulkUploadVendor) {
+    if (!bulkUploadVendor && !dryRun) {
       bulkUploadVendor = await prisma.vendor.create({
         data: {
           name: 'BULK_UPLOAD',
@@ -179,7 +201,7 @@ export async function POST(request: NextRequest) {
       console.log('✅ Created BULK_UPLOAD vendor for tracking bulk imports');
     }
 
-    const vendorId = bulkUploadVendor.id;
+    const vendorId = bulkUploadVendor?.id ?? 'new vendor BULK_UPLOAD';
     
     // Helper function to find column value with smart mapping
     function findColumnValue(row: any, possibleNames: string[]): string {
@@ -319,29 +341,71 @@ export async function POST(request: NextRequest) {
             '12345'
           );
 
+          // Medical intake columns (same fields as the vendor intake form) - blank
+          // cells are left undefined so they never wipe intake already on file
+          const intakeColumn = (names: string[]) => findColumnValue(row, names) || undefined;
+          const intake: MedicalIntakeInput = {
+            middleInitial: intakeColumn(['middleInitial', 'middle_initial', 'Middle Initial']),
+            gender: intakeColumn(['gender', 'GENDER', 'Gender', 'sex', 'SEX']),
+            ethnicity: intakeColumn(['ethnicity', 'ETHNICITY', 'Ethnicity']),
+            maritalStatus: intakeColumn(['maritalStatus', 'marital_status', 'Marital Status', 'MARITAL_STATUS']),
+            height: intakeColumn(['height', 'HEIGHT', 'Height']),
+            weight: intakeColumn(['weight', 'WEIGHT', 'Weight']),
+            insurance: {
+              primaryCompany: intakeColumn(['primaryInsuranceCompany', 'primary_insurance_company', 'Primary Insurance', 'insurance_company', 'INSURANCE']),
+              primaryPolicyNumber: intakeColumn(['primaryPolicyNumber', 'primary_policy_number', 'Policy Number', 'policy_number', 'POLICY_NUMBER'])
+            },
+            medicalHistory: {
+              past: intakeColumn(['medicalHistory', 'medical_history', 'Medical History', 'MEDICAL_HISTORY']),
+              surgical: intakeColumn(['surgicalHistory', 'surgical_history', 'Surgical History', 'SURGICAL_HISTORY']),
+              medications: intakeColumn(['currentMedications', 'current_medications', 'Current Medications', 'medications', 'MEDICATIONS']),
+              conditions: intakeColumn(['conditionsHistory', 'conditions_history', 'Conditions History', 'CONDITIONS_HISTORY'])
+            }
+          };
+
+          const familyHistory = [1, 2]
+            .map(n => ({
+              relation: intakeColumn([`familyMember${n}Relation`, `family_member_${n}_relation`, `Family Member ${n} Relation`]),
+              conditions: intakeColumn([`familyMember${n}Conditions`, `family_member_${n}_conditions`, `Family Member ${n} Conditions`]),
+              ageOfDiagnosis: intakeColumn([`familyMember${n}AgeOfDiagnosis`, `family_member_${n}_age_of_diagnosis`, `Family Member ${n} Age of Diagnosis`])
+            }))
+            .filter(member => member.relation || member.conditions);
+          if (familyHistory.length > 0) {
+            intake.familyHistory = familyHistory;
+          }
+
           // Validate required fields
           if (!firstName || !lastName || !phone) {
-            results.errors.push({
-              row: rowNumber,
-              error: `Missing required fields: ${!firstName ? 'firstName ' : ''}${!lastName ? 'lastName ' : ''}${!phone ? 'phone' : ''}`,
-              data: { 
-                firstName_found: firstName, 
-                lastName_found: lastName, 
-                phone_found: phone,
-                available_columns: Object.keys(row)
-              }
-            });
+            results.errors.push(UploadErrorReport.entry(
+              rowNumber,
+              'MISSING_FIELDS',
+              `Missing required fields: ${!firstName ? 'firstName ' : ''}${!lastName ? 'lastName ' : ''}${!phone ? 'phone' : ''}`.trim(),
+              sourceRows[rowNumber - 2]
+            ));
             continue;
           }
 
           // Process phone and validate
           const cleanPhone = normalizePhone(phone);
           if (!cleanPhone || cleanPhone.length < 10) {
-            results.errors.push({
-              row: rowNumber,
-              error: 'Invalid phone number - must be at least 10 digits',
-              data: { phone, cleanPhone }
-            });
+            results.errors.push(UploadErrorReport.entry(
+              rowNumber,
+              'INVALID_PHONE',
+              'Invalid phone number - must be at least 10 digits',
+              sourceRows[rowNumber - 2]
+            ));
+            continue;
+          }
+
+          // A supplied MBI must be valid - only a missing one gets a generated placeholder
+          const mbiCheck = validateMBI(mbi);
+          if (mbi && !mbiCheck.valid) {
+            results.errors.push(UploadErrorReport.entry(
+              rowNumber,
+              'INVALID_MBI',
+              `Invalid MBI: ${describeMBIErrors(mbiCheck)}`,
+              sourceRows[rowNumber - 2]
+            ));
             continue;
           }
 
@@ -368,13 +432,15 @@ export async function POST(request: NextRequest) {
             city: city,
             state: state,
             zipCode: zipCode,
-            dateOfBirth: parsedDateOfBirth,
+            dateOfBirth: PhiEncryption.toDateOnly(parsedDateOfBirth),
             testType: finalTestType as 'IMMUNE' | 'NEURO',
             status: 'SUBMITTED' as LeadStatus,
             vendorId: vendorId,
             vendorCode: 'BULK_UPLOAD',
             contactAttempts: 0,
-            mbi: mbi || generateMBI(),
+            mbi: mbi ? mbiCheck.normalized : generateMBI(),
+            mbiGenerated: !mbi,
+            intake: MedicalIntakeService.hasIntake(intake) ? intake : null,
             rowNumber: rowNumber
           };
 
@@ -383,11 +449,12 @@ export async function POST(request: NextRequest) {
 
         } catch (error: any) {
           console.error(`❌ Error processing row ${rowNumber}:`, error);
-          results.errors.push({
-            row: rowNumber,
-            error: error.message || 'Unknown error processing row',
-            data: row
-          });
+          results.errors.push(UploadErrorReport.entry(
+            rowNumber,
+            UploadErrorReport.codeFor(error),
+            error.message || 'Unknown error processing row',
+            sourceRows[rowNumber - 2]
+          ));
         }
       }
 
@@ -398,9 +465,14 @@ export async function POST(request: NextRequest) {
       // OPTIMIZED: Batch check for existing leads
       const existingLeads = await prisma.lead.findMany({
         where: {
-          phone: { in: batchPhones }
+          phoneHash: { in: batchPhones.map(phone => PhiEncryption.blindIndex('phone', phone)) }
         },
-        select: { phone: true, id: true, firstName: true, lastName: true }
+        select: {
+          phone: true, id: true, firstName: true, lastName: true, patientId: true, status: true,
+          // Compared against the row for dry-run previews
+          street: true, city: true, state: true, zipCode: true, dateOfBirth: true,
+          testType: true, vendorId: true, vendorCode: true
+        }
       });
 
       const existingPhoneMap = new Map();
@@ -410,6 +482,7 @@ export async function POST(request: NextRequest) {
       });
 
       // OPTIMIZED: Batch operations
+      let blockedCount = 0;
       const leadsToCreate = [];
       const leadsToUpdate = [];
 
@@ -418,10 +491,13 @@ export async function POST(request: NextRequest) {
         const existingLead = existingPhoneMap.get(key);
 
         if (existingLead) {
-          // Update existing
+          // Update existing - a replayed row that would change nothing is left alone
           leadsToUpdate.push({
+            lead: existingLead,
             id: existingLead.id,
-            data: leadData
+            patientId: existingLead.patientId as string | null,
+            data: leadData,
+            alreadyApplied: !leadData.intake && UploadPreviewService.describeChanges(existingLead, updatedFields(leadData)).length === 0
           });
         } else {
           // Create new - ensure unique MBI
@@ -437,19 +513,84 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // New orders with a real MBI go through the duplicate rules. Earlier batches are
+      // already in the database; earlier rows of this batch are tracked in pendingOrders.
+      const realMbis = Array.from(new Set(leadsToCreate.filter(l => !l.mbiGenerated).map(l => l.mbi)));
+      if (realMbis.length > 0) {
+        const ordersByMbi = await DuplicateRuleService.loadExistingOrders(realMbis);
+        const pendingOrders = new Map<string, ExistingTestOrder[]>();
+
+        const allowedLeads = leadsToCreate.filter(lead => {
+          if (lead.mbiGenerated) return true;
+
+          const pending = pendingOrders.get(lead.mbi) || [];
+          const check = DuplicateRuleService.evaluateOrders(
+            duplicateRules,
+            [...pending, ...(ordersByMbi.get(lead.mbi) || [])],
+            lead.testType
+          );
+
+          if (check.status === 'BLOCKED') {
+            results.errors.push(UploadErrorReport.entry(
+              lead.rowNumber,
+              'DUPLICATE',
+              `Duplicate MBI: ${check.message}`,
+              sourceRows[lead.rowNumber - 2]
+            ));
+            return false;
+          }
+          if (check.status === 'WARNING') {
+            results.warnings.push({ row: lead.rowNumber, warning: check.message });
+          }
+
+          pendingOrders.set(lead.mbi, [{
+            id: `row-${lead.rowNumber}`,
+            patientId: null,
+            firstName: lead.firstName,
+            lastName: lead.lastName,
+            testType: lead.testType,
+            status: lead.status,
+            createdAt: new Date(),
+            consultDate: null,
+            vendor: { name: file.name }
+          }, ...pending]);
+          return true;
+        });
+
+        blockedCount += leadsToCreate.length - allowedLeads.length;
+        leadsToCreate.splice(0, leadsToCreate.length, ...allowedLeads);
+      }
+
+      if (!fileUpload) {
+        const warningFor = (row: number) => results.warnings.find(w => w.row === row)?.warning;
+        for (const { lead, data, alreadyApplied } of leadsToUpdate) {
+          planned.push({
+            ...UploadPreviewService.planUpdate(data.rowNumber, lead, { status: null, statusPath: [], data: updatedFields(data), alreadyApplied }),
+            warning: warningFor(data.rowNumber)
+          });
+        }
+        for (const { rowNumber, mbiGenerated, intake, ...lead } of leadsToCreate) {
+          planned.push(UploadPreviewService.planCreate(rowNumber, lead, warningFor(rowNumber)));
+        }
+        continue;
+      }
+
       // OPTIMIZED: Batch create new leads
       if (leadsToCreate.length > 0) {
-        // Check for MBI conflicts in batch
-        const mbis = leadsToCreate.map(l => l.mbi).filter(mbi => mbi);
-        if (mbis.length > 0) {
-          const existingMbis = await prisma.lead.findMany({
-            where: { mbi: { in: mbis } },
+        // Placeholder MBIs must not land on an existing patient. Real MBIs that
+        // already exist simply add another test order to that patient.
+        const generatedMbis = leadsToCreate.filter(l => l.mbiGenerated).map(l => l.mbi);
+        if (generatedMbis.length > 0) {
+          const existingMbis = await prisma.patient.findMany({
+            where: { mbiHash: { in: generatedMbis.map(mbi => PhiEncryption.blindIndex('mbi', mbi)) } },
             select: { mbi: true }
           });
-          const existingMbiSet = new Set(existingMbis.map(l => l.mbi));
+          const existingMbiSet = new Set(existingMbis.map(p => p.mbi));
+          leadsToCreate.forEach(l => { if (!l.mbiGenerated) existingMbiSet.add(l.mbi); });
 
           // Generate new MBIs for conflicts
           for (const lead of leadsToCreate) {
+            if (!lead.mbiGenerated) continue;
             while (existingMbiSet.has(lead.mbi)) {
               lead.mbi = generateMBI();
             }
@@ -457,20 +598,57 @@ export async function POST(request: NextRequest) {
           }
         }
 
+        const patientIds = await PatientService.ensurePatients(
+          leadsToCreate.map(({ mbi, firstName, lastName, dateOfBirth, phone, street, city, state, zipCode }) => ({
+            mbi, firstName, lastName, dateOfBirth, phone, street, city, state, zipCode
+          }))
+        );
+
         await prisma.lead.createMany({
-          data: leadsToCreate.map(({ rowNumber, ...lead }) => lead),
+          data: leadsToCreate.map(({ rowNumber, mbiGenerated, intake, ...lead }) => ({
+            ...lead,
+            patientId: patientIds.get(lead.mbi)
+          })),
           skipDuplicates: true
         });
+
+        for (const lead of leadsToCreate) {
+          const patientId = patientIds.get(lead.mbi);
+          if (lead.intake && patientId) {
+            await MedicalIntakeService.save(patientId, lead.intake);
+          }
+        }
         results.created += leadsToCreate.length;
         console.log(`✅ Created ${leadsToCreate.length} new leads in batch ${batchIndex + 1}`);
       }
 
+      const unchangedCount = leadsToUpdate.filter(({ alreadyApplied }) => alreadyApplied).length;
+      if (unchangedCount > 0) {
+        results.alreadyApplied += unchangedCount;
+        leadsToUpdate.splice(0, leadsToUpdate.length, ...leadsToUpdate.filter(({ alreadyApplied }) => !alreadyApplied));
+        console.log(`⏭️ ${unchangedCount} rows in batch ${batchIndex + 1} already match their leads - nothing to write`);
+      }
+
       // OPTIMIZED: Batch update existing leads
       if (leadsToUpdate.length > 0) {
-        const updatePromises = leadsToUpdate.map(({ id, data }) =>
+        const updatePromises = leadsToUpdate.map(({ id, lead, data }) =>
           prisma.lead.update({
             where: { id },
             data: {
+              ...updatedFields(data),
+              updatedAt: new Date()
+            }
+          }).then(updated => UploadRollbackService.record(lead, updated, UPDATED_FIELDS, {
+            fileUploadId: fileUpload.id,
+            rowNumber: data.rowNumber
+          }))
+        );
+
+        // Keep the patient record in step with the demographics on its orders
+        const patientUpdates = leadsToUpdate
+          .filter(({ patientId }) => patientId)
+          .map(({ patientId, data }) =>
+            PatientService.updateDemographics(patientId!, {
               firstName: data.firstName,
               lastName: data.lastName,
               phone: data.phone,
@@ -478,21 +656,34 @@ export async function POST(request: NextRequest) {
               city: data.city,
               state: data.state,
               zipCode: data.zipCode,
-              dateOfBirth: data.dateOfBirth,
-              testType: data.testType,
-              vendorId: data.vendorId,
-              vendorCode: data.vendorCode,
-              updatedAt: new Date()
-            }
-          })
-        );
+              dateOfBirth: data.dateOfBirth
+            })
+          );
 
         await Promise.all(updatePromises);
+        await Promise.all(patientUpdates);
+
+        for (const { patientId, data } of leadsToUpdate) {
+          if (data.intake && patientId) {
+            await MedicalIntakeService.save(patientId, data.intake);
+          }
+        }
         results.updated += leadsToUpdate.length;
         console.log(`✅ Updated ${leadsToUpdate.length} existing leads in batch ${batchIndex + 1}`);
       }
 
-      results.processed += batchLeads.length;
+      results.processed += batchLeads.length - blockedCount;
+    }
+
+    if (!fileUpload) {
+      return NextResponse.json({
+        success: true,
+        plan: UploadPreviewService.buildPlan('BULK_LEAD', file.name, csvData.length, [
+          ...planned,
+          ...results.errors.map(({ row, error }) => UploadPreviewService.planError(row, error))
+        ]),
+        duplicateOf
+      });
     }
 
     // Update file upload record
@@ -512,29 +703,40 @@ export async function POST(request: NextRequest) {
       created: results.created,
       updated: results.updated,
       errors: results.errors.length,
+      warnings: results.warnings.length,
       fileUploadId: fileUpload.id
     });
 
     if (results.errors.length > 0) {
-      console.log('❌ First few errors:', results.errors.slice(0, 5));
+      console.log('❌ First few errors:', UploadErrorReport.forResponse(results.errors.slice(0, 5)));
     }
 
     return NextResponse.json({
       success: true,
-      message: `Successfully processed ${results.processed} records in ${totalBatches} batches. Created: ${results.created}, Updated: ${results.updated}, Errors: ${results.errors.length}`,
+      message: `Successfully processed ${results.processed} records in ${totalBatches} batches. Created: ${results.created}, Updated: ${results.updated}, Errors: ${results.errors.length}, Duplicate warnings: ${results.warnings.length}`,
       results: {
         totalRows: csvData.length,
         processed: results.processed,
         created: results.created,
         updated: results.updated,
+        alreadyApplied: results.alreadyApplied,
         errors: results.errors.length,
+        warnings: results.warnings.length,
         batches: totalBatches,
-        fileUploadId: fileUpload.id
+        fileUploadId: fileUpload.id,
+        mappingProfile: headerMapping.profile?.name ?? null
       },
-      errors: results.errors.slice(0, 10)
+      errors: UploadErrorReport.forResponse(results.errors.slice(0, 10)),
+      warnings: results.warnings.slice(0, 10)
     });
 
   } catch (error: any) {
+    if (error instanceof DuplicateUploadError) {
+      return NextResponse.json({ error: error.message, duplicateOf: error.previous }, { status: error.status });
+    }
+    if (error instanceof ColumnMappingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('❌ Error processing bulk lead CSV:', error);
     return NextResponse.json(
       { error: 'Failed to process bulk lead CSV', details: error.message },
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
-import { parse } from 'csv-parse/sync';
-import { FileUploadType, DoctorApprovalStatus, LeadStatus } from '@prisma/client';
+import { FileUploadType, DoctorApprovalStatus } from '@prisma/client';
+import { validateMBI, describeMBIErrors } from '@/lib/utils/mbi';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { UploadPreviewService, PlannedRow } from '@/lib/services/uploadPreviewService';
+import { PatientMatchingService } from '@/lib/services/patientMatchingService';
+import { MatchReviewService } from '@/lib/services/matchReviewService';
+import { UploadRowService, DoctorApprovalRowUpdate } from '@/lib/services/uploadRowService';
+import { ColumnMappingService, ColumnMappingError } from '@/lib/services/columnMappingService';
+import { UploadFileReader, UploadFileError } from '@/lib/services/uploadFileReader';
+import { UploadErrorReport, UploadRowError } from '@/lib/services/uploadErrorReport';
+import { UploadFingerprintService, DuplicateUploadError } from '@/lib/services/uploadFingerprintService';
 
 // Utility function to parse dates in various formats
 function parseDate(dateStr: string): Date | null {
@@ -36,11 +45,6 @@ function parseDate(dateStr: string): Date | null {
   return null;
 }
 
-// Normalize phone numbers for matching
-function normalizePhone(phone: string): string {
-  return phone.replace(/\D/g, '');
-}
-
 // Detect provider format based on column headers
 function detectProviderFormat(columnNames: string[]): string {
   const hasTimeStamp = columnNames.some(col => col.toLowerCase().includes('time stamp'));
@@ -114,6 +118,8 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    // Dry run: return the per-row plan without writing anything
+    const dryRun = formData.get('dryRun') === 'true';
     
     if (!file) {
       return NextResponse.json(
@@ -122,58 +128,56 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!file.name.endsWith('.csv') && !file.name.endsWith('.tsv')) {
-      return NextResponse.json(
-        { error: 'File must be a CSV or TSV file' },
-        { status: 400 }
-      );
-    }
-
-    // Read file content
-    const fileContent = await file.text();
-    
-    // Parse CSV/TSV - Auto-detect delimiter
-    let csvData;
+    // CSV, TSV or XLSX - sniffed from the content, with an optional workbook sheet
+    let csvData: Record<string, string>[];
+    let contentHash: string;
     try {
-      // First, try to detect if it's tab-separated (TSV) or comma-separated (CSV)
-      const firstLine = fileContent.split('\n')[0];
-      const tabCount = (firstLine.match(/\t/g) || []).length;
-      const commaCount = (firstLine.match(/,/g) || []).length;
-      
-      // Use tab delimiter if there are more tabs than commas
-      const delimiter = tabCount > commaCount ? '\t' : ',';
-      const fileType = delimiter === '\t' ? 'TSV' : 'CSV';
-      
-      console.log(`🏥 Detected file format: ${fileType} (tabs: ${tabCount}, commas: ${commaCount})`);
-      
-      csvData = parse(fileContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-        delimiter: delimiter
-      });
-    } catch (parseError) {
-      return NextResponse.json(
-        { error: 'Invalid CSV/TSV format', details: parseError },
-        { status: 400 }
-      );
+      const upload = await UploadFileReader.readFile(file, { sheet: formData.get('sheet') as string | null });
+      console.log(`📄 Read ${upload.format} file ${file.name}${upload.sheet ? ` (sheet "${upload.sheet}")` : ''}: ${upload.rows.length} rows`);
+      csvData = upload.rows;
+      contentHash = upload.contentHash;
+    } catch (readError) {
+      if (readError instanceof UploadFileError) {
+        return NextResponse.json({ error: readError.message }, { status: readError.status });
+      }
+      throw readError;
     }
 
     if (!csvData || csvData.length === 0) {
       return NextResponse.json(
-        { error: 'CSV file is empty' },
+        { error: 'File has no data rows' },
         { status: 400 }
       );
     }
 
-    // Create file upload record
-    const fileUpload = await prisma.fileUpload.create({
+    // The rows as read - a failed row is recorded with these values, before any renaming
+    const sourceRows = csvData;
+
+    // Rename headers using the mapping sent with the upload, or the best saved profile
+    const headerMapping = await ColumnMappingService.resolve('DOCTOR_APPROVAL', Object.keys(csvData[0]), {
+      profileId: formData.get('mappingProfileId') as string | null,
+      mappings: formData.get('columnMapping') as string | null
+    });
+    csvData = ColumnMappingService.applyMappings(csvData, headerMapping.mappings);
+
+    // Refuse an exact re-upload unless the uploader confirmed it - a preview only warns
+    const duplicateOf = await UploadFingerprintService.check('DOCTOR_APPROVAL', contentHash, {
+      dryRun,
+      allowDuplicate: formData.get('allowDuplicate') === 'true'
+    });
+    if (duplicateOf && !dryRun) {
+      console.log(`🔁 Confirmed re-upload of ${duplicateOf.fileName} (${duplicateOf.source} ${duplicateOf.id})`);
+    }
+
+    // Create file upload record - a dry run leaves no trace
+    const fileUpload = dryRun ? null : await prisma.fileUpload.create({
       data: {
         type: 'DOCTOR_APPROVAL' as FileUploadType,
         fileName: file.name,
         fileUrl: `uploads/doctor-approval/${Date.now()}-${file.name}`,
         uploadedById: userId,
-        recordsProcessed: 0
+        recordsProcessed: 0,
+        contentHash
       }
     });
 
@@ -183,8 +187,12 @@ export async function POST(request: NextRequest) {
       approved: 0,
       denied: 0,
       pending: 0,
-      errors: [] as Array<{ row: number; error: string; data?: any }>
+      // Rows whose decision the matched lead already had - nothing written
+      alreadyApplied: 0,
+      queuedForReview: 0,
+      errors: [] as UploadRowError[]
     };
+    const planned: PlannedRow[] = [];
 
     // Get column names for debugging and format detection
     const columnNames = Object.keys(csvData[0] || {});
@@ -217,7 +225,7 @@ export async function POST(request: NextRequest) {
           phone = row['Phone Number:*'] || row['Phone Number:'] || row['Phone Number'] || '';
           approvalDate = row['Time Stamp'] || '';
           
-          console.log(`🏥 Medical intake format - ${firstName} ${lastName} (${mbi})`);
+          console.log(`🏥 Medical intake format - ${firstName} ${lastName} (${PhiEncryption.maskMBI(mbi)})`);
           
         } else if (providerFormat === 'ICY_FORMAT') {
           // Provider Group 1: ICY format
@@ -230,15 +238,7 @@ export async function POST(request: NextRequest) {
           if (fullName) {
             console.log(`🏥 ICY format - parsing full name: "${fullName}"`);
             
-            if (fullName.includes(',')) {
-              const [lastPart, firstPart] = fullName.split(',').map((s: string) => s.trim());
-              lastName = lastPart;
-              firstName = firstPart.split(' ')[0];
-            } else {
-              const nameParts = fullName.split(/\s+/);
-              firstName = nameParts[0] || '';
-              lastName = nameParts.slice(-1)[0] || '';
-            }
+            ({ firstName, lastName } = PatientMatchingService.parseFullName(fullName));
             console.log(`🏥 ICY parsed name: "${firstName}" "${lastName}"`);
           }
           
@@ -252,26 +252,18 @@ export async function POST(request: NextRequest) {
           
           // Try PT_FULL_NAME parsing for legacy
           if (!firstName && !lastName && row['PT_FULL_NAME']) {
-            const fullNameValue = row['PT_FULL_NAME'].trim();
-            if (fullNameValue.includes(',')) {
-              const [lastPart, firstPart] = fullNameValue.split(',').map((s: string) => s.trim());
-              lastName = lastPart;
-              firstName = firstPart.split(' ')[0];
-            } else {
-              const nameParts = fullNameValue.split(/\s+/);
-              firstName = nameParts[0] || '';
-              lastName = nameParts.slice(-1)[0] || '';
-            }
+            ({ firstName, lastName } = PatientMatchingService.parseFullName(row['PT_FULL_NAME']));
           }
         }
         
         // Skip rows with missing critical data
         if (!mbi && !firstName && !lastName && !phone) {
-          results.errors.push({
-            row: rowNumber,
-            error: 'Missing patient identifier (need MBI, name, or phone)',
-            data: { mbi, firstName, lastName, phone }
-          });
+          results.errors.push(UploadErrorReport.entry(
+            rowNumber,
+            'MISSING_FIELDS',
+            'Missing patient identifier (need MBI, name, or phone)',
+            sourceRows[i]
+          ));
           continue;
         }
 
@@ -279,82 +271,85 @@ export async function POST(request: NextRequest) {
         const approvalStatus = determineApprovalStatus(row, providerFormat);
         const parsedApprovalDate = parseDate(approvalDate) || new Date();
 
-        console.log(`🏥 Row ${rowNumber}: Processing ${firstName} ${lastName} (${mbi}) - Status: ${approvalStatus}`);
-
-        // Find matching lead(s) using multiple criteria
-        let matchingLeads = [];
+        console.log(`🏥 Row ${rowNumber}: Processing ${firstName} ${lastName} (${PhiEncryption.maskMBI(mbi)}) - Status: ${approvalStatus}`);
 
-        // First try MBI if available
+        // Report a typo'd MBI instead of guessing by name
+        let normalizedMbi: string | undefined;
         if (mbi && mbi.trim() !== '') {
-          const leadsByMbi = await prisma.lead.findMany({
-            where: { mbi: mbi.trim() }
-          });
-          matchingLeads.push(...leadsByMbi);
+          const mbiCheck = validateMBI(mbi);
+          if (!mbiCheck.valid) {
+            results.errors.push(UploadErrorReport.entry(
+              rowNumber,
+              'INVALID_MBI',
+              `Invalid MBI: ${describeMBIErrors(mbiCheck)}`,
+              sourceRows[i]
+            ));
+            continue;
+          }
+          normalizedMbi = mbiCheck.normalized;
         }
 
-        // If no MBI matches, try name and phone
-        if (matchingLeads.length === 0 && firstName && lastName) {
-          const leadsByName = await prisma.lead.findMany({
-            where: {
-              firstName: { equals: firstName.trim(), mode: 'insensitive' },
-              lastName: { equals: lastName.trim(), mode: 'insensitive' },
-              ...(phone && { phone: normalizePhone(phone) })
-            }
-          });
-          matchingLeads.push(...leadsByName);
+        // Score candidate orders on MBI, name and phone; anything short of a
+        // confident single-patient match is left for manual review
+        const match = await PatientMatchingService.match({
+          mbi: normalizedMbi,
+          firstName,
+          lastName,
+          phone
+        });
+
+        const update: DoctorApprovalRowUpdate = {
+          approvalStatus,
+          approvalDate: parsedApprovalDate.toISOString()
+        };
+
+        if (match.decision === 'REVIEW') {
+          if (fileUpload) {
+            await MatchReviewService.enqueue('DOCTOR_APPROVAL', { fileUploadId: fileUpload.id, fileName: file.name, rowNumber }, row, update, match);
+          } else {
+            planned.push(UploadPreviewService.planReview(rowNumber, match));
+          }
+          results.queuedForReview++;
+          continue;
         }
 
-        // If still no matches, try just phone
-        if (matchingLeads.length === 0 && phone) {
-          const leadsByPhone = await prisma.lead.findMany({
-            where: { phone: normalizePhone(phone) }
-          });
-          matchingLeads.push(...leadsByPhone);
+        if (match.decision === 'NO_MATCH') {
+          results.errors.push(UploadErrorReport.entry(
+            rowNumber,
+            'NO_MATCH',
+            `No matching lead found for ${firstName} ${lastName}: ${match.summary}`,
+            sourceRows[i]
+          ));
+          continue;
         }
 
-        if (matchingLeads.length === 0) {
-          results.errors.push({
-            row: rowNumber,
-            error: `No matching lead found for ${firstName} ${lastName} (${mbi})`,
-            data: row
-          });
+        // Update the matched lead
+        const lead = match.lead!;
+        if (!fileUpload) {
+          planned.push(await UploadPreviewService.planMatch('DOCTOR_APPROVAL', rowNumber, match, update));
           continue;
         }
 
-        // Update all matching leads
-        for (const lead of matchingLeads) {
-                    // Determine proper lead status based on approval decision
-          let newLeadStatus = lead.status; // Default: keep current status
-          
-          if (approvalStatus === 'APPROVED') {
-            // Lead approved by doctor → advance to APPROVED status
-            newLeadStatus = LeadStatus.APPROVED;
-          } else if (approvalStatus === 'DECLINED') {
-            // Lead denied by doctor → terminal status, move to RETURNED
-            newLeadStatus = LeadStatus.RETURNED;
-          }
-          // If PENDING, keep current status
-          
-          await prisma.lead.update({
-            where: { id: lead.id },
-            data: {
-              doctorApprovalStatus: approvalStatus,
-              doctorApprovalDate: parsedApprovalDate,
-              status: newLeadStatus,
-              // Add denial reason for business intelligence
-              ...(approvalStatus === 'DECLINED' && {
-                advocateDisposition: 'DOESNT_QUALIFY' as any, // Track denial reason
-                collectionsNotes: lead.collectionsNotes 
-                  ? `${lead.collectionsNotes}\n\n🚫 Doctor Denied: ${parsedApprovalDate.toLocaleDateString()}`
-                  : `🚫 Doctor Denied: ${parsedApprovalDate.toLocaleDateString()}`
-              }),
-              updatedAt: new Date()
-            }
-          });
-
-          console.log(`✅ Updated lead ${lead.id} (${lead.firstName} ${lead.lastName}) with ${approvalStatus} status`);
+        const { warning, alreadyApplied } = await UploadRowService.applyDoctorApproval(lead, update, {
+          source: 'UPLOAD',
+          actorId: userId,
+          reason: `Doctor approval ${file.name} row ${rowNumber}: ${approvalStatus}`,
+          origin: { fileUploadId: fileUpload.id, rowNumber }
+        });
+
+        if (alreadyApplied) {
+          console.log(`⏭️ Row ${rowNumber}: lead ${lead.id} already has ${approvalStatus} recorded - nothing to write`);
+          results.alreadyApplied++;
+          continue;
+        }
+
+        if (warning) {
+          // Applied - recorded as a warning, not a failed row
+          results.errors.push(UploadErrorReport.entry(rowNumber, 'WARNING', warning));
         }
 
+        console.log(`✅ Updated lead ${lead.id} (${lead.firstName} ${lead.lastName}) with ${approvalStatus} status`);
+
         // Track results
         if (approvalStatus === 'APPROVED') results.approved++;
         else if (approvalStatus === 'DECLINED') results.denied++;
@@ -364,14 +359,26 @@ export async function POST(request: NextRequest) {
 
       } catch (error: any) {
         console.error(`❌ Error processing row ${rowNumber}:`, error);
-        results.errors.push({
-          row: rowNumber,
-          error: error.message || 'Unknown error processing row',
-          data: row
-        });
+        results.errors.push(UploadErrorReport.entry(
+          rowNumber,
+          UploadErrorReport.codeFor(error),
+          error.message || 'Unknown error processing row',
+          sourceRows[i]
+        ));
       }
     }
 
+    if (!fileUpload) {
+      return NextResponse.json({
+        success: true,
+        plan: UploadPreviewService.buildPlan('DOCTOR_APPROVAL', file.name, csvData.length, [
+          ...planned,
+          ...results.errors.map(({ row, error }) => UploadPreviewService.planError(row, error))
+        ]),
+        duplicateOf
+      });
+    }
+
     // Update file upload record
     await prisma.fileUpload.update({
       where: { id: fileUpload.id },
@@ -382,7 +389,7 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    console.log('🏥 Doctor approval processing complete:', results);
+    console.log('🏥 Doctor approval processing complete:', { ...results, errors: results.errors.length });
 
     return NextResponse.json({
       success: true,
@@ -393,13 +400,22 @@ export async function POST(request: NextRequest) {
         approved: results.approved,
         denied: results.denied,
         pending: results.pending,
+        alreadyApplied: results.alreadyApplied,
+        queuedForReview: results.queuedForReview,
         errors: results.errors.length,
-        fileUploadId: fileUpload.id
+        fileUploadId: fileUpload.id,
+        mappingProfile: headerMapping.profile?.name ?? null
       },
-      errors: results.errors.slice(0, 10) // Return first 10 errors for review
+      errors: UploadErrorReport.forResponse(results.errors.slice(0, 10)) // Return first 10 errors for review
     });
 
   } catch (error: any) {
+    if (error instanceof DuplicateUploadError) {
+      return NextResponse.json({ error: error.message, duplicateOf: error.previous }, { status: error.status });
+    }
+    if (error instanceof ColumnMappingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error processing doctor approval CSV:', error);
     return NextResponse.json(
       { error: 'Failed to process doctor approval CSV', details: error.message },
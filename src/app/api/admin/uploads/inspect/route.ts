@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { UploadFileReader, UploadFileError } from '@/lib/services/uploadFileReader';
+
+// POST /api/admin/uploads/inspect - Format, sheets, headers and row count of an upload file.
+// Row values are PHI and never returned.
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAdminAuth(request);
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const upload = await UploadFileReader.readFile(file, { sheet: formData.get('sheet') as string | null });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        fileName: file.name,
+        format: upload.format,
+        sheetNames: upload.sheetNames ?? null,
+        sheet: upload.sheet ?? null,
+        headers: upload.headers,
+        totalRows: upload.rows.length
+      }
+    });
+  } catch (error) {
+    if (error instanceof UploadFileError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error inspecting upload file:', error);
+    return NextResponse.json(
+      { error: 'Failed to read upload file' },
+      { status: 500 }
+    );
+  }
+}
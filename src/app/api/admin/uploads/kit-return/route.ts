@@ -1,74 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
-import { parse } from 'csv-parse/sync';
-import { FileUploadType, LeadStatus } from '@prisma/client';
-
-// Utility function to parse dates in various formats
-function parseDate(dateStr: string): Date | null {
-  if (!dateStr || dateStr.trim() === '') return null;
-  
-  try {
-    const cleanDate = dateStr.trim();
-    
-    // Try MM/DD/YYYY format
-    if (cleanDate.match(/^\d{1,2}\/\d{1,2}\/\d{4}$/)) {
-      const [month, day, year] = cleanDate.split('/');
-      return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-    }
-    
-    // Try MM/DD/YY format  
-    if (cleanDate.match(/^\d{1,2}\/\d{1,2}\/\d{2}$/)) {
-      const [month, day, year] = cleanDate.split('/');
-      const fullYear = parseInt(year) > 50 ? 1900 + parseInt(year) : 2000 + parseInt(year);
-      return new Date(fullYear, parseInt(month) - 1, parseInt(day));
-    }
-    
-    // Try other standard formats
-    const parsed = new Date(cleanDate);
-    if (!isNaN(parsed.getTime())) {
-      return parsed;
-    }
-  } catch (error) {
-    console.warn(`Failed to parse date: ${dateStr}`);
-  }
-  
-  return null;
-}
-
-// Normalize phone numbers for matching
-function normalizePhone(phone: string): string {
-  return phone.replace(/\D/g, '');
-}
-
-// Helper function to find column value with smart mapping
-function findColumnValue(row: any, possibleNames: string[]): string {
-  for (const name of possibleNames) {
-    // Try exact match (case-sensitive)
-    if (row[name] !== undefined && row[name] !== null) {
-      return String(row[name]).trim();
-    }
-    
-    // Try case-insensitive match
-    const keys = Object.keys(row);
-    const matchingKey = keys.find(key => 
-      key.toLowerCase() === name.toLowerCase()
-    );
-    if (matchingKey && row[matchingKey] !== undefined && row[matchingKey] !== null) {
-      return String(row[matchingKey]).trim();
-    }
-    
-    // Try partial match (case-insensitive)
-    const partialMatch = keys.find(key => 
-      key.toLowerCase().includes(name.toLowerCase()) || 
-      name.toLowerCase().includes(key.toLowerCase())
-    );
-    if (partialMatch && row[partialMatch] !== undefined && row[partialMatch] !== null) {
-      return String(row[partialMatch]).trim();
-    }
-  }
-  return '';
-}
+import { FileUploadType } from '@prisma/client';
+import { UploadRowProcessor } from '@/lib/services/uploadRowProcessor';
+import { UploadPreviewService, PlannedRow } from '@/lib/services/uploadPreviewService';
+import { ColumnMappingService, ColumnMappingError } from '@/lib/services/columnMappingService';
+import { UploadFileReader, UploadFileError } from '@/lib/services/uploadFileReader';
+import { UploadErrorReport, UploadRowError } from '@/lib/services/uploadErrorReport';
+import { UploadFingerprintService, DuplicateUploadError } from '@/lib/services/uploadFingerprintService';
 
 export async function POST(request: NextRequest) {
   // Verify admin authentication
@@ -82,6 +21,8 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    // Dry run: return the per-row plan without writing anything
+    const dryRun = formData.get('dryRun') === 'true';
     
     if (!file) {
       return NextResponse.json(
@@ -90,62 +31,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!file.name.endsWith('.csv') && !file.name.endsWith('.tsv')) {
-      return NextResponse.json(
-        { error: 'File must be a CSV or TSV file' },
-        { status: 400 }
-      );
-    }
-
-    // Read file content
-    const fileContent = await file.text();
-    
-    // Parse CSV/TSV - Auto-detect delimiter
-    let csvData;
+    // CSV, TSV or XLSX - sniffed from the content, with an optional workbook sheet
+    let csvData: Record<string, string>[];
+    let contentHash: string;
     try {
-      // First, try to detect if it's tab-separated (TSV) or comma-separated (CSV)
-      const firstLine = fileContent.split('\n')[0];
-      const tabCount = (firstLine.match(/\t/g) || []).length;
-      const commaCount = (firstLine.match(/,/g) || []).length;
-      
-      // Use tab delimiter if there are more tabs than commas
-      const delimiter = tabCount > commaCount ? '\t' : ',';
-      const fileType = delimiter === '\t' ? 'TSV' : 'CSV';
-      
-      console.log(`📋 Detected file format: ${fileType} (tabs: ${tabCount}, commas: ${commaCount})`);
-      
-      csvData = parse(fileContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-        delimiter: delimiter
-      });
-    } catch (parseError) {
-      return NextResponse.json(
-        { error: 'Invalid CSV/TSV format', details: parseError },
-        { status: 400 }
-      );
+      const upload = await UploadFileReader.readFile(file, { sheet: formData.get('sheet') as string | null });
+      console.log(`📄 Read ${upload.format} file ${file.name}${upload.sheet ? ` (sheet "${upload.sheet}")` : ''}: ${upload.rows.length} rows`);
+      csvData = upload.rows;
+      contentHash = upload.contentHash;
+    } catch (readError) {
+      if (readError instanceof UploadFileError) {
+        return NextResponse.json({ error: readError.message }, { status: readError.status });
+      }
+      throw readError;
     }
 
     if (!csvData || csvData.length === 0) {
       return NextResponse.json(
-        { error: 'CSV file is empty' },
+        { error: 'File has no data rows' },
         { status: 400 }
       );
     }
 
+    // The rows as read - a failed row is recorded with these values, before any renaming
+    const sourceRows = csvData;
+
+    // Rename headers using the mapping sent with the upload, or the best saved profile
+    const headerMapping = await ColumnMappingService.resolve('KIT_RETURN', Object.keys(csvData[0]), {
+      profileId: formData.get('mappingProfileId') as string | null,
+      mappings: formData.get('columnMapping') as string | null
+    });
+    csvData = ColumnMappingService.applyMappings(csvData, headerMapping.mappings);
+
     // Get column names for debugging
     const columnNames = Object.keys(csvData[0] || {});
     console.log(`📋 Kit return CSV column names found:`, columnNames);
 
-    // Create file upload record
-    const fileUpload = await prisma.fileUpload.create({
+    // Refuse an exact re-upload unless the uploader confirmed it - a preview only warns
+    const duplicateOf = await UploadFingerprintService.check('KIT_RETURN', contentHash, {
+      dryRun,
+      allowDuplicate: formData.get('allowDuplicate') === 'true'
+    });
+    if (duplicateOf && !dryRun) {
+      console.log(`🔁 Confirmed re-upload of ${duplicateOf.fileName} (${duplicateOf.source} ${duplicateOf.id})`);
+    }
+
+    // Create file upload record - a dry run leaves no trace
+    const fileUpload = dryRun ? null : await prisma.fileUpload.create({
       data: {
         type: 'KIT_RETURN' as FileUploadType,
         fileName: file.name,
         fileUrl: `uploads/kit-return/${Date.now()}-${file.name}`,
         uploadedById: userId,
-        recordsProcessed: 0
+        recordsProcessed: 0,
+        contentHash
       }
     });
 
@@ -153,8 +92,12 @@ export async function POST(request: NextRequest) {
     const results = {
       processed: 0,
       completed: 0,
-      errors: [] as Array<{ row: number; error: string; data?: any }>
+      // Rows the matched lead already reflected - nothing written
+      alreadyApplied: 0,
+      queuedForReview: 0,
+      errors: [] as UploadRowError[]
     };
+    const planned: PlannedRow[] = [];
 
     console.log(`📋 Processing kit return CSV with ${csvData.length} rows`);
 
@@ -164,206 +107,49 @@ export async function POST(request: NextRequest) {
       const rowNumber = i + 2; // Account for header row
       
       try {
-        // Smart column mapping for kit return data
-        const mbi = findColumnValue(row, [
-          'mbi', 'MBI', 'medicare', 'MEDICARE', 'Medicare #', 'Medicare #:',
-          'medicare_id', 'MEDICARE_ID', 'patient_id', 'PATIENT_ID'
-        ]);
-        
-        const firstName = findColumnValue(row, [
-          'firstName', 'first_name', 'FIRST_NAME', 'First Name', 'firstname',
-          'FNAME', 'fname', 'first', 'FIRST'
-        ]);
-        
-        const lastName = findColumnValue(row, [
-          'lastName', 'last_name', 'LAST_NAME', 'Last Name', 'lastname',
-          'LNAME', 'lname', 'last', 'LAST'
-        ]);
-        
-        const phone = findColumnValue(row, [
-          'phone', 'PHONE', 'Phone', 'phoneNumber', 'phone_number',
-          'Phone Number', 'PHONE_NUMBER', 'tel', 'telephone'
-        ]);
-        
-        const trackingNumber = findColumnValue(row, [
-          'trackingNumber', 'tracking_number', 'TRACKING_NUMBER', 'Tracking Number',
-          'tracking', 'TRACKING', 'track', 'TRACK', 'shipment_id', 'SHIPMENT_ID',
-          'return_tracking', 'RETURN_TRACKING'
-        ]);
-        
-        const returnedDate = findColumnValue(row, [
-          'returnedDate', 'returned_date', 'RETURNED_DATE', 'Returned Date',
-          'return_date', 'RETURN_DATE', 'date_returned', 'DATE_RETURNED',
-          'completion_date', 'COMPLETION_DATE', 'completed_date', 'COMPLETED_DATE'
-        ]);
-        
-        const completionStatus = findColumnValue(row, [
-          'status', 'STATUS', 'Status', 'completion_status', 'COMPLETION_STATUS',
-          'completed', 'COMPLETED', 'Completed'
-        ]);
-
-        // Skip rows with missing critical identifiers
-        if (!mbi && !firstName && !lastName && !phone && !trackingNumber) {
-          results.errors.push({
-            row: rowNumber,
-            error: 'Missing patient identifier (need MBI, name, phone, or tracking number)',
-            data: { 
-              mbi, firstName, lastName, phone, trackingNumber,
-              available_columns: Object.keys(row)
-            }
-          });
-          continue;
-        }
-
-        // Parse returned date
-        const parsedReturnedDate = parseDate(returnedDate) || new Date();
-
-        console.log(`📋 Row ${rowNumber}: Processing ${firstName} ${lastName} (${mbi}) - Status: ${completionStatus}`);
-
-        // Find matching lead(s) using multiple criteria
-        let matchingLeads = [];
-
-        // First try MBI if available
-        if (mbi && mbi.trim() !== '') {
-          const leadsByMbi = await prisma.lead.findMany({
-            where: { mbi: mbi.trim() }
-          });
-          matchingLeads.push(...leadsByMbi);
-        }
-
-        // If no MBI matches, try name and phone
-        if (matchingLeads.length === 0 && firstName && lastName) {
-          const leadsByName = await prisma.lead.findMany({
-            where: {
-              firstName: { equals: firstName.trim(), mode: 'insensitive' },
-              lastName: { equals: lastName.trim(), mode: 'insensitive' },
-              ...(phone && { phone: normalizePhone(phone) })
-            }
-          });
-          matchingLeads.push(...leadsByName);
-        }
-
-        // If still no matches, try just phone
-        if (matchingLeads.length === 0 && phone) {
-          const leadsByPhone = await prisma.lead.findMany({
-            where: { phone: normalizePhone(phone) }
-          });
-          matchingLeads.push(...leadsByPhone);
-        }
-
-        // Try finding by tracking number if provided
-        if (matchingLeads.length === 0 && trackingNumber) {
-          const leadsByTracking = await prisma.lead.findMany({
-            where: { trackingNumber: trackingNumber.trim() }
-          });
-          matchingLeads.push(...leadsByTracking);
-        }
-
-        if (matchingLeads.length === 0) {
-          results.errors.push({
-            row: rowNumber,
-            error: `No matching lead found for ${firstName} ${lastName} (${mbi})`,
-            data: row
-          });
-          continue;
-        }
-
-        // Update all matching leads to completed status
-        for (const lead of matchingLeads) {
-          const updateData: any = {
-            status: LeadStatus.KIT_COMPLETED,
-            kitReturnedDate: parsedReturnedDate,
-            updatedAt: new Date()
-          };
-
-          // Update collections disposition to indicate completion
-          updateData.collectionsDisposition = 'KIT_COMPLETED';
-
-          // Store completion metadata in collections notes
-          const completionMetadata = {
-            completionStatus: completionStatus || 'completed',
-            trackingNumber: trackingNumber || lead.trackingNumber || 'not available',
-            processedFrom: 'kit-return-csv',
-            completedDate: parsedReturnedDate.toISOString()
-          };
-          
-          // Build comprehensive collections notes
-          const completionNote = [
-            `📋 Kit Return Completed:`,
-            `  • Tracking number: ${trackingNumber || lead.trackingNumber || 'not available'}`,
-            `  • Completion status: ${completionStatus || 'completed'}`,
-            `  • Return date: ${parsedReturnedDate.toLocaleDateString()}`
-          ].join('\n');
-          
-          if (lead.collectionsNotes) {
-            updateData.collectionsNotes = `${lead.collectionsNotes}\n\n${completionNote}`;
-          } else {
-            updateData.collectionsNotes = completionNote;
-          }
-
-          // Note: Same tracking number for outbound and return is normal business behavior
-
-          // Update completion date if provided
-          if (returnedDate) {
-            updateData.kitReturnedDate = parsedReturnedDate;
-          }
-
-          // CRITICAL FIX: Kit return workflow - ensure proper status progression
-          if (lead.status !== LeadStatus.KIT_COMPLETED && 
-              lead.status !== LeadStatus.RETURNED) {
-            
-            // Business Logic: Kit completion requires prior shipping
-            // Auto-progress leads through the workflow if needed
-            if (lead.status === LeadStatus.SUBMITTED || 
-                lead.status === LeadStatus.ADVOCATE_REVIEW ||
-                lead.status === LeadStatus.QUALIFIED ||
-                lead.status === LeadStatus.SENT_TO_CONSULT ||
-                lead.status === LeadStatus.APPROVED ||
-                lead.status === LeadStatus.READY_TO_SHIP) {
-              
-              console.log(`📋 Auto-progressing lead ${lead.id} (${lead.firstName} ${lead.lastName}) - Status: ${lead.status} → KIT_COMPLETED`);
-              
-              // Mark as completed (implies it was shipped and returned)
-              updateData.status = LeadStatus.KIT_COMPLETED;
-              
-              // Log the status progression for audit trail
-              const statusProgression = `${lead.status} → SHIPPED → KIT_COMPLETED (via kit return report)`;
-              updateData.collectionsNotes += `\n\nStatus progression: ${statusProgression}`;
-              
-            } else if (lead.status === LeadStatus.SHIPPED) {
-              // Lead was shipped, now completed
-              console.log(`📦 Marking shipped lead ${lead.id} (${lead.firstName} ${lead.lastName}) as completed - Status: SHIPPED → KIT_COMPLETED`);
-              updateData.status = LeadStatus.KIT_COMPLETED;
-            } else {
-              // Lead in collections or other status, still mark as completed
-              console.log(`📦 Marking lead ${lead.id} (${lead.firstName} ${lead.lastName}) as completed - Status: ${lead.status} → KIT_COMPLETED`);
-              updateData.status = LeadStatus.KIT_COMPLETED;
-            }
-          } else {
-            console.log(`⚠️ Lead ${lead.id} (${lead.firstName} ${lead.lastName}) already completed: ${lead.status}`);
-          }
-
-          await prisma.lead.update({
-            where: { id: lead.id },
-            data: updateData
-          });
+        const result = await UploadRowProcessor.processKitReturnRow(row, {
+          source: 'UPLOAD',
+          actorId: userId,
+          origin: { fileUploadId: fileUpload?.id, fileName: file.name },
+          rowNumber,
+          dryRun
+        });
 
-          console.log(`✅ Marked lead ${lead.id} (${lead.firstName} ${lead.lastName}) as completed${trackingNumber ? ` with return tracking ${trackingNumber}` : ''}`);
+        if (result.outcome === 'PLANNED') {
+          planned.push(result.plan);
+        } else if (result.outcome === 'ERROR') {
+          results.errors.push(UploadErrorReport.entry(rowNumber, result.code, result.error, sourceRows[i]));
+        } else if (result.outcome === 'QUEUED') {
+          results.queuedForReview++;
+        } else if (result.outcome === 'UNCHANGED') {
+          results.alreadyApplied++;
+        } else {
+          results.completed++;
+          results.processed++;
         }
 
-        results.completed += matchingLeads.length;
-        results.processed++;
-
       } catch (error: any) {
         console.error(`❌ Error processing row ${rowNumber}:`, error);
-        results.errors.push({
-          row: rowNumber,
-          error: error.message || 'Unknown error processing row',
-          data: row
-        });
+        results.errors.push(UploadErrorReport.entry(
+          rowNumber,
+          UploadErrorReport.codeFor(error),
+          error.message || 'Unknown error processing row',
+          sourceRows[i]
+        ));
       }
     }
 
+    if (!fileUpload) {
+      return NextResponse.json({
+        success: true,
+        plan: UploadPreviewService.buildPlan('KIT_RETURN', file.name, csvData.length, [
+          ...planned,
+          ...results.errors.map(({ row, error }) => UploadPreviewService.planError(row, error))
+        ]),
+        duplicateOf
+      });
+    }
+
     // Update file upload record
     await prisma.fileUpload.update({
       where: { id: fileUpload.id },
@@ -374,22 +160,31 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    console.log('📋 Kit return processing complete:', results);
+    console.log('📋 Kit return processing complete:', { ...results, errors: results.errors.length });
 
     return NextResponse.json({
       success: true,
-      message: `Kit return report processed successfully. Marked ${results.completed} leads as completed.`,
+      message: `Kit return report processed successfully. Marked ${results.completed} leads as completed${results.alreadyApplied ? `, ${results.alreadyApplied} rows were already applied` : ''}${results.queuedForReview ? `, ${results.queuedForReview} rows need match review` : ''}.`,
       results: {
         totalRows: csvData.length,
         processed: results.processed,
         completed: results.completed,
+        alreadyApplied: results.alreadyApplied,
+        queuedForReview: results.queuedForReview,
         errors: results.errors.length,
-        fileUploadId: fileUpload.id
+        fileUploadId: fileUpload.id,
+        mappingProfile: headerMapping.profile?.name ?? null
       },
-      errors: results.errors.slice(0, 10) // Return first 10 errors for review
+      errors: UploadErrorReport.forResponse(results.errors.slice(0, 10)) // Return first 10 errors for review
     });
 
   } catch (error: any) {
+    if (error instanceof DuplicateUploadError) {
+      return NextResponse.json({ error: error.message, duplicateOf: error.previous }, { status: error.status });
+    }
+    if (error instanceof ColumnMappingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('❌ Error processing kit return CSV:', error);
     return NextResponse.json(
       { error: 'Failed to process kit return CSV', details: error.message },
@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
-import { parse } from 'csv-parse/sync';
 import { FileUploadType, LeadStatus } from '@prisma/client';
+import { LeadLifecycle } from '@/lib/services/leadLifecycle';
+import { PatientMatchingService } from '@/lib/services/patientMatchingService';
+import { MatchReviewService } from '@/lib/services/matchReviewService';
+import { UploadRowService, ShippingRowUpdate } from '@/lib/services/uploadRowService';
+import { UploadPreviewService, PlannedRow } from '@/lib/services/uploadPreviewService';
+import { validateMBI, describeMBIErrors } from '@/lib/utils/mbi';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { ColumnMappingService, ColumnMappingError } from '@/lib/services/columnMappingService';
+import { UploadFileReader, UploadFileError } from '@/lib/services/uploadFileReader';
+import { UploadErrorReport, UploadRowError } from '@/lib/services/uploadErrorReport';
+import { UploadFingerprintService, DuplicateUploadError } from '@/lib/services/uploadFingerprintService';
 
 // Utility function to parse dates in various formats
 function parseDate(dateStr: string): Date | null {
@@ -36,11 +46,6 @@ function parseDate(dateStr: string): Date | null {
   return null;
 }
 
-// Normalize phone numbers for matching
-function normalizePhone(phone: string): string {
-  return phone.replace(/\D/g, '');
-}
-
 // Helper function to find column value with smart mapping
 function findColumnName(headers: string[], possibleNames: string[]): string {
   for (const name of possibleNames) {
@@ -81,6 +86,8 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    // Dry run: return the per-row plan without writing anything
+    const dryRun = formData.get('dryRun') === 'true';
     
     if (!file) {
       return NextResponse.json(
@@ -89,62 +96,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!file.name.endsWith('.csv') && !file.name.endsWith('.tsv')) {
-      return NextResponse.json(
-        { error: 'File must be a CSV or TSV file' },
-        { status: 400 }
-      );
-    }
-
-    // Read file content
-    const fileContent = await file.text();
-    
-    // Parse CSV/TSV - Auto-detect delimiter
-    let csvData;
+    // CSV, TSV or XLSX - sniffed from the content, with an optional workbook sheet
+    let csvData: Record<string, string>[];
+    let contentHash: string;
     try {
-      // First, try to detect if it's tab-separated (TSV) or comma-separated (CSV)
-      const firstLine = fileContent.split('\n')[0];
-      const tabCount = (firstLine.match(/\t/g) || []).length;
-      const commaCount = (firstLine.match(/,/g) || []).length;
-      
-      // Use tab delimiter if there are more tabs than commas
-      const delimiter = tabCount > commaCount ? '\t' : ',';
-      const fileType = delimiter === '\t' ? 'TSV' : 'CSV';
-      
-      console.log(`📦 Detected file format: ${fileType} (tabs: ${tabCount}, commas: ${commaCount})`);
-      
-      csvData = parse(fileContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-        delimiter: delimiter
-      });
-    } catch (parseError) {
-      return NextResponse.json(
-        { error: 'Invalid CSV/TSV format', details: parseError },
-        { status: 400 }
-      );
+      const upload = await UploadFileReader.readFile(file, { sheet: formData.get('sheet') as string | null });
+      console.log(`📄 Read ${upload.format} file ${file.name}${upload.sheet ? ` (sheet "${upload.sheet}")` : ''}: ${upload.rows.length} rows`);
+      csvData = upload.rows;
+      contentHash = upload.contentHash;
+    } catch (readError) {
+      if (readError instanceof UploadFileError) {
+        return NextResponse.json({ error: readError.message }, { status: readError.status });
+      }
+      throw readError;
     }
 
     if (!csvData || csvData.length === 0) {
       return NextResponse.json(
-        { error: 'CSV file is empty' },
+        { error: 'File has no data rows' },
         { status: 400 }
       );
     }
 
+    // The rows as read - a failed row is recorded with these values, before any renaming
+    const sourceRows = csvData;
+
+    // Rename headers using the mapping sent with the upload, or the best saved profile
+    const headerMapping = await ColumnMappingService.resolve('SHIPPING_REPORT', Object.keys(csvData[0]), {
+      profileId: formData.get('mappingProfileId') as string | null,
+      mappings: formData.get('columnMapping') as string | null
+    });
+    csvData = ColumnMappingService.applyMappings(csvData, headerMapping.mappings);
+
     // Get column names for debugging
     const columnNames = Object.keys(csvData[0] || {});
     console.log(`📦 Shipping CSV column names found:`, columnNames);
 
-    // Create file upload record
-    const fileUpload = await prisma.fileUpload.create({
+    // Refuse an exact re-upload unless the uploader confirmed it - a preview only warns
+    const duplicateOf = await UploadFingerprintService.check('SHIPPING_REPORT', contentHash, {
+      dryRun,
+      allowDuplicate: formData.get('allowDuplicate') === 'true'
+    });
+    if (duplicateOf && !dryRun) {
+      console.log(`🔁 Confirmed re-upload of ${duplicateOf.fileName} (${duplicateOf.source} ${duplicateOf.id})`);
+    }
+
+    // Create file upload record - a dry run leaves no trace
+    const fileUpload = dryRun ? null : await prisma.fileUpload.create({
       data: {
         type: 'SHIPPING_REPORT' as FileUploadType,
         fileName: file.name,
         fileUrl: `uploads/shipping-report/${Date.now()}-${file.name}`,
         uploadedById: userId,
-        recordsProcessed: 0
+        recordsProcessed: 0,
+        contentHash
       }
     });
 
@@ -163,8 +168,12 @@ export async function POST(request: NextRequest) {
     const results = {
       processed: 0,
       updated: 0,
-      errors: [] as Array<{ row: number; error: string; data?: any }>
+      // Rows the matched lead already reflected - nothing written
+      alreadyApplied: 0,
+      queuedForReview: 0,
+      errors: [] as UploadRowError[]
     };
+    const planned: PlannedRow[] = [];
 
     console.log(`📦 Processing shipping report CSV with ${csvData.length} rows`);
 
@@ -258,22 +267,9 @@ export async function POST(request: NextRequest) {
         
         // If fullName provided (like ShipToCompanyorName), try to split it
         if (!firstName && !lastName && row[columnMapping.fullName]) {
-          const fullNameValue = row[columnMapping.fullName].trim();
-          console.log(`📦 Parsing patient name from shipping field: "${fullNameValue}"`);
-          
-          // Handle various name formats
-          if (fullNameValue.includes(',')) {
-            // Format: "Smith, John" or "Smith, John M"
-            const [lastPart, firstPart] = fullNameValue.split(',').map((s: string) => s.trim());
-            lastName = lastPart;
-            firstName = firstPart.split(' ')[0]; // Take first word as first name
-          } else {
-            // Format: "John Smith" or "John M Smith"
-            const nameParts = fullNameValue.split(/\s+/);
-            firstName = nameParts[0] || '';
-            lastName = nameParts.slice(-1)[0] || ''; // Take last word as last name
-          }
-          console.log(`📦 Parsed name: "${firstName}" "${lastName}"`);
+          // Handles "Smith, John" as well as "John M Smith"
+          ({ firstName, lastName } = PatientMatchingService.parseFullName(row[columnMapping.fullName]));
+          console.log(`📦 Parsed name from shipping field: "${firstName}" "${lastName}"`);
         }
         
         // Extract shipping address information
@@ -292,220 +288,144 @@ export async function POST(request: NextRequest) {
         const attention = row[columnMapping.attention] || '';
         const country = row[columnMapping.country] || '';
 
-        console.log(`📦 Row ${rowNumber}: Processing shipping to ${firstName} ${lastName} - Address-based matching`);
+        console.log(`📦 Row ${rowNumber}: Processing shipping to ${firstName} ${lastName}`);
         console.log(`🔍 Available shipping data:`, {
           patientName: `${firstName} ${lastName}`,
-          fullAddress: `${address1}, ${city}, ${state} ${zip}`,
-          mbi: mbi || 'not provided',
-          phone: phone ? `${phone} -> ${normalizePhone(phone)}` : 'not provided',
-          email: email || 'not provided',
+          address: address1 ? `provided (${state})` : 'not provided',
+          mbi: mbi ? PhiEncryption.maskMBI(mbi) : 'not provided',
+          phone: phone ? PhiEncryption.maskPhone(phone) : 'not provided',
+          email: email ? 'provided' : 'not provided',
           attention: attention || 'not provided',
           trackingNumber: trackingNumber || 'not provided',
           shippedDate: shippedDate || 'not provided',
           country: country || 'not provided'
         });
 
-        // Enhanced matching strategies - prioritize address-based matching for shipping
-        let matchingLeads = [];
-        let matchStrategy = '';
-
-        // Strategy 1: MBI (if available)
+        // A malformed MBI is a row error rather than a silent fallback to address matching
         if (mbi && mbi.trim() !== '') {
-          const leadsByMbi = await prisma.lead.findMany({
-            where: { mbi: mbi.trim() }
-          });
-          if (leadsByMbi.length > 0) {
-            matchingLeads.push(...leadsByMbi);
-            matchStrategy = 'MBI';
-            console.log(`✅ Strategy 1 - MBI "${mbi}": found ${leadsByMbi.length} leads`);
+          const mbiCheck = validateMBI(mbi);
+          if (!mbiCheck.valid) {
+            results.errors.push(UploadErrorReport.entry(
+              rowNumber,
+              'INVALID_MBI',
+              `Invalid MBI: ${describeMBIErrors(mbiCheck)}`,
+              sourceRows[i]
+            ));
+            continue;
           }
         }
 
-        // Strategy 2: Patient ID (if available)
-        if (matchingLeads.length === 0 && patientId && patientId.trim() !== '') {
-          const leadsByPatientId = await prisma.lead.findMany({
-            where: { id: patientId.trim() }
-          });
-          if (leadsByPatientId.length > 0) {
-            matchingLeads.push(...leadsByPatientId);
-            matchStrategy = 'Patient ID';
-            console.log(`✅ Strategy 2 - Patient ID "${patientId}": found ${leadsByPatientId.length} leads`);
-          }
-        }
+        // What the row writes to the matched lead - stored with the review if it needs one
+        const update: ShippingRowUpdate = {
+          trackingNumber,
+          shippedDate,
+          kitShippedDate: shippedDate.trim() !== '' ? (parseDate(shippedDate) || new Date()).toISOString() : undefined
+        };
+
+        // Score every candidate on name, DOB, phone, address and tracking number - only a
+        // confident match for an order that can still be shipped, or that already shipped
+        // with this row, is updated
+        const match = await PatientMatchingService.match({
+          leadId: patientId,
+          mbi,
+          trackingNumber,
+          firstName,
+          lastName,
+          dateOfBirth: parseDate(dateOfBirth) || undefined,
+          phone,
+          street: address1,
+          city,
+          state,
+          zipCode: zip
+        }, {
+          isEligible: lead => LeadLifecycle.canReach(lead.status, 'SHIPPED') || UploadRowService.isShippingApplied(lead, update)
+        });
 
-        // Strategy 3: Name + Full Address (perfect match for shipping)
-        if (matchingLeads.length === 0 && firstName && lastName && address1 && city && state) {
-          const leadsByNameFullAddress = await prisma.lead.findMany({
-            where: {
-              firstName: { equals: firstName.trim(), mode: 'insensitive' },
-              lastName: { equals: lastName.trim(), mode: 'insensitive' },
-              street: { contains: address1.trim(), mode: 'insensitive' },
-              city: { equals: city.trim(), mode: 'insensitive' },
-              state: { equals: state.trim(), mode: 'insensitive' }
-            }
-          });
-          if (leadsByNameFullAddress.length > 0) {
-            matchingLeads.push(...leadsByNameFullAddress);
-            matchStrategy = 'Name + Full Address';
-            console.log(`✅ Strategy 3 - Name + Full Address "${firstName} ${lastName}" at "${address1}, ${city}, ${state}": found ${leadsByNameFullAddress.length} leads`);
+        if (match.decision === 'REVIEW') {
+          console.log(`🧐 Row ${rowNumber}: ${match.summary}`);
+          if (fileUpload) {
+            await MatchReviewService.enqueue('SHIPPING_REPORT', { fileUploadId: fileUpload.id, fileName: file.name, rowNumber }, row, update, match);
+          } else {
+            planned.push(UploadPreviewService.planReview(rowNumber, match));
           }
+          results.queuedForReview++;
+          continue;
         }
 
-        // Strategy 4: Name + Address + ZIP
-        if (matchingLeads.length === 0 && firstName && lastName && address1 && zip) {
-          const leadsByNameAddressZip = await prisma.lead.findMany({
-            where: {
-              firstName: { equals: firstName.trim(), mode: 'insensitive' },
-              lastName: { equals: lastName.trim(), mode: 'insensitive' },
-              street: { contains: address1.trim(), mode: 'insensitive' },
-              zipCode: zip.trim()
-            }
-          });
-          if (leadsByNameAddressZip.length > 0) {
-            matchingLeads.push(...leadsByNameAddressZip);
-            matchStrategy = 'Name + Address + ZIP';
-            console.log(`✅ Strategy 4 - Name + Address + ZIP "${firstName} ${lastName}" + "${address1}" + "${zip}": found ${leadsByNameAddressZip.length} leads`);
-          }
+        if (match.decision === 'NO_MATCH') {
+          console.log(`❌ Row ${rowNumber}: ${match.summary}`);
+          results.errors.push(UploadErrorReport.entry(
+            rowNumber,
+            'NO_MATCH',
+            `No matching lead found for ${firstName} ${lastName} at ${address1}, ${city}, ${state} ${zip}`,
+            sourceRows[i]
+          ));
+          continue;
         }
 
-        // Strategy 5: Name + City + State (broader address match)
-        if (matchingLeads.length === 0 && firstName && lastName && city && state) {
-          const leadsByNameCityState = await prisma.lead.findMany({
-            where: {
-              firstName: { equals: firstName.trim(), mode: 'insensitive' },
-              lastName: { equals: lastName.trim(), mode: 'insensitive' },
-              city: { equals: city.trim(), mode: 'insensitive' },
-              state: { equals: state.trim(), mode: 'insensitive' }
-            }
-          });
-          if (leadsByNameCityState.length > 0) {
-            matchingLeads.push(...leadsByNameCityState);
-            matchStrategy = 'Name + City + State';
-            console.log(`✅ Strategy 5 - Name + City + State "${firstName} ${lastName}" in "${city}, ${state}": found ${leadsByNameCityState.length} leads`);
-          }
-        }
+        const lead = match.lead!;
+        console.log(`✅ Row ${rowNumber}: ${match.summary}`);
 
-        // Strategy 6: Address + ZIP only (if patient name parsing failed)
-        if (matchingLeads.length === 0 && address1 && zip) {
-          const leadsByAddressZip = await prisma.lead.findMany({
-            where: {
-              street: { contains: address1.trim(), mode: 'insensitive' },
-              zipCode: zip.trim()
-            }
-          });
-          if (leadsByAddressZip.length > 0) {
-            matchingLeads.push(...leadsByAddressZip);
-            matchStrategy = 'Address + ZIP';
-            console.log(`✅ Strategy 6 - Address + ZIP "${address1}" + "${zip}": found ${leadsByAddressZip.length} leads`);
+        // A replayed row: the lead already shipped with it, so nothing is written or assigned
+        if (UploadRowService.isShippingApplied(lead, update)) {
+          if (fileUpload) {
+            console.log(`⏭️ Row ${rowNumber}: lead ${lead.id} already shipped with this row - nothing to write`);
+            results.alreadyApplied++;
+          } else {
+            planned.push(await UploadPreviewService.planMatch('SHIPPING_REPORT', rowNumber, match, update));
           }
+          continue;
         }
 
-        // Strategy 7: Name + Phone (if phone provided in attention or other field)
-        if (matchingLeads.length === 0 && firstName && lastName && phone) {
-          const leadsByNamePhone = await prisma.lead.findMany({
-            where: {
-              firstName: { equals: firstName.trim(), mode: 'insensitive' },
-              lastName: { equals: lastName.trim(), mode: 'insensitive' },
-              phone: normalizePhone(phone)
-            }
-          });
-          if (leadsByNamePhone.length > 0) {
-            matchingLeads.push(...leadsByNamePhone);
-            matchStrategy = 'Name + Phone';
-            console.log(`✅ Strategy 7 - Name + Phone "${firstName} ${lastName}" + "${normalizePhone(phone)}": found ${leadsByNamePhone.length} leads`);
-          }
+        // CRITICAL FIX: Auto-assign to collections agent when shipped
+        let assignedCollectionsAgent = null;
+        if (!lead.collectionsAgentId && collectionsAgents.length > 0) {
+          // Simple round-robin assignment (you could implement more sophisticated logic)
+          const agentIndex = results.updated % collectionsAgents.length;
+          assignedCollectionsAgent = collectionsAgents[agentIndex];
+          console.log(`👥 Auto-assigning lead ${lead.id} to collections agent: ${assignedCollectionsAgent.firstName} ${assignedCollectionsAgent.lastName}`);
         }
 
-        if (matchingLeads.length === 0) {
-          console.log(`❌ No matching lead found using any strategy. Searched with:`, {
-            patientName: `${firstName} ${lastName}`,
-            fullAddress: `${address1}, ${city}, ${state} ${zip}`,
-            mbi: mbi || 'none',
-            phone: phone ? `${phone} -> ${normalizePhone(phone)}` : 'none',
-            email: email || 'none',
-            available_columns: Object.keys(row)
-          });
-          results.errors.push({
-            row: rowNumber,
-            error: `No matching lead found for ${firstName} ${lastName} at ${address1}, ${city}, ${state} ${zip}`,
-            data: row
-          });
+        if (!fileUpload) {
+          planned.push(await UploadPreviewService.planMatch('SHIPPING_REPORT', rowNumber, match, update, assignedCollectionsAgent?.id ?? null));
+          results.updated++; // keeps the agent round-robin in step with a real run
           continue;
-        } else {
-          console.log(`✅ Found ${matchingLeads.length} matching lead(s) using strategy: ${matchStrategy}`, 
-            matchingLeads.map(l => `${l.id}: ${l.firstName} ${l.lastName} at ${l.street}, ${l.city}, ${l.state}`)
-          );
         }
 
-        // Process each matching lead
-        for (const lead of matchingLeads) {
-          // Check if lead is already in a final status
-          if (lead.status === 'SHIPPED' || lead.status === 'KIT_COMPLETED' || lead.status === 'RETURNED') {
-            console.log(`⚠️ Lead ${lead.id} (${lead.firstName} ${lead.lastName}) already in final status: ${lead.status}`);
-          } else {
-            // Auto-approve and ship leads that haven't been shipped yet
-            console.log(`📋 Auto-approving lead ${lead.id} (${lead.firstName} ${lead.lastName}) - Status: ${lead.status} → APPROVED → SHIPPED`);
-          }
+        await UploadRowService.applyShipping(lead, update, {
+          source: 'UPLOAD',
+          actorId: userId,
+          reason: `Shipping report ${file.name} row ${rowNumber} (${Math.round(match.best!.confidence * 100)}% match)`,
+          origin: { fileUploadId: fileUpload.id, rowNumber }
+        }, assignedCollectionsAgent?.id ?? null);
 
-          // CRITICAL FIX: Auto-assign to collections agent when shipped
-          let assignedCollectionsAgent = null;
-          if (!lead.collectionsAgentId && collectionsAgents.length > 0) {
-            // Simple round-robin assignment (you could implement more sophisticated logic)
-            const agentIndex = results.updated % collectionsAgents.length;
-            assignedCollectionsAgent = collectionsAgents[agentIndex];
-            console.log(`👥 Auto-assigning lead ${lead.id} to collections agent: ${assignedCollectionsAgent.firstName} ${assignedCollectionsAgent.lastName}`);
-          }
-
-          // Update lead with shipping information
-          const updateData: any = {
-            status: 'SHIPPED' as const,
-            collectionsNotes: lead.collectionsNotes 
-              ? `${lead.collectionsNotes}\n\n📦 Shipping Update: Kit shipped${trackingNumber ? ` with tracking ${trackingNumber}` : ''}${shippedDate ? ` on ${shippedDate}` : ''}`
-              : `📦 Shipping Update: Kit shipped${trackingNumber ? ` with tracking ${trackingNumber}` : ''}${shippedDate ? ` on ${shippedDate}` : ''}`,
-            
-            // CRITICAL: Assign to collections agent for visibility
-            collectionsAgentId: assignedCollectionsAgent?.id || lead.collectionsAgentId
-          };
-
-          // Only update tracking number if provided
-          if (trackingNumber && trackingNumber.trim() !== '') {
-            updateData.trackingNumber = trackingNumber.trim();
-            console.log(`📦 Setting tracking number: ${trackingNumber.trim()}`);
-          }
-
-          // Only update shipped date if provided
-          if (shippedDate && shippedDate.trim() !== '') {
-            updateData.kitShippedDate = parseDate(shippedDate) || new Date();
-          }
-
-          await prisma.lead.update({
-            where: { id: lead.id },
-            data: updateData
-          });
-
-          console.log(`✅ Updated lead ${lead.id} (${lead.firstName} ${lead.lastName}) with shipping info${assignedCollectionsAgent ? ` and assigned to ${assignedCollectionsAgent.firstName} ${assignedCollectionsAgent.lastName}` : ''}`);
-          results.updated++;
-
-          // Store additional shipping metadata in collections notes if available
-          const shippingMetadata = {
-            processedFrom: 'shipping-report-csv',
-            matchedBy: matchStrategy,
-            assignedToCollections: assignedCollectionsAgent ? `${assignedCollectionsAgent.firstName} ${assignedCollectionsAgent.lastName}` : 'existing agent'
-          };
-        }
+        console.log(`✅ Updated lead ${lead.id} (${lead.firstName} ${lead.lastName}) with shipping info${assignedCollectionsAgent ? ` and assigned to ${assignedCollectionsAgent.firstName} ${assignedCollectionsAgent.lastName}` : ''}`);
+        results.updated++;
 
         results.processed++;
 
       } catch (error: any) {
         console.error(`❌ Error processing row ${rowNumber}:`, error);
-        results.errors.push({
-          row: rowNumber,
-          error: error.message || 'Unknown error processing row',
-          data: row
-        });
+        results.errors.push(UploadErrorReport.entry(
+          rowNumber,
+          UploadErrorReport.codeFor(error),
+          error.message || 'Unknown error processing row',
+          sourceRows[i]
+        ));
       }
     }
 
+    if (!fileUpload) {
+      return NextResponse.json({
+        success: true,
+        plan: UploadPreviewService.buildPlan('SHIPPING_REPORT', file.name, csvData.length, [
+          ...planned,
+          ...results.errors.map(({ row, error }) => UploadPreviewService.planError(row, error))
+        ]),
+        duplicateOf
+      });
+    }
+
     // Update file upload record
     await prisma.fileUpload.update({
       where: { id: fileUpload.id },
@@ -516,22 +436,31 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    console.log('📦 Shipping report processing complete:', results);
+    console.log('📦 Shipping report processing complete:', { ...results, errors: results.errors.length });
 
     return NextResponse.json({
       success: true,
-      message: `Shipping report processed successfully. Updated ${results.updated} leads.`,
+      message: `Shipping report processed successfully. Updated ${results.updated} leads${results.alreadyApplied ? `, ${results.alreadyApplied} rows were already applied` : ''}${results.queuedForReview ? `, ${results.queuedForReview} rows need match review` : ''}.`,
       results: {
         totalRows: csvData.length,
         processed: results.processed,
         updated: results.updated,
+        alreadyApplied: results.alreadyApplied,
+        queuedForReview: results.queuedForReview,
         errors: results.errors.length,
-        fileUploadId: fileUpload.id
+        fileUploadId: fileUpload.id,
+        mappingProfile: headerMapping.profile?.name ?? null
       },
-      errors: results.errors.slice(0, 10) // Return first 10 errors for review
+      errors: UploadErrorReport.forResponse(results.errors.slice(0, 10)) // Return first 10 errors for review
     });
 
   } catch (error: any) {
+    if (error instanceof DuplicateUploadError) {
+      return NextResponse.json({ error: error.message, duplicateOf: error.previous }, { status: error.status });
+    }
+    if (error instanceof ColumnMappingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('❌ Error processing shipping report CSV:', error);
     return NextResponse.json(
       { error: 'Failed to process shipping report CSV', details: error.message },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import { prisma } from '@/lib/prisma';
+import { ACTIVE_LEAD_FILTER } from '@/lib/retention/softDeleteExtension';
 
 // Simple auth check for now - will improve later
 async function verifyAdminAuth(request: NextRequest) {
@@ -92,8 +93,8 @@ export async function PUT(
         },
         _count: {
           select: {
-            leadsAsAdvocate: true,
-            leadsAsCollections: true,
+            leadsAsAdvocate: { where: ACTIVE_LEAD_FILTER },
+            leadsAsCollections: { where: ACTIVE_LEAD_FILTER },
             contactAttempts: true,
             callbacks: true,
           },
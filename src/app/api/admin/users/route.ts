@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import { prisma } from '@/lib/prisma';
+import { ACTIVE_LEAD_FILTER } from '@/lib/retention/softDeleteExtension';
 
 // Simple auth check for now - will improve later
 async function verifyAdminAuth(request: NextRequest) {
@@ -69,12 +70,14 @@ export async function GET(request: NextRequest) {
           },
         },
         leadsAsAdvocate: {
+          where: ACTIVE_LEAD_FILTER,
           select: {
             id: true,
             status: true,
           },
         },
         leadsAsCollections: {
+          where: ACTIVE_LEAD_FILTER,
           select: {
             id: true,
             status: true,
@@ -82,8 +85,8 @@ export async function GET(request: NextRequest) {
         },
         _count: {
           select: {
-            leadsAsAdvocate: true,
-            leadsAsCollections: true,
+            leadsAsAdvocate: { where: ACTIVE_LEAD_FILTER },
+            leadsAsCollections: { where: ACTIVE_LEAD_FILTER },
             contactAttempts: true,
             callbacks: true,
           },
@@ -157,8 +160,8 @@ export async function POST(request: NextRequest) {
         },
         _count: {
           select: {
-            leadsAsAdvocate: true,
-            leadsAsCollections: true,
+            leadsAsAdvocate: { where: ACTIVE_LEAD_FILTER },
+            leadsAsCollections: { where: ACTIVE_LEAD_FILTER },
             contactAttempts: true,
             callbacks: true,
           },
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { ACTIVE_LEAD_FILTER } from '@/lib/retention/softDeleteExtension';
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,6 +18,7 @@ export async function GET(request: NextRequest) {
       },
       include: {
         leads: {
+          where: ACTIVE_LEAD_FILTER,
           select: {
             id: true,
             testType: true,
@@ -33,6 +35,7 @@ export async function GET(request: NextRequest) {
           },
           include: {
             leads: {
+              where: ACTIVE_LEAD_FILTER,
               select: {
                 id: true,
                 testType: true,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
+import { ACTIVE_LEAD_FILTER } from '@/lib/retention/softDeleteExtension';
 
 const vendorUpdateSchema = z.object({
   name: z.string().min(2).optional(),
@@ -9,6 +10,7 @@ const vendorUpdateSchema = z.object({
   staticCode: z.string().min(3).optional(),
   parentVendorId: z.string().nullable().optional(),
   isActive: z.boolean().optional(),
+  shippingCarrier: z.enum(['UPS', 'USPS', 'FEDEX']).nullable().optional(),
 });
 
 // PUT /api/admin/vendors/[id] - Update vendor
@@ -77,6 +79,7 @@ export async function PUT(
           },
         },
         leads: {
+          where: ACTIVE_LEAD_FILTER,
           select: {
             id: true,
             status: true,
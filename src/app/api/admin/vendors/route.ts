@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma';
 import { verifyAdminAuth } from '@/lib/auth/middleware';
 import { generateUniqueVendorCode, generateUniqueStaticCode } from '@/lib/utils/vendorCodeGenerator';
 import bcrypt from 'bcryptjs';
+import { ACTIVE_LEAD_FILTER } from '@/lib/retention/softDeleteExtension';
 
 // Validation schemas
 const vendorCreateSchema = z.object({
@@ -12,6 +13,7 @@ const vendorCreateSchema = z.object({
   staticCode: z.string().min(3).optional(), // Made optional for auto-generation
   parentVendorId: z.string().nullable().optional(),
   isActive: z.boolean().default(true),
+  shippingCarrier: z.enum(['UPS', 'USPS', 'FEDEX']).nullable().optional(),
   // New fields for automatic user creation
   contactEmail: z.string().email('Invalid email address').optional(),
   contactFirstName: z.string().min(2, 'First name must be at least 2 characters').optional(),
@@ -42,6 +44,7 @@ export async function GET(request: NextRequest) {
           },
         },
         leads: {
+          where: ACTIVE_LEAD_FILTER,
           select: {
             id: true,
             status: true,
@@ -131,6 +134,7 @@ export async function POST(request: NextRequest) {
           staticCode: staticCode,
           parentVendorId: validatedData.parentVendorId || null,
           isActive: validatedData.isActive,
+          shippingCarrier: validatedData.shippingCarrier ?? null,
         },
       });
 
@@ -171,6 +175,7 @@ export async function POST(request: NextRequest) {
             },
           },
           leads: {
+            where: ACTIVE_LEAD_FILTER,
             select: {
               id: true,
               status: true,
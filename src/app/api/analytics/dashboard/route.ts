@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAuth } from '@/lib/auth/middleware';
+import { ACTIVE_LEAD_FILTER } from '@/lib/retention/softDeleteExtension';
 
 // GET /api/analytics/dashboard - Get dashboard metrics
 export async function GET(request: NextRequest) {
@@ -105,6 +106,7 @@ export async function GET(request: NextRequest) {
     const vendorPerformance = await prisma.vendor.findMany({
       include: {
         leads: {
+          where: ACTIVE_LEAD_FILTER,
           select: {
             status: true
           }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyCollectionsAuth } from '@/lib/auth/middleware';
+import { ShippingLabelService } from '@/lib/services/shippingLabelService';
+
+// GET /api/leads/[id]/labels - The kit's stored outbound and return labels, for reprinting
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Kits are packed and chased by admins and collections
+    const authResult = await verifyCollectionsAuth(request);
+    if (authResult.error) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+    }
+
+    const lead = await prisma.lead.findUnique({ where: { id: params.id }, select: { id: true } });
+    if (!lead) {
+      return NextResponse.json(
+        { success: false, error: 'Lead not found' },
+        { status: 404 }
+      );
+    }
+
+    const labels = await ShippingLabelService.list(lead.id);
+    console.log(`🏷️ ${labels.length} labels for lead ${lead.id} fetched by ${authResult.user?.email}`);
+
+    return NextResponse.json({ success: true, labels }, {
+      // Labels show the patient's name and address
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error fetching shipping labels:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch shipping labels' },
+      { status: 500 }
+    );
+  }
+}
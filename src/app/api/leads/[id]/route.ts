@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { LeadStatus } from '@prisma/client';
 import { AlertService } from '@/lib/services/alertService';
+import { LeadLifecycle, InvalidLeadTransitionError } from '@/lib/services/leadLifecycle';
+import { PatientService } from '@/lib/services/patientService';
+import { MedicalIntakeService } from '@/lib/services/medicalIntakeService';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { ACTIVE_LEAD_FILTER } from '@/lib/retention/softDeleteExtension';
 import { verifyAuth } from '@/lib/auth/middleware';
 
 // Validation schema for lead updates
@@ -10,26 +16,13 @@ const leadUpdateSchema = z.object({
   advocateNotes: z.string().optional(),
   advocateId: z.string().optional(),
   advocateReviewedAt: z.string().datetime().optional(),
-  status: z.enum([
-    'SUBMITTED', 
-    'ADVOCATE_REVIEW', 
-    'QUALIFIED', 
-    'SENT_TO_CONSULT', 
-    'APPROVED', 
-    'READY_TO_SHIP', 
-    'SHIPPED', 
-    'COLLECTIONS', 
-    'KIT_COMPLETED', 
-    'RETURNED',
-    'DOESNT_QUALIFY',
-    'PATIENT_DECLINED',
-    'DUPLICATE',
-    'COMPLIANCE_ISSUE'
-  ]).optional(),
+  status: z.nativeEnum(LeadStatus).optional(),
   testType: z.enum(['IMMUNE', 'NEURO']).optional(),
   collectionsAgentId: z.string().optional(),
   collectionsDisposition: z.enum(['NO_ANSWER', 'SCHEDULED_CALLBACK', 'KIT_COMPLETED']).optional(),
   collectionsNotes: z.string().optional(),
+  // Carrier the kit will ship with; null falls back to the vendor's
+  shippingCarrier: z.enum(['UPS', 'USPS', 'FEDEX']).nullable().optional(),
   
   // Editable patient information fields
   firstName: z.string().optional(),
@@ -41,8 +34,48 @@ const leadUpdateSchema = z.object({
   city: z.string().optional(),
   state: z.string().optional(),
   zipCode: z.string().optional(),
+
+  // Medical intake fields (stored on the patient)
+  middleInitial: z.string().optional(),
+  gender: z.string().optional(),
+  ethnicity: z.string().optional(),
+  maritalStatus: z.string().optional(),
+  height: z.string().optional(),
+  weight: z.string().optional(),
+  primaryInsuranceCompany: z.string().optional(),
+  primaryPolicyNumber: z.string().optional(),
+  medicalHistory: z.string().optional(),
+  surgicalHistory: z.string().optional(),
+  currentMedications: z.string().optional(),
+  conditionsHistory: z.string().optional(),
+  familyHistory: z.array(z.object({
+    relation: z.string().optional(),
+    conditions: z.string().optional(),
+    ageOfDiagnosis: z.string().optional(),
+  })).optional(),
 }).partial();
 
+// Lead fields that are owned by the patient rather than the individual test order
+const PATIENT_FIELDS = ['firstName', 'lastName', 'phone', 'street', 'city', 'state', 'zipCode'] as const;
+
+// Patient intake and sibling test orders, shown alongside the lead
+const patientInclude = {
+  include: {
+    ...MedicalIntakeService.include,
+    testOrders: {
+      where: ACTIVE_LEAD_FILTER,
+      select: {
+        id: true,
+        testType: true,
+        status: true,
+        createdAt: true,
+        vendor: { select: { name: true } }
+      },
+      orderBy: { createdAt: 'desc' as const }
+    }
+  }
+};
+
 // GET /api/leads/[id] - Get lead with alert checking
 export async function GET(
   request: NextRequest,
@@ -176,14 +209,18 @@ export async function GET(
           console.log('🎯 Assigning lead to advocate ID:', authResult.user.userId);
           
           try {
-            // Use a transaction to ensure data consistency
-            const updatedLead = await prisma.lead.update({
+            // Status change goes through the lifecycle so a concurrent move out of the pool is rejected
+            await LeadLifecycle.transition(lead, 'ADVOCATE_REVIEW', {
+              source: 'SYSTEM',
+              actorId: authResult.user.userId,
+              reason: 'Auto-assigned to advocate on open'
+            }, {
+              advocateId: authResult.user.userId,
+              advocateReviewedAt: new Date()
+            });
+
+            const updatedLead = await prisma.lead.findUniqueOrThrow({
               where: { id },
-              data: {
-                advocateId: authResult.user.userId,
-                status: 'ADVOCATE_REVIEW',
-                advocateReviewedAt: new Date()
-              },
               include: {
                 advocate: {
                   select: { id: true, firstName: true, lastName: true }
@@ -261,7 +298,8 @@ export async function GET(
         alerts: {
           where: { isAcknowledged: false },
           orderBy: { createdAt: 'desc' }
-        }
+        },
+        patient: patientInclude
       }
     });
 
@@ -271,10 +309,11 @@ export async function GET(
       assignmentMessage: assignmentMessage, // Message about assignment
       lead: {
         id: updatedLead!.id,
+        patientId: updatedLead!.patientId,
         mbi: updatedLead!.mbi,
         firstName: updatedLead!.firstName,
         lastName: updatedLead!.lastName,
-        dateOfBirth: updatedLead!.dateOfBirth.toISOString(),
+        dateOfBirth: updatedLead!.dateOfBirth,
         phone: updatedLead!.phone,
         
         // Address
@@ -292,6 +331,9 @@ export async function GET(
         testType: updatedLead!.testType,
         isDuplicate: updatedLead!.isDuplicate,
         hasActiveAlerts: updatedLead!.hasActiveAlerts,
+        shippingCarrier: updatedLead!.shippingCarrier,
+        trackingNumber: updatedLead!.trackingNumber,
+        inboundTrackingNumber: updatedLead!.inboundTrackingNumber,
         advocateId: updatedLead!.advocateId,
         advocateDisposition: updatedLead!.advocateDisposition,
         advocateNotes: updatedLead!.advocateNotes,
@@ -308,6 +350,17 @@ export async function GET(
         advocate: updatedLead!.advocate,
         collectionsAgent: updatedLead!.collectionsAgent,
         complianceChecklist: updatedLead!.complianceChecklist,
+        ...MedicalIntakeService.format(updatedLead!.patient),
+        // Other test orders for the same patient (e.g. NEURO alongside IMMUNE)
+        otherTestOrders: (updatedLead!.patient?.testOrders || [])
+          .filter(order => order.id !== updatedLead!.id)
+          .map(order => ({
+            id: order.id,
+            testType: order.testType,
+            status: order.status,
+            createdAt: order.createdAt,
+            vendorName: order.vendor.name
+          })),
         alerts: updatedLead!.alerts.map(alert => ({
           id: alert.id,
           type: alert.type,
@@ -423,21 +476,28 @@ export async function PATCH(
       );
     }
 
+    // Tracking numbers belong to the carrier that issued them
+    if (validatedData.shippingCarrier !== undefined && existingLead.trackingNumber
+      && validatedData.shippingCarrier !== existingLead.shippingCarrier) {
+      return NextResponse.json(
+        { success: false, error: 'Kit has already shipped - its carrier cannot be changed' },
+        { status: 409 }
+      );
+    }
+
     console.log('🔧 ✅ Lead found:', existingLead.firstName, existingLead.lastName);
     console.log('🔧 Current advocateId:', existingLead.advocateId);
     console.log('🔧 Requesting user:', authResult.user?.userId);
 
-    // Helper function to map disposition to status
-    const getStatusFromDisposition = (disposition: string): string => {
+    // Helper function to map disposition to status. Dispositions that end the lead's
+    // review close it as RETURNED; the disposition itself records why.
+    const getStatusFromDisposition = (disposition: string): LeadStatus => {
       switch (disposition) {
         case 'DOESNT_QUALIFY':
-          return 'DOESNT_QUALIFY';
         case 'PATIENT_DECLINED':
-          return 'PATIENT_DECLINED';
         case 'DUPE':
-          return 'DUPLICATE';
         case 'COMPLIANCE_ISSUE':
-          return 'COMPLIANCE_ISSUE';
+          return 'RETURNED';
         case 'CONNECTED_TO_COMPLIANCE':
           return 'SENT_TO_CONSULT'; // Positive result, send to next stage
         case 'CALL_BACK':
@@ -447,9 +507,27 @@ export async function PATCH(
       }
     };
 
-    // Prepare update data
+    // Prepare update data - intake fields are stored on the patient, not the lead
     console.log('🔧 === UPDATE DATA PREPARATION ===');
-    const updateData: any = { ...validatedData };
+    const {
+      middleInitial, gender, ethnicity, maritalStatus, height, weight,
+      primaryInsuranceCompany, primaryPolicyNumber,
+      medicalHistory, surgicalHistory, currentMedications, conditionsHistory,
+      familyHistory,
+      ...leadFields
+    } = validatedData;
+    const intakeUpdate = {
+      middleInitial, gender, ethnicity, maritalStatus, height, weight,
+      insurance: { primaryCompany: primaryInsuranceCompany, primaryPolicyNumber },
+      medicalHistory: {
+        past: medicalHistory,
+        surgical: surgicalHistory,
+        medications: currentMedications,
+        conditions: conditionsHistory
+      },
+      familyHistory
+    };
+    const updateData: any = { ...leadFields };
 
     // Convert date strings to Date objects
     if (validatedData.advocateReviewedAt) {
@@ -458,12 +536,19 @@ export async function PATCH(
     }
 
     // Auto-update status based on advocate disposition only if disposition has changed
+    let dispositionStatus = false;
     if (validatedData.advocateDisposition && !validatedData.status) {
       // Check if disposition is different from current
       if (validatedData.advocateDisposition !== existingLead.advocateDisposition) {
         const autoStatus = getStatusFromDisposition(validatedData.advocateDisposition);
-        updateData.status = autoStatus;
-        console.log('🔧 Disposition changed - Auto-setting status to:', autoStatus, 'based on disposition:', validatedData.advocateDisposition);
+        if (LeadLifecycle.canReach(existingLead.status, autoStatus)) {
+          updateData.status = autoStatus;
+          dispositionStatus = true;
+          console.log('🔧 Disposition changed - Auto-setting status to:', autoStatus, 'based on disposition:', validatedData.advocateDisposition);
+        } else {
+          // The lead has moved past advocate review - record the disposition only
+          console.log('🔧 Disposition changed - status', existingLead.status, 'cannot move to', autoStatus, '- keeping it');
+        }
       } else {
         console.log('🔧 Disposition unchanged - keeping current status:', existingLead.status);
       }
@@ -478,13 +563,44 @@ export async function PATCH(
       advocateId: updateData.advocateId
     });
 
-    // Update the lead
+    // Update the lead - status changes are validated by the lead lifecycle
     console.log('🔧 === DATABASE UPDATE ===');
     let updatedLead;
     try {
-      updatedLead = await prisma.lead.update({
+      const { status: requestedStatus, ...fieldUpdates } = updateData;
+
+      if (requestedStatus && requestedStatus !== existingLead.status) {
+        await LeadLifecycle.transition(existingLead, requestedStatus, {
+          source: 'UI',
+          actorId: authResult.user?.userId,
+          reason: validatedData.advocateDisposition ? `Disposition: ${validatedData.advocateDisposition}` : undefined,
+          // A disposition moves the lead through advocate review when it has not entered it yet
+          autoProgress: dispositionStatus
+        }, fieldUpdates);
+      } else {
+        await prisma.lead.update({
+          where: { id },
+          data: fieldUpdates
+        });
+      }
+
+      // Demographics belong to the patient - copy edits to the patient's other test orders
+      const demographicUpdates = Object.fromEntries(
+        PATIENT_FIELDS
+          .filter(field => fieldUpdates[field] !== undefined)
+          .map(field => [field, fieldUpdates[field]])
+      );
+      if (existingLead.patientId && Object.keys(demographicUpdates).length > 0) {
+        await PatientService.updateDemographics(existingLead.patientId, demographicUpdates);
+      }
+
+      if (MedicalIntakeService.hasIntake(intakeUpdate)) {
+        const patientId = await PatientService.ensureForLead(existingLead);
+        await MedicalIntakeService.save(patientId, intakeUpdate);
+      }
+
+      updatedLead = await prisma.lead.findUniqueOrThrow({
         where: { id },
-        data: updateData,
         include: {
           vendor: {
             select: { id: true, name: true, code: true }
@@ -499,7 +615,8 @@ export async function PATCH(
           alerts: {
             where: { isAcknowledged: false },
             orderBy: { createdAt: 'desc' }
-          }
+          },
+          patient: patientInclude
         }
       });
       console.log('🔧 ✅ Database update successful');
@@ -523,7 +640,7 @@ export async function PATCH(
         // Check for any other leads with same MBI to flag potential future duplicates
         const duplicateLeadsToFlag = await prisma.lead.findMany({
           where: {
-            mbi: updatedLead.mbi,
+            mbiHash: PhiEncryption.blindIndex('mbi', updatedLead.mbi),
             id: { not: id }, // Exclude current lead
             status: { in: ['SUBMITTED', 'ADVOCATE_REVIEW'] } // Only flag leads that haven't been consulted yet
           },
@@ -533,12 +650,12 @@ export async function PATCH(
         });
 
         if (duplicateLeadsToFlag.length > 0) {
-          console.log(`🚨 Found ${duplicateLeadsToFlag.length} potential duplicate leads for MBI: ${updatedLead.mbi}`);
+          console.log(`🚨 Found ${duplicateLeadsToFlag.length} potential duplicate leads for MBI: ${PhiEncryption.maskMBI(updatedLead.mbi)}`);
           
           // Create high-priority alerts for existing leads with same MBI
           for (const duplicateLead of duplicateLeadsToFlag) {
             try {
-              const alertMessage = `CONSULTATION ALERT: Patient ${updatedLead.firstName} ${updatedLead.lastName} (MBI: ${updatedLead.mbi}) has been CONSULTED for ${updatedLead.testType} test. This lead may be a duplicate.`;
+              const alertMessage = `CONSULTATION ALERT: Patient ${updatedLead.firstName} ${updatedLead.lastName} (MBI: ${PhiEncryption.maskMBI(updatedLead.mbi)}) has been CONSULTED for ${updatedLead.testType} test. This lead may be a duplicate.`;
               
               await prisma.leadAlert.create({
                 data: {
@@ -621,10 +738,11 @@ export async function PATCH(
       success: true,
       lead: {
         id: updatedLead.id,
+        patientId: updatedLead.patientId,
         mbi: updatedLead.mbi,
         firstName: updatedLead.firstName,
         lastName: updatedLead.lastName,
-        dateOfBirth: updatedLead.dateOfBirth.toISOString(),
+        dateOfBirth: updatedLead.dateOfBirth,
         phone: updatedLead.phone,
         
         // Address
@@ -642,6 +760,9 @@ export async function PATCH(
         testType: updatedLead.testType,
         isDuplicate: updatedLead.isDuplicate,
         hasActiveAlerts: updatedLead.hasActiveAlerts,
+        shippingCarrier: updatedLead.shippingCarrier,
+        trackingNumber: updatedLead.trackingNumber,
+        inboundTrackingNumber: updatedLead.inboundTrackingNumber,
         advocateId: updatedLead.advocateId,
         advocateDisposition: updatedLead.advocateDisposition,
         advocateNotes: updatedLead.advocateNotes,
@@ -663,6 +784,17 @@ export async function PATCH(
         advocate: updatedLead.advocate,
         collectionsAgent: updatedLead.collectionsAgent,
         complianceChecklist: updatedLead.complianceChecklist,
+        ...MedicalIntakeService.format(updatedLead.patient),
+        // Other test orders for the same patient (e.g. NEURO alongside IMMUNE)
+        otherTestOrders: (updatedLead.patient?.testOrders || [])
+          .filter(order => order.id !== updatedLead.id)
+          .map(order => ({
+            id: order.id,
+            testType: order.testType,
+            status: order.status,
+            createdAt: order.createdAt,
+            vendorName: order.vendor.name
+          })),
         alerts: updatedLead.alerts.map(alert => ({
           id: alert.id,
           type: alert.type,
@@ -681,6 +813,19 @@ export async function PATCH(
     console.log('🔧 Error code:', error.code);
     console.log('🔧 Error stack:', error.stack?.substring(0, 500));
 
+    if (error instanceof InvalidLeadTransitionError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          from: error.from,
+          to: error.to,
+          allowed: LeadLifecycle.allowedTransitions(error.from)
+        },
+        { status: 409 }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       console.log('🔧 Zod validation error details:', error.errors);
       return NextResponse.json(
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyAuth } from '@/lib/auth/middleware';
+import { LeadTimelineEntry } from '@/types';
+
+const userSelect = { id: true, firstName: true, lastName: true } as const;
+
+function actorOf(user: { id: string; firstName: string; lastName: string } | null | undefined) {
+  return user ? { id: user.id, name: `${user.firstName} ${user.lastName}` } : undefined;
+}
+
+function formatStatus(status: string): string {
+  return status.replace(/_/g, ' ');
+}
+
+// GET /api/leads/[id]/timeline - Chronological activity feed for a lead
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await verifyAuth(request);
+    if (authResult.error) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+    }
+
+    const allowedRoles = ['ADMIN', 'ADVOCATE', 'COLLECTIONS', 'VENDOR'];
+    if (!allowedRoles.includes(authResult.user?.role || '')) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { id } = params;
+
+    const lead = await prisma.lead.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        vendorId: true,
+        advocateId: true,
+        createdAt: true,
+        vendor: { select: { name: true } },
+        statusChanges: {
+          include: { actor: { select: userSelect } }
+        },
+        contactAttemptRecords: {
+          include: { agent: { select: userSelect } }
+        },
+        callbacks: {
+          include: { agent: { select: userSelect } }
+        },
+        trackingEvents: true,
+        alerts: true
+      }
+    });
+
+    if (!lead) {
+      return NextResponse.json(
+        { success: false, error: 'Lead not found' },
+        { status: 404 }
+      );
+    }
+
+    // Vendors can only see the timeline of their own or sub-vendor leads
+    if (authResult.user?.role === 'VENDOR' && authResult.user.vendorId !== lead.vendorId) {
+      const subVendor = await prisma.vendor.findFirst({
+        where: { id: lead.vendorId, parentVendorId: authResult.user.vendorId }
+      });
+      if (!subVendor) {
+        return NextResponse.json({
+          success: false,
+          error: 'Access denied: You can only view leads from your own vendor or sub-vendors'
+        }, { status: 403 });
+      }
+    }
+
+    // Advocates only see the timeline of leads assigned to them - opening the lead
+    // assigns it from the pool first
+    if (authResult.user?.role === 'ADVOCATE' && lead.advocateId !== authResult.user.userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Access denied: You can only view leads assigned to you'
+      }, { status: 403 });
+    }
+
+    // Alert acknowledgements only store the user id
+    const acknowledgerIds = Array.from(new Set(
+      lead.alerts.map(alert => alert.acknowledgedBy).filter((userId): userId is string => !!userId)
+    ));
+    const acknowledgers = acknowledgerIds.length > 0
+      ? await prisma.user.findMany({ where: { id: { in: acknowledgerIds } }, select: userSelect })
+      : [];
+    const acknowledgerById = new Map(acknowledgers.map(user => [user.id, user]));
+
+    const entries: LeadTimelineEntry[] = [];
+
+    entries.push({
+      id: `created-${lead.id}`,
+      type: 'LEAD_CREATED',
+      occurredAt: lead.createdAt.toISOString(),
+      title: 'Lead submitted',
+      description: lead.vendor?.name ? `Submitted by ${lead.vendor.name}` : undefined
+    });
+
+    for (const change of lead.statusChanges) {
+      entries.push({
+        id: change.id,
+        type: 'STATUS_CHANGE',
+        occurredAt: change.createdAt.toISOString(),
+        title: `${formatStatus(change.fromStatus)} → ${formatStatus(change.toStatus)}`,
+        description: change.reason || undefined,
+        source: change.source,
+        actor: actorOf(change.actor),
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus
+      });
+    }
+
+    for (const attempt of lead.contactAttemptRecords) {
+      entries.push({
+        id: attempt.id,
+        type: 'CONTACT_ATTEMPT',
+        occurredAt: attempt.attemptDate.toISOString(),
+        title: `Contact attempt: ${formatStatus(attempt.outcome)}`,
+        description: attempt.notes || undefined,
+        actor: actorOf(attempt.agent)
+      });
+    }
+
+    for (const callback of lead.callbacks) {
+      entries.push({
+        id: `${callback.id}-scheduled`,
+        type: 'CALLBACK_SCHEDULED',
+        occurredAt: callback.createdAt.toISOString(),
+        title: `Callback scheduled for ${callback.scheduledDate.toLocaleString()}`,
+        description: callback.notes || undefined,
+        actor: actorOf(callback.agent)
+      });
+
+      if (callback.completed && callback.completedDate) {
+        entries.push({
+          id: `${callback.id}-completed`,
+          type: 'CALLBACK_COMPLETED',
+          occurredAt: callback.completedDate.toISOString(),
+          title: 'Callback completed',
+          actor: actorOf(callback.agent)
+        });
+      }
+    }
+
+    for (const event of lead.trackingEvents) {
+      entries.push({
+        id: event.id,
+        type: 'TRACKING_EVENT',
+        occurredAt: (event.occurredAt ?? event.eventDate).toISOString(),
+        title: `${event.eventType === 'INBOUND' ? 'Return' : 'Outbound'} tracking: ${event.description || event.activityType}`,
+        description: [event.trackingNumber, event.location].filter(Boolean).join(' • '),
+        source: 'WEBHOOK'
+      });
+    }
+
+    for (const alert of lead.alerts) {
+      entries.push({
+        id: `${alert.id}-raised`,
+        type: 'ALERT_RAISED',
+        occurredAt: alert.createdAt.toISOString(),
+        title: `${alert.severity} alert: ${formatStatus(alert.type)}`,
+        description: alert.message,
+        source: 'SYSTEM'
+      });
+
+      if (alert.isAcknowledged && alert.acknowledgedAt) {
+        entries.push({
+          id: `${alert.id}-acknowledged`,
+          type: 'ALERT_ACKNOWLEDGED',
+          occurredAt: alert.acknowledgedAt.toISOString(),
+          title: `Alert acknowledged: ${formatStatus(alert.type)}`,
+          actor: actorOf(alert.acknowledgedBy ? acknowledgerById.get(alert.acknowledgedBy) : undefined)
+        });
+      }
+    }
+
+    // Newest first, matching the rest of the lead detail view
+    entries.sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime());
+
+    return NextResponse.json({
+      success: true,
+      timeline: entries
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching lead timeline:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch lead timeline' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AlertService } from '@/lib/services/alertService';
+import { PatientService } from '@/lib/services/patientService';
 import { prisma } from '@/lib/prisma';
 import { verifyAuth } from '@/lib/auth/middleware';
+import { generateMBI } from '@/lib/utils/mbi';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
 
 declare global {
   var broadcastMBIAlert: ((alert: any) => void) | undefined;
@@ -9,20 +12,6 @@ declare global {
   var broadcastDashboardUpdate: ((update: any) => void) | undefined;
 }
 
-// Helper function to generate unique MBI
-function generateMBI() {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let result = '';
-  for (let i = 0; i < 11; i++) {
-    if (i === 1 || i === 5 || i === 9) {
-      result += '-';
-    } else {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-  }
-  return result;
-}
-
 // Helper function to normalize phone numbers
 function normalizePhone(phone: string): string {
   return phone.replace(/\D/g, '');
@@ -61,28 +50,23 @@ function broadcastAlert(alert: any) {
 async function checkForDuplicates(leadData: any) {
   const { firstName, lastName, dateOfBirth, phone, address } = leadData;
 
-  // Search for potential duplicates
-  const potentialDuplicates = await prisma.lead.findMany({
+  // DOB and phone are encrypted, so candidates are fetched by name or phone blind index
+  // and the two-year DOB window is applied after decryption
+  const phoneHash = PhiEncryption.blindIndex('phone', phone);
+  const dobTime = new Date(PhiEncryption.toDateOnly(dateOfBirth)).getTime();
+  const twoYears = 2 * 365 * 24 * 60 * 60 * 1000;
+
+  const candidates = await prisma.lead.findMany({
     where: {
       OR: [
-        // Exact name + DOB match
+        // Exact name, DOB checked below
         {
           firstName: { equals: firstName, mode: 'insensitive' },
-          lastName: { equals: lastName, mode: 'insensitive' },
-          dateOfBirth: dateOfBirth
-        },
-        // Exact name + similar DOB (within 2 years)
-        {
-          firstName: { equals: firstName, mode: 'insensitive' },
-          lastName: { equals: lastName, mode: 'insensitive' },
-          dateOfBirth: {
-            gte: new Date(new Date(dateOfBirth).getTime() - 2 * 365 * 24 * 60 * 60 * 1000),
-            lte: new Date(new Date(dateOfBirth).getTime() + 2 * 365 * 24 * 60 * 60 * 1000)
-          }
+          lastName: { equals: lastName, mode: 'insensitive' }
         },
         // Same phone number
         {
-          phone: phone
+          phoneHash
         }
       ]
     },
@@ -93,13 +77,18 @@ async function checkForDuplicates(leadData: any) {
     }
   });
 
+  const potentialDuplicates = candidates.filter(candidate =>
+    candidate.phoneHash === phoneHash ||
+    Math.abs(new Date(candidate.dateOfBirth).getTime() - dobTime) <= twoYears
+  );
+
   const duplicateResults = [];
 
   for (const duplicate of potentialDuplicates) {
     const isExactMatch =
       duplicate.firstName.toLowerCase() === firstName.toLowerCase() &&
       duplicate.lastName.toLowerCase() === lastName.toLowerCase() &&
-      duplicate.dateOfBirth.toISOString().split('T')[0] === new Date(dateOfBirth).toISOString().split('T')[0];
+      duplicate.dateOfBirth === PhiEncryption.toDateOnly(dateOfBirth);
 
     const isPhoneMatch = duplicate.phone === phone;
 
@@ -196,7 +185,7 @@ export async function POST(request: NextRequest) {
 
     // Create the lead
     const newLead = await prisma.lead.create({
-      data: {
+      data: await PatientService.withPatient({
         mbi,
         firstName,
         lastName,
@@ -209,11 +198,11 @@ export async function POST(request: NextRequest) {
         vendorId,
         vendorCode: vendor.code,
         testType,
-        status: 'SUBMITTED',
+        status: 'SUBMITTED' as const,
         contactAttempts: 0,
         isDuplicate: duplicateResults.length > 0,
         hasActiveAlerts: duplicateResults.length > 0
-      }
+      })
     });
 
     // Process duplicate alerts if any were found
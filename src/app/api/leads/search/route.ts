@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
 import { verifyAuth } from '@/lib/auth/middleware';
+import { isValidMBI } from '@/lib/utils/mbi';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
 
 // GET /api/leads/search - Search leads for agents/advocates
 export async function GET(request: NextRequest) {
@@ -49,21 +51,23 @@ export async function GET(request: NextRequest) {
       { lastName: { contains: query, mode: Prisma.QueryMode.insensitive } }
     );
 
-    // Search by phone number (remove all non-digits)
+    // Phone, MBI and ZIP are encrypted - they match exactly through their blind
+    // indexes, so partial numbers no longer return results
     const phoneQuery = query.replace(/\D/g, '');
-    if (phoneQuery.length >= 3) {
-      searchConditions.push({ phone: { contains: phoneQuery } });
+    if (phoneQuery.length >= 10) {
+      searchConditions.push({ phoneHash: PhiEncryption.blindIndex('phone', phoneQuery) });
     }
 
-    // Search by MBI (exact match, case insensitive)
-    const mbiQuery = query.replace(/-/g, '').toUpperCase();
-    if (mbiQuery.length >= 3) {
-      searchConditions.push({ mbi: { contains: mbiQuery, mode: Prisma.QueryMode.insensitive } });
+    if (isValidMBI(query)) {
+      searchConditions.push({ mbiHash: PhiEncryption.blindIndex('mbi', query) });
     }
 
-    // Search by city or state
+    if (/^\d{5}(-\d{4})?$/.test(query)) {
+      searchConditions.push({ zipCodeHash: PhiEncryption.blindIndex('zipCode', query) });
+    }
+
+    // Search by state (city is encrypted)
     searchConditions.push(
-      { city: { contains: query, mode: Prisma.QueryMode.insensitive } },
       { state: { contains: query, mode: Prisma.QueryMode.insensitive } }
     );
 
@@ -2,11 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { TestType } from '@prisma/client';
+import { PatientService } from '@/lib/services/patientService';
+import { MedicalIntakeService } from '@/lib/services/medicalIntakeService';
+import { DuplicateRuleService } from '@/lib/services/duplicateRuleService';
+import { AlertService } from '@/lib/services/alertService';
+import { mbiSchema } from '@/lib/utils/mbi';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
 
 // Validation schema for comprehensive lead submission
 const leadSubmissionSchema = z.object({
   // Required fields
-  mbi: z.string().min(11, 'MBI must be at least 11 characters'),
+  mbi: mbiSchema,
   firstName: z.string().min(2, 'First name is required'),
   lastName: z.string().min(2, 'Last name is required'),
   dateOfBirth: z.string().min(1, 'Date of birth is required'),
@@ -23,13 +29,34 @@ const leadSubmissionSchema = z.object({
   zipCode: z.string().min(5, 'Zip code is required'),
   testType: z.enum(['immune', 'neuro']).optional(),
 
-
+  // Medical intake - optional so partner integrations without the full form keep working
+  middleInitial: z.string().optional(),
+  primaryInsuranceCompany: z.string().optional(),
+  primaryPolicyNumber: z.string().optional(),
+  gender: z.string().optional(),
+  ethnicity: z.string().optional(),
+  maritalStatus: z.string().optional(),
+  height: z.string().optional(),
+  weight: z.string().optional(),
+  additionalData: z.object({
+    medicalHistory: z.object({
+      past: z.string().optional(),
+      surgical: z.string().optional(),
+      medications: z.string().optional(),
+      conditions: z.string().optional(),
+    }).optional(),
+    familyHistory: z.array(z.object({
+      relation: z.string().optional(),
+      conditions: z.string().optional(),
+      ageOfDiagnosis: z.string().optional(),
+    })).optional(),
+  }).optional(),
 });
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    console.log('Lead submission request received:', { vendorCode: body.vendorCode, mbi: body.mbi, testType: body.testType });
+    console.log('Lead submission request received:', { vendorCode: body.vendorCode, mbi: PhiEncryption.maskMBI(body.mbi), testType: body.testType });
 
     // Validate the request body
     const validationResult = leadSubmissionSchema.safeParse(body);
@@ -68,20 +95,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Vendor code and ID mismatch' }, { status: 400 });
     }
 
-    // Check for duplicate MBI
-    const existingLead = await prisma.lead.findFirst({
-      where: { mbi: data.mbi },
-      select: { id: true, status: true }
-    });
+    const testType = data.testType ? (data.testType.toUpperCase() as TestType) : null;
+
+    // Duplicate rules decide whether this patient may hold another order of this test
+    const eligibility = await DuplicateRuleService.evaluate(data.mbi, testType);
 
-    if (existingLead) {
-      console.error('Duplicate MBI detected:', data.mbi);
+    if (eligibility.status === 'BLOCKED') {
+      console.error('Duplicate MBI detected:', PhiEncryption.maskMBI(data.mbi), eligibility.reason);
+      const existing = eligibility.existingLeads[0];
       return NextResponse.json(
         {
-          error: 'A lead with this MBI already exists',
+          error: eligibility.message,
+          reason: eligibility.reason,
           existing: {
-            id: existingLead.id,
-            status: existingLead.status
+            id: existing.id,
+            status: existing.status,
+            testType: existing.testType
           }
         },
         { status: 409 }
@@ -93,54 +122,87 @@ export async function POST(request: NextRequest) {
     
     // Validate the date is valid
     if (isNaN(dateOfBirth.getTime())) {
-      console.error('Invalid date of birth:', data.dateOfBirth);
+      console.error('Invalid date of birth submitted');
       return NextResponse.json(
         { error: 'Invalid date of birth format' },
         { status: 400 }
       );
     }
 
-    // Create the lead
-    const newLead = await prisma.lead.create({
-      data: {
-        mbi: data.mbi,
-        firstName: data.firstName,
-        lastName: data.lastName,
-        dateOfBirth: new Date(data.dateOfBirth),
-        phone: data.phone,
+    const patientDemographics = {
+      mbi: data.mbi,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      dateOfBirth,
+      phone: data.phone,
+      street: data.street || '',
+      city: data.city || '',
+      state: data.state || '',
+      zipCode: data.zipCode || '',
+    };
+
+    // Create the test order under the patient
+    const newLead = await prisma.$transaction(async (tx) => {
+      const patient = await PatientService.findOrCreate(patientDemographics, tx);
+
+      // The intake reflects the latest conversation with the patient
+      await MedicalIntakeService.save(patient.id, {
+        middleInitial: data.middleInitial,
+        gender: data.gender,
+        ethnicity: data.ethnicity,
+        maritalStatus: data.maritalStatus,
+        height: data.height,
+        weight: data.weight,
+        insurance: {
+          primaryCompany: data.primaryInsuranceCompany,
+          primaryPolicyNumber: data.primaryPolicyNumber,
+        },
+        medicalHistory: data.additionalData?.medicalHistory,
+        familyHistory: data.additionalData?.familyHistory,
+      }, tx);
+
+      return tx.lead.create({
+        data: {
+          patientId: patient.id,
+          mbi: data.mbi,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          dateOfBirth: PhiEncryption.toDateOnly(dateOfBirth),
+          phone: data.phone,
         
-        // Address
-        street: data.street || '',
-        city: data.city || '',
-        state: data.state || '',
-        zipCode: data.zipCode || '',
+          // Address
+          street: data.street || '',
+          city: data.city || '',
+          state: data.state || '',
+          zipCode: data.zipCode || '',
         
-        // Vendor info
-        vendorId: vendor.id,
-        vendorCode: vendor.code,
-        subVendorId: null,
+          // Vendor info
+          vendorId: vendor.id,
+          vendorCode: vendor.code,
+          subVendorId: null,
         
-        // Status and type
-        status: 'SUBMITTED',
-        testType: data.testType ? (data.testType.toUpperCase() as TestType) : null,
+          // Status and type
+          status: 'SUBMITTED',
+          testType,
         
-        // Alert tracking
-        isDuplicate: false,
-        hasActiveAlerts: false,
+          // Alert tracking
+          isDuplicate: false,
+          hasActiveAlerts: false,
         
-        // Initialize counts
-        contactAttempts: 0,
-      },
-      select: {
-        id: true,
-        mbi: true,
-        firstName: true,
-        lastName: true,
-        status: true,
-        testType: true,
-        vendorCode: true,
-        createdAt: true,
-      },
+          // Initialize counts
+          contactAttempts: 0,
+        },
+        select: {
+          id: true,
+          mbi: true,
+          firstName: true,
+          lastName: true,
+          status: true,
+          testType: true,
+          vendorCode: true,
+          createdAt: true,
+        },
+      });
     });
 
 
@@ -148,6 +210,11 @@ export async function POST(request: NextRequest) {
     // Log the lead creation for tracking
     console.log(`✅ New lead submitted successfully: ${newLead.id} by vendor ${vendor.code}`);
 
+    // Warn-level rule matches let the order through but flag it for the advocate
+    if (eligibility.status === 'WARNING') {
+      await AlertService.checkForDuplicateAlert(newLead.id);
+    }
+
     return NextResponse.json({
       success: true,
       data: {
@@ -156,7 +223,8 @@ export async function POST(request: NextRequest) {
         createdAt: newLead.createdAt,
         vendor: newLead.vendorCode
       },
-      message: 'Lead submitted successfully'
+      message: 'Lead submitted successfully',
+      ...(eligibility.status === 'WARNING' ? { warning: eligibility.message } : {})
     });
 
   } catch (error) {
@@ -213,7 +281,8 @@ export async function GET(request: NextRequest) {
 
   try {
     const lead = await prisma.lead.findFirst({
-      where: leadId ? { id: leadId } : { mbi: mbi! },
+      where: leadId ? { id: leadId } : { mbiHash: PhiEncryption.blindIndex('mbi', mbi!) },
+      orderBy: { createdAt: 'desc' },
       select: {
         id: true,
         status: true,
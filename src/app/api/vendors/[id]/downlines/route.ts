@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { verifyAuth } from '@/lib/auth/middleware';
 import { z } from 'zod';
 import { generateUniqueVendorCode, generateUniqueStaticCode } from '@/lib/utils/vendorCodeGenerator';
+import { ACTIVE_LEAD_FILTER } from '@/lib/retention/softDeleteExtension';
 
 // Validation schema for creating downline vendors
 const createDownlineSchema = z.object({
@@ -53,6 +54,7 @@ export async function GET(
           }
         },
         leads: {
+          where: ACTIVE_LEAD_FILTER,
           select: {
             id: true,
             status: true,
@@ -191,6 +193,7 @@ export async function POST(
           }
         },
         leads: {
+          where: ACTIVE_LEAD_FILTER,
           select: {
             id: true,
             status: true,
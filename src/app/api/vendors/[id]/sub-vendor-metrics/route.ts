@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyAuth } from '@/lib/auth/middleware';
+import { ACTIVE_LEAD_FILTER } from '@/lib/retention/softDeleteExtension';
 
 export async function GET(
   request: NextRequest,
@@ -28,6 +29,7 @@ export async function GET(
       },
       include: {
         leads: {
+          where: ACTIVE_LEAD_FILTER,
           select: {
             id: true,
             testType: true,
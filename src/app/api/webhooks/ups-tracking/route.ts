@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { TrackingEventService } from '@/lib/services/trackingEventService';
+import { UPSCarrier } from '@/lib/shipping/upsCarrier';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,9 +25,7 @@ export async function POST(request: NextRequest) {
       localActivityDate,
       localActivityTime,
       activityLocation,
-      activityStatus,
-      actualDeliveryDate,
-      actualDeliveryTime
+      activityStatus
     } = body;
 
     console.log('🚚 UPS Webhook received:', {
@@ -35,108 +35,61 @@ export async function POST(request: NextRequest) {
       description: activityStatus.description
     });
 
-    // Find lead by tracking number (check both outbound and inbound)
-    const lead = await prisma.lead.findFirst({
-      where: {
-        OR: [
-          { trackingNumber: trackingNumber }, // Outbound tracking
-          { inboundTrackingNumber: trackingNumber } // Inbound tracking
-        ]
-      }
+    // Recorded once per tracking number, activity code and local date/time; the lead's
+    // status is derived from its whole history, so retries and late events are harmless
+    const result = await TrackingEventService.record({
+      carrier: 'UPS',
+      trackingNumber,
+      status: UPSCarrier.normalizeStatus(activityStatus.type, activityStatus.code),
+      activityType: activityStatus.type,
+      activityCode: activityStatus.code,
+      description: activityStatus.description,
+      location: activityLocation ?
+        `${activityLocation.city}, ${activityLocation.stateProvince} ${activityLocation.postalCode}` : null,
+      localDate: localActivityDate,
+      localTime: localActivityTime
     });
 
-    if (!lead) {
+    if (!result) {
       console.log('⚠️ No lead found for tracking number:', trackingNumber);
       return NextResponse.json({ message: 'Lead not found' }, { status: 200 });
     }
 
-    // Determine if this is outbound or inbound tracking
-    const isOutbound = lead.trackingNumber === trackingNumber;
-    const eventType = isOutbound ? 'OUTBOUND' : 'INBOUND';
-
-    // Create tracking event record
-    await prisma.trackingEvent.create({
-      data: {
-        leadId: lead.id,
-        trackingNumber,
-        eventType,
-        activityType: activityStatus.type,
-        activityCode: activityStatus.code,
-        description: activityStatus.description,
-        location: activityLocation ? 
-          `${activityLocation.city}, ${activityLocation.stateProvince} ${activityLocation.postalCode}` : null,
-        eventDate: new Date(`${localActivityDate.substring(0,4)}-${localActivityDate.substring(4,6)}-${localActivityDate.substring(6,8)}`),
-        eventTime: `${localActivityTime.substring(0,2)}:${localActivityTime.substring(2,4)}:${localActivityTime.substring(4,6)}`,
-      }
-    });
-
-    // Update lead status based on activity type
-    let statusUpdate: any = {
-      lastTrackingUpdate: new Date()
-    };
+    // A redelivery that moved the lead is one whose first delivery failed part way - notify as usual
+    if (result.duplicate && !result.statusChange) {
+      return NextResponse.json({ message: 'Duplicate tracking event ignored' }, { status: 200 });
+    }
 
-    if (isOutbound) {
-      // Handle outbound tracking events
-      switch (activityStatus.type) {
-        case 'D': // Delivered
-          statusUpdate.status = 'DELIVERED';
-          statusUpdate.kitDeliveredDate = actualDeliveryDate ? 
-            new Date(`${actualDeliveryDate.substring(0,4)}-${actualDeliveryDate.substring(4,6)}-${actualDeliveryDate.substring(6,8)}`) : 
-            new Date();
-          break;
-        case 'I': // In Transit
-          if (lead.status === 'APPROVED') {
-            statusUpdate.status = 'SHIPPED';
-          }
-          break;
-        case 'X': // Exception
-          // Create alert for collections team
-          await prisma.leadAlert.create({
-            data: {
-              leadId: lead.id,
-              type: 'SHIPPING_EXCEPTION',
-              severity: 'HIGH',
-              message: `Shipping exception: ${activityStatus.description}`,
-              isAcknowledged: false
-            }
-          });
-          break;
-      }
-    } else {
-      // Handle inbound tracking events
-      switch (activityStatus.type) {
-        case 'D': // Kit returned to lab
-          statusUpdate.status = 'KIT_COMPLETED';
-          statusUpdate.kitReturnedDate = actualDeliveryDate ? 
-            new Date(`${actualDeliveryDate.substring(0,4)}-${actualDeliveryDate.substring(4,6)}-${actualDeliveryDate.substring(6,8)}`) : 
-            new Date();
-          break;
-        case 'I': // Return kit in transit
-          if (['DELIVERED', 'SHIPPED'].includes(lead.status)) {
-            statusUpdate.status = 'KIT_RETURNING';
+    const { lead, direction, event, statusChange } = result;
+
+    // Exceptions alert the collections team, unless the package has already moved on
+    if (direction === 'OUTBOUND' && event && event.status === 'EXCEPTION') {
+      const history = await TrackingEventService.history(lead.id);
+      if (TrackingEventService.isOpenException(event, history)) {
+        await prisma.leadAlert.create({
+          data: {
+            leadId: lead.id,
+            type: 'SHIPPING_EXCEPTION',
+            severity: 'HIGH',
+            message: `Shipping exception: ${activityStatus.description}`,
+            isAcknowledged: false
           }
-          break;
+        });
       }
     }
 
-    // Update lead with new status
-    await prisma.lead.update({
-      where: { id: lead.id },
-      data: statusUpdate
-    });
-
     console.log('✅ Lead updated:', {
       leadId: lead.id,
       patientName: `${lead.firstName} ${lead.lastName}`,
-      oldStatus: lead.status,
-      newStatus: statusUpdate.status || lead.status,
-      eventType,
+      oldStatus: statusChange?.from ?? lead.status,
+      newStatus: lead.status,
+      eventType: direction,
       trackingNumber
     });
 
     // Send notifications based on status change
-    if (statusUpdate.status) {
-      await sendTrackingNotification(lead, statusUpdate.status, eventType, activityLocation);
+    if (statusChange) {
+      await sendTrackingNotification(lead, statusChange.to, statusChange.direction, activityLocation);
     }
 
     return NextResponse.json({ message: 'Tracking event processed successfully' }, { status: 200 });
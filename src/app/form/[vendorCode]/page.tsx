@@ -35,11 +35,12 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { apiClient } from '@/lib/api/client';
 import MBIChecker from '@/components/forms/MBIChecker';
+import { mbiSchema, normalizeMBI } from '@/lib/utils/mbi';
 
 // Simplified validation schema - all important fields now required
 const comprehensiveLeadSchema = z.object({
   // Required fields (Basic Patient Info)
-  mbi: z.string().min(11, 'MBI must be 11 characters').max(11, 'MBI must be 11 characters'),
+  mbi: mbiSchema,
   firstName: z.string().min(2, 'First name is required'),
   lastName: z.string().min(2, 'Last name is required'),
   phone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits (numbers only)'),
@@ -141,12 +142,12 @@ export default function ComprehensiveMedicalForm() {
   const handleMBIValidation = (isValid: boolean, mbi?: string, testType?: string) => {
     setMbiValidated(isValid);
     if (isValid && mbi && testType) {
-      setValidatedMbi(mbi.replace(/-/g, '')); // Remove dashes for form
+      setValidatedMbi(normalizeMBI(mbi)); // Remove dashes for form
       setValidatedTestType(testType as 'IMMUNE' | 'NEURO');
       
       // Reset form when test type changes to clear any previous data
       reset({
-        mbi: mbi.replace(/-/g, ''),
+        mbi: normalizeMBI(mbi),
         firstName: '',
         lastName: '',
         phone: '',
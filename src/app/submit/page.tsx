@@ -32,10 +32,11 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { apiClient } from '@/lib/api/client';
+import { mbiSchema } from '@/lib/utils/mbi';
 
 // Validation schema
 const leadSchema = z.object({
-  mbi: z.string().min(11, 'MBI must be at least 11 characters'),
+  mbi: mbiSchema,
   firstName: z.string().min(2, 'First name is required'),
   lastName: z.string().min(2, 'Last name is required'),
   dateOfBirth: z.string().min(1, 'Date of birth is required'),
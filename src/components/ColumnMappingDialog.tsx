@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+
+interface UploadField {
+  key: string;
+  label: string;
+  required?: boolean;
+}
+
+export interface MappingDetection {
+  uploadType: string;
+  fields: UploadField[];
+  profile: { id: string; name: string; source: string | null } | null;
+  mappings: Record<string, string>;
+  missingRequired: string[];
+  unknownHeaders: string[];
+}
+
+// Sent with an upload: a saved profile, or the field -> header mapping picked for this file
+export interface UploadColumnMapping {
+  mappingProfileId?: string;
+  columnMapping?: Record<string, string>;
+}
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  fileName: string;
+  headers: string[];
+  detection: MappingDetection;
+  onContinue: (mapping: UploadColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  open,
+  fileName,
+  headers,
+  detection,
+  onContinue,
+  onCancel,
+}) => {
+  const [mappings, setMappings] = useState<Record<string, string>>(detection.mappings);
+  const [saveProfile, setSaveProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [profileSource, setProfileSource] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const mapped = new Set(Object.values(mappings));
+  const unmappedHeaders = headers.filter(header => header.trim() !== '' && !mapped.has(header));
+  const missingRequired = detection.fields.filter(field => field.required && !mappings[field.key]);
+
+  const handleFieldChange = (key: string, header: string) => {
+    setMappings(prev => {
+      const next = { ...prev };
+      if (header) {
+        next[key] = header;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  const handleContinue = async () => {
+    if (!saveProfile) {
+      onContinue({ columnMapping: mappings });
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch('/api/admin/column-mappings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          name: profileName,
+          uploadType: detection.uploadType,
+          source: profileSource || null,
+          mappings
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to save profile: ${response.status}`);
+      }
+      onContinue({ mappingProfileId: result.data.id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>Map columns: {fileName}</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          No saved mapping profile matches this file's headers. Pick the column that holds each field.
+          Save the mapping as a profile and files from this source are recognised automatically next time.
+        </Typography>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+        {missingRequired.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Required fields without a column: {missingRequired.map(field => field.label).join(', ')}. Rows missing them will be rejected.
+          </Alert>
+        )}
+
+        <Grid container spacing={2}>
+          {detection.fields.map(field => (
+            <Grid item xs={12} sm={6} key={field.key}>
+              <FormControl fullWidth size="small">
+                <InputLabel>{field.required ? `${field.label} *` : field.label}</InputLabel>
+                <Select
+                  value={mappings[field.key] || ''}
+                  label={field.required ? `${field.label} *` : field.label}
+                  onChange={(e) => handleFieldChange(field.key, e.target.value as string)}
+                >
+                  <MenuItem value=""><em>Not in this file</em></MenuItem>
+                  {headers.filter(header => header.trim() !== '').map(header => (
+                    <MenuItem key={header} value={header}>{header}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+          ))}
+        </Grid>
+
+        {unmappedHeaders.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>Columns that will be ignored</Typography>
+            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+              {unmappedHeaders.map(header => <Chip key={header} label={header} size="small" variant="outlined" />)}
+            </Stack>
+          </>
+        )}
+
+        <FormControlLabel
+          sx={{ mt: 2 }}
+          control={<Checkbox checked={saveProfile} onChange={(e) => setSaveProfile(e.target.checked)} />}
+          label="Save as a mapping profile"
+        />
+        {saveProfile && (
+          <Grid container spacing={2}>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Profile name"
+                placeholder="UPS WorldShip export"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Source (optional)"
+                placeholder="Lab or system the file comes from"
+                value={profileSource}
+                onChange={(e) => setProfileSource(e.target.value)}
+              />
+            </Grid>
+          </Grid>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleContinue}
+          disabled={saving || (saveProfile && profileName.trim().length < 2)}
+        >
+          {saving ? 'Saving...' : 'Continue'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -17,6 +17,10 @@ import {
   DialogTitle,
   DialogContent,
   DialogActions,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
 } from '@mui/material';
 import {
   CloudUpload,
@@ -28,8 +32,12 @@ import {
   Schedule,
   PlayArrow,
   Pause,
+  Download,
+  Undo,
 } from '@mui/icons-material';
 import { alpha } from '@mui/material/styles';
+import UploadPreviewDialog, { UploadPlan, PreviousUpload } from './UploadPreviewDialog';
+import ColumnMappingDialog, { MappingDetection, UploadColumnMapping } from './ColumnMappingDialog';
 
 interface DragDropUploadProps {
   uploadType: string;
@@ -43,19 +51,35 @@ interface DragDropUploadProps {
   disabled?: boolean;
   message?: string;
   error?: boolean;
-  onFileUpload: (file: File) => void;
+  onFileUpload: (file: File, options?: UploadOptions) => void;
   onClear?: () => void;
 }
 
+// How the file is read: the workbook sheet and the column mapping
+export interface UploadOptions extends UploadColumnMapping {
+  sheet?: string;
+  // The admin confirmed uploading a file that was uploaded before
+  allowDuplicate?: boolean;
+}
+
+interface FileInspection {
+  format: 'CSV' | 'TSV' | 'XLSX';
+  sheetNames: string[] | null;
+  sheet: string | null;
+  headers: string[];
+  totalRows: number;
+}
+
 interface BatchJobStatus {
   id: string;
   type: string;
   fileName: string;
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
-  totalRows: number;
-  totalChunks: number;
+  status: 'PENDING' | 'PROCESSING' | 'PAUSED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  // Null until a worker has read the whole file
+  totalRows: number | null;
+  totalChunks: number | null;
   chunksProcessed: number;
-  progressPercentage: number;
+  progressPercentage: number | null;
   progressMessage: string;
   recordsProcessed: number;
   recordsSucceeded: number;
@@ -63,13 +87,40 @@ interface BatchJobStatus {
   elapsedTime?: string;
   estimatedTimeRemaining?: string;
   errorLog?: any[];
+  parentJobId?: string | null;
 }
 
+type BatchAction = 'pause' | 'resume' | 'cancel' | 'retry-failed';
+
+const BATCH_STATUS_COLORS: Record<BatchJobStatus['status'], 'default' | 'info' | 'warning' | 'success' | 'error'> = {
+  PENDING: 'default',
+  PROCESSING: 'info',
+  PAUSED: 'warning',
+  COMPLETED: 'success',
+  FAILED: 'error',
+  CANCELLED: 'default',
+};
+
+// Form fields the upload routes read the sheet and column mapping from
+export const appendUploadOptions = (formData: FormData, options?: UploadOptions) => {
+  if (options?.sheet) {
+    formData.append('sheet', options.sheet);
+  }
+  if (options?.mappingProfileId) {
+    formData.append('mappingProfileId', options.mappingProfileId);
+  } else if (options?.columnMapping) {
+    formData.append('columnMapping', JSON.stringify(options.columnMapping));
+  }
+  if (options?.allowDuplicate) {
+    formData.append('allowDuplicate', 'true');
+  }
+};
+
 const DragDropUpload: React.FC<DragDropUploadProps> = ({
   uploadType,
   title,
   description,
-  accept = '.csv,.tsv',
+  accept = '.csv,.tsv,.xlsx',
   maxSize = 10 * 1024 * 1024, // 10MB default
   icon,
   color = 'primary',
@@ -87,28 +138,88 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
   const [batchJob, setBatchJob] = useState<BatchJobStatus | null>(null);
   const [showBatchDialog, setShowBatchDialog] = useState(false);
   const [batchPollingInterval, setBatchPollingInterval] = useState<NodeJS.Timeout | null>(null);
+  const [batchActionLoading, setBatchActionLoading] = useState(false);
+  const [batchActionError, setBatchActionError] = useState('');
+  const [rollbackMessage, setRollbackMessage] = useState('');
+
+  // Dry-run preview the admin approves before anything is written
+  const [preview, setPreview] = useState<{
+    file: File;
+    useBatch: boolean;
+    options?: UploadOptions;
+    plan: UploadPlan;
+    // The same file was uploaded before - approving re-uploads it
+    duplicateOf: PreviousUpload | null;
+  } | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState('');
+
+  // Workbooks with several sheets - the admin picks one first
+  const [sheetStep, setSheetStep] = useState<{ file: File; inspection: FileInspection } | null>(null);
+  const [chosenSheet, setChosenSheet] = useState('');
+
+  // Headers no saved profile covers - the admin maps them before the preview
+  const [mappingStep, setMappingStep] = useState<{
+    file: File;
+    useBatch: boolean;
+    sheet?: string;
+    headers: string[];
+    detection: MappingDetection;
+  } | null>(null);
   
   // Batch processing threshold (files with more than 1000 rows use batch processing)
   const BATCH_THRESHOLD = 1000;
 
-  // Check if file needs batch processing
-  const checkIfBatchNeeded = async (file: File): Promise<boolean> => {
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        const lines = content.split('\n').filter(line => line.trim().length > 0);
-        resolve(lines.length > BATCH_THRESHOLD);
-      };
-      reader.readAsText(file);
+  // Format, sheets, headers and row count, read by the server so workbooks work too
+  const inspectFile = async (file: File, sheet?: string): Promise<FileInspection> => {
+    const token = localStorage.getItem('authToken');
+    if (!token) {
+      throw new Error('Authentication token not found. Please login again.');
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    if (sheet) {
+      formData.append('sheet', sheet);
+    }
+    const response = await fetch('/api/admin/uploads/inspect', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` },
+      body: formData
     });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || `Could not read file: ${response.status}`);
+    }
+    return result.data;
+  };
+
+  const detectMapping = async (headers: string[]): Promise<MappingDetection> => {
+    const token = localStorage.getItem('authToken');
+    if (!token) {
+      throw new Error('Authentication token not found. Please login again.');
+    }
+
+    const response = await fetch('/api/admin/column-mappings/detect', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ uploadType: uploadType.toUpperCase().replace('-', '_'), headers })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || `Column detection failed: ${response.status}`);
+    }
+    return result.data;
   };
 
   // Handle batch upload
-  const handleBatchUpload = async (file: File) => {
+  const handleBatchUpload = async (file: File, options?: UploadOptions) => {
     try {
-      const fileContent = await fileToBase64(file);
-      
       // Get auth token with better error handling
       const token = localStorage.getItem('authToken');
       if (!token) {
@@ -121,15 +232,8 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
       
       const response = await fetch('/api/admin/uploads/batch/start', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          uploadType: uploadType.toUpperCase().replace('-', '_'),
-          fileName: file.name,
-          fileContent: fileContent.split(',')[1] // Remove data:text/csv;base64, prefix
-        })
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: batchStartForm(file, options)
       });
 
       console.log('🔍 DEBUG: Batch API response status:', response.status);
@@ -143,43 +247,230 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
       const result = await response.json();
       
       // Start polling for batch status
-      setBatchJob({
-        id: result.batchJobId,
-        type: uploadType,
-        fileName: file.name,
-        status: 'PENDING',
-        totalRows: 0,
-        totalChunks: 0,
-        chunksProcessed: 0,
-        progressPercentage: 0,
-        progressMessage: 'Starting batch processing...',
-        recordsProcessed: 0,
-        recordsSucceeded: 0,
-        recordsFailed: 0
-      });
-      
-      setShowBatchDialog(true);
-      startBatchPolling(result.batchJobId);
+      trackBatchJob(result.batchJobId, file.name, 'Starting batch processing...');
       
     } catch (error) {
       console.error('Batch upload error:', error);
       // Fall back to regular upload
-      onFileUpload(file);
+      onFileUpload(file, options);
+    }
+  };
+
+  // Dry-run the file through the same endpoint the upload will use
+  const requestPreview = async (
+    file: File,
+    useBatch: boolean,
+    options?: UploadOptions
+  ): Promise<{ plan: UploadPlan; duplicateOf: PreviousUpload | null }> => {
+    const token = localStorage.getItem('authToken');
+    if (!token) {
+      throw new Error('Authentication token not found. Please login again.');
+    }
+
+    let response: Response;
+    if (useBatch) {
+      response = await fetch('/api/admin/uploads/batch/start', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: batchStartForm(file, options, true)
+      });
+    } else {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dryRun', 'true');
+      appendUploadOptions(formData, options);
+      response = await fetch(`/api/admin/uploads/${uploadType}`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: formData
+      });
+    }
+
+    const result = await response.json();
+    if (!response.ok || !result.plan) {
+      throw new Error(result.error || `Preview failed: ${response.status}`);
+    }
+    return { plan: result.plan, duplicateOf: result.duplicateOf ?? null };
+  };
+
+  const showPreview = async (file: File, useBatch: boolean, options?: UploadOptions) => {
+    setPreviewLoading(true);
+    try {
+      const { plan, duplicateOf } = await requestPreview(file, useBatch, options);
+      setPreview({ file, useBatch, options, plan, duplicateOf });
+    } catch (error) {
+      console.error('Upload preview error:', error);
+      setPreviewError(error instanceof Error ? error.message : 'Preview failed');
+      setSelectedFile(null);
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleApprovePreview = async () => {
+    if (!preview) return;
+    const { file, useBatch, duplicateOf } = preview;
+    // Approving a preview that flagged a re-upload is the confirmation the server asks for
+    const options = duplicateOf ? { ...preview.options, allowDuplicate: true } : preview.options;
+    setPreview(null);
+
+    if (useBatch) {
+      await handleBatchUpload(file, options);
+    } else {
+      onFileUpload(file, options);
     }
   };
 
-  // Convert file to base64
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
+  const handleMappingContinue = async (mapping: UploadColumnMapping) => {
+    if (!mappingStep) return;
+    const { file, useBatch, sheet } = mappingStep;
+    setMappingStep(null);
+    await showPreview(file, useBatch, { ...mapping, sheet });
+  };
+
+  const handleMappingCancel = () => {
+    setMappingStep(null);
+    setSelectedFile(null);
+  };
+
+  const handleCancelPreview = () => {
+    setPreview(null);
+    setSelectedFile(null);
+  };
+
+  // Batch start reads the form as a stream - the fields go first, then the file
+  const batchStartForm = (file: File, options?: UploadOptions, dryRun = false) => {
+    const formData = new FormData();
+    formData.append('uploadType', uploadType.toUpperCase().replace('-', '_'));
+    if (dryRun) {
+      formData.append('dryRun', 'true');
+    }
+    appendUploadOptions(formData, options);
+    formData.append('file', file);
+    return formData;
+  };
+
+  // Show a job in the progress dialog and poll it until it finishes
+  const trackBatchJob = (batchJobId: string, fileName: string, progressMessage: string) => {
+    setBatchJob({
+      id: batchJobId,
+      type: uploadType,
+      fileName,
+      status: 'PENDING',
+      totalRows: null,
+      totalChunks: null,
+      chunksProcessed: 0,
+      progressPercentage: null,
+      progressMessage,
+      recordsProcessed: 0,
+      recordsSucceeded: 0,
+      recordsFailed: 0
     });
+    setBatchActionError('');
+    setRollbackMessage('');
+    setShowBatchDialog(true);
+    startBatchPolling(batchJobId);
+  };
+
+  // Pause, resume, cancel or retry the failed rows of the job in the progress dialog
+  const handleBatchAction = async (action: BatchAction) => {
+    if (!batchJob) return;
+    setBatchActionLoading(true);
+    setBatchActionError('');
+    try {
+      const token = localStorage.getItem('authToken');
+      if (!token) {
+        throw new Error('Authentication token not found. Please login again.');
+      }
+
+      const response = await fetch(`/api/admin/uploads/batch/${batchJob.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} batch job: ${response.status}`);
+      }
+
+      if (action === 'retry-failed') {
+        // The failed rows run as a new job - follow that one from here
+        trackBatchJob(result.data.id, batchJob.fileName, `Retrying ${result.data.totalRows} failed rows...`);
+      } else {
+        setBatchJob({ ...batchJob, status: result.data.status, progressMessage: result.data.progressMessage });
+        if (action === 'resume' && !batchPollingInterval) {
+          startBatchPolling(batchJob.id);
+        }
+      }
+    } catch (error) {
+      console.error(`Batch ${action} error:`, error);
+      setBatchActionError(error instanceof Error ? error.message : `Failed to ${action} batch job`);
+    } finally {
+      setBatchActionLoading(false);
+    }
+  };
+
+  // Put back the lead values the finished job changed
+  const rollbackBatchJob = async () => {
+    if (!batchJob) return;
+    setBatchActionLoading(true);
+    setBatchActionError('');
+    setRollbackMessage('');
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(`/api/admin/uploads/${batchJob.id}/rollback`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to roll back batch job: ${response.status}`);
+      }
+
+      const { reverted, skipped } = result.data;
+      setRollbackMessage(
+        `Reverted ${reverted.length} leads.` +
+        (skipped.length > 0 ? ` ${skipped.length} were changed after the upload and were left as they are.` : '')
+      );
+    } catch (error) {
+      console.error('Batch rollback error:', error);
+      setBatchActionError(error instanceof Error ? error.message : 'Failed to roll back batch job');
+    } finally {
+      setBatchActionLoading(false);
+    }
+  };
+
+  // Save the failed rows, with their errors, as a CSV to fix and upload again
+  const downloadErrorReport = async () => {
+    if (!batchJob) return;
+    setBatchActionError('');
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(`/api/admin/uploads/batch/${batchJob.id}/errors.csv`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || `Failed to download error report: ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${batchJob.fileName.replace(/\.[^.]+$/, '')}-errors.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error report download error:', error);
+      setBatchActionError(error instanceof Error ? error.message : 'Failed to download error report');
+    }
   };
 
   // Start polling for batch job status
   const startBatchPolling = (batchJobId: string) => {
+    if (batchPollingInterval) {
+      clearInterval(batchPollingInterval);
+    }
+
     const pollInterval = setInterval(async () => {
       try {
         const token = localStorage.getItem('authToken');
@@ -217,21 +508,94 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
     setBatchPollingInterval(pollInterval);
   };
 
+  const continueWithFile = async (file: File, inspection: FileInspection) => {
+    const sheet = inspection.sheet || undefined;
+
+    // Files with more than BATCH_THRESHOLD rows go through the batch queue
+    const shouldUseBatch = inspection.totalRows > BATCH_THRESHOLD;
+
+    // A saved profile that fits the headers is used as is; otherwise the admin maps them
+    let detection: MappingDetection;
+    setPreviewLoading(true);
+    try {
+      detection = await detectMapping(inspection.headers);
+    } catch (error) {
+      console.error('Column detection error:', error);
+      setPreviewError(error instanceof Error ? error.message : 'Column detection failed');
+      setSelectedFile(null);
+      setPreviewLoading(false);
+      return;
+    }
+    setPreviewLoading(false);
+
+    if (!detection.profile && (detection.missingRequired.length > 0 || detection.unknownHeaders.length > 0)) {
+      setMappingStep({ file, useBatch: shouldUseBatch, sheet, headers: inspection.headers, detection });
+      return;
+    }
+
+    // Nothing is uploaded until the admin approves the dry-run plan
+    await showPreview(file, shouldUseBatch, {
+      sheet,
+      ...(detection.profile ? { mappingProfileId: detection.profile.id } : {})
+    });
+  };
+
+  const handleSheetContinue = async () => {
+    if (!sheetStep) return;
+    const { file, inspection } = sheetStep;
+    setSheetStep(null);
+
+    if (chosenSheet === inspection.sheet) {
+      await continueWithFile(file, inspection);
+      return;
+    }
+
+    setPreviewLoading(true);
+    try {
+      const sheetInspection = await inspectFile(file, chosenSheet);
+      setPreviewLoading(false);
+      await continueWithFile(file, sheetInspection);
+    } catch (error) {
+      console.error('Upload inspection error:', error);
+      setPreviewError(error instanceof Error ? error.message : 'Could not read sheet');
+      setSelectedFile(null);
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleSheetCancel = () => {
+    setSheetStep(null);
+    setSelectedFile(null);
+  };
+
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
       const file = acceptedFiles[0];
       setSelectedFile(file);
+      setPreviewError('');
       
-      // Check if file is large enough for batch processing
-      const shouldUseBatch = await checkIfBatchNeeded(file);
-      
-      if (shouldUseBatch) {
-        await handleBatchUpload(file);
-      } else {
-        onFileUpload(file);
+      let inspection: FileInspection;
+      setPreviewLoading(true);
+      try {
+        inspection = await inspectFile(file);
+      } catch (error) {
+        console.error('Upload inspection error:', error);
+        setPreviewError(error instanceof Error ? error.message : 'Could not read file');
+        setSelectedFile(null);
+        setPreviewLoading(false);
+        return;
       }
+      setPreviewLoading(false);
+
+      if (inspection.sheetNames && inspection.sheetNames.length > 1) {
+        setChosenSheet(inspection.sheet || inspection.sheetNames[0]);
+        setSheetStep({ file, inspection });
+        return;
+      }
+
+      await continueWithFile(file, inspection);
     }
-  }, [onFileUpload]);
+  }, [onFileUpload, uploadType]);
 
   const onDragEnter = useCallback(() => {
     setDragActive(true);
@@ -249,10 +613,11 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
       'text/csv': ['.csv'],
       'text/tab-separated-values': ['.tsv'],
       'text/plain': ['.txt'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
     },
     maxSize,
     multiple: false,
-    disabled: disabled || loading,
+    disabled: disabled || loading || previewLoading,
   });
 
   const handleClear = () => {
@@ -349,6 +714,14 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
       </Box>
 
       {/* Loading Progress */}
+      {previewLoading && (
+        <Box sx={{ mb: 2 }}>
+          <LinearProgress />
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1, textAlign: 'center' }}>
+            Checking file...
+          </Typography>
+        </Box>
+      )}
       {loading && (
         <Box sx={{ mb: 2 }}>
           <LinearProgress />
@@ -382,7 +755,7 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
                 <Box>
                   <CloudUpload sx={{ fontSize: 48, color: 'action.active', mb: 2 }} />
                   <Typography variant="h6" gutterBottom>
-                    Drag & drop your CSV file here
+                    Drag & drop your CSV, TSV or Excel file here
                   </Typography>
                   <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
                     or click to browse files
@@ -400,6 +773,7 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
                      <Stack direction="row" spacing={1} justifyContent="center" flexWrap="wrap">
                        <Chip label="CSV" size="small" variant="outlined" />
                        <Chip label="TSV" size="small" variant="outlined" />
+                       <Chip label="XLSX" size="small" variant="outlined" />
                        <Chip label={`Max ${formatFileSize(maxSize)}`} size="small" variant="outlined" />
                        <Chip label="Max 10K rows" size="small" variant="outlined" />
                      </Stack>
@@ -437,6 +811,20 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
         )}
 
         {/* Status Messages */}
+        {batchJob && !showBatchDialog && (
+          <Box sx={{ mt: 2 }}>
+            <Button size="small" startIcon={<Schedule />} onClick={() => setShowBatchDialog(true)}>
+              Batch job {batchJob.status.toLowerCase()} - show progress
+            </Button>
+          </Box>
+        )}
+        {previewError && (
+          <Box sx={{ mt: 2 }}>
+            <Alert severity="error" icon={<ErrorIcon />} onClose={() => setPreviewError('')} sx={{ textAlign: 'left' }}>
+              {previewError}
+            </Alert>
+          </Box>
+        )}
         {message && (
           <Fade in={!!message}>
             <Box sx={{ mt: 2 }}>
@@ -451,6 +839,148 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
           </Fade>
         )}
       </Box>
+
+      {batchJob && (
+        <Dialog open={showBatchDialog} onClose={() => setShowBatchDialog(false)} maxWidth="sm" fullWidth>
+          <DialogTitle>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Typography variant="h6" component="span">{batchJob.fileName}</Typography>
+              <Chip size="small" label={batchJob.status} color={BATCH_STATUS_COLORS[batchJob.status]} />
+            </Box>
+          </DialogTitle>
+          <DialogContent dividers>
+            {batchJob.parentJobId && (
+              <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 1 }}>
+                Retrying the failed rows of batch job {batchJob.parentJobId}
+              </Typography>
+            )}
+            <LinearProgress
+              variant={batchJob.progressPercentage === null && ['PENDING', 'PROCESSING'].includes(batchJob.status) ? 'indeterminate' : 'determinate'}
+              value={batchJob.progressPercentage ?? 0}
+              color={batchJob.status === 'FAILED' ? 'error' : batchJob.status === 'PAUSED' ? 'warning' : 'primary'}
+              sx={{ height: 8, borderRadius: 4, mb: 1 }}
+            />
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              {batchJob.progressMessage}
+            </Typography>
+            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap sx={{ mb: 1 }}>
+              <Chip size="small" variant="outlined" label={`Chunks: ${batchJob.chunksProcessed}/${batchJob.totalChunks ?? '?'}`} />
+              <Chip size="small" variant="outlined" label={`Processed: ${batchJob.recordsProcessed}/${batchJob.totalRows ?? '?'}`} />
+              <Chip size="small" variant="outlined" color="success" label={`Succeeded: ${batchJob.recordsSucceeded}`} />
+              <Chip size="small" variant="outlined" color={batchJob.recordsFailed > 0 ? 'error' : 'default'} label={`Failed: ${batchJob.recordsFailed}`} />
+            </Stack>
+            {(batchJob.elapsedTime || batchJob.estimatedTimeRemaining) && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, color: 'text.secondary' }}>
+                <Schedule fontSize="small" />
+                <Typography variant="caption">
+                  {batchJob.elapsedTime && `Elapsed ${batchJob.elapsedTime}`}
+                  {batchJob.estimatedTimeRemaining && ` · about ${batchJob.estimatedTimeRemaining} left`}
+                </Typography>
+              </Box>
+            )}
+            {batchActionError && (
+              <Alert severity="error" sx={{ mt: 2 }} onClose={() => setBatchActionError('')}>
+                {batchActionError}
+              </Alert>
+            )}
+            {rollbackMessage && (
+              <Alert severity="success" sx={{ mt: 2 }} onClose={() => setRollbackMessage('')}>
+                {rollbackMessage}
+              </Alert>
+            )}
+          </DialogContent>
+          <DialogActions>
+            {(batchJob.status === 'PENDING' || batchJob.status === 'PROCESSING') && (
+              <Button startIcon={<Pause />} onClick={() => handleBatchAction('pause')} disabled={batchActionLoading}>
+                Pause
+              </Button>
+            )}
+            {batchJob.status === 'PAUSED' && (
+              <Button startIcon={<PlayArrow />} onClick={() => handleBatchAction('resume')} disabled={batchActionLoading}>
+                Resume
+              </Button>
+            )}
+            {(batchJob.status === 'PENDING' || batchJob.status === 'PROCESSING' || batchJob.status === 'PAUSED') && (
+              <Button
+                color="error"
+                startIcon={<Close />}
+                onClick={() => confirm('Cancel this batch job? Rows already processed stay applied.') && handleBatchAction('cancel')}
+                disabled={batchActionLoading}
+              >
+                Cancel Job
+              </Button>
+            )}
+            {batchJob.recordsFailed > 0 && (
+              <Button startIcon={<Download />} onClick={downloadErrorReport}>
+                Download Failed Rows
+              </Button>
+            )}
+            {(batchJob.status === 'COMPLETED' || batchJob.status === 'FAILED' || batchJob.status === 'CANCELLED') &&
+              batchJob.recordsFailed > 0 && (
+              <Button startIcon={<Refresh />} onClick={() => handleBatchAction('retry-failed')} disabled={batchActionLoading}>
+                Retry {batchJob.recordsFailed} Failed Rows
+              </Button>
+            )}
+            {(batchJob.status === 'COMPLETED' || batchJob.status === 'FAILED' || batchJob.status === 'CANCELLED') &&
+              batchJob.recordsSucceeded > 0 && (
+              <Button
+                color="warning"
+                startIcon={<Undo />}
+                onClick={() => confirm('Roll back this upload? Leads it changed go back to their earlier values; leads it created are kept.') && rollbackBatchJob()}
+                disabled={batchActionLoading}
+              >
+                Roll Back
+              </Button>
+            )}
+            <Button variant="contained" onClick={() => setShowBatchDialog(false)}>
+              Close
+            </Button>
+          </DialogActions>
+        </Dialog>
+      )}
+
+      <Dialog open={!!sheetStep} onClose={handleSheetCancel} maxWidth="xs" fullWidth>
+        <DialogTitle>Choose a sheet</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {sheetStep?.file.name} has {sheetStep?.inspection.sheetNames?.length} sheets. Pick the one to upload.
+          </Typography>
+          <FormControl fullWidth size="small">
+            <InputLabel>Sheet</InputLabel>
+            <Select label="Sheet" value={chosenSheet} onChange={(e) => setChosenSheet(e.target.value as string)}>
+              {sheetStep?.inspection.sheetNames?.map(name => (
+                <MenuItem key={name} value={name}>{name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleSheetCancel}>Cancel</Button>
+          <Button variant="contained" onClick={handleSheetContinue} disabled={!chosenSheet}>
+            Continue
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {mappingStep && (
+        <ColumnMappingDialog
+          open
+          fileName={mappingStep.file.name}
+          headers={mappingStep.headers}
+          detection={mappingStep.detection}
+          onContinue={handleMappingContinue}
+          onCancel={handleMappingCancel}
+        />
+      )}
+      {preview && (
+        <UploadPreviewDialog
+          open
+          plan={preview.plan}
+          duplicateOf={preview.duplicateOf}
+          onApprove={handleApprovePreview}
+          onCancel={handleCancelPreview}
+        />
+      )}
     </Paper>
   );
 };
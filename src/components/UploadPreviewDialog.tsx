@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Typography,
+} from '@mui/material';
+
+type PlannedRowAction = 'UPDATE' | 'UNCHANGED' | 'CREATE' | 'REVIEW' | 'ERROR';
+
+interface PlannedFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+  redacted?: boolean;
+  appended?: boolean;
+}
+
+interface PlannedRow {
+  row: number;
+  action: PlannedRowAction;
+  lead?: { id: string; name: string; status: string };
+  confidence?: number;
+  statusPath?: string[];
+  changes?: PlannedFieldChange[];
+  warning?: string;
+  error?: string;
+}
+
+export interface UploadPlan {
+  dryRun: true;
+  uploadType: string;
+  fileName: string;
+  totalRows: number;
+  plannedRows: number;
+  summary: Record<PlannedRowAction, number>;
+  rows: PlannedRow[];
+}
+
+// An earlier upload of the same file, from the server's fingerprint check
+export interface PreviousUpload {
+  source: 'FILE_UPLOAD' | 'BATCH_JOB';
+  id: string;
+  fileName: string;
+  uploadedAt: string;
+  uploadedBy: string | null;
+}
+
+interface UploadPreviewDialogProps {
+  open: boolean;
+  plan: UploadPlan;
+  duplicateOf?: PreviousUpload | null;
+  onApprove: () => void;
+  onCancel: () => void;
+}
+
+const ACTION_LABELS: Record<PlannedRowAction, { label: string; color: 'default' | 'info' | 'success' | 'warning' | 'error' }> = {
+  UPDATE: { label: 'Update', color: 'info' },
+  UNCHANGED: { label: 'Already applied', color: 'default' },
+  CREATE: { label: 'Create', color: 'success' },
+  REVIEW: { label: 'Match review', color: 'warning' },
+  ERROR: { label: 'Error', color: 'error' },
+};
+
+const truncate = (value: unknown, length = 60): string => {
+  const text = value === null || value === undefined || value === '' ? '(empty)' : String(value);
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+};
+
+const describeChange = (change: PlannedFieldChange): string => {
+  if (change.redacted) return `${change.field} changes`;
+  if (change.appended) return `${change.field} + "${truncate(change.to)}"`;
+  return `${change.field}: ${truncate(change.from, 30)} → ${truncate(change.to, 30)}`;
+};
+
+const UploadPreviewDialog: React.FC<UploadPreviewDialogProps> = ({ open, plan, duplicateOf, onApprove, onCancel }) => {
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [issuesOnly, setIssuesOnly] = useState(false);
+
+  const rows = issuesOnly
+    ? plan.rows.filter(row => row.action === 'ERROR' || row.action === 'REVIEW' || row.warning)
+    : plan.rows;
+  const willWrite = plan.summary.UPDATE + plan.summary.CREATE;
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="lg" fullWidth>
+      <DialogTitle>Preview: {plan.fileName}</DialogTitle>
+      <DialogContent dividers>
+        <Stack direction="row" spacing={1} sx={{ mb: 2 }} flexWrap="wrap">
+          {(Object.keys(ACTION_LABELS) as PlannedRowAction[]).map(action => (
+            <Chip
+              key={action}
+              label={`${ACTION_LABELS[action].label}: ${plan.summary[action]}`}
+              color={ACTION_LABELS[action].color}
+              variant={plan.summary[action] > 0 ? 'filled' : 'outlined'}
+              size="small"
+            />
+          ))}
+        </Stack>
+
+        {duplicateOf && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            This exact file was already uploaded as {duplicateOf.fileName} on {new Date(duplicateOf.uploadedAt).toLocaleString()}
+            {duplicateOf.uploadedBy ? ` by ${duplicateOf.uploadedBy}` : ''}. Rows already applied are left alone; approve only if the file needs to run again.
+          </Alert>
+        )}
+        {plan.plannedRows < plan.totalRows && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Showing the plan for the first {plan.plannedRows} of {plan.totalRows} rows. The remaining rows are checked when the upload runs.
+          </Alert>
+        )}
+        {plan.summary.ERROR > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {plan.summary.ERROR} rows will be skipped. Fix them in the file and upload again, or approve to apply the rest.
+          </Alert>
+        )}
+
+        <FormControlLabel
+          control={<Switch checked={issuesOnly} onChange={(e) => { setIssuesOnly(e.target.checked); setPage(0); }} />}
+          label="Only rows with errors, warnings or reviews"
+        />
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Row</TableCell>
+                <TableCell>Action</TableCell>
+                <TableCell>Lead</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Changes</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage).map(row => (
+                <TableRow key={row.row} hover>
+                  <TableCell>{row.row}</TableCell>
+                  <TableCell>
+                    <Chip label={ACTION_LABELS[row.action].label} color={ACTION_LABELS[row.action].color} size="small" />
+                  </TableCell>
+                  <TableCell>
+                    {row.lead ? (
+                      <>
+                        <Typography variant="body2">{row.lead.name}</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {row.lead.id}{row.confidence !== undefined ? ` · ${Math.round(row.confidence * 100)}% match` : ''}
+                        </Typography>
+                      </>
+                    ) : (
+                      <Typography variant="body2" color="text.secondary">
+                        {row.action === 'CREATE' ? 'New lead' : '—'}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">
+                      {row.statusPath ? row.statusPath.join(' → ') : row.lead?.status || '—'}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    {row.error && (
+                      <Typography variant="body2" color="error.main">{row.error}</Typography>
+                    )}
+                    {row.warning && (
+                      <Typography variant="body2" color="warning.main">{row.warning}</Typography>
+                    )}
+                    {row.changes?.map(change => (
+                      <Typography key={change.field} variant="caption" component="div" color="text.secondary">
+                        {describeChange(change)}
+                      </Typography>
+                    ))}
+                    {row.action === 'UPDATE' && row.changes?.length === 0 && (
+                      <Typography variant="caption" color="text.secondary">No field changes</Typography>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <TablePagination
+          component="div"
+          count={rows.length}
+          page={page}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(e) => { setRowsPerPage(parseInt(e.target.value, 10)); setPage(0); }}
+          rowsPerPageOptions={[25, 50, 100]}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Box sx={{ flexGrow: 1, pl: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Nothing has been written yet.
+          </Typography>
+        </Box>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={onApprove} disabled={willWrite === 0 && plan.summary.REVIEW === 0}>
+          {duplicateOf ? 'Upload again' : 'Approve and upload'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default UploadPreviewDialog;
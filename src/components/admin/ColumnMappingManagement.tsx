@@ -0,0 +1,320 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { apiClient } from '@/lib/api/client';
+
+type UploadType = 'BULK_LEAD' | 'SHIPPING_REPORT' | 'KIT_RETURN' | 'DOCTOR_APPROVAL' | 'MASTER_DATA';
+
+interface UploadField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}
+
+interface MappingProfile {
+  id: string;
+  name: string;
+  uploadType: UploadType;
+  source: string | null;
+  mappings: Record<string, string>;
+  isActive: boolean;
+  updatedAt: string;
+}
+
+type ProfileFormData = Omit<MappingProfile, 'id' | 'updatedAt'>;
+
+const UPLOAD_TYPE_LABELS: Record<UploadType, string> = {
+  BULK_LEAD: 'Bulk Leads',
+  SHIPPING_REPORT: 'Shipping Report',
+  KIT_RETURN: 'Kit Returns',
+  DOCTOR_APPROVAL: 'Doctor Approvals',
+  MASTER_DATA: 'Master Data',
+};
+
+const EMPTY_PROFILE: ProfileFormData = {
+  name: '',
+  uploadType: 'SHIPPING_REPORT',
+  source: '',
+  mappings: {},
+  isActive: true,
+};
+
+export function ColumnMappingManagement() {
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [fields, setFields] = useState<Record<UploadType, UploadField[]> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Dialog states
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<MappingProfile | null>(null);
+  const [formData, setFormData] = useState<ProfileFormData>(EMPTY_PROFILE);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true);
+      const data = await apiClient.get<{ profiles: MappingProfile[]; fields: Record<UploadType, UploadField[]> }>(
+        '/admin/column-mappings'
+      );
+      setProfiles(data?.profiles || []);
+      setFields(data?.fields || null);
+    } catch (error: any) {
+      setError('Failed to fetch column mapping profiles: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (profile?: MappingProfile) => {
+    setEditingProfile(profile || null);
+    setFormData(profile ? { ...profile, source: profile.source || '' } : EMPTY_PROFILE);
+    setDialogOpen(true);
+  };
+
+  const setMapping = (key: string, header: string) => {
+    const mappings = { ...formData.mappings };
+    if (header.trim()) {
+      mappings[key] = header;
+    } else {
+      delete mappings[key];
+    }
+    setFormData({ ...formData, mappings });
+  };
+
+  const saveProfile = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const payload = { ...formData, source: formData.source || null };
+
+      if (editingProfile) {
+        await apiClient.put(`/admin/column-mappings/${editingProfile.id}`, payload);
+        setSuccess(`Profile "${formData.name}" updated`);
+      } else {
+        await apiClient.post('/admin/column-mappings', payload);
+        setSuccess(`Profile "${formData.name}" created`);
+      }
+
+      setDialogOpen(false);
+      fetchProfiles();
+    } catch (error: any) {
+      setError(error.message || 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleProfile = async (profile: MappingProfile) => {
+    try {
+      await apiClient.put(`/admin/column-mappings/${profile.id}`, { isActive: !profile.isActive });
+      fetchProfiles();
+    } catch (error: any) {
+      setError(error.message || 'Failed to update profile');
+    }
+  };
+
+  const deleteProfile = async (profile: MappingProfile) => {
+    if (!confirm(`Delete column mapping profile "${profile.name}"?`)) return;
+
+    try {
+      await apiClient.delete(`/admin/column-mappings/${profile.id}`);
+      setSuccess(`Profile "${profile.name}" deleted`);
+      fetchProfiles();
+    } catch (error: any) {
+      setError(error.message || 'Failed to delete profile');
+    }
+  };
+
+  const formFields = fields?.[formData.uploadType] || [];
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" onClose={() => setSuccess(null)} sx={{ mb: 2 }}>
+          {success}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h5">Column Mapping Profiles</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Which column holds each field in a source's export. Uploads pick the active profile whose headers all appear in the file.
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => openDialog()}>
+          Add Profile
+        </Button>
+      </Box>
+
+      <Paper>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Profile</TableCell>
+                  <TableCell>Upload Type</TableCell>
+                  <TableCell>Mapped Fields</TableCell>
+                  <TableCell>Active</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {profiles.map(profile => (
+                  <TableRow key={profile.id} sx={{ opacity: profile.isActive ? 1 : 0.5 }}>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="medium">{profile.name}</Typography>
+                      {profile.source && (
+                        <Typography variant="caption" color="text.secondary">{profile.source}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{UPLOAD_TYPE_LABELS[profile.uploadType]}</TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                        {Object.entries(profile.mappings).map(([field, header]) => (
+                          <Chip key={field} size="small" variant="outlined" label={`${field} ← ${header}`} />
+                        ))}
+                      </Box>
+                    </TableCell>
+                    <TableCell>
+                      <Switch size="small" checked={profile.isActive} onChange={() => toggleProfile(profile)} />
+                    </TableCell>
+                    <TableCell align="right">
+                      <IconButton size="small" onClick={() => openDialog(profile)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" onClick={() => deleteProfile(profile)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {profiles.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center">No profiles - uploads use the built-in header names</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingProfile ? 'Edit Mapping Profile' : 'Add Mapping Profile'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="Name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="UPS WorldShip export"
+              fullWidth
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <FormControl fullWidth>
+                <InputLabel>Upload Type</InputLabel>
+                <Select
+                  label="Upload Type"
+                  value={formData.uploadType}
+                  onChange={(e) => setFormData({ ...formData, uploadType: e.target.value as UploadType, mappings: {} })}
+                >
+                  {Object.entries(UPLOAD_TYPE_LABELS).map(([value, label]) => (
+                    <MenuItem key={value} value={value}>{label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <TextField
+                label="Source"
+                value={formData.source || ''}
+                onChange={(e) => setFormData({ ...formData, source: e.target.value })}
+                placeholder="R & R Labs"
+                fullWidth
+              />
+            </Box>
+            <Typography variant="subtitle2">Column header for each field</Typography>
+            {formFields.map(field => (
+              <TextField
+                key={field.key}
+                size="small"
+                label={field.required ? `${field.label} *` : field.label}
+                value={formData.mappings[field.key] || ''}
+                onChange={(e) => setMapping(field.key, e.target.value)}
+                helperText={field.aliases.length > 0 ? `Recognised without a profile: ${field.aliases.slice(0, 3).join(', ')}` : undefined}
+                fullWidth
+              />
+            ))}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                />
+              }
+              label="Active"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={saveProfile}
+            disabled={saving || formData.name.trim().length < 2 || Object.keys(formData.mappings).length === 0}
+          >
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
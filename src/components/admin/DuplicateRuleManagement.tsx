@@ -0,0 +1,469 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Science as ScienceIcon,
+} from '@mui/icons-material';
+import { apiClient } from '@/lib/api/client';
+import { formatMBI, normalizeMBI, validateMBI } from '@/lib/utils/mbi';
+
+type RuleTestType = 'IMMUNE' | 'NEURO';
+type RuleScope = 'ALL_ORDERS' | 'CONSULTED_ONLY' | 'NOT_CONSULTED_ONLY';
+type RuleAction = 'BLOCK' | 'WARN';
+
+interface DuplicateRule {
+  id: string;
+  name: string;
+  description: string | null;
+  existingTestType: RuleTestType | null;
+  newTestType: RuleTestType | null;
+  windowDays: number | null;
+  consultedStatuses: string[];
+  appliesTo: RuleScope;
+  action: RuleAction;
+  priority: number;
+  isActive: boolean;
+}
+
+type RuleFormData = Omit<DuplicateRule, 'id'>;
+
+interface SimulationResult {
+  mbi: string;
+  existingOrders: number;
+  rulesEvaluated: number;
+  results: Array<{
+    testType: RuleTestType;
+    status: 'ALLOWED' | 'WARNING' | 'BLOCKED';
+    message: string;
+    matches: Array<{
+      ruleName: string;
+      action: RuleAction;
+      reason: string;
+      message: string;
+      leadId: string;
+      daysSince: number;
+    }>;
+  }>;
+}
+
+const LEAD_STATUSES = [
+  'SUBMITTED', 'ADVOCATE_REVIEW', 'QUALIFIED', 'SENT_TO_CONSULT', 'APPROVED', 'READY_TO_SHIP',
+  'SHIPPED', 'DELIVERED', 'KIT_RETURNING', 'COLLECTIONS', 'KIT_COMPLETED', 'RETURNED'
+];
+
+const DEFAULT_CONSULTED = ['SENT_TO_CONSULT', 'APPROVED', 'READY_TO_SHIP', 'SHIPPED', 'DELIVERED', 'KIT_RETURNING', 'COLLECTIONS', 'KIT_COMPLETED'];
+
+const SCOPE_LABELS: Record<RuleScope, string> = {
+  ALL_ORDERS: 'All existing orders',
+  CONSULTED_ONLY: 'Consulted orders only',
+  NOT_CONSULTED_ONLY: 'Not-yet-consulted orders only',
+};
+
+const EMPTY_RULE: RuleFormData = {
+  name: '',
+  description: '',
+  existingTestType: null,
+  newTestType: null,
+  windowDays: null,
+  consultedStatuses: DEFAULT_CONSULTED,
+  appliesTo: 'ALL_ORDERS',
+  action: 'BLOCK',
+  priority: 100,
+  isActive: true,
+};
+
+const statusColor = (status: string) =>
+  status === 'BLOCKED' ? 'error' : status === 'WARNING' ? 'warning' : 'success';
+
+export function DuplicateRuleManagement() {
+  const [rules, setRules] = useState<DuplicateRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Dialog states
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<DuplicateRule | null>(null);
+  const [formData, setFormData] = useState<RuleFormData>(EMPTY_RULE);
+  const [saving, setSaving] = useState(false);
+
+  // Simulator
+  const [simulateMbi, setSimulateMbi] = useState('');
+  const [simulateTestType, setSimulateTestType] = useState<RuleTestType | ''>('');
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const data = await apiClient.get<DuplicateRule[]>('/admin/duplicate-rules');
+      setRules(data || []);
+    } catch (error: any) {
+      setError('Failed to fetch duplicate rules: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (rule?: DuplicateRule) => {
+    setEditingRule(rule || null);
+    setFormData(rule ? { ...rule, description: rule.description || '' } : EMPTY_RULE);
+    setDialogOpen(true);
+  };
+
+  const saveRule = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const payload = { ...formData, description: formData.description || null };
+
+      if (editingRule) {
+        await apiClient.put(`/admin/duplicate-rules/${editingRule.id}`, payload);
+        setSuccess(`Rule "${formData.name}" updated`);
+      } else {
+        await apiClient.post('/admin/duplicate-rules', payload);
+        setSuccess(`Rule "${formData.name}" created`);
+      }
+
+      setDialogOpen(false);
+      fetchRules();
+    } catch (error: any) {
+      setError(error.message || 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: DuplicateRule) => {
+    try {
+      await apiClient.put(`/admin/duplicate-rules/${rule.id}`, { isActive: !rule.isActive });
+      fetchRules();
+    } catch (error: any) {
+      setError(error.message || 'Failed to update rule');
+    }
+  };
+
+  const deleteRule = async (rule: DuplicateRule) => {
+    if (!confirm(`Delete duplicate rule "${rule.name}"?`)) return;
+
+    try {
+      await apiClient.delete(`/admin/duplicate-rules/${rule.id}`);
+      setSuccess(`Rule "${rule.name}" deleted`);
+      fetchRules();
+    } catch (error: any) {
+      setError(error.message || 'Failed to delete rule');
+    }
+  };
+
+  const runSimulation = async () => {
+    try {
+      setSimulating(true);
+      setError(null);
+      const data = await apiClient.post<SimulationResult>('/admin/duplicate-rules/simulate', {
+        mbi: normalizeMBI(simulateMbi),
+        ...(simulateTestType ? { testType: simulateTestType } : {}),
+      });
+      setSimulation(data);
+    } catch (error: any) {
+      setError(error.message || 'Simulation failed');
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const describePair = (rule: DuplicateRule) =>
+    `${rule.existingTestType || 'Any test'} → ${rule.newTestType || 'Any test'}`;
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" onClose={() => setSuccess(null)} sx={{ mb: 2 }}>
+          {success}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h5">Duplicate Submission Rules</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Applied by the MBI checker, lead submission, duplicate alerts and bulk lead uploads. Lower priority runs first.
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => openDialog()}>
+          Add Rule
+        </Button>
+      </Box>
+
+      <Paper sx={{ mb: 4 }}>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Priority</TableCell>
+                  <TableCell>Rule</TableCell>
+                  <TableCell>Existing → New</TableCell>
+                  <TableCell>Window</TableCell>
+                  <TableCell>Applies To</TableCell>
+                  <TableCell>Action</TableCell>
+                  <TableCell>Active</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id} sx={{ opacity: rule.isActive ? 1 : 0.5 }}>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="medium">{rule.name}</Typography>
+                      {rule.description && (
+                        <Typography variant="caption" color="text.secondary">{rule.description}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{describePair(rule)}</TableCell>
+                    <TableCell>{rule.windowDays ? `${rule.windowDays} days` : 'Always'}</TableCell>
+                    <TableCell>{SCOPE_LABELS[rule.appliesTo]}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={rule.action} color={rule.action === 'BLOCK' ? 'error' : 'warning'} />
+                    </TableCell>
+                    <TableCell>
+                      <Switch size="small" checked={rule.isActive} onChange={() => toggleRule(rule)} />
+                    </TableCell>
+                    <TableCell align="right">
+                      <IconButton size="small" onClick={() => openDialog(rule)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" onClick={() => deleteRule(rule)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {rules.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center">No rules - every order will be allowed</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      <Card>
+        <CardContent>
+          <Box display="flex" alignItems="center" gap={1} mb={2}>
+            <ScienceIcon color="primary" />
+            <Typography variant="h6">Simulate an MBI</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', mb: 2 }}>
+            <TextField
+              label="MBI"
+              size="small"
+              value={simulateMbi}
+              onChange={(e) => setSimulateMbi(formatMBI(e.target.value))}
+              placeholder="1EG4-TE5-MK73"
+            />
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel>Test Type</InputLabel>
+              <Select
+                label="Test Type"
+                value={simulateTestType}
+                onChange={(e) => setSimulateTestType(e.target.value as RuleTestType | '')}
+              >
+                <MenuItem value="">All test types</MenuItem>
+                <MenuItem value="IMMUNE">IMMUNE</MenuItem>
+                <MenuItem value="NEURO">NEURO</MenuItem>
+              </Select>
+            </FormControl>
+            <Button
+              variant="outlined"
+              onClick={runSimulation}
+              disabled={simulating || !validateMBI(simulateMbi).valid}
+            >
+              {simulating ? <CircularProgress size={20} /> : 'Simulate'}
+            </Button>
+          </Box>
+
+          {simulation && (
+            <Box>
+              <Typography variant="body2" color="text.secondary" mb={1}>
+                {simulation.existingOrders} existing order(s) on file, {simulation.rulesEvaluated} active rule(s) evaluated
+              </Typography>
+              {simulation.results.map(result => (
+                <Alert key={result.testType} severity={statusColor(result.status)} sx={{ mb: 1 }}>
+                  <Typography variant="body2" fontWeight="medium">
+                    {result.testType}: {result.status}
+                  </Typography>
+                  <Typography variant="body2">{result.message}</Typography>
+                  {result.matches.map((match, index) => (
+                    <Typography key={index} variant="caption" display="block">
+                      • {match.ruleName} ({match.action}, {match.reason}) - order {match.leadId}, {match.daysSince} days old
+                    </Typography>
+                  ))}
+                </Alert>
+              ))}
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingRule ? 'Edit Duplicate Rule' : 'Add Duplicate Rule'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="Name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              fullWidth
+            />
+            <TextField
+              label="Description"
+              value={formData.description || ''}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              fullWidth
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              {(['existingTestType', 'newTestType'] as const).map(field => (
+                <FormControl key={field} fullWidth>
+                  <InputLabel>{field === 'existingTestType' ? 'Existing Order' : 'New Order'}</InputLabel>
+                  <Select
+                    label={field === 'existingTestType' ? 'Existing Order' : 'New Order'}
+                    value={formData[field] || ''}
+                    onChange={(e) => setFormData({ ...formData, [field]: (e.target.value as RuleTestType) || null })}
+                  >
+                    <MenuItem value="">Any test</MenuItem>
+                    <MenuItem value="IMMUNE">IMMUNE</MenuItem>
+                    <MenuItem value="NEURO">NEURO</MenuItem>
+                  </Select>
+                </FormControl>
+              ))}
+            </Box>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Window (days)"
+                type="number"
+                value={formData.windowDays ?? ''}
+                onChange={(e) => setFormData({ ...formData, windowDays: e.target.value ? parseInt(e.target.value) : null })}
+                helperText="Blank = applies forever"
+                fullWidth
+              />
+              <TextField
+                label="Priority"
+                type="number"
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) || 0 })}
+                fullWidth
+              />
+            </Box>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <FormControl fullWidth>
+                <InputLabel>Applies To</InputLabel>
+                <Select
+                  label="Applies To"
+                  value={formData.appliesTo}
+                  onChange={(e) => setFormData({ ...formData, appliesTo: e.target.value as RuleScope })}
+                >
+                  {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                    <MenuItem key={value} value={value}>{label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth>
+                <InputLabel>Action</InputLabel>
+                <Select
+                  label="Action"
+                  value={formData.action}
+                  onChange={(e) => setFormData({ ...formData, action: e.target.value as RuleAction })}
+                >
+                  <MenuItem value="BLOCK">Block submission</MenuItem>
+                  <MenuItem value="WARN">Warn only</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+            <FormControl fullWidth>
+              <InputLabel>Statuses That Count As Consulted</InputLabel>
+              <Select
+                multiple
+                value={formData.consultedStatuses}
+                onChange={(e) => setFormData({ ...formData, consultedStatuses: e.target.value as string[] })}
+                input={<OutlinedInput label="Statuses That Count As Consulted" />}
+                renderValue={(selected) => (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                    {selected.map(status => <Chip key={status} size="small" label={status} />)}
+                  </Box>
+                )}
+              >
+                {LEAD_STATUSES.map(status => (
+                  <MenuItem key={status} value={status}>{status}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                />
+              }
+              label="Active"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={saveRule} disabled={saving || formData.name.trim().length < 2}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
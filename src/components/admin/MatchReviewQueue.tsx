@@ -0,0 +1,409 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Radio,
+  RadioGroup,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  TextField,
+  Typography,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { apiClient } from '@/lib/api/client';
+import { formatMBI } from '@/lib/utils/mbi';
+
+type ReviewStatus = 'PENDING' | 'CONFIRMED' | 'DISCARDED';
+type UploadType = 'SHIPPING_REPORT' | 'KIT_RETURN' | 'DOCTOR_APPROVAL' | 'MASTER_DATA';
+
+interface CandidateLead {
+  id: string;
+  firstName: string;
+  lastName: string;
+  mbi: string;
+  dateOfBirth: string;
+  phone: string;
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  status: string;
+  testType: string | null;
+  trackingNumber: string | null;
+  createdAt: string;
+}
+
+interface ReviewCandidate {
+  leadId: string;
+  confidence: number;
+  eligible: boolean;
+  signals: Array<{ field: string; points: number; detail: string }>;
+  lead: CandidateLead | null;
+}
+
+interface MatchReview {
+  id: string;
+  uploadType: UploadType;
+  fileName: string;
+  rowNumber: number;
+  rowData: Record<string, string>;
+  candidates: ReviewCandidate[];
+  reviewReason: 'BELOW_THRESHOLD' | 'AMBIGUOUS' | 'NOT_ELIGIBLE' | null;
+  summary: string;
+  status: ReviewStatus;
+  resolvedLeadId: string | null;
+  resolvedAt: string | null;
+  resolutionNote: string | null;
+  createdAt: string;
+}
+
+interface ReviewPage {
+  reviews: MatchReview[];
+  total: number;
+  pending: number;
+}
+
+const UPLOAD_LABELS: Record<UploadType, string> = {
+  SHIPPING_REPORT: 'Shipping Report',
+  KIT_RETURN: 'Kit Return',
+  DOCTOR_APPROVAL: 'Doctor Approval',
+  MASTER_DATA: 'Master Data',
+};
+
+const REASON_LABELS: Record<NonNullable<MatchReview['reviewReason']>, string> = {
+  BELOW_THRESHOLD: 'Low confidence',
+  AMBIGUOUS: 'Several patients',
+  NOT_ELIGIBLE: 'Order status',
+};
+
+// Sentinel radio value for a lead picked by id instead of from the candidates
+const OTHER_LEAD = 'other';
+
+const confidenceColor = (confidence: number) =>
+  confidence >= 0.8 ? 'success' : confidence >= 0.6 ? 'warning' : 'default';
+
+export function MatchReviewQueue() {
+  const [page, setPage] = useState<ReviewPage>({ reviews: [], total: 0, pending: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Filters
+  const [status, setStatus] = useState<ReviewStatus>('PENDING');
+  const [uploadType, setUploadType] = useState<UploadType | ''>('');
+  const [pageIndex, setPageIndex] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  // Review dialog
+  const [selected, setSelected] = useState<MatchReview | null>(null);
+  const [choice, setChoice] = useState('');
+  const [otherLeadId, setOtherLeadId] = useState('');
+  const [discardNote, setDiscardNote] = useState('');
+  const [resolving, setResolving] = useState(false);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [status, uploadType, pageIndex, rowsPerPage]);
+
+  const fetchReviews = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        status,
+        page: String(pageIndex + 1),
+        limit: String(rowsPerPage),
+        ...(uploadType ? { uploadType } : {}),
+      });
+      const data = await apiClient.get<ReviewPage>(`/admin/match-reviews?${params}`);
+      setPage(data);
+    } catch (error: any) {
+      setError('Failed to fetch match reviews: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openReview = (review: MatchReview) => {
+    setSelected(review);
+    setChoice(review.candidates[0]?.leadId || OTHER_LEAD);
+    setOtherLeadId('');
+    setDiscardNote('');
+  };
+
+  const resolve = async (action: 'CONFIRM' | 'DISCARD') => {
+    if (!selected) return;
+
+    try {
+      setResolving(true);
+      setError(null);
+      const payload = action === 'CONFIRM'
+        ? { action, leadId: choice === OTHER_LEAD ? otherLeadId.trim() : choice }
+        : { action, note: discardNote || undefined };
+      const data = await apiClient.post<{ warning?: string }>(`/admin/match-reviews/${selected.id}`, payload);
+
+      setSuccess(action === 'CONFIRM'
+        ? `Row ${selected.rowNumber} of ${selected.fileName} applied${data?.warning ? ` - ${data.warning}` : ''}`
+        : `Row ${selected.rowNumber} of ${selected.fileName} discarded`);
+      setSelected(null);
+      fetchReviews();
+    } catch (error: any) {
+      setError(error.message || 'Failed to resolve match review');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const confirmLeadId = choice === OTHER_LEAD ? otherLeadId.trim() : choice;
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" onClose={() => setSuccess(null)} sx={{ mb: 2 }}>
+          {success}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h5">Match Review</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Upload rows that could not be matched to an order with confidence. {page.pending} waiting for a decision.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Upload Type</InputLabel>
+            <Select
+              label="Upload Type"
+              value={uploadType}
+              onChange={(e) => { setUploadType(e.target.value as UploadType | ''); setPageIndex(0); }}
+            >
+              <MenuItem value="">All uploads</MenuItem>
+              {(Object.keys(UPLOAD_LABELS) as UploadType[]).map(type => (
+                <MenuItem key={type} value={type}>{UPLOAD_LABELS[type]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Status</InputLabel>
+            <Select
+              label="Status"
+              value={status}
+              onChange={(e) => { setStatus(e.target.value as ReviewStatus); setPageIndex(0); }}
+            >
+              <MenuItem value="PENDING">Pending</MenuItem>
+              <MenuItem value="CONFIRMED">Confirmed</MenuItem>
+              <MenuItem value="DISCARDED">Discarded</MenuItem>
+            </Select>
+          </FormControl>
+        </Box>
+      </Box>
+
+      <Paper>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Upload</TableCell>
+                  <TableCell>File / Row</TableCell>
+                  <TableCell>Reason</TableCell>
+                  <TableCell>Best Candidate</TableCell>
+                  <TableCell>Queued</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {page.reviews.map(review => {
+                  const best = review.candidates[0];
+                  return (
+                    <TableRow key={review.id} hover>
+                      <TableCell>{UPLOAD_LABELS[review.uploadType]}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2">{review.fileName}</Typography>
+                        <Typography variant="caption" color="text.secondary">Row {review.rowNumber}</Typography>
+                      </TableCell>
+                      <TableCell>
+                        {review.reviewReason && <Chip size="small" label={REASON_LABELS[review.reviewReason]} />}
+                      </TableCell>
+                      <TableCell>
+                        {best?.lead ? (
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <Typography variant="body2">{best.lead.firstName} {best.lead.lastName}</Typography>
+                            <Chip size="small" label={`${Math.round(best.confidence * 100)}%`} color={confidenceColor(best.confidence)} />
+                          </Box>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell>{new Date(review.createdAt).toLocaleString()}</TableCell>
+                      <TableCell align="right">
+                        <Button size="small" onClick={() => openReview(review)}>
+                          {review.status === 'PENDING' ? 'Review' : 'View'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {page.reviews.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">
+                      {status === 'PENDING' ? 'Nothing to review' : 'No reviews'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+        <TablePagination
+          component="div"
+          count={page.total}
+          page={pageIndex}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[10, 25, 50, 100]}
+          onPageChange={(_, value) => setPageIndex(value)}
+          onRowsPerPageChange={(e) => { setRowsPerPage(parseInt(e.target.value, 10)); setPageIndex(0); }}
+        />
+      </Paper>
+
+      <Dialog open={!!selected} onClose={() => setSelected(null)} maxWidth="md" fullWidth>
+        {selected && (
+          <>
+            <DialogTitle>
+              {UPLOAD_LABELS[selected.uploadType]} - {selected.fileName} row {selected.rowNumber}
+            </DialogTitle>
+            <DialogContent>
+              <Alert severity="info" sx={{ mb: 2 }}>{selected.summary}</Alert>
+
+              <Typography variant="subtitle2" gutterBottom>Uploaded Row</Typography>
+              <Paper variant="outlined" sx={{ p: 1.5, mb: 3 }}>
+                <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: 1 }}>
+                  {Object.entries(selected.rowData)
+                    .filter(([, value]) => value !== '' && value !== null && value !== undefined)
+                    .map(([column, value]) => (
+                      <Box key={column}>
+                        <Typography variant="caption" color="text.secondary">{column}</Typography>
+                        <Typography variant="body2">{String(value)}</Typography>
+                      </Box>
+                    ))}
+                </Box>
+              </Paper>
+
+              <Typography variant="subtitle2" gutterBottom>Candidates</Typography>
+              <RadioGroup value={choice} onChange={(e) => setChoice(e.target.value)}>
+                {selected.candidates.map(candidate => (
+                  <Paper key={candidate.leadId} variant="outlined" sx={{ p: 1.5, mb: 1 }}>
+                    <FormControlLabel
+                      value={candidate.leadId}
+                      disabled={selected.status !== 'PENDING' || !candidate.lead}
+                      control={<Radio size="small" />}
+                      label={
+                        <Box>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                            <Typography variant="body2" fontWeight="medium">
+                              {candidate.lead ? `${candidate.lead.firstName} ${candidate.lead.lastName}` : 'Lead no longer exists'}
+                            </Typography>
+                            <Chip size="small" label={`${Math.round(candidate.confidence * 100)}%`} color={confidenceColor(candidate.confidence)} />
+                            {candidate.lead && <Chip size="small" variant="outlined" label={candidate.lead.status} />}
+                            {candidate.lead?.testType && <Chip size="small" variant="outlined" label={candidate.lead.testType} />}
+                            {!candidate.eligible && <Chip size="small" color="warning" label="Status may block update" />}
+                            {selected.resolvedLeadId === candidate.leadId && <Chip size="small" color="success" label="Chosen" />}
+                          </Box>
+                          {candidate.lead && (
+                            <Typography variant="caption" color="text.secondary" component="div">
+                              MBI {formatMBI(candidate.lead.mbi)} · DOB {candidate.lead.dateOfBirth} · {candidate.lead.phone} · {candidate.lead.street}, {candidate.lead.city}, {candidate.lead.state} {candidate.lead.zipCode}
+                              {candidate.lead.trackingNumber ? ` · Tracking ${candidate.lead.trackingNumber}` : ''}
+                            </Typography>
+                          )}
+                          <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                            {candidate.signals.map(signal => (
+                              <Chip
+                                key={signal.field}
+                                size="small"
+                                variant="outlined"
+                                color={signal.points > 0 ? 'success' : 'error'}
+                                label={`${signal.detail} (${signal.points > 0 ? '+' : ''}${signal.points})`}
+                              />
+                            ))}
+                          </Box>
+                        </Box>
+                      }
+                    />
+                  </Paper>
+                ))}
+                {selected.status === 'PENDING' && (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                    <FormControlLabel value={OTHER_LEAD} control={<Radio size="small" />} label="Another lead:" />
+                    <TextField
+                      size="small"
+                      placeholder="Lead ID"
+                      value={otherLeadId}
+                      onChange={(e) => { setOtherLeadId(e.target.value); setChoice(OTHER_LEAD); }}
+                    />
+                  </Box>
+                )}
+              </RadioGroup>
+
+              {selected.status === 'PENDING' ? (
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Discard note (optional)"
+                  value={discardNote}
+                  onChange={(e) => setDiscardNote(e.target.value)}
+                  sx={{ mt: 3 }}
+                />
+              ) : (
+                <Alert severity={selected.status === 'CONFIRMED' ? 'success' : 'warning'} sx={{ mt: 2 }}>
+                  {selected.status === 'CONFIRMED' ? `Applied to lead ${selected.resolvedLeadId}` : 'Discarded'}
+                  {selected.resolvedAt ? ` on ${new Date(selected.resolvedAt).toLocaleString()}` : ''}
+                  {selected.resolutionNote ? ` - ${selected.resolutionNote}` : ''}
+                </Alert>
+              )}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setSelected(null)}>Close</Button>
+              {selected.status === 'PENDING' && (
+                <>
+                  <Button color="error" onClick={() => resolve('DISCARD')} disabled={resolving}>
+                    Discard Row
+                  </Button>
+                  <Button variant="contained" onClick={() => resolve('CONFIRM')} disabled={resolving || !confirmLeadId}>
+                    {resolving ? <CircularProgress size={20} /> : 'Apply to Selected Lead'}
+                  </Button>
+                </>
+              )}
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Box>
+  );
+}
@@ -71,6 +71,7 @@ interface Vendor {
   parentVendor?: Vendor;
   subVendors: Vendor[];
   isActive: boolean;
+  shippingCarrier?: 'UPS' | 'USPS' | 'FEDEX' | null;
   users: { id: string; email: string; firstName: string; lastName: string; }[];
   leads: { id: string; status: string; }[];
   createdAt: string;
@@ -123,6 +124,7 @@ const vendorSchema = z.object({
   staticCode: z.string().min(3, 'Static code must be at least 3 characters').optional(),
   parentVendorId: z.string().optional(),
   isActive: z.boolean(),
+  shippingCarrier: z.string().optional(),
   // New fields for automatic user creation
   contactEmail: z.string().email('Invalid email address').optional(),
   contactFirstName: z.string().min(2, 'First name must be at least 2 characters').optional(),
@@ -257,6 +259,7 @@ export function VendorManagement() {
         staticCode: '',
         parentVendorId: '',
         isActive: true,
+        shippingCarrier: '',
         contactEmail: '',
         contactFirstName: '',
         contactLastName: '',
@@ -273,6 +276,7 @@ export function VendorManagement() {
       staticCode: vendor.staticCode,
       parentVendorId: vendor.parentVendorId || '',
       isActive: vendor.isActive,
+      shippingCarrier: vendor.shippingCarrier || '',
       contactEmail: '',
       contactFirstName: '',
       contactLastName: '',
@@ -321,6 +325,7 @@ export function VendorManagement() {
       const vendorData = {
         ...data,
         parentVendorId: data.parentVendorId || null,
+        shippingCarrier: data.shippingCarrier || null,
       };
 
       if (editingVendor) {
@@ -1091,6 +1096,22 @@ export function VendorManagement() {
                 </Select>
               </FormControl>
 
+              <FormControl fullWidth>
+                <InputLabel>Shipping Carrier</InputLabel>
+                <Select
+                  value={watch('shippingCarrier') || ''}
+                  label="Shipping Carrier"
+                  onChange={(e) => setValue('shippingCarrier', e.target.value)}
+                >
+                  <MenuItem value="">
+                    <em>Default carrier</em>
+                  </MenuItem>
+                  <MenuItem value="UPS">UPS</MenuItem>
+                  <MenuItem value="USPS">USPS</MenuItem>
+                  <MenuItem value="FEDEX">FedEx</MenuItem>
+                </Select>
+              </FormControl>
+
               <FormControlLabel
                 control={
                   <Switch
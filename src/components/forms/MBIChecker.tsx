@@ -24,6 +24,7 @@ import {
   Warning,
   Search,
 } from '@mui/icons-material';
+import { formatMBI, normalizeMBI, validateMBI } from '@/lib/utils/mbi';
 
 interface MBICheckResult {
   status: 'ALLOWED' | 'BLOCKED' | 'WARNING';
@@ -53,17 +54,9 @@ export default function MBIChecker({ onValidationComplete, defaultTestType }: MB
   const [result, setResult] = useState<MBICheckResult | null>(null);
   const [hasChecked, setHasChecked] = useState(false);
 
-  const formatMBI = (value: string) => {
-    // Remove all non-alphanumeric characters
-    const cleaned = value.replace(/[^A-Z0-9]/gi, '').toUpperCase();
-
-    // Format as 1ABC-DEF-GH12
-    if (cleaned.length <= 1) return cleaned;
-    if (cleaned.length <= 4) return cleaned.slice(0, 1) + cleaned.slice(1);
-    if (cleaned.length <= 7) return cleaned.slice(0, 1) + cleaned.slice(1, 4) + '-' + cleaned.slice(4);
-    if (cleaned.length <= 9) return cleaned.slice(0, 1) + cleaned.slice(1, 4) + '-' + cleaned.slice(4, 7) + '-' + cleaned.slice(7);
-    return cleaned.slice(0, 1) + cleaned.slice(1, 4) + '-' + cleaned.slice(4, 7) + '-' + cleaned.slice(7, 11);
-  };
+  const mbiValidation = validateMBI(mbi);
+  // Character errors show while typing; an incomplete MBI just keeps the check button disabled
+  const mbiError = mbiValidation.errors.find(error => error.position !== undefined);
 
   const handleMBIChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const formatted = formatMBI(e.target.value);
@@ -89,8 +82,8 @@ export default function MBIChecker({ onValidationComplete, defaultTestType }: MB
   };
 
   const checkMBI = async () => {
-    if (!mbi || mbi.length < 11) {
-      alert('Please enter a valid MBI (11 characters)');
+    if (!mbiValidation.valid) {
+      alert(mbiValidation.errors[0]?.message || 'Please enter a valid MBI');
       return;
     }
 
@@ -100,15 +93,15 @@ export default function MBIChecker({ onValidationComplete, defaultTestType }: MB
       const { apiClient } = await import('@/lib/api/client');
       
       const data = await apiClient.post<MBICheckResult>('/leads/check-mbi-duplicate', {
-        mbi: mbi.replace(/-/g, ''), // Remove dashes for API
+        mbi: normalizeMBI(mbi), // Remove dashes for API
         testType,
       });
 
       setResult(data);
       setHasChecked(true);
 
-      // Notify parent component
-      const isValid = data.status === 'ALLOWED';
+      // Notify parent component - a warning still lets the vendor proceed
+      const isValid = data.status !== 'BLOCKED';
       onValidationComplete(isValid, mbi, testType);
 
     } catch (error: any) {
@@ -171,10 +164,10 @@ export default function MBIChecker({ onValidationComplete, defaultTestType }: MB
               label="Patient MBI"
               value={mbi}
               onChange={handleMBIChange}
-              placeholder="1ABC-DEF-GH12"
+              placeholder="1EG4-TE5-MK73"
               inputProps={{ maxLength: 13 }}
-              error={mbi.length > 0 && mbi.length < 11}
-              helperText={mbi.length > 0 && mbi.length < 11 ? 'MBI must be 11 characters' : ''}
+              error={!!mbiError}
+              helperText={mbiError?.message || ''}
             />
           </Grid>
 
@@ -197,7 +190,7 @@ export default function MBIChecker({ onValidationComplete, defaultTestType }: MB
               fullWidth
               variant="contained"
               onClick={checkMBI}
-              disabled={loading || mbi.length < 11}
+              disabled={loading || !mbiValidation.valid}
               startIcon={loading ? <CircularProgress size={20} /> : <Search />}
               sx={{ height: 56 }}
             >
@@ -270,7 +263,7 @@ export default function MBIChecker({ onValidationComplete, defaultTestType }: MB
           </Box>
         )}
 
-        {result?.status === 'ALLOWED' && (
+        {(result?.status === 'ALLOWED' || result?.status === 'WARNING') && (
           <Alert severity="success" sx={{ mt: 2 }}>
             <Typography variant="body1" fontWeight="medium">
               ✅ Validation Complete - You may proceed with the form below
@@ -47,6 +47,8 @@ import {
 } from '@mui/icons-material';
 import { apiClient } from '@/lib/api/client';
 import useStore from '@/store/useStore';
+import LeadTimeline from './LeadTimeline';
+import LeadShippingLabels from './LeadShippingLabels';
 
 interface LeadDetailModalProps {
   open: boolean;
@@ -106,6 +108,9 @@ interface LeadDetail {
   testType?: string;
   isDuplicate: boolean;
   hasActiveAlerts: boolean;
+  shippingCarrier?: string;
+  trackingNumber?: string;
+  inboundTrackingNumber?: string;
   advocateId?: string;
   advocateDisposition?: string;
   advocateNotes?: string;
@@ -139,6 +144,14 @@ interface LeadDetail {
     lastName: string;
   };
   complianceChecklist?: any;
+  patientId?: string;
+  otherTestOrders?: Array<{
+    id: string;
+    testType?: string;
+    status: string;
+    createdAt: string;
+    vendorName: string;
+  }>;
   alerts: Array<{
     id: string;
     type: string;
@@ -180,6 +193,8 @@ export default function LeadDetailModal({ open, leadId, onClose, onLeadUpdated }
 
   // Check if user has edit permissions (vendors can only view, not edit)
   const canEdit = user?.role === 'admin' || user?.role === 'advocate' || user?.role === 'collections';
+  // Shipping labels are reprinted by the teams that pack and chase kits
+  const canReprintLabels = user?.role === 'admin' || user?.role === 'collections';
 
   // Add state for editing fields
   const [editMode, setEditMode] = useState(false);
@@ -329,12 +344,10 @@ export default function LeadDetailModal({ open, leadId, onClose, onLeadUpdated }
         advocateReviewedAt: new Date().toISOString(),
       };
 
-      // Only update status and disposition if disposition has changed
+      // Only update the disposition if it has changed - the server moves the status to match
       if (disposition && disposition.trim() !== '' && disposition !== lead.advocateDisposition) {
-        const autoStatus = getStatusFromDisposition(disposition);
-        updateData.status = autoStatus;
         updateData.advocateDisposition = disposition;
-        console.log('Disposition changed, updating status to:', autoStatus);
+        console.log('Disposition changed, status expected to move to:', getStatusFromDisposition(disposition));
       } else if (disposition && disposition.trim() !== '') {
         // Keep existing disposition if it hasn't changed
         updateData.advocateDisposition = disposition;
@@ -446,10 +459,7 @@ export default function LeadDetailModal({ open, leadId, onClose, onLeadUpdated }
       'ADVOCATE_REVIEW': 'warning',
       'QUALIFIED': 'success',
       'SENT_TO_CONSULT': 'success',
-      'DOESNT_QUALIFY': 'error',
-      'PATIENT_DECLINED': 'error',
-      'DUPLICATE': 'error',
-      'COMPLIANCE_ISSUE': 'error',
+      'RETURNED': 'error',
     };
     return colors[status] || 'default';
   };
@@ -493,13 +503,10 @@ export default function LeadDetailModal({ open, leadId, onClose, onLeadUpdated }
     
     switch (disposition) {
       case 'DOESNT_QUALIFY':
-        return 'DOESNT_QUALIFY';
       case 'PATIENT_DECLINED':
-        return 'PATIENT_DECLINED';
       case 'DUPE':
-        return 'DUPLICATE';
       case 'COMPLIANCE_ISSUE':
-        return 'COMPLIANCE_ISSUE';
+        return 'RETURNED';
       case 'CONNECTED_TO_COMPLIANCE':
         return 'SENT_TO_CONSULT'; // Positive result, send to next stage
       case 'CALL_BACK':
@@ -762,6 +769,23 @@ export default function LeadDetailModal({ open, leadId, onClose, onLeadUpdated }
                           {formatDate(lead.createdAt)}
                         </Typography>
                       </Grid>
+
+                      {lead.otherTestOrders && lead.otherTestOrders.length > 0 && (
+                        <Grid item xs={12}>
+                          <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                            Other Test Orders for this Patient
+                          </Typography>
+                          {lead.otherTestOrders.map((order) => (
+                            <Box key={order.id} display="flex" alignItems="center" gap={1} mb={0.5}>
+                              <Chip label={order.testType || 'UNKNOWN'} color="info" size="small" variant="outlined" />
+                              <Chip label={order.status.replace(/_/g, ' ')} color={getStatusColor(order.status)} size="small" />
+                              <Typography variant="body2" color="text.secondary">
+                                {order.vendorName} • {formatDate(order.createdAt)}
+                              </Typography>
+                            </Box>
+                          ))}
+                        </Grid>
+                      )}
                     </Grid>
                   </CardContent>
                 </Card>
@@ -1298,6 +1322,18 @@ export default function LeadDetailModal({ open, leadId, onClose, onLeadUpdated }
                 </Grid>
               )}
 
+              {/* Shipping Labels - reprint a lost outbound or return label */}
+              {canReprintLabels && lead.trackingNumber && (
+                <Grid item xs={12}>
+                  <LeadShippingLabels leadId={lead.id} refreshKey={lead.updatedAt} />
+                </Grid>
+              )}
+
+              {/* Activity Timeline */}
+              <Grid item xs={12}>
+                <LeadTimeline leadId={lead.id} refreshKey={lead.updatedAt} />
+              </Grid>
+
               {/* Advocate Notes & Disposition - Read-only for vendors */}
               {!canEdit && (lead.advocateNotes || lead.advocateDisposition) && (
                 <Grid item xs={12}>
@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  CircularProgress,
+  Paper,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import {
+  LocalShipping as LocalShippingIcon,
+  Print as PrintIcon,
+} from '@mui/icons-material';
+import { apiClient } from '@/lib/api/client';
+import { LeadShippingLabel } from '@/types';
+
+interface LeadShippingLabelsProps {
+  leadId: string;
+  // Changes whenever the lead is saved so the labels are reloaded
+  refreshKey?: string;
+}
+
+const DIRECTION_LABELS: Record<LeadShippingLabel['direction'], string> = {
+  OUTBOUND: 'Outbound label',
+  INBOUND: 'Return label',
+};
+
+const MIME_TYPES: Record<string, string> = {
+  GIF: 'image/gif',
+  PNG: 'image/png',
+  JPG: 'image/jpeg',
+  PDF: 'application/pdf',
+};
+
+const formatTimestamp = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const labelBlob = (label: LeadShippingLabel) => {
+  const bytes = Uint8Array.from(atob(label.labelImage), char => char.charCodeAt(0));
+  return new Blob([bytes], { type: MIME_TYPES[label.format] || 'application/octet-stream' });
+};
+
+/**
+ * Open a label for printing. Images print on a 4x6 page, PDFs open in the browser's
+ * viewer, and thermal (ZPL) labels download for the label printer.
+ */
+const reprintLabel = (label: LeadShippingLabel) => {
+  const url = URL.createObjectURL(labelBlob(label));
+
+  if (label.format === 'PDF') {
+    window.open(url, '_blank');
+  } else if (MIME_TYPES[label.format]) {
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      // Built with DOM calls rather than markup, so nothing from the label is parsed as HTML
+      const printDocument = printWindow.document;
+      printDocument.title = `${label.carrier} ${label.trackingNumber}`;
+
+      const style = printDocument.createElement('style');
+      style.textContent = `
+        @page { size: 4in 6in; margin: 0; }
+        body { margin: 0; }
+        img { display: block; max-width: 4in; max-height: 6in; margin: auto; }
+      `;
+      printDocument.head.appendChild(style);
+
+      const image = printDocument.createElement('img');
+      image.onload = () => printWindow.print();
+      image.src = url;
+      printDocument.body.appendChild(image);
+    }
+  } else {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${label.trackingNumber}.${label.format.toLowerCase()}`;
+    link.click();
+  }
+
+  // Long enough for the new window to load it
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+export default function LeadShippingLabels({ leadId, refreshKey }: LeadShippingLabelsProps) {
+  const [labels, setLabels] = useState<LeadShippingLabel[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLabels();
+  }, [leadId, refreshKey]);
+
+  const loadLabels = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiClient.get<{ success: boolean; labels: LeadShippingLabel[]; error?: string }>(`leads/${leadId}/labels`);
+
+      if (response.success) {
+        setLabels(response.labels);
+      } else {
+        setError(response.error || 'Failed to load shipping labels');
+      }
+    } catch (err: any) {
+      console.error('Error loading shipping labels:', err);
+      setError(err.message || 'Failed to load shipping labels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box display="flex" alignItems="center" mb={2}>
+        <LocalShippingIcon color="primary" sx={{ mr: 1 }} />
+        <Typography variant="h6">Shipping Labels</Typography>
+      </Box>
+
+      {loading && (
+        <Box display="flex" justifyContent="center" py={2}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {error && !loading && (
+        <Alert severity="error">{error}</Alert>
+      )}
+
+      {!loading && !error && labels.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No labels stored for this kit. Labels are kept for kits shipped through the portal.
+        </Typography>
+      )}
+
+      {!loading && !error && labels.length > 0 && (
+        <List dense>
+          {labels.map((label) => (
+            <ListItem
+              key={label.id}
+              divider
+              secondaryAction={
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={<PrintIcon />}
+                  onClick={() => reprintLabel(label)}
+                >
+                  Reprint
+                </Button>
+              }
+            >
+              <ListItemText
+                primary={
+                  <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                    <Typography variant="body2" fontWeight="medium">
+                      {DIRECTION_LABELS[label.direction]}
+                    </Typography>
+                    <Chip label={label.carrier} size="small" variant="outlined" />
+                  </Box>
+                }
+                secondary={`${label.trackingNumber} • ${label.format} • ${formatTimestamp(label.createdAt)}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  CircularProgress,
+  Paper,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemIcon,
+} from '@mui/material';
+import {
+  History as HistoryIcon,
+  SwapHoriz as SwapHorizIcon,
+  Phone as PhoneIcon,
+  Event as EventIcon,
+  EventAvailable as EventAvailableIcon,
+  LocalShipping as LocalShippingIcon,
+  Warning as WarningIcon,
+  CheckCircle as CheckCircleIcon,
+  FiberNew as FiberNewIcon,
+} from '@mui/icons-material';
+import { apiClient } from '@/lib/api/client';
+import { LeadTimelineEntry, LeadTimelineEntryType } from '@/types';
+
+interface LeadTimelineProps {
+  leadId: string;
+  // Changes whenever the lead is saved so the feed is reloaded
+  refreshKey?: string;
+}
+
+const ENTRY_ICONS: Record<LeadTimelineEntryType, React.ReactElement> = {
+  LEAD_CREATED: <FiberNewIcon color="primary" />,
+  STATUS_CHANGE: <SwapHorizIcon color="primary" />,
+  CONTACT_ATTEMPT: <PhoneIcon color="action" />,
+  CALLBACK_SCHEDULED: <EventIcon color="action" />,
+  CALLBACK_COMPLETED: <EventAvailableIcon color="success" />,
+  TRACKING_EVENT: <LocalShippingIcon color="info" />,
+  ALERT_RAISED: <WarningIcon color="warning" />,
+  ALERT_ACKNOWLEDGED: <CheckCircleIcon color="success" />,
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  UI: 'Portal',
+  WEBHOOK: 'UPS Webhook',
+  UPLOAD: 'File Upload',
+  BATCH: 'Batch Job',
+  SHIPPING: 'Shipping',
+  SYSTEM: 'System',
+};
+
+const formatTimestamp = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export default function LeadTimeline({ leadId, refreshKey }: LeadTimelineProps) {
+  const [entries, setEntries] = useState<LeadTimelineEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [leadId, refreshKey]);
+
+  const loadTimeline = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiClient.get<{ success: boolean; timeline: LeadTimelineEntry[]; error?: string }>(`leads/${leadId}/timeline`);
+
+      if (response.success) {
+        setEntries(response.timeline);
+      } else {
+        setError(response.error || 'Failed to load activity timeline');
+      }
+    } catch (err: any) {
+      console.error('Error loading lead timeline:', err);
+      setError(err.message || 'Failed to load activity timeline');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box display="flex" alignItems="center" mb={2}>
+        <HistoryIcon color="primary" sx={{ mr: 1 }} />
+        <Typography variant="h6">Activity Timeline</Typography>
+      </Box>
+
+      {loading && (
+        <Box display="flex" justifyContent="center" py={2}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {error && !loading && (
+        <Alert severity="error">{error}</Alert>
+      )}
+
+      {!loading && !error && entries.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No activity recorded yet.
+        </Typography>
+      )}
+
+      {!loading && !error && entries.length > 0 && (
+        <List dense sx={{ maxHeight: 400, overflowY: 'auto' }}>
+          {entries.map((entry) => (
+            <ListItem key={entry.id} alignItems="flex-start" divider>
+              <ListItemIcon sx={{ mt: 0.5 }}>
+                {ENTRY_ICONS[entry.type]}
+              </ListItemIcon>
+              <ListItemText
+                primary={
+                  <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                    <Typography variant="body2" fontWeight="medium">
+                      {entry.title}
+                    </Typography>
+                    {entry.source && (
+                      <Chip label={SOURCE_LABELS[entry.source] || entry.source} size="small" variant="outlined" />
+                    )}
+                  </Box>
+                }
+                secondary={
+                  <>
+                    {entry.description && (
+                      <Typography component="span" variant="body2" color="text.secondary" display="block">
+                        {entry.description}
+                      </Typography>
+                    )}
+                    <Typography component="span" variant="caption" color="text.secondary">
+                      {formatTimestamp(entry.occurredAt)}
+                      {entry.actor && ` • ${entry.actor.name}`}
+                    </Typography>
+                  </>
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Paper>
+  );
+}
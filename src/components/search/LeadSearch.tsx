@@ -111,7 +111,7 @@ interface LeadSearchProps {
 export default function LeadSearch({ 
   onLeadSelect, 
   showActions = true, 
-  placeholder = "Search by name, phone, MBI, or location...",
+  placeholder = "Search by name, full phone, full MBI, ZIP or state...",
   autoFocus = false 
 }: LeadSearchProps) {
   const [query, setQuery] = useState('');
@@ -250,7 +250,7 @@ export default function LeadSearch({
       {/* Search Results */}
       {!loading && results.length === 0 && query.length >= 2 && (
         <Alert severity="info" sx={{ mb: 2 }}>
-          No leads found matching "{query}". Try searching by name, phone number, MBI, or location.
+          No leads found matching "{query}". Try searching by name, full phone number, full MBI, ZIP code or state.
         </Alert>
       )}
 
@@ -0,0 +1,12 @@
+/**
+ * Runs once when a server instance starts. Resolving the storage adapters here makes a
+ * misconfigured deployment (local disk in production, no bucket) fail at startup
+ * rather than on the first upload.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getUploadStorage } = await import('@/lib/storage/uploadStorage');
+  const { getLabelStorage } = await import('@/lib/storage/labelStorage');
+  console.log(`📦 Upload storage: ${getUploadStorage().name}, label storage: ${getLabelStorage().name}`);
+}
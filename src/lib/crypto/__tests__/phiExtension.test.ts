@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import { protectArgs } from '@/lib/crypto/phiExtension';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+
+process.env.PHI_KEY_PROVIDER = 'env';
+process.env.PHI_DATA_KEYS = `test:${crypto.randomBytes(32).toString('base64')}`;
+process.env.PHI_INDEX_KEY = crypto.randomBytes(32).toString('base64');
+
+const patient = {
+  mbi: '1EG4-TE5-MK73',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  dateOfBirth: '1950-12-10',
+  phone: '555-123-4567',
+  street: '1 Main St',
+  city: 'Springfield',
+  state: 'IL',
+  zipCode: '62701'
+};
+
+function expectEncrypted(row: Record<string, any>) {
+  expect(PhiEncryption.isEncrypted(row.mbi)).toBe(true);
+  expect(PhiEncryption.decrypt(row.mbi)).toBe(patient.mbi);
+  expect(PhiEncryption.isEncrypted(row.street)).toBe(true);
+  expect(row.mbiHash).toBe(PhiEncryption.blindIndex('mbi', patient.mbi));
+  expect(row.firstName).toBe(patient.firstName);
+}
+
+describe('phiExtension writes', () => {
+  it('encrypts a top-level create', () => {
+    const args = protectArgs('Patient', 'create', { data: { ...patient } });
+    expectEncrypted(args.data);
+  });
+
+  it('encrypts a lead created through another model', () => {
+    const args = protectArgs('TrackingEvent', 'create', {
+      data: { trackingNumber: '1Z', lead: { create: { ...patient, vendorId: 'v1' } } }
+    });
+    expectEncrypted(args.data.lead.create);
+    expect(args.data.trackingNumber).toBe('1Z');
+  });
+
+  it('encrypts nested creates, createMany and connectOrCreate on a list relation', () => {
+    const args = protectArgs('Patient', 'create', {
+      data: {
+        ...patient,
+        testOrders: {
+          create: [{ ...patient, vendorId: 'v1' }],
+          createMany: { data: [{ ...patient, vendorId: 'v2' }] },
+          connectOrCreate: { where: { id: 'l1' }, create: { ...patient, vendorId: 'v3' } }
+        }
+      }
+    });
+    expectEncrypted(args.data);
+    expectEncrypted(args.data.testOrders.create[0]);
+    expectEncrypted(args.data.testOrders.createMany.data[0]);
+    expectEncrypted(args.data.testOrders.connectOrCreate.create);
+  });
+
+  it('encrypts to-one nested updates given bare or as { where, data }', () => {
+    const bare = protectArgs('TrackingEvent', 'update', {
+      where: { id: 't1' },
+      data: { lead: { update: { street: patient.street } } }
+    });
+    expect(PhiEncryption.decrypt(bare.data.lead.update.street)).toBe(patient.street);
+
+    const wrapped = protectArgs('Lead', 'update', {
+      where: { id: 'l1' },
+      data: { patient: { update: { where: { id: 'p1' }, data: { phone: patient.phone } } } }
+    });
+    const { data } = wrapped.data.patient.update;
+    expect(PhiEncryption.isEncrypted(data.phone)).toBe(true);
+    expect(data.phoneHash).toBe(PhiEncryption.blindIndex('phone', patient.phone));
+  });
+
+  it('encrypts nested upserts and updateMany', () => {
+    const args = protectArgs('Patient', 'update', {
+      where: { id: 'p1' },
+      data: {
+        testOrders: {
+          upsert: [{ where: { id: 'l1' }, create: { ...patient, vendorId: 'v1' }, update: { city: 'Chicago' } }],
+          updateMany: { where: { vendorId: 'v1' }, data: { zipCode: '60601' } }
+        }
+      }
+    });
+    expectEncrypted(args.data.testOrders.upsert[0].create);
+    expect(PhiEncryption.decrypt(args.data.testOrders.upsert[0].update.city)).toBe('Chicago');
+    expect(PhiEncryption.decrypt(args.data.testOrders.updateMany.data.zipCode)).toBe('60601');
+  });
+
+  it('leaves ciphertext copied from another row as it is', () => {
+    const mbi = PhiEncryption.encrypt(patient.mbi);
+    const args = protectArgs('Lead', 'update', { where: { id: 'l1' }, data: { mbi } });
+    expect(args.data.mbi).toBe(mbi);
+  });
+});
+
+describe('phiExtension filters', () => {
+  it('rejects a filter on an encrypted column', () => {
+    expect(() => protectArgs('Lead', 'findMany', { where: { mbi: patient.mbi } })).toThrow(/mbiHash/);
+    expect(() => protectArgs('Lead', 'findMany', { where: { OR: [{ id: 'l1' }, { city: 'Springfield' }] } }))
+      .toThrow(/Lead\.city is encrypted/);
+  });
+
+  it('rejects a filter on an encrypted column through a relation', () => {
+    expect(() => protectArgs('TrackingEvent', 'findMany', { where: { lead: { mbi: patient.mbi } } }))
+      .toThrow(/Lead\.mbi is encrypted/);
+    expect(() => protectArgs('TrackingEvent', 'findMany', { where: { lead: { is: { phone: patient.phone } } } }))
+      .toThrow(/Lead\.phone is encrypted/);
+    expect(() => protectArgs('Patient', 'findMany', { where: { testOrders: { some: { zipCode: '62701' } } } }))
+      .toThrow(/Lead\.zipCode is encrypted/);
+    expect(() => protectArgs('Vendor', 'findMany', { where: { leads: { none: { AND: [{ street: 'x' }] } } } }))
+      .toThrow(/Lead\.street is encrypted/);
+  });
+
+  it('rejects encrypted filters in includes and nested writes', () => {
+    expect(() => protectArgs('Patient', 'findUnique', {
+      where: { id: 'p1' },
+      include: { testOrders: { where: { mbi: patient.mbi } } }
+    })).toThrow(/Lead\.mbi is encrypted/);
+    expect(() => protectArgs('Patient', 'update', {
+      where: { id: 'p1' },
+      data: { testOrders: { updateMany: { where: { city: 'Springfield' }, data: { state: 'IL' } } } }
+    })).toThrow(/Lead\.city is encrypted/);
+  });
+
+  it('allows blind index and unencrypted filters', () => {
+    const mbiHash = PhiEncryption.blindIndex('mbi', patient.mbi);
+    expect(() => protectArgs('TrackingEvent', 'findMany', {
+      where: { lead: { mbiHash, firstName: 'Ada' } },
+      include: { lead: { select: { mbi: true } } }
+    })).not.toThrow();
+    expect(() => protectArgs('Vendor', 'findMany', { where: { leads: { some: { mbiHash } } } })).not.toThrow();
+  });
+});
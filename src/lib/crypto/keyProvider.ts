@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * PHI Key Providers
+ * Supply the keys used for field-level PHI encryption and blind indexes.
+ *  - local: JSON key file, generated on first use outside production (dev only)
+ *  - env:   keys from environment variables (production / Amplify)
+ * Select with PHI_KEY_PROVIDER; defaults to env in production and local elsewhere.
+ */
+
+export interface PhiKeyProvider {
+  readonly name: string;
+  // Key id written into new ciphertexts
+  activeKeyId(): string;
+  // 32-byte AES-256-GCM key; retired ids stay readable after rotation
+  dataKey(keyId: string): Buffer;
+  // 32-byte HMAC key for blind indexes - rotating it requires re-indexing every row
+  indexKey(): Buffer;
+}
+
+interface PhiKeyMaterial {
+  activeKeyId: string;
+  dataKeys: Record<string, string>;
+  indexKey: string;
+}
+
+const KEY_BYTES = 32;
+
+function decodeKey(value: string, label: string): Buffer {
+  const key = Buffer.from(value, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${label} must be ${KEY_BYTES} bytes, base64 encoded (got ${key.length} bytes)`);
+  }
+  return key;
+}
+
+abstract class StaticKeyProvider implements PhiKeyProvider {
+  abstract readonly name: string;
+  private material: { activeKeyId: string; dataKeys: Map<string, Buffer>; indexKey: Buffer } | null = null;
+
+  protected abstract loadMaterial(): PhiKeyMaterial;
+
+  private getMaterial() {
+    if (!this.material) {
+      const raw = this.loadMaterial();
+      const dataKeys = new Map(
+        Object.entries(raw.dataKeys).map(([id, value]) => [id, decodeKey(value, `PHI data key "${id}"`)])
+      );
+
+      if (!dataKeys.has(raw.activeKeyId)) {
+        throw new Error(`Active PHI key "${raw.activeKeyId}" is not among the configured data keys`);
+      }
+
+      this.material = {
+        activeKeyId: raw.activeKeyId,
+        dataKeys,
+        indexKey: decodeKey(raw.indexKey, 'PHI index key')
+      };
+    }
+    return this.material;
+  }
+
+  activeKeyId(): string {
+    return this.getMaterial().activeKeyId;
+  }
+
+  dataKey(keyId: string): Buffer {
+    const key = this.getMaterial().dataKeys.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown PHI data key "${keyId}" - was it removed after rotation?`);
+    }
+    return key;
+  }
+
+  indexKey(): Buffer {
+    return this.getMaterial().indexKey;
+  }
+}
+
+/**
+ * Reads keys from a JSON file (PHI_KEY_FILE, default .keys/phi-keys.json).
+ * Outside production a missing file is created with fresh random keys.
+ */
+export class LocalKeyFileProvider extends StaticKeyProvider {
+  readonly name = 'local';
+
+  constructor(private readonly filePath: string = process.env.PHI_KEY_FILE || path.join(process.cwd(), '.keys', 'phi-keys.json')) {
+    super();
+  }
+
+  protected loadMaterial(): PhiKeyMaterial {
+    if (!fs.existsSync(this.filePath)) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error(`PHI key file not found at ${this.filePath}`);
+      }
+
+      const generated: PhiKeyMaterial = {
+        activeKeyId: 'k1',
+        dataKeys: { k1: crypto.randomBytes(KEY_BYTES).toString('base64') },
+        indexKey: crypto.randomBytes(KEY_BYTES).toString('base64')
+      };
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(generated, null, 2), { mode: 0o600 });
+      console.warn(`🔑 Generated development PHI keys at ${this.filePath} - data encrypted with them is unreadable without this file`);
+      return generated;
+    }
+
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+  }
+}
+
+/**
+ * Reads keys from the environment:
+ *  PHI_DATA_KEYS      comma separated id:base64 pairs, e.g. "k1:...,k2:..."
+ *  PHI_ACTIVE_KEY_ID  id used for new writes (defaults to the last pair)
+ *  PHI_INDEX_KEY      base64 blind index key
+ */
+export class EnvKeyProvider extends StaticKeyProvider {
+  readonly name = 'env';
+
+  protected loadMaterial(): PhiKeyMaterial {
+    const pairs = (process.env.PHI_DATA_KEYS || '')
+      .split(',')
+      .map(pair => pair.trim())
+      .filter(Boolean)
+      .map(pair => {
+        const separator = pair.indexOf(':');
+        return [pair.slice(0, separator), pair.slice(separator + 1)] as const;
+      });
+
+    if (pairs.length === 0 || pairs.some(([id]) => !id)) {
+      throw new Error('PHI_DATA_KEYS must contain at least one id:base64 key');
+    }
+    if (!process.env.PHI_INDEX_KEY) {
+      throw new Error('PHI_INDEX_KEY is required');
+    }
+
+    return {
+      activeKeyId: process.env.PHI_ACTIVE_KEY_ID || pairs[pairs.length - 1][0],
+      dataKeys: Object.fromEntries(pairs),
+      indexKey: process.env.PHI_INDEX_KEY
+    };
+  }
+}
+
+let provider: PhiKeyProvider | null = null;
+
+export function getKeyProvider(): PhiKeyProvider {
+  if (!provider) {
+    const configured = process.env.PHI_KEY_PROVIDER || (process.env.NODE_ENV === 'production' ? 'env' : 'local');
+    provider = configured === 'env' ? new EnvKeyProvider() : new LocalKeyFileProvider();
+  }
+  return provider;
+}
+
+// Swap the provider, e.g. for a KMS-backed implementation
+export function setKeyProvider(next: PhiKeyProvider) {
+  provider = next;
+}
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { Transform } from 'stream';
+import { getKeyProvider } from '@/lib/crypto/keyProvider';
+import { normalizeMBI } from '@/lib/utils/mbi';
+
+/**
+ * PHI Field Encryption
+ * AES-256-GCM for the stored value plus a keyed HMAC "blind index" so equality
+ * lookups still work. Ciphertext format: enc:v1:<keyId>:<iv>:<tag>:<data> (base64 parts).
+ * Values without the prefix are treated as legacy plaintext and returned as-is.
+ * Whole files (stored uploads) are encrypted as a stream: a "enc:v1:<keyId>:<iv>\n"
+ * header line, the ciphertext, then the 16-byte tag.
+ */
+
+export const ENCRYPTED_PHI_FIELDS = ['mbi', 'dateOfBirth', 'phone', 'street', 'city', 'zipCode'] as const;
+export type EncryptedPhiField = typeof ENCRYPTED_PHI_FIELDS[number];
+
+export const BLIND_INDEXED_FIELDS = ['mbi', 'dateOfBirth', 'phone', 'zipCode'] as const;
+export type BlindIndexedField = typeof BLIND_INDEXED_FIELDS[number];
+
+const PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class PhiEncryption {
+  static isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+
+  static encrypt(plaintext: string): string {
+    const provider = getKeyProvider();
+    const keyId = provider.activeKeyId();
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', provider.dataKey(keyId), iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return `${PREFIX}${keyId}:${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${data.toString('base64')}`;
+  }
+
+  static decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const [keyId, iv, tag, data] = value.slice(PREFIX.length).split(':');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getKeyProvider().dataKey(keyId), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Encrypt a byte stream, e.g. an uploaded file on its way to storage
+   */
+  static encryptStream(): Transform {
+    const provider = getKeyProvider();
+    const keyId = provider.activeKeyId();
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', provider.dataKey(keyId), iv);
+    let headerWritten = false;
+
+    const header = () => {
+      if (headerWritten) return [];
+      headerWritten = true;
+      return [Buffer.from(`${PREFIX}${keyId}:${iv.toString('base64')}\n`, 'utf8')];
+    };
+
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        callback(null, Buffer.concat([...header(), cipher.update(chunk)]));
+      },
+      flush(callback) {
+        callback(null, Buffer.concat([...header(), cipher.final(), cipher.getAuthTag()]));
+      }
+    });
+  }
+
+  /**
+   * Decrypt a stream written by encryptStream. The tag is only checked at the end, so
+   * a tampered file errors the stream after its bytes have been passed on - readers
+   * must treat a stream error as the whole file being unusable.
+   */
+  static decryptStream(): Transform {
+    let pending = Buffer.alloc(0);
+    let decipher: crypto.DecipherGCM | null = null;
+
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        try {
+          pending = Buffer.concat([pending, chunk]);
+          if (!decipher) {
+            const newline = pending.indexOf(0x0a);
+            if (newline === -1) {
+              if (pending.length > 256) throw new Error('Stored file is not encrypted');
+              return callback();
+            }
+            const header = pending.subarray(0, newline).toString('utf8');
+            if (!header.startsWith(PREFIX)) throw new Error('Stored file is not encrypted');
+            const [keyId, iv] = header.slice(PREFIX.length).split(':');
+            decipher = crypto.createDecipheriv('aes-256-gcm', getKeyProvider().dataKey(keyId), Buffer.from(iv, 'base64'));
+            pending = pending.subarray(newline + 1);
+          }
+          // Hold back what may be the tag until the stream ends
+          if (pending.length <= TAG_BYTES) return callback();
+          const data = pending.subarray(0, pending.length - TAG_BYTES);
+          pending = pending.subarray(pending.length - TAG_BYTES);
+          callback(null, decipher.update(data));
+        } catch (error) {
+          callback(error as Error);
+        }
+      },
+      flush(callback) {
+        try {
+          if (!decipher || pending.length !== TAG_BYTES) throw new Error('Stored file is truncated');
+          decipher.setAuthTag(pending);
+          callback(null, decipher.final());
+        } catch (error) {
+          callback(error as Error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Canonical plaintext for a field, so "1eg4-te5-mk73" and "1EG4TE5MK73"
+   * (or a Date and its ISO string) produce the same blind index
+   */
+  static normalize(field: EncryptedPhiField, value: string | Date): string {
+    switch (field) {
+      case 'mbi':
+        return normalizeMBI(String(value));
+      case 'dateOfBirth':
+        return this.toDateOnly(value);
+      case 'phone':
+        return String(value).replace(/\D/g, '').slice(-10);
+      case 'zipCode':
+        return String(value).replace(/\D/g, '').slice(0, 5);
+      default:
+        return String(value).trim().replace(/\s+/g, ' ').toLowerCase();
+    }
+  }
+
+  /**
+   * Deterministic HMAC of the normalized value for equality lookups.
+   * Usage: prisma.lead.findMany({ where: { mbiHash: PhiEncryption.blindIndex('mbi', mbi) } })
+   */
+  static blindIndex(field: BlindIndexedField, value: string | Date): string {
+    return crypto
+      .createHmac('sha256', getKeyProvider().indexKey())
+      .update(`${field}:${this.normalize(field, value)}`)
+      .digest('hex');
+  }
+
+  /**
+   * Dates of birth are stored as YYYY-MM-DD. Accepts a Date or any parseable date string.
+   */
+  static toDateOnly(value: string | Date): string {
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    const trimmed = String(value).trim();
+    if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return trimmed.slice(0, 10);
+    const parsed = new Date(trimmed);
+    if (isNaN(parsed.getTime())) {
+      throw new Error('Invalid date of birth');
+    }
+    return parsed.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Redacted forms for log lines - never log PHI verbatim
+   */
+  static maskMBI(mbi: string | null | undefined): string {
+    const normalized = normalizeMBI(mbi);
+    return normalized ? `*******${normalized.slice(-4)}` : 'none';
+  }
+
+  static maskPhone(phone: string | null | undefined): string {
+    const digits = String(phone || '').replace(/\D/g, '');
+    return digits ? `***-***-${digits.slice(-4)}` : 'none';
+  }
+}
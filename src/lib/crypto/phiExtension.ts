@@ -0,0 +1,263 @@
+import { Prisma } from '@prisma/client';
+import {
+  PhiEncryption,
+  ENCRYPTED_PHI_FIELDS,
+  BLIND_INDEXED_FIELDS,
+  EncryptedPhiField,
+  BlindIndexedField
+} from '@/lib/crypto/phiEncryption';
+
+/**
+ * Prisma extension that keeps PHI encrypted at rest on Lead and Patient.
+ *  - Writes: PHI fields are encrypted and their *Hash blind indexes filled in, including
+ *    Lead and Patient rows written through a relation of another model
+ *    (lead: { create }, testOrders: { connectOrCreate }, ...)
+ *  - Reads: PHI fields are decrypted; dateOfBirth comes back as YYYY-MM-DD
+ *  - Filters on encrypted columns throw, since they would silently match nothing -
+ *    query the *Hash column with PhiEncryption.blindIndex instead. Relation filters
+ *    (where: { lead: { mbi } }) and the filters of nested writes and includes are
+ *    checked too.
+ */
+
+const PHI_MODELS = ['Lead', 'Patient'];
+
+// Relation fields of each model and the model they point to, from the generated client
+const RELATIONS = new Map(Prisma.dmmf.datamodel.models.map(model => [
+  model.name,
+  new Map(model.fields.filter(field => field.kind === 'object').map(field => [field.name, field.type]))
+]));
+
+// Keys of a relation filter that hold a filter on the related model
+const RELATION_FILTER_KEYS = ['is', 'isNot', 'some', 'every', 'none'];
+
+function isBlindIndexed(field: EncryptedPhiField): field is BlindIndexedField {
+  return (BLIND_INDEXED_FIELDS as readonly string[]).includes(field);
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !(value instanceof Date);
+
+const eachOf = (value: unknown): any[] => Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+function encryptData<T extends Record<string, any> | undefined>(data: T): T {
+  if (!data) return data;
+
+  const result: Record<string, any> = { ...data };
+  for (const field of ENCRYPTED_PHI_FIELDS) {
+    let value = result[field];
+    if (value && typeof value === 'object' && !(value instanceof Date) && 'set' in value) {
+      value = value.set;
+    }
+    // Ciphertext copied from another row keeps its existing blind index
+    if (value === undefined || value === null || PhiEncryption.isEncrypted(value)) continue;
+
+    const plaintext = field === 'dateOfBirth' ? PhiEncryption.toDateOnly(value) : String(value);
+    result[field] = PhiEncryption.encrypt(plaintext);
+    if (isBlindIndexed(field)) {
+      result[`${field}Hash`] = PhiEncryption.blindIndex(field, plaintext);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Throw on a filter that touches an encrypted column of `model`, following AND/OR/NOT
+ * and relation filters into the related model.
+ */
+function assertNoEncryptedFilter(where: unknown, model: string) {
+  if (!isObject(where)) return;
+
+  const relations = RELATIONS.get(model);
+  for (const [key, value] of Object.entries(where)) {
+    if (PHI_MODELS.includes(model) && (ENCRYPTED_PHI_FIELDS as readonly string[]).includes(key)) {
+      const field = key as EncryptedPhiField;
+      throw new Error(
+        isBlindIndexed(field)
+          ? `${model}.${field} is encrypted - filter on ${field}Hash using PhiEncryption.blindIndex('${field}', value)`
+          : `${model}.${field} is encrypted and cannot be used in a filter`
+      );
+    }
+    if (key === 'AND' || key === 'OR' || key === 'NOT') {
+      eachOf(value).forEach(clause => assertNoEncryptedFilter(clause, model));
+      continue;
+    }
+
+    const related = relations?.get(key);
+    if (!related || !isObject(value)) continue;
+    const nested = Object.keys(value).filter(filterKey => RELATION_FILTER_KEYS.includes(filterKey));
+    if (nested.length > 0) {
+      nested.forEach(filterKey => assertNoEncryptedFilter(value[filterKey], related));
+    } else {
+      // A to-one relation filtered directly: where: { lead: { mbi } }
+      assertNoEncryptedFilter(value, related);
+    }
+  }
+}
+
+// Check the filters of relations read through select or include
+function protectSelection(selection: unknown, model: string) {
+  if (!isObject(selection)) return;
+
+  const relations = RELATIONS.get(model);
+  for (const [key, value] of Object.entries(selection)) {
+    const related = key === '_count' ? model : relations?.get(key);
+    if (!related || !isObject(value)) continue;
+    if (key === '_count') {
+      protectSelection(value.select, model);
+      continue;
+    }
+    assertNoEncryptedFilter(value.where, related);
+    protectSelection(value.select, related);
+    protectSelection(value.include, related);
+  }
+}
+
+// A to-one nested update is either the data itself or { where, data }
+function nestedUpdateData(update: Record<string, any>): { where?: unknown; data: Record<string, any>; wrapped: boolean } {
+  const keys = Object.keys(update);
+  if ('data' in update && keys.every(key => key === 'data' || key === 'where')) {
+    return { where: update.where, data: update.data, wrapped: true };
+  }
+  return { data: update, wrapped: false };
+}
+
+/**
+ * Encrypt the PHI in a create or update payload for `model` and in every Lead or
+ * Patient it writes through a relation, checking the filters those nested writes use.
+ */
+function protectWriteData<T extends Record<string, any> | undefined>(data: T, model: string): T {
+  if (!isObject(data)) return data;
+
+  const result: Record<string, any> = PHI_MODELS.includes(model) ? encryptData(data) : { ...data };
+  const relations = RELATIONS.get(model);
+  if (!relations) return result as T;
+
+  for (const [key, value] of Object.entries(result)) {
+    const related = relations.get(key);
+    if (!related || !isObject(value)) continue;
+
+    const nested: Record<string, any> = { ...value };
+    for (const [operation, operand] of Object.entries(nested)) {
+      switch (operation) {
+        case 'create':
+          nested.create = Array.isArray(operand)
+            ? operand.map(item => protectWriteData(item, related))
+            : protectWriteData(operand, related);
+          break;
+        case 'createMany':
+          nested.createMany = {
+            ...operand,
+            data: Array.isArray(operand?.data)
+              ? operand.data.map((item: any) => protectWriteData(item, related))
+              : protectWriteData(operand?.data, related)
+          };
+          break;
+        case 'connectOrCreate': {
+          const protect = (item: any) => {
+            assertNoEncryptedFilter(item?.where, related);
+            return { ...item, create: protectWriteData(item?.create, related) };
+          };
+          nested.connectOrCreate = Array.isArray(operand) ? operand.map(protect) : protect(operand);
+          break;
+        }
+        case 'update':
+        case 'updateMany': {
+          const protect = (item: any) => {
+            if (!isObject(item)) return item;
+            const { where, data: updateData, wrapped } = nestedUpdateData(item);
+            assertNoEncryptedFilter(where, related);
+            const protectedData = protectWriteData(updateData, related);
+            return wrapped ? { ...item, data: protectedData } : protectedData;
+          };
+          nested[operation] = Array.isArray(operand) ? operand.map(protect) : protect(operand);
+          break;
+        }
+        case 'upsert': {
+          const protect = (item: any) => {
+            assertNoEncryptedFilter(item?.where, related);
+            return { ...item, create: protectWriteData(item?.create, related), update: protectWriteData(item?.update, related) };
+          };
+          nested.upsert = Array.isArray(operand) ? operand.map(protect) : protect(operand);
+          break;
+        }
+        case 'connect':
+        case 'disconnect':
+        case 'set':
+        case 'delete':
+        case 'deleteMany':
+          eachOf(operand).forEach(filter => assertNoEncryptedFilter(filter, related));
+          break;
+      }
+    }
+    result[key] = nested;
+  }
+  return result as T;
+}
+
+export function protectArgs(model: string, operation: string, args: any) {
+  if (!args) return args;
+
+  assertNoEncryptedFilter(args.where, model);
+  protectSelection(args.select, model);
+  protectSelection(args.include, model);
+
+  if (operation === 'groupBy' && PHI_MODELS.includes(model) && Array.isArray(args.by)) {
+    const encrypted = args.by.find((field: string) => (ENCRYPTED_PHI_FIELDS as readonly string[]).includes(field));
+    if (encrypted) {
+      throw new Error(`${model}.${encrypted} is encrypted - group by ${encrypted}Hash instead`);
+    }
+  }
+
+  if (args.data) {
+    args.data = Array.isArray(args.data)
+      ? args.data.map((item: any) => protectWriteData(item, model))
+      : protectWriteData(args.data, model);
+  }
+  if (operation === 'upsert') {
+    args.create = protectWriteData(args.create, model);
+    args.update = protectWriteData(args.update, model);
+  }
+
+  return args;
+}
+
+const decrypted = <F extends EncryptedPhiField>(field: F) => ({
+  needs: { [field]: true } as { [K in F]: true },
+  compute: (row: { [K in F]: string }) => PhiEncryption.decrypt(row[field])
+});
+
+// Rows written before encryption may hold a full timestamp string
+const dateOfBirth = {
+  needs: { dateOfBirth: true } as const,
+  compute: (row: { dateOfBirth: string }) => PhiEncryption.toDateOnly(PhiEncryption.decrypt(row.dateOfBirth))
+};
+
+export const phiEncryptionExtension = Prisma.defineExtension({
+  name: 'phi-encryption',
+  query: {
+    // Every model, since Lead and Patient rows can be written and filtered through the relations of others
+    $allModels: {
+      $allOperations({ model, operation, args, query }) {
+        return query(protectArgs(model, operation, args));
+      }
+    }
+  },
+  result: {
+    lead: {
+      mbi: decrypted('mbi'),
+      dateOfBirth,
+      phone: decrypted('phone'),
+      street: decrypted('street'),
+      city: decrypted('city'),
+      zipCode: decrypted('zipCode')
+    },
+    patient: {
+      mbi: decrypted('mbi'),
+      dateOfBirth,
+      phone: decrypted('phone'),
+      street: decrypted('street'),
+      city: decrypted('city'),
+      zipCode: decrypted('zipCode')
+    }
+  }
+});
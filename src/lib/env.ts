@@ -12,6 +12,39 @@ const envSchema = z.object({
   UPS_USERNAME: z.string().min(1, 'UPS_USERNAME is required for UPS API'),
   UPS_PASSWORD: z.string().min(1, 'UPS_PASSWORD is required for UPS API'),
   UPS_ACCOUNT_NUMBER: z.string().min(1, 'UPS_ACCOUNT_NUMBER is required (J22653)'),
+  // Another UPS API host, e.g. the local simulator (scripts/ups-simulator.js)
+  UPS_API_BASE_URL: z.string().url().optional(),
+
+  // Other carriers - see src/lib/shipping/carriers.ts
+  DEFAULT_SHIPPING_CARRIER: z.enum(['UPS', 'USPS', 'FEDEX']).optional(),
+  USPS_CLIENT_ID: z.string().optional(),
+  USPS_CLIENT_SECRET: z.string().optional(),
+  USPS_CRID: z.string().optional(),
+  USPS_MID: z.string().optional(),
+  USPS_ACCOUNT_NUMBER: z.string().optional(),
+  FEDEX_API_KEY: z.string().optional(),
+  FEDEX_SECRET_KEY: z.string().optional(),
+  FEDEX_ACCOUNT_NUMBER: z.string().optional(),
+
+  // PHI encryption keys - see src/lib/crypto/keyProvider.ts
+  PHI_KEY_PROVIDER: z.enum(['local', 'env']).optional(),
+  PHI_KEY_FILE: z.string().optional(),
+  PHI_DATA_KEYS: z.string().optional(),
+  PHI_ACTIVE_KEY_ID: z.string().optional(),
+  PHI_INDEX_KEY: z.string().optional(),
+
+  // Batch upload queue - see src/lib/services/batchJobQueue.ts
+  BATCH_WORKER_SECRET: z.string().min(32, 'BATCH_WORKER_SECRET must be at least 32 characters').optional(),
+  BATCH_LEASE_SECONDS: z.string().regex(/^\d+$/).optional(),
+  BATCH_WORKER_BUDGET_SECONDS: z.string().regex(/^\d+$/).optional(),
+
+  // Upload and label storage - see src/lib/storage/uploadStorage.ts
+  UPLOAD_STORAGE: z.enum(['s3', 'local']).optional(),
+  UPLOAD_STORAGE_DIR: z.string().optional(),
+  LABEL_STORAGE: z.enum(['s3', 'local']).optional(),
+  LABEL_STORAGE_DIR: z.string().optional(),
+  S3_STORAGE_BUCKET: z.string().optional(),
+  S3_STORAGE_REGION: z.string().optional(),
 });
 
 export function validateEnv() {
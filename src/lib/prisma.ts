@@ -1,7 +1,9 @@
 import { PrismaClient } from '@prisma/client';
+import { phiEncryptionExtension } from '@/lib/crypto/phiExtension';
+import { softDeleteExtension } from '@/lib/retention/softDeleteExtension';
 
 declare global {
-  var prisma: PrismaClient | undefined;
+  var prisma: ExtendedPrismaClient | undefined;
 }
 
 const createPrismaClient = () => {
@@ -20,9 +22,16 @@ const createPrismaClient = () => {
       maxWait: 300000, // 5 minutes
       timeout: 600000, // 10 minutes
     },
-  });
+  })
+    .$extends(phiEncryptionExtension) // PHI columns are encrypted at rest
+    .$extends(softDeleteExtension); // Deleted and archived leads are hidden
 };
 
+type ExtendedPrismaClient = ReturnType<typeof createPrismaClient>;
+
+// Interactive transaction client of the extended client - pass this to helpers instead of Prisma.TransactionClient
+export type TransactionClient = Parameters<Parameters<ExtendedPrismaClient['$transaction']>[0]>[0];
+
 // Prevent multiple instances in serverless environments
 const prisma = globalThis.prisma ?? createPrismaClient();
 
@@ -0,0 +1,99 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Prisma extension that hides soft-deleted and archived leads.
+ *  - Reads and updates on Lead only see active leads, and reads of the records
+ *    hanging off a lead (alerts, callbacks, contact attempts, ...) skip removed leads
+ *  - Lead deletes throw - use LeadRetentionService.softDelete
+ *  - A where clause that names deletedAt or archivedAt is left alone; that is how
+ *    the retention service (and duplicate checks) reach removed leads
+ * Nested `leads` includes on other models are not covered - filter them with
+ * ACTIVE_LEAD_FILTER.
+ */
+
+export const ACTIVE_LEAD_FILTER = { deletedAt: null, archivedAt: null };
+
+// Spread into a Lead where clause to match leads in every state
+export const ANY_LEAD_STATE = { deletedAt: undefined, archivedAt: undefined };
+
+const LEAD_OPERATIONS = new Set([
+  'findUnique', 'findUniqueOrThrow', 'findFirst', 'findFirstOrThrow', 'findMany',
+  'count', 'aggregate', 'groupBy', 'update', 'updateMany'
+]);
+
+const CHILD_READ_OPERATIONS = new Set([
+  'findFirst', 'findFirstOrThrow', 'findMany', 'count', 'aggregate', 'groupBy'
+]);
+
+function namesLeadState(where: unknown): boolean {
+  return !!where && typeof where === 'object' && ('deletedAt' in where || 'archivedAt' in where);
+}
+
+function scopeLead(model: string, operation: string, args: any) {
+  if (operation === 'delete' || operation === 'deleteMany') {
+    throw new Error(`${model} rows are never hard-deleted - use LeadRetentionService.softDelete`);
+  }
+  if (!LEAD_OPERATIONS.has(operation)) return args;
+
+  const next = { ...args };
+  if (!namesLeadState(next.where)) {
+    // Spread rather than AND so unique fields stay at the top level for findUnique/update
+    next.where = { ...next.where, ...ACTIVE_LEAD_FILTER };
+  }
+  return next;
+}
+
+function scopeChild(operation: string, args: any) {
+  if (!CHILD_READ_OPERATIONS.has(operation)) return args;
+
+  const where = args?.where;
+  if (where?.lead && namesLeadState(where.lead)) return args;
+
+  return { ...args, where: where ? { AND: [where, { lead: ACTIVE_LEAD_FILTER }] } : { lead: ACTIVE_LEAD_FILTER } };
+}
+
+export const softDeleteExtension = Prisma.defineExtension({
+  name: 'lead-soft-delete',
+  query: {
+    lead: {
+      $allOperations({ operation, args, query }) {
+        return query(scopeLead('Lead', operation, args));
+      }
+    },
+    leadAlert: {
+      $allOperations({ operation, args, query }) {
+        return query(scopeChild(operation, args));
+      }
+    },
+    callback: {
+      $allOperations({ operation, args, query }) {
+        return query(scopeChild(operation, args));
+      }
+    },
+    contactAttempt: {
+      $allOperations({ operation, args, query }) {
+        return query(scopeChild(operation, args));
+      }
+    },
+    trackingEvent: {
+      $allOperations({ operation, args, query }) {
+        return query(scopeChild(operation, args));
+      }
+    },
+    shippingLabel: {
+      $allOperations({ operation, args, query }) {
+        return query(scopeChild(operation, args));
+      }
+    },
+    leadStatusChange: {
+      $allOperations({ operation, args, query }) {
+        return query(scopeChild(operation, args));
+      }
+    },
+    complianceChecklist: {
+      $allOperations({ operation, args, query }) {
+        return query(scopeChild(operation, args));
+      }
+    }
+  }
+});
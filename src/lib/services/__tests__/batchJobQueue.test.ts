@@ -0,0 +1,133 @@
+import { Readable } from 'stream';
+import { BatchJob } from '@prisma/client';
+import { BatchJobQueue } from '@/lib/services/batchJobQueue';
+import { BatchProcessor } from '@/lib/services/batchProcessor';
+import { setUploadStorage, UploadStorage } from '@/lib/storage/uploadStorage';
+
+// In-memory stand-in for the BatchJob table
+const jobs = new Map<string, Record<string, any>>();
+
+const matches = (row: Record<string, any>, where: Record<string, any>) =>
+  Object.entries(where).every(([field, value]) =>
+    value && typeof value === 'object' && Array.isArray(value.in) ? value.in.includes(row[field]) : row[field] === value);
+
+function apply(row: Record<string, any>, data: Record<string, any>) {
+  for (const [field, value] of Object.entries(data)) {
+    if (value && typeof value === 'object' && 'increment' in value) row[field] += value.increment;
+    else if (value && typeof value === 'object' && 'decrement' in value) row[field] -= value.decrement;
+    else row[field] = value;
+  }
+}
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    batchJob: {
+      create: async ({ data }: any) => {
+        const job = { id: `job${jobs.size + 1}`, chunksProcessed: 0, recordsProcessed: 0, recordsSucceeded: 0, recordsFailed: 0, recordsQueued: 0, errorLog: null, attempts: 0, maxAttempts: 3, ...data };
+        jobs.set(job.id, job);
+        return { ...job };
+      },
+      update: async ({ where, data }: any) => {
+        apply(jobs.get(where.id)!, data);
+        return { ...jobs.get(where.id) };
+      },
+      updateMany: async ({ where, data }: any) => {
+        const job = jobs.get(where.id);
+        if (!job || !matches(job, where)) return { count: 0 };
+        apply(job, data);
+        return { count: 1 };
+      },
+      findUniqueOrThrow: async ({ where }: any) => ({ ...jobs.get(where.id)! })
+    }
+  }
+}));
+
+jest.mock('@/lib/services/batchProcessor', () => ({
+  BatchProcessor: {
+    processChunk: jest.fn(async (_type: string, chunk: unknown[]) => ({ succeeded: chunk.length, failed: 0, errors: [] }))
+  }
+}));
+
+// Keeps files in memory, unencrypted
+const files = new Map<string, string>();
+const memoryStorage: UploadStorage = {
+  name: 'memory',
+  save: async () => { throw new Error('not used'); },
+  open: url => Readable.from([Buffer.from(files.get(url)!)]),
+  remove: async url => { files.delete(url); },
+  owns: url => url.startsWith('memory://')
+};
+
+async function queue(rowCount: number, options: { totalRows?: number; chunkSize?: number } = {}): Promise<BatchJob> {
+  const url = `memory://leads-${files.size}.csv`;
+  files.set(url, ['mbi,name', ...Array.from({ length: rowCount }, (_, i) => `M${i},Name ${i}`)].join('\n'));
+  const job = await BatchJobQueue.enqueue({
+    type: 'BULK_LEAD',
+    fileName: 'leads.csv',
+    fileUrl: url,
+    uploadedById: 'admin',
+    chunkSize: options.chunkSize ?? 2,
+    totalRows: options.totalRows
+  });
+  apply(jobs.get(job.id)!, { status: 'PROCESSING', leaseOwner: 'worker', attempts: 1 });
+  return { ...jobs.get(job.id) } as BatchJob;
+}
+
+beforeAll(() => setUploadStorage(memoryStorage));
+beforeEach(() => {
+  jobs.clear();
+  jest.mocked(BatchProcessor.processChunk).mockClear();
+});
+
+describe('BatchJobQueue totals', () => {
+  it('queues a job without knowing its size', async () => {
+    const job = await queue(5);
+    expect(job.totalRows).toBeNull();
+    expect(job.totalChunks).toBeNull();
+  });
+
+  it('sets totalRows and totalChunks once the worker reaches the end of the file', async () => {
+    const messages: string[] = [];
+    const job = await queue(5);
+    jest.mocked(BatchProcessor.processChunk).mockImplementation(async (_type, chunk) => {
+      messages.push(jobs.get(job.id)!.progressMessage);
+      return { succeeded: chunk.length, failed: 0, errors: [] };
+    });
+
+    const finished = await BatchJobQueue.runJob(job, 'worker');
+
+    expect(finished).toMatchObject({ status: 'COMPLETED', totalRows: 5, totalChunks: 3, chunksProcessed: 3, recordsProcessed: 5 });
+    expect(messages.slice(1)).toEqual(['Processed chunk 1 (2 rows read so far)', 'Processed chunk 2 (4 rows read so far)']);
+  });
+
+  it('counts the rows of committed chunks when a job resumes', async () => {
+    const job = await queue(5);
+    apply(jobs.get(job.id)!, { chunksProcessed: 2, recordsProcessed: 4 });
+
+    const finished = await BatchJobQueue.runJob({ ...job, chunksProcessed: 2 }, 'worker');
+
+    expect(BatchProcessor.processChunk).toHaveBeenCalledTimes(1);
+    expect(finished).toMatchObject({ status: 'COMPLETED', totalRows: 5, totalChunks: 3, recordsProcessed: 5 });
+  });
+
+  it('leaves the totals unknown when the worker stops before the end', async () => {
+    const job = await queue(5);
+    const finished = await BatchJobQueue.runJob(job, 'worker', Date.now() - 1);
+
+    expect(finished).toMatchObject({ status: 'PENDING', totalRows: null, totalChunks: null });
+    expect(finished.progressMessage).toBe('Paused at chunk 1 - waiting for the next worker run');
+  });
+
+  it('keeps totals given when the job was queued', async () => {
+    const job = await queue(3, { totalRows: 3 });
+    expect(job).toMatchObject({ totalRows: 3, totalChunks: 2 });
+
+    const finished = await BatchJobQueue.runJob(job, 'worker');
+    expect(finished).toMatchObject({ status: 'COMPLETED', totalRows: 3, totalChunks: 2 });
+  });
+
+  it('records an empty file as zero rows', async () => {
+    const finished = await BatchJobQueue.runJob(await queue(0), 'worker');
+    expect(finished).toMatchObject({ status: 'COMPLETED', totalRows: 0, totalChunks: 0 });
+  });
+});
@@ -0,0 +1,132 @@
+import { LeadStatus, TestType } from '@prisma/client';
+import {
+  DEFAULT_DUPLICATE_RULES,
+  DuplicateRuleDefinition,
+  DuplicateRuleError,
+  DuplicateRuleService,
+  ExistingTestOrder
+} from '@/lib/services/duplicateRuleService';
+
+const db = { rules: [] as { id: string }[] };
+
+jest.mock('@/lib/prisma', () => {
+  const duplicateRule = {
+    count: async () => db.rules.length,
+    delete: async ({ where }: any) => {
+      db.rules = db.rules.filter(rule => rule.id !== where.id);
+    }
+  };
+  return {
+    prisma: {
+      duplicateRule,
+      $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn({ duplicateRule })
+    }
+  };
+});
+
+const now = new Date('2026-06-01T12:00:00Z');
+
+function order(testType: TestType, daysAgo: number, status: LeadStatus = 'SUBMITTED', id = `${testType}-${daysAgo}`): ExistingTestOrder {
+  return {
+    id,
+    patientId: 'patient-1',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    testType,
+    status,
+    createdAt: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000),
+    consultDate: null,
+    vendor: { name: 'Vendor One' }
+  };
+}
+
+function rule(overrides: Partial<DuplicateRuleDefinition>): DuplicateRuleDefinition {
+  return {
+    name: 'Rule',
+    description: null,
+    existingTestType: null,
+    newTestType: null,
+    windowDays: null,
+    consultedStatuses: ['SENT_TO_CONSULT', 'APPROVED'],
+    appliesTo: 'ALL_ORDERS',
+    action: 'BLOCK',
+    priority: 100,
+    isActive: true,
+    ...overrides
+  };
+}
+
+describe('DuplicateRuleService.evaluateOrders', () => {
+  it('allows an MBI with no orders on file', () => {
+    const result = DuplicateRuleService.evaluateOrders(DEFAULT_DUPLICATE_RULES, [], 'IMMUNE', now);
+    expect(result).toMatchObject({ status: 'ALLOWED', existingLeads: [], matches: [] });
+  });
+
+  it('blocks a second order for the same test under the defaults', () => {
+    const result = DuplicateRuleService.evaluateOrders(DEFAULT_DUPLICATE_RULES, [order('IMMUNE', 400)], 'IMMUNE', now);
+    expect(result).toMatchObject({ status: 'BLOCKED', reason: 'SAME_TEST', patientId: 'patient-1' });
+    expect(result.existingLeads.map(lead => lead.id)).toEqual(['IMMUNE-400']);
+  });
+
+  it('blocks a different test inside the wait and allows it after', () => {
+    const soon = DuplicateRuleService.evaluateOrders(DEFAULT_DUPLICATE_RULES, [order('IMMUNE', 5)], 'NEURO', now);
+    expect(soon).toMatchObject({ status: 'BLOCKED', reason: 'TOO_SOON', daysSince: 5, requiredWaitDays: 21 });
+
+    const consulted = DuplicateRuleService.evaluateOrders(DEFAULT_DUPLICATE_RULES, [order('IMMUNE', 5, 'APPROVED')], 'NEURO', now);
+    expect(consulted).toMatchObject({ status: 'BLOCKED', reason: 'RECENT_CONSULTATION' });
+
+    const later = DuplicateRuleService.evaluateOrders(DEFAULT_DUPLICATE_RULES, [order('IMMUNE', 21)], 'NEURO', now);
+    expect(later).toMatchObject({ status: 'ALLOWED', matches: [] });
+    expect(later.existingLeads).toHaveLength(1);
+  });
+
+  it('warns on a WARN match and lets a BLOCK match win', () => {
+    const warn = rule({ name: 'Warn any', action: 'WARN', priority: 1 });
+    const block = rule({ name: 'Block neuro', existingTestType: 'NEURO', priority: 2 });
+
+    const warned = DuplicateRuleService.evaluateOrders([warn, block], [order('IMMUNE', 30)], 'IMMUNE', now);
+    expect(warned).toMatchObject({ status: 'WARNING', reason: 'SAME_TEST' });
+    expect(warned.message).toContain('Review before submitting');
+
+    const blocked = DuplicateRuleService.evaluateOrders([warn, block], [order('IMMUNE', 30), order('NEURO', 60)], 'IMMUNE', now);
+    expect(blocked.status).toBe('BLOCKED');
+    expect(blocked.matches.map(match => match.ruleName)).toEqual(['Warn any', 'Warn any', 'Block neuro']);
+    // The blocking order comes first, then the others matched
+    expect(blocked.existingLeads.map(lead => lead.id)).toEqual(['NEURO-60', 'IMMUNE-30']);
+  });
+
+  it('limits a rule to consulted or not-yet-consulted orders', () => {
+    const consultedOnly = rule({ appliesTo: 'CONSULTED_ONLY' });
+    const notConsultedOnly = rule({ appliesTo: 'NOT_CONSULTED_ONLY' });
+
+    expect(DuplicateRuleService.evaluateOrders([consultedOnly], [order('IMMUNE', 3)], 'NEURO', now).status).toBe('ALLOWED');
+    expect(DuplicateRuleService.evaluateOrders([consultedOnly], [order('IMMUNE', 3, 'APPROVED')], 'NEURO', now).status).toBe('BLOCKED');
+    expect(DuplicateRuleService.evaluateOrders([notConsultedOnly], [order('IMMUNE', 3, 'APPROVED')], 'NEURO', now).status).toBe('ALLOWED');
+  });
+
+  it('skips inactive rules and applies every rule when the test type is unknown', () => {
+    const inactive = rule({ isActive: false });
+    expect(DuplicateRuleService.evaluateOrders([inactive], [order('IMMUNE', 3)], 'NEURO', now).status).toBe('ALLOWED');
+
+    const neuroOnly = rule({ newTestType: 'NEURO' });
+    expect(DuplicateRuleService.evaluateOrders([neuroOnly], [order('IMMUNE', 3)], null, now).status).toBe('BLOCKED');
+    expect(DuplicateRuleService.evaluateOrders([neuroOnly], [order('IMMUNE', 3)], 'IMMUNE', now).status).toBe('ALLOWED');
+  });
+
+  it('allows everything when every rule is deactivated', () => {
+    const rules = DEFAULT_DUPLICATE_RULES.map(defaultRule => ({ ...defaultRule, isActive: false }));
+    expect(DuplicateRuleService.evaluateOrders(rules, [order('IMMUNE', 1)], 'IMMUNE', now).status).toBe('ALLOWED');
+  });
+});
+
+describe('DuplicateRuleService.deleteRule', () => {
+  it('deletes a rule but refuses to delete the last one', async () => {
+    db.rules = [{ id: 'rule-1' }, { id: 'rule-2' }];
+
+    await DuplicateRuleService.deleteRule('rule-1');
+    expect(db.rules).toEqual([{ id: 'rule-2' }]);
+
+    await expect(DuplicateRuleService.deleteRule('rule-2')).rejects.toThrow(DuplicateRuleError);
+    expect(db.rules).toEqual([{ id: 'rule-2' }]);
+  });
+});
@@ -0,0 +1,141 @@
+import { KitShipmentService, ShippableLead } from '@/lib/services/kitShipmentService';
+import { LabelSheet, LabelSheetError } from '@/lib/shipping/labelSheet';
+import { shipWithReturn } from '@/lib/shipping/carriers';
+
+const writes = {
+  trackingEvents: [] as Record<string, any>[],
+  alerts: [] as Record<string, any>[],
+  failTrackingEvents: false,
+  failAlerts: false
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    trackingEvent: {
+      create: async ({ data }: any) => {
+        if (writes.failTrackingEvents) throw new Error('tracking write failed');
+        writes.trackingEvents.push(data);
+      }
+    },
+    leadAlert: {
+      create: async ({ data }: any) => {
+        if (writes.failAlerts) throw new Error('alert write failed');
+        writes.alerts.push(data);
+      }
+    }
+  }
+}));
+
+jest.mock('@/lib/shipping/carriers', () => ({
+  carrierForLead: () => 'UPS',
+  getCarrier: () => ({ name: 'UPS' }),
+  shipWithReturn: jest.fn()
+}));
+
+jest.mock('@/lib/services/leadLifecycle', () => ({
+  LeadLifecycle: {
+    transition: jest.fn(async (lead: any, status: string, _context: unknown, data: object) => ({ lead: { ...lead, ...data, status } }))
+  }
+}));
+
+jest.mock('@/lib/services/shippingLabelService', () => ({
+  ShippingLabelService: { store: jest.fn(async () => []) }
+}));
+
+function lead(id: string): ShippableLead {
+  return {
+    id,
+    status: 'APPROVED',
+    trackingNumber: null,
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    street: '1 Main St',
+    city: 'Springfield',
+    state: 'IL',
+    zipCode: '62701',
+    phone: '5555550100',
+    vendorCode: 'V1',
+    collectionsNotes: null,
+    shippingCarrier: null,
+    vendor: null
+  } as unknown as ShippableLead;
+}
+
+const label = { success: true, labelImage: Buffer.from('label').toString('base64'), labelFormat: 'PNG' as const };
+
+beforeEach(() => {
+  Object.assign(writes, { trackingEvents: [], alerts: [], failTrackingEvents: false, failAlerts: false });
+  jest.restoreAllMocks();
+  jest.mocked(shipWithReturn).mockImplementation(async (_carrier, request) => ({
+    success: true,
+    carrier: 'UPS',
+    trackingNumber: `1Z${request.leadId}`,
+    returnTrackingNumber: `1ZR${request.leadId}`,
+    label,
+    returnLabel: label
+  }));
+});
+
+describe('KitShipmentService.shipMany', () => {
+  it('records the label events and the alert for a shipped kit', async () => {
+    const shipment = await KitShipmentService.shipMany([lead('a')]);
+    expect(shipment.results[0]).toMatchObject({ success: true, trackingNumber: '1Za' });
+    expect(writes.trackingEvents.map(event => event.eventType)).toEqual(['OUTBOUND', 'INBOUND']);
+    expect(writes.alerts).toHaveLength(1);
+  });
+
+  it('writes the label event time in UTC', async () => {
+    await KitShipmentService.shipMany([lead('a')]);
+    for (const event of writes.trackingEvents) {
+      expect(event.eventTime).toBe((event.occurredAt as Date).toISOString().substring(11, 19));
+    }
+  });
+
+  it('reports a kit as shipped when the writes after shipping fail', async () => {
+    writes.failTrackingEvents = true;
+    writes.failAlerts = true;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { results } = await KitShipmentService.shipMany([lead('a')]);
+    expect(results[0]).toMatchObject({ success: true, trackingNumber: '1Za', returnTrackingNumber: '1ZRa' });
+  });
+});
+
+describe('KitShipmentService.shipMany label sheet failures', () => {
+  it('notes a label the sheet rejects and keeps the kit shipped', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(LabelSheet.prototype, 'add')
+      .mockRejectedValueOnce(new LabelSheetError('Label is not a PNG or JPEG image'))
+      .mockRejectedValueOnce(new TypeError('out of memory'))
+      .mockResolvedValueOnce(1)
+      .mockResolvedValueOnce(2);
+    jest.spyOn(LabelSheet.prototype, 'pageCount', 'get').mockReturnValue(2);
+    jest.spyOn(LabelSheet.prototype, 'toBuffer').mockResolvedValue(Buffer.from('%PDF'));
+
+    const result = await KitShipmentService.shipMany([lead('a'), lead('b')]);
+
+    expect(result.shipped).toBe(2);
+    expect(result.results[0]).toMatchObject({ success: true, labelPages: [], labelSheetError: 'out of memory' });
+    expect(result.results[1]).toMatchObject({ success: true, labelPages: [1, 2] });
+    expect(result.labelSheet).toEqual(Buffer.from('%PDF'));
+  });
+
+  it('still returns the results and manifest when the sheet cannot be built', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(LabelSheet.prototype, 'add').mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+    jest.spyOn(LabelSheet.prototype, 'pageCount', 'get').mockReturnValue(2);
+    jest.spyOn(LabelSheet.prototype, 'toBuffer').mockRejectedValue(new Error('save failed'));
+
+    const result = await KitShipmentService.shipMany([lead('a')]);
+
+    expect(result.labelSheet).toBeNull();
+    expect(result.results[0]).toMatchObject({
+      success: true,
+      trackingNumber: '1Za',
+      labelPages: [],
+      labelSheetError: 'Label sheet could not be built: save failed'
+    });
+    expect(result.manifestCsv).toContain('1Za');
+    expect(result.manifestCsv).toContain('Label sheet could not be built: save failed');
+  });
+});
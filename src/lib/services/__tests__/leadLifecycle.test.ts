@@ -0,0 +1,159 @@
+import { InvalidLeadTransitionError, LeadLifecycle } from '@/lib/services/leadLifecycle';
+
+// In-memory stand-in for the lead and its status history
+const db = {
+  leads: new Map<string, Record<string, any>>(),
+  statusChanges: [] as Record<string, any>[]
+};
+
+jest.mock('@/lib/prisma', () => {
+  const client = {
+    lead: {
+      findUnique: async ({ where }: any) => db.leads.has(where.id) ? { ...db.leads.get(where.id) } : null,
+      findUniqueOrThrow: async ({ where }: any) => ({ ...db.leads.get(where.id) }),
+      updateMany: async ({ where, data }: any) => {
+        const lead = db.leads.get(where.id);
+        const matches = lead && Object.entries(where).every(([key, value]) =>
+          value instanceof Date ? lead[key].getTime() === value.getTime() : lead[key] === value
+        );
+        if (!matches) return { count: 0 };
+        Object.assign(lead, data, { updatedAt: new Date(lead.updatedAt.getTime() + 1) });
+        return { count: 1 };
+      }
+    },
+    leadStatusChange: {
+      create: async ({ data }: any) => { db.statusChanges.push(data); },
+      createMany: async ({ data }: any) => { db.statusChanges.push(...data); }
+    }
+  };
+  return { prisma: { ...client, $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(client) } };
+});
+
+function seedLead(status: string, updatedAt = new Date('2026-01-01T00:00:00Z')) {
+  db.leads.set('lead-1', { id: 'lead-1', status, updatedAt });
+  return db.leads.get('lead-1')!;
+}
+
+beforeEach(() => {
+  db.leads.clear();
+  db.statusChanges = [];
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('LeadLifecycle transition map', () => {
+  it('lists the legal next statuses without exposing the map', () => {
+    const allowed = LeadLifecycle.allowedTransitions('APPROVED');
+    expect(allowed).toEqual(['READY_TO_SHIP', 'SHIPPED', 'RETURNED']);
+
+    allowed.push('SUBMITTED');
+    expect(LeadLifecycle.allowedTransitions('APPROVED')).not.toContain('SUBMITTED');
+  });
+
+  it('checks direct transitions only', () => {
+    expect(LeadLifecycle.canTransition('SHIPPED', 'DELIVERED')).toBe(true);
+    expect(LeadLifecycle.canTransition('SHIPPED', 'SHIPPED')).toBe(true);
+    expect(LeadLifecycle.canTransition('SUBMITTED', 'APPROVED')).toBe(false);
+    expect(LeadLifecycle.canTransition('SUBMITTED', 'NOT_A_STATUS')).toBe(false);
+    expect(LeadLifecycle.isLeadStatus('KIT_COMPLETED')).toBe(true);
+    expect(LeadLifecycle.isLeadStatus('toString')).toBe(false);
+  });
+
+  it('reaches every later pipeline status from SUBMITTED', () => {
+    for (const status of ['ADVOCATE_REVIEW', 'SENT_TO_CONSULT', 'APPROVED', 'SHIPPED', 'DELIVERED', 'KIT_COMPLETED']) {
+      expect(LeadLifecycle.canReach('SUBMITTED', status)).toBe(true);
+    }
+  });
+});
+
+
+describe('LeadLifecycle.planTransition', () => {
+  it('accepts a direct transition and staying put', () => {
+    expect(LeadLifecycle.planTransition('APPROVED', 'SHIPPED')).toEqual(['SHIPPED']);
+    expect(LeadLifecycle.planTransition('APPROVED', 'APPROVED')).toEqual([]);
+  });
+
+  it('walks the shortest legal chain only with autoProgress', () => {
+    expect(() => LeadLifecycle.planTransition('SUBMITTED', 'SENT_TO_CONSULT')).toThrow(InvalidLeadTransitionError);
+    expect(LeadLifecycle.planTransition('SUBMITTED', 'SENT_TO_CONSULT', true)).toEqual(['ADVOCATE_REVIEW', 'SENT_TO_CONSULT']);
+  });
+
+  it('refuses to leave a terminal status or go backwards', () => {
+    expect(LeadLifecycle.isTerminal('RETURNED')).toBe(true);
+    expect(LeadLifecycle.canReach('RETURNED', 'ADVOCATE_REVIEW')).toBe(false);
+    expect(LeadLifecycle.canReach('SHIPPED', 'APPROVED')).toBe(false);
+  });
+
+  it('rejects values that are not lead statuses', () => {
+    expect(() => LeadLifecycle.planTransition('ADVOCATE_REVIEW', 'DOESNT_QUALIFY', true)).toThrow('Unknown lead status: DOESNT_QUALIFY');
+  });
+});
+
+describe('LeadLifecycle.transition', () => {
+  it('writes the status and one history row per auto-progressed hop', async () => {
+    seedLead('SENT_TO_CONSULT');
+
+    const result = await LeadLifecycle.transition('lead-1', 'SHIPPED', { source: 'SYSTEM', autoProgress: true }, { trackingNumber: '1Z1' });
+
+    expect(result).toMatchObject({ from: 'SENT_TO_CONSULT', to: 'SHIPPED', path: ['APPROVED', 'SHIPPED'], changed: true });
+    expect(db.leads.get('lead-1')).toMatchObject({ status: 'SHIPPED', trackingNumber: '1Z1' });
+    expect(db.statusChanges.map(change => [change.fromStatus, change.toStatus])).toEqual([
+      ['SENT_TO_CONSULT', 'APPROVED'],
+      ['APPROVED', 'SHIPPED']
+    ]);
+    expect(db.statusChanges[0].metadata).toEqual({ autoProgressed: true, requested: 'SHIPPED' });
+  });
+
+  it('records one history row for a direct hop and none when staying put', async () => {
+    seedLead('APPROVED');
+
+    await LeadLifecycle.transition('lead-1', 'SHIPPED', { source: 'SYSTEM', reason: 'Label created' });
+    expect(db.statusChanges).toEqual([
+      expect.objectContaining({ fromStatus: 'APPROVED', toStatus: 'SHIPPED', reason: 'Label created' })
+    ]);
+    expect(db.statusChanges[0].metadata).toBeUndefined();
+
+    const result = await LeadLifecycle.transition('lead-1', 'SHIPPED', { source: 'SYSTEM' });
+    expect(result.changed).toBe(false);
+    expect(db.statusChanges).toHaveLength(1);
+  });
+
+  it('refuses an illegal transition without writing', async () => {
+    seedLead('SUBMITTED');
+
+    await expect(LeadLifecycle.transition('lead-1', 'SHIPPED', { source: 'SYSTEM' })).rejects.toThrow(InvalidLeadTransitionError);
+    expect(db.leads.get('lead-1')!.status).toBe('SUBMITTED');
+    expect(db.statusChanges).toEqual([]);
+  });
+
+  it('refuses when the lead moved on after it was read', async () => {
+    seedLead('DELIVERED');
+
+    await expect(LeadLifecycle.transition({ id: 'lead-1', status: 'APPROVED' }, 'SHIPPED', { source: 'SYSTEM' }))
+      .rejects.toThrow('Lead lead-1 is no longer in status APPROVED');
+    expect(db.leads.get('lead-1')!.status).toBe('DELIVERED');
+    expect(db.statusChanges).toEqual([]);
+  });
+});
+
+describe('LeadLifecycle.revert', () => {
+  it('puts the lead back and marks the history row as reverted', async () => {
+    const lead = seedLead('SHIPPED');
+
+    await LeadLifecycle.revert({ ...lead } as any, 'APPROVED', { source: 'SYSTEM' }, { trackingNumber: null });
+
+    expect(db.leads.get('lead-1')).toMatchObject({ status: 'APPROVED', trackingNumber: null });
+    expect(db.statusChanges).toEqual([expect.objectContaining({ fromStatus: 'SHIPPED', toStatus: 'APPROVED', metadata: { reverted: true } })]);
+  });
+
+  it('refuses when the lead was written after it was read', async () => {
+    const read = { ...seedLead('SHIPPED') };
+    db.leads.get('lead-1')!.updatedAt = new Date('2026-02-01T00:00:00Z');
+
+    await expect(LeadLifecycle.revert(read as any, 'APPROVED', { source: 'SYSTEM' })).rejects.toThrow(InvalidLeadTransitionError);
+    expect(db.leads.get('lead-1')!.status).toBe('SHIPPED');
+  });
+});
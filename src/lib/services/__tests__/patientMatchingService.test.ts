@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { Lead } from '@prisma/client';
+import { MATCH_AUTO_APPLY_THRESHOLD, PatientMatchingService } from '@/lib/services/patientMatchingService';
+
+process.env.PHI_KEY_PROVIDER = 'env';
+process.env.PHI_DATA_KEYS = `test:${crypto.randomBytes(32).toString('base64')}`;
+process.env.PHI_INDEX_KEY = crypto.randomBytes(32).toString('base64');
+
+// Every lead is a candidate; scoring decides
+const db = { leads: [] as Lead[] };
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    lead: { findMany: async () => db.leads }
+  }
+}));
+
+const MBI = '1EG4TE5MK73';
+
+function lead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    id: 'lead-1',
+    patientId: 'patient-1',
+    mbi: MBI,
+    firstName: 'Robert',
+    lastName: "O'Neil",
+    dateOfBirth: '1950-02-03',
+    phone: '(555) 555-0100',
+    street: '12 Oak Street',
+    city: 'Springfield',
+    state: 'IL',
+    zipCode: '62701',
+    trackingNumber: null,
+    inboundTrackingNumber: null,
+    status: 'APPROVED',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  } as Lead;
+}
+
+const fields = (signals: { field: string; points: number }[]) => Object.fromEntries(signals.map(signal => [signal.field, signal.points]));
+
+beforeEach(() => {
+  db.leads = [];
+});
+
+describe('PatientMatchingService.scoreCandidate', () => {
+  it('is decisive on the lead id', () => {
+    expect(PatientMatchingService.scoreCandidate(lead(), { leadId: ' lead-1 ' }).confidence).toBe(1);
+  });
+
+  it('clears the auto-apply bar on name with date of birth and phone', () => {
+    const { confidence, signals } = PatientMatchingService.scoreCandidate(lead(), {
+      firstName: 'Robert', lastName: 'ONeil', dateOfBirth: '02/03/1950', phone: '555.555.0100'
+    });
+    expect(fields(signals)).toEqual({ lastName: 25, firstName: 15, dateOfBirth: 25, phone: 30 });
+    expect(confidence).toBeGreaterThanOrEqual(MATCH_AUTO_APPLY_THRESHOLD);
+  });
+
+  it('clears the auto-apply bar on name with the full address', () => {
+    const { confidence } = PatientMatchingService.scoreCandidate(lead(), {
+      fullName: "O'Neil, Robert", street: '12 Oak St.', city: 'springfield', state: 'il', zipCode: '62701-1234'
+    });
+    expect(confidence).toBe(0.85);
+  });
+
+  it('gives partial credit for nicknames, initials and near spellings', () => {
+    const score = (criteria: { firstName?: string; lastName?: string }) => fields(PatientMatchingService.scoreCandidate(lead(), criteria).signals);
+    expect(score({ firstName: 'Bob' })).toEqual({ firstName: 10 });
+    expect(score({ firstName: 'R' })).toEqual({ firstName: 10 });
+    expect(score({ lastName: 'ONeill' })).toEqual({ lastName: 15 });
+    expect(score({ firstName: 'Mary', lastName: 'Smith' })).toEqual({ firstName: -10, lastName: -25 });
+  });
+
+  it('lets a different MBI outweigh agreeing demographics', () => {
+    const { confidence, signals } = PatientMatchingService.scoreCandidate(lead(), {
+      mbi: '2EG4TE5MK73', firstName: 'Robert', lastName: "O'Neil", dateOfBirth: '1950-02-03', phone: '5555550100'
+    });
+    expect(fields(signals).mbi).toBe(-60);
+    expect(confidence).toBe(0.35);
+  });
+
+  it('ignores an invalid MBI and an unreadable date of birth', () => {
+    const { signals } = PatientMatchingService.scoreCandidate(lead(), { mbi: 'not-an-mbi', dateOfBirth: 'someday' });
+    expect(signals).toEqual([]);
+  });
+
+  it('never scores below zero', () => {
+    const { confidence } = PatientMatchingService.scoreCandidate(lead(), {
+      firstName: 'Mary', lastName: 'Smith', dateOfBirth: '1970-01-01', zipCode: '90210'
+    });
+    expect(confidence).toBe(0);
+  });
+});
+
+describe('PatientMatchingService.match', () => {
+  const byAddress = { firstName: 'Robert', lastName: "O'Neil", street: '12 Oak Street', city: 'Springfield', state: 'IL', zipCode: '62701' };
+
+  it('applies a confident match', async () => {
+    db.leads = [lead(), lead({ id: 'lead-2', patientId: 'patient-2', mbi: '2EG4TE5MK73', firstName: 'Mary', lastName: 'Smith', street: '9 Elm Road' })];
+
+    const result = await PatientMatchingService.match(byAddress);
+    expect(result.decision).toBe('AUTO');
+    expect(result.lead?.id).toBe('lead-1');
+    expect(result.candidates.map(candidate => candidate.lead.id)).toEqual(['lead-1']);
+  });
+
+  it('sends a match below the threshold to review and drops weaker candidates', async () => {
+    db.leads = [lead(), lead({ id: 'lead-2', patientId: 'patient-2', firstName: 'Mary', lastName: 'Smith' })];
+
+    const result = await PatientMatchingService.match({ firstName: 'Robert', lastName: "O'Neil" });
+    expect(result).toMatchObject({ decision: 'REVIEW', reviewReason: 'BELOW_THRESHOLD' });
+    expect(result.lead).toBeUndefined();
+    expect(result.candidates.map(candidate => candidate.lead.id)).toEqual(['lead-1']);
+  });
+
+  it('sends a match to review when another patient scores within the margin', async () => {
+    db.leads = [lead(), lead({ id: 'lead-2', patientId: 'patient-2', mbi: '2EG4TE5MK73' })];
+
+    const result = await PatientMatchingService.match(byAddress);
+    expect(result).toMatchObject({ decision: 'REVIEW', reviewReason: 'AMBIGUOUS' });
+  });
+
+  it('picks the eligible order when the same patient has several', async () => {
+    db.leads = [
+      lead({ id: 'shipped', status: 'SHIPPED', createdAt: new Date('2026-03-01T00:00:00Z') }),
+      lead({ id: 'approved' })
+    ];
+
+    const result = await PatientMatchingService.match(byAddress, { isEligible: candidate => candidate.status === 'APPROVED' });
+    expect(result.decision).toBe('AUTO');
+    expect(result.lead?.id).toBe('approved');
+  });
+
+  it('sends a confident match to review when no order is eligible', async () => {
+    db.leads = [lead({ status: 'SHIPPED' })];
+
+    const result = await PatientMatchingService.match(byAddress, { isEligible: candidate => candidate.status === 'APPROVED' });
+    expect(result).toMatchObject({ decision: 'REVIEW', reviewReason: 'NOT_ELIGIBLE' });
+  });
+
+  it('reports no match when nothing reaches the review threshold', async () => {
+    db.leads = [lead()];
+
+    const result = await PatientMatchingService.match({ firstName: 'Mary', lastName: 'Smith' });
+    expect(result).toMatchObject({ decision: 'NO_MATCH', candidates: [] });
+  });
+
+  it('uses the thresholds passed in', async () => {
+    db.leads = [lead()];
+
+    const result = await PatientMatchingService.match({ firstName: 'Robert', lastName: "O'Neil" }, { autoApplyThreshold: 0.4 });
+    expect(result.decision).toBe('AUTO');
+  });
+});
@@ -0,0 +1,157 @@
+import { Lead, TrackingEvent, TrackingStatus } from '@prisma/client';
+import { TrackingEventService, CarrierTrackingEvent } from '@/lib/services/trackingEventService';
+
+// In-memory stand-in for the lead and its tracking events
+const db = {
+  lead: null as Record<string, any> | null,
+  events: [] as Record<string, any>[],
+  statusChanges: [] as Record<string, any>[],
+  // Makes the next history apply fail, as a database error would
+  failNextApply: false
+};
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    lead: {
+      findFirst: async () => db.lead && { ...db.lead },
+      findUniqueOrThrow: async () => {
+        if (db.failNextApply) {
+          db.failNextApply = false;
+          throw new Error('connection reset');
+        }
+        return { ...db.lead };
+      },
+      update: async ({ data }: any) => ({ ...Object.assign(db.lead!, data) }),
+      updateMany: async ({ where, data }: any) => {
+        if (db.lead!.status !== where.status) return { count: 0 };
+        Object.assign(db.lead!, data);
+        return { count: 1 };
+      }
+    },
+    trackingEvent: {
+      createMany: async ({ data }: any) => {
+        const fresh = data.filter((event: any) => !db.events.some(stored => stored.eventKey === event.eventKey));
+        fresh.forEach((event: any) => db.events.push({ id: `e${db.events.length + 1}`, createdAt: new Date(), ...event }));
+        return { count: fresh.length };
+      },
+      findUniqueOrThrow: async ({ where }: any) => db.events.find(event => event.eventKey === where.eventKey),
+      findMany: async () => db.events.map(event => ({ ...event }))
+    },
+    leadStatusChange: {
+      createMany: async ({ data }: any) => { db.statusChanges.push(...data); }
+    },
+    $transaction: async (fn: (tx: any) => Promise<unknown>) => fn(client)
+  };
+  return { prisma: client };
+});
+
+const delivered: CarrierTrackingEvent = {
+  carrier: 'UPS',
+  trackingNumber: '1ZOUT',
+  status: TrackingStatus.DELIVERED,
+  activityType: 'D',
+  activityCode: 'KB',
+  description: 'DELIVERED',
+  localDate: '20260310',
+  localTime: '143000'
+};
+
+function event(overrides: Partial<TrackingEvent>): TrackingEvent {
+  return {
+    id: overrides.status ?? 'event',
+    leadId: 'lead-1',
+    trackingNumber: '1ZOUT',
+    eventType: 'OUTBOUND',
+    carrier: 'UPS',
+    activityType: 'I',
+    activityCode: null,
+    status: TrackingStatus.IN_TRANSIT,
+    description: null,
+    location: null,
+    eventDate: new Date('2026-03-08T00:00:00Z'),
+    eventTime: null,
+    occurredAt: null,
+    eventKey: null,
+    createdAt: new Date(),
+    ...overrides
+  };
+}
+
+const lead = (status: Lead['status']) => ({ status, kitDeliveredDate: null, kitReturnedDate: null });
+
+beforeEach(() => {
+  db.lead = { id: 'lead-1', status: 'SHIPPED', trackingNumber: '1ZOUT', inboundTrackingNumber: '1ZRET', kitDeliveredDate: null, kitReturnedDate: null };
+  db.events = [];
+  db.statusChanges = [];
+  db.failNextApply = false;
+});
+
+describe('TrackingEventService.eventKey', () => {
+  it('keys an event by tracking number, activity code and local date and time', () => {
+    expect(TrackingEventService.eventKey(delivered)).toBe('1ZOUT:KB:20260310143000');
+  });
+
+  it('falls back to the activity type and a date alone', () => {
+    expect(TrackingEventService.eventKey({ ...delivered, activityCode: undefined, localTime: undefined })).toBe('1ZOUT:D:20260310');
+  });
+});
+
+describe('TrackingEventService.deriveState', () => {
+  it('moves a shipped lead to the furthest milestone in its history', () => {
+    const events = [
+      event({ status: TrackingStatus.IN_TRANSIT }),
+      event({ status: TrackingStatus.DELIVERED, eventDate: new Date('2026-03-10T00:00:00Z') }),
+      event({ eventType: 'INBOUND', trackingNumber: '1ZRET', status: TrackingStatus.IN_TRANSIT })
+    ];
+    const state = TrackingEventService.deriveState(lead('SHIPPED'), events);
+    expect(state.status).toBe('KIT_RETURNING');
+    expect(state.cause?.eventType).toBe('INBOUND');
+    expect(state.data).toEqual({ kitDeliveredDate: new Date('2026-03-10T00:00:00Z') });
+  });
+
+  it('never moves a lead backwards', () => {
+    const events = [event({ status: TrackingStatus.IN_TRANSIT })];
+    expect(TrackingEventService.deriveState(lead('DELIVERED'), events).status).toBeNull();
+    expect(TrackingEventService.deriveState(lead('KIT_COMPLETED'), [event({ status: TrackingStatus.DELIVERED })]).status).toBeNull();
+  });
+
+  it('moves nothing once the lead has reached the furthest milestone', () => {
+    expect(TrackingEventService.deriveState(lead('DELIVERED'), [event({ status: TrackingStatus.DELIVERED })]).status).toBeNull();
+  });
+
+  it('reads the status of events recorded before statuses were normalized', () => {
+    const legacy = event({ status: null, activityType: 'D' });
+    expect(TrackingEventService.deriveState(lead('SHIPPED'), [legacy]).status).toBe('DELIVERED');
+  });
+
+  it('lets a return in transit move only shipped and delivered leads', () => {
+    const inbound = [event({ eventType: 'INBOUND', trackingNumber: '1ZRET', status: TrackingStatus.IN_TRANSIT })];
+    expect(TrackingEventService.deriveState(lead('SHIPPED'), inbound).status).toBe('KIT_RETURNING');
+    expect(TrackingEventService.deriveState(lead('COLLECTIONS'), inbound).status).toBeNull();
+  });
+});
+
+describe('TrackingEventService.record', () => {
+  it('records an event once and moves the lead', async () => {
+    const result = await TrackingEventService.record(delivered);
+    expect(result).toMatchObject({ duplicate: false, direction: 'OUTBOUND', statusChange: { from: 'SHIPPED', to: 'DELIVERED' } });
+    expect(db.lead!.status).toBe('DELIVERED');
+
+    const redelivery = await TrackingEventService.record(delivered);
+    expect(redelivery).toMatchObject({ duplicate: true, event: null, statusChange: null });
+    expect(db.events).toHaveLength(1);
+    expect(db.statusChanges).toHaveLength(1);
+  });
+
+  it('applies the history on a retry when the first delivery stored the event but failed', async () => {
+    db.failNextApply = true;
+    await expect(TrackingEventService.record(delivered)).rejects.toThrow('connection reset');
+    expect(db.events).toHaveLength(1);
+    expect(db.lead!.status).toBe('SHIPPED');
+
+    const retry = await TrackingEventService.record(delivered);
+    expect(retry).toMatchObject({ duplicate: true, statusChange: { from: 'SHIPPED', to: 'DELIVERED', direction: 'OUTBOUND' } });
+    expect(db.lead!.status).toBe('DELIVERED');
+    expect(db.events).toHaveLength(1);
+  });
+});
@@ -0,0 +1,53 @@
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { UploadFileReader, UploadSourceRow } from '@/lib/services/uploadFileReader';
+
+async function readRows(fileName: string, data: Buffer): Promise<UploadSourceRow[]> {
+  const file = await UploadFileReader.openStream(fileName, Readable.from([data]));
+  const rows: UploadSourceRow[] = [];
+  for await (const row of file.rows) rows.push(row);
+  return rows;
+}
+
+const rowNumbers = (rows: UploadSourceRow[]) => rows.map(row => [row.values.mbi, row.rowNumber]);
+
+describe('UploadFileReader.openStream row numbers', () => {
+  it('numbers CSV rows by their line, header first', async () => {
+    const rows = await readRows('leads.csv', Buffer.from('mbi,name\nA1,Ada\nA2,Bob\n'));
+    expect(rowNumbers(rows)).toEqual([['A1', 2], ['A2', 3]]);
+  });
+
+  it('counts skipped blank lines', async () => {
+    const rows = await readRows('leads.csv', Buffer.from('mbi,name\n\nA1,Ada\n   \n\nA2,Bob\n'));
+    expect(rowNumbers(rows)).toEqual([['A1', 3], ['A2', 6]]);
+  });
+
+  it('gives a row with a multi-line quoted field the line it starts on', async () => {
+    const rows = await readRows('leads.csv', Buffer.from('mbi,name\nA1,"Ada\nLovelace"\nA2,Bob\n'));
+    expect(rowNumbers(rows)).toEqual([['A1', 2], ['A2', 4]]);
+    expect(rows[0].values.name).toBe('Ada\nLovelace');
+  });
+
+  it('counts CRLF line breaks inside quoted fields once', async () => {
+    const rows = await readRows('leads.csv', Buffer.from('mbi,name\r\nA1,"Ada\r\nLovelace\r\nCountess"\r\n\r\nA2,Bob\r\nA3,Cy\r\n'));
+    expect(rowNumbers(rows)).toEqual([['A1', 2], ['A2', 6], ['A3', 7]]);
+  });
+
+  it('numbers TSV rows the same way', async () => {
+    const rows = await readRows('leads.tsv', Buffer.from('mbi\tname\n\nA1\tAda\n'));
+    expect(rowNumbers(rows)).toEqual([['A1', 3]]);
+  });
+
+  it('numbers XLSX rows by their worksheet row, skipping empty rows', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Leads');
+    sheet.getRow(1).values = ['mbi', 'name'];
+    sheet.getRow(2).values = ['A1', 'Ada'];
+    sheet.getRow(3).values = ['', ''];
+    sheet.getRow(5).values = ['A2', 'Bob'];
+    const data = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const rows = await readRows('leads.xlsx', data);
+    expect(rowNumbers(rows)).toEqual([['A1', 2], ['A2', 5]]);
+  });
+});
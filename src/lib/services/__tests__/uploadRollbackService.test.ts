@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { Lead } from '@prisma/client';
+import { UploadRollbackService, UploadRollbackError } from '@/lib/services/uploadRollbackService';
+
+process.env.PHI_KEY_PROVIDER = 'env';
+process.env.PHI_DATA_KEYS = `test:${crypto.randomBytes(32).toString('base64')}`;
+process.env.PHI_INDEX_KEY = crypto.randomBytes(32).toString('base64');
+
+// In-memory stand-in for the tables a rollback reads and writes
+const db = {
+  leads: new Map<string, Record<string, any>>(),
+  uploadChanges: [] as Record<string, any>[],
+  statusChanges: [] as Record<string, any>[],
+  fileUploads: new Map<string, Record<string, any>>(),
+  batchJobs: new Map<string, Record<string, any>>(),
+  clock: Date.parse('2026-01-01T00:00:00Z'),
+  // Hook for a write that lands while the rollback is running
+  beforeLeadWrite: null as null | (() => void)
+};
+
+const tick = () => new Date(++db.clock);
+const matches = (row: Record<string, any>, where: Record<string, any>) =>
+  Object.entries(where).every(([field, value]) =>
+    value instanceof Date ? row[field]?.getTime() === value.getTime() : row[field] === value);
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    lead: {
+      findUnique: async ({ where }: any) => {
+        const lead = db.leads.get(where.id);
+        return lead ? { ...lead } : null;
+      },
+      updateMany: async ({ where, data }: any) => {
+        db.beforeLeadWrite?.();
+        const lead = db.leads.get(where.id);
+        if (!lead || !matches(lead, where)) return { count: 0 };
+        Object.assign(lead, data, { updatedAt: tick() });
+        return { count: 1 };
+      }
+    },
+    uploadChange: {
+      create: async ({ data }: any) => {
+        db.uploadChanges.push({ id: `c${db.uploadChanges.length + 1}`, revertedAt: null, createdAt: tick(), ...data });
+      },
+      findMany: async ({ where }: any) => db.uploadChanges
+        .filter(change => matches(change, where))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id)),
+      update: async ({ where, data }: any) => Object.assign(db.uploadChanges.find(change => change.id === where.id)!, data)
+    },
+    leadStatusChange: {
+      create: async ({ data }: any) => { db.statusChanges.push(data); }
+    },
+    fileUpload: {
+      findUnique: async ({ where }: any) => db.fileUploads.get(where.id) ?? null
+    },
+    batchJob: {
+      findUnique: async ({ where }: any) => db.batchJobs.get(where.id) ?? null
+    },
+    $transaction: async (fn: (tx: any) => Promise<unknown>) => fn(client)
+  };
+  return { prisma: client };
+});
+
+function addLead(fields: Record<string, any>): Lead {
+  const lead = { id: `lead-${db.leads.size + 1}`, status: 'SENT_TO_CONSULT', doctorApprovalStatus: null, doctorApprovalDate: null, updatedAt: tick(), ...fields };
+  db.leads.set(lead.id, lead);
+  return { ...lead } as unknown as Lead;
+}
+
+// Apply an upload row to a lead the way the upload paths do: write, then record the change
+async function applyRow(leadId: string, data: Record<string, any>, rowNumber: number, fileUploadId = 'upload-1') {
+  const before = { ...db.leads.get(leadId)! };
+  Object.assign(db.leads.get(leadId)!, data, { updatedAt: tick() });
+  const after = { ...db.leads.get(leadId)! };
+  await UploadRollbackService.record(before as any, after as unknown as Lead, Object.keys(data), { fileUploadId, rowNumber });
+}
+
+beforeEach(() => {
+  db.leads.clear();
+  db.uploadChanges = [];
+  db.statusChanges = [];
+  db.fileUploads.clear();
+  db.batchJobs.clear();
+  db.beforeLeadWrite = null;
+  db.fileUploads.set('upload-1', { fileName: 'approvals.csv', processedAt: new Date() });
+});
+
+describe('UploadRollbackService.rollback', () => {
+  it('restores the values a row changed, status included, and records the revert', async () => {
+    const approvalDate = new Date('2026-01-05T00:00:00Z');
+    const lead = addLead({});
+    await applyRow(lead.id, { status: 'APPROVED', doctorApprovalStatus: 'APPROVED', doctorApprovalDate: approvalDate }, 2);
+
+    const summary = await UploadRollbackService.rollback('upload-1', 'admin-1');
+
+    expect(summary.reverted).toEqual([
+      { leadId: lead.id, rowNumber: 2, fields: expect.arrayContaining(['status', 'doctorApprovalStatus', 'doctorApprovalDate']) }
+    ]);
+    expect(summary.skipped).toEqual([]);
+    expect(db.leads.get(lead.id)).toMatchObject({ status: 'SENT_TO_CONSULT', doctorApprovalStatus: null, doctorApprovalDate: null });
+    expect(db.statusChanges).toEqual([expect.objectContaining({
+      leadId: lead.id,
+      fromStatus: 'APPROVED',
+      toStatus: 'SENT_TO_CONSULT',
+      source: 'UPLOAD',
+      actorId: 'admin-1',
+      metadata: { reverted: true }
+    })]);
+    expect(db.uploadChanges[0].revertedAt).toBeInstanceOf(Date);
+  });
+
+  it('only records fields whose value changed', async () => {
+    const lead = addLead({ doctorApprovalStatus: 'APPROVED' });
+    await applyRow(lead.id, { doctorApprovalStatus: 'APPROVED' }, 2);
+    expect(db.uploadChanges).toEqual([]);
+  });
+
+  it('skips a lead changed since the upload and leaves it alone', async () => {
+    const lead = addLead({});
+    await applyRow(lead.id, { status: 'APPROVED', doctorApprovalStatus: 'APPROVED' }, 2);
+    // Shipped after the upload approved it
+    Object.assign(db.leads.get(lead.id)!, { status: 'SHIPPED', updatedAt: tick() });
+
+    const summary = await UploadRollbackService.rollback('upload-1', 'admin-1');
+
+    expect(summary.reverted).toEqual([]);
+    expect(summary.skipped).toEqual([{ leadId: lead.id, rowNumber: 2, reason: 'Changed since the upload: status' }]);
+    expect(db.leads.get(lead.id)).toMatchObject({ status: 'SHIPPED', doctorApprovalStatus: 'APPROVED' });
+    expect(db.statusChanges).toEqual([]);
+    expect(db.uploadChanges[0].revertedAt).toBeNull();
+  });
+
+  it('skips a lead written while the rollback is running', async () => {
+    const lead = addLead({});
+    await applyRow(lead.id, { status: 'APPROVED' }, 2);
+    db.beforeLeadWrite = () => {
+      db.beforeLeadWrite = null;
+      Object.assign(db.leads.get(lead.id)!, { trackingNumber: '1Z999', updatedAt: tick() });
+    };
+
+    const summary = await UploadRollbackService.rollback('upload-1', 'admin-1');
+
+    expect(summary.skipped).toEqual([{ leadId: lead.id, rowNumber: 2, reason: 'Changed while the rollback was running' }]);
+    expect(db.leads.get(lead.id)).toMatchObject({ status: 'APPROVED', trackingNumber: '1Z999' });
+    expect(db.uploadChanges[0].revertedAt).toBeNull();
+  });
+
+  it('skips a lead that no longer exists', async () => {
+    const lead = addLead({});
+    await applyRow(lead.id, { status: 'APPROVED' }, 3);
+    db.leads.delete(lead.id);
+
+    const summary = await UploadRollbackService.rollback('upload-1', 'admin-1');
+    expect(summary.skipped).toEqual([{ leadId: lead.id, rowNumber: 3, reason: 'Lead was deleted or archived' }]);
+  });
+
+  it('undoes several rows on one lead newest first, back to the value before the upload', async () => {
+    const lead = addLead({});
+    await applyRow(lead.id, { status: 'APPROVED' }, 2);
+    await applyRow(lead.id, { status: 'RETURNED' }, 7);
+
+    const summary = await UploadRollbackService.rollback('upload-1', 'admin-1');
+
+    expect(summary.reverted.map(change => change.rowNumber)).toEqual([7, 2]);
+    expect(db.leads.get(lead.id)!.status).toBe('SENT_TO_CONSULT');
+  });
+
+  it('does not touch changes of other uploads or changes already rolled back', async () => {
+    db.fileUploads.set('upload-2', { fileName: 'later.csv', processedAt: new Date() });
+    const first = addLead({});
+    const second = addLead({});
+    await applyRow(first.id, { status: 'APPROVED' }, 2);
+    await applyRow(second.id, { status: 'APPROVED' }, 2, 'upload-2');
+
+    await UploadRollbackService.rollback('upload-1', 'admin-1');
+    const again = await UploadRollbackService.rollback('upload-1', 'admin-1');
+
+    expect(again.reverted).toEqual([]);
+    expect(again.skipped).toEqual([]);
+    expect(db.leads.get(first.id)!.status).toBe('SENT_TO_CONSULT');
+    expect(db.leads.get(second.id)!.status).toBe('APPROVED');
+  });
+
+  it('refuses uploads that are missing or still running', async () => {
+    db.fileUploads.set('upload-3', { fileName: 'running.csv', processedAt: null });
+    db.batchJobs.set('job-1', { fileName: 'big.csv', status: 'PROCESSING' });
+
+    await expect(UploadRollbackService.rollback('missing', 'admin-1')).rejects.toMatchObject({ status: 404 });
+    await expect(UploadRollbackService.rollback('upload-3', 'admin-1')).rejects.toMatchObject({ status: 409 });
+    await expect(UploadRollbackService.rollback('job-1', 'admin-1')).rejects.toBeInstanceOf(UploadRollbackError);
+  });
+});
@@ -1,5 +1,6 @@
 import { LeadAlert, AlertType, AlertSeverity } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { DuplicateRuleService, DuplicateRuleMatch } from '@/lib/services/duplicateRuleService';
 
 export interface AlertResult {
   leadId: string;
@@ -25,7 +26,7 @@ export interface BulkCheckResult {
 
 export class AlertService {
   /**
-   * Check for duplicate MBI and create alert if found
+   * Check the lead against the duplicate rules and create an alert per matched order
    */
   static async checkForDuplicateAlert(leadId: string): Promise<AlertResult> {
     try {
@@ -38,41 +39,43 @@ export class AlertService {
         throw new Error('Lead not found');
       }
 
-      // Check for existing leads with same MBI
-      const duplicateLeads = await prisma.lead.findMany({
-        where: {
-          mbi: lead.mbi,
-          id: { not: leadId }, // Exclude current lead
-        },
-        select: {
-          id: true,
-          firstName: true,
-          lastName: true,
-          createdAt: true,
-          vendor: {
-            select: { name: true }
-          }
-        }
-      });
+      // Existing orders for this MBI that the duplicate rules flag against this order
+      const [rules, ordersByMbi] = await Promise.all([
+        DuplicateRuleService.getActiveRules(),
+        DuplicateRuleService.loadExistingOrders([lead.mbi], leadId)
+      ]);
+      const existingOrders = ordersByMbi.get(lead.mbi) || [];
+      const evaluation = DuplicateRuleService.evaluateOrders(rules, existingOrders, lead.testType);
 
       const existingAlerts = lead.alerts || [];
       let newAlerts: LeadAlert[] = [];
 
-      // Create duplicate alerts if duplicates found and no existing alert
-      if (duplicateLeads.length > 0) {
+      // Create duplicate alerts if any rule matched and no existing alert
+      if (evaluation.matches.length > 0) {
         const existingDuplicateAlert = existingAlerts.find(
           (alert: LeadAlert) => alert.type === 'MBI_DUPLICATE' && !alert.isAcknowledged
         );
 
         if (!existingDuplicateAlert) {
-          // Create alert for each duplicate found
-          for (const duplicate of duplicateLeads) {
+          // One alert per matched order, using the strictest rule that matched it
+          const matchesByLead = new Map<string, DuplicateRuleMatch>();
+          for (const match of evaluation.matches) {
+            const current = matchesByLead.get(match.leadId);
+            if (!current || (current.action === 'WARN' && match.action === 'BLOCK')) {
+              matchesByLead.set(match.leadId, match);
+            }
+          }
+
+          for (const [duplicateId, match] of matchesByLead) {
+            const duplicate = existingOrders.find(order => order.id === duplicateId);
+            if (!duplicate) continue;
+
             const alert = await prisma.leadAlert.create({
               data: {
                 leadId: leadId,
                 type: 'MBI_DUPLICATE',
-                severity: 'HIGH',
-                message: `Duplicate MBI detected: ${duplicate.firstName} ${duplicate.lastName} from ${duplicate.vendor.name} (submitted ${duplicate.createdAt.toLocaleDateString()})`,
+                severity: match.action === 'BLOCK' ? 'HIGH' : 'MEDIUM',
+                message: `Duplicate MBI detected (${match.ruleName}): ${duplicate.firstName} ${duplicate.lastName} from ${duplicate.vendor.name} (submitted ${duplicate.createdAt.toLocaleDateString()})`,
                 relatedLeadId: duplicate.id,
                 metadata: {
                   duplicateLeadInfo: {
@@ -80,6 +83,13 @@ export class AlertService {
                     name: `${duplicate.firstName} ${duplicate.lastName}`,
                     vendor: duplicate.vendor.name,
                     submittedAt: duplicate.createdAt
+                  },
+                  rule: {
+                    id: match.ruleId,
+                    name: match.ruleName,
+                    action: match.action,
+                    reason: match.reason,
+                    message: match.message
                   }
                 }
               }
@@ -261,18 +271,19 @@ export class AlertService {
    */
   static async runBulkDuplicateCheck(): Promise<BulkCheckResult> {
     try {
-      // Get all leads grouped by MBI
+      // Get all leads grouped by MBI (blind index, since MBIs are encrypted) and test type
       const leadsByMbi = await prisma.lead.groupBy({
-        by: ['mbi'],
+        by: ['mbiHash', 'testType'],
+        where: { mbiHash: { not: null } },
         having: {
-          mbi: {
+          mbiHash: {
             _count: {
               gt: 1
             }
           }
         },
         _count: {
-          mbi: true
+          mbiHash: true
         }
       });
 
@@ -283,9 +294,10 @@ export class AlertService {
       // Process each group of duplicate MBIs
       for (const group of leadsByMbi) {
         const leads = await prisma.lead.findMany({
-          where: { mbi: group.mbi },
+          where: { mbiHash: group.mbiHash, testType: group.testType },
           select: {
             id: true,
+            mbi: true,
             firstName: true,
             lastName: true,
             createdAt: true,
@@ -296,7 +308,7 @@ export class AlertService {
 
         totalChecked += leads.length;
         duplicatesFound.push({
-          mbi: group.mbi,
+          mbi: leads[0].mbi,
           leadIds: leads.map((lead: any) => lead.id)
         });
 
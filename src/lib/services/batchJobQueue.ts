@@ -0,0 +1,582 @@
+import os from 'os';
+import crypto from 'crypto';
+import Papa from 'papaparse';
+import { Readable } from 'stream';
+import { BatchJob, BatchJobStatus, FileUploadType, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { getUploadStorage, uploadStorageKey } from '@/lib/storage/uploadStorage';
+import { BatchProcessor } from '@/lib/services/batchProcessor';
+import { ColumnMappingService, ColumnMappings } from '@/lib/services/columnMappingService';
+import { UploadErrorReport, UploadRowError } from '@/lib/services/uploadErrorReport';
+import { UploadFileReader, UploadRowStream } from '@/lib/services/uploadFileReader';
+
+/**
+ * Batch Job Queue
+ * Postgres-backed queue for large uploads - the BatchJob row is the queue entry and
+ * the uploaded file sits in upload storage at fileUrl. A worker claims a job by taking
+ * a time-limited lease, streams the file's rows, heartbeats while it runs
+ * BatchProcessor.processChunk one chunk at a time, and commits chunksProcessed and
+ * the running totals after every chunk. Jobs are queued without counting the file's
+ * rows; totalRows and totalChunks are set once a worker reaches the end of the file.
+ * If the worker dies its lease expires; the next worker puts the job back to PENDING
+ * and whoever claims it resumes at chunksProcessed. A chunk cut off mid-way is processed again, so chunk processing
+ * must tolerate re-applying the same rows.
+ *
+ * Jobs can be paused (the chunk in progress is committed, then the worker lets go),
+ * resumed, and cancelled. Rows that fail are recorded in errorLog by their line in
+ * the file, with the row as uploaded, and retry-failed re-queues just those rows as
+ * a child job.
+ */
+
+const LEASE_MS = parseInt(process.env.BATCH_LEASE_SECONDS || '60', 10) * 1000;
+const RETRY_BACKOFF_MS = 30 * 1000;
+// How long a worker started from a request may run before handing the job back
+const KICK_BUDGET_MS = 5 * 60 * 1000;
+
+const ACTIVE_STATUSES: BatchJobStatus[] = ['PENDING', 'PROCESSING', 'PAUSED'];
+const FINISHED_STATUSES: BatchJobStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+export interface EnqueueBatchJobInput {
+  type: FileUploadType;
+  fileName: string;
+  fileUrl: string;
+  uploadedById: string;
+  // Rows in the stored file, when already known - otherwise the worker counts them
+  totalRows?: number;
+  // Workbook sheet to read - XLSX only
+  sheet?: string | null;
+  chunkSize: number;
+  // Field -> header renames resolved when the job was started
+  columnMapping?: ColumnMappings | null;
+  // The job whose failed rows this one re-runs
+  parentJobId?: string;
+  // SHA-256 of the uploaded file, for spotting re-uploads
+  contentHash?: string;
+}
+
+// One errorLog entry per chunk that had errors or warnings
+export interface BatchErrorLogEntry {
+  chunkIndex: number;
+  errors: UploadRowError[];
+}
+
+export class BatchJobError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'BatchJobError';
+    this.status = status;
+  }
+}
+
+export interface WorkOptions {
+  workerId?: string;
+  // Stop claiming (and hand back the current job) once this much time has passed
+  budgetMs?: number;
+}
+
+export interface WorkSummary {
+  workerId: string;
+  recovered: number;
+  jobs: { id: string; status: string; chunksProcessed: number; totalChunks: number | null }[];
+}
+
+// What control endpoints return about a job - never the payload
+export function batchJobSummary(job: BatchJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    fileName: job.fileName,
+    totalRows: job.totalRows,
+    chunksProcessed: job.chunksProcessed,
+    totalChunks: job.totalChunks,
+    progressMessage: job.progressMessage,
+    parentJobId: job.parentJobId
+  };
+}
+
+/**
+ * Rows as batch processing reads them: lower-cased headers, then the job's column
+ * mapping. Error reports and retries keep the rows as read from the file.
+ */
+export function toBatchRows(rows: Record<string, string>[], columnMapping: ColumnMappings | null): Record<string, any>[] {
+  const lowerCased = rows.map(row => Object.fromEntries(
+    Object.entries(row).map(([header, value]) => [header.toLowerCase(), value])
+  ));
+  return ColumnMappingService.applyMappings(lowerCased, columnMapping, { lowerCaseKeys: true });
+}
+
+// "chunk 3 of 10", or just "chunk 3" while the file has not been read to the end
+function chunkOf(chunk: number, totalChunks: number | null): string {
+  return totalChunks === null ? `chunk ${chunk}` : `chunk ${chunk} of ${totalChunks}`;
+}
+
+async function* chunksOf<T>(rows: AsyncIterable<T>, size: number): AsyncGenerator<T[]> {
+  let chunk: T[] = [];
+  for await (const row of rows) {
+    chunk.push(row);
+    if (chunk.length === size) {
+      yield chunk;
+      chunk = [];
+    }
+  }
+  if (chunk.length > 0) yield chunk;
+}
+
+export class BatchJobQueue {
+  static newWorkerId(): string {
+    return `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  static async enqueue(input: EnqueueBatchJobInput): Promise<BatchJob> {
+    return prisma.batchJob.create({
+      data: {
+        type: input.type,
+        fileName: input.fileName,
+        fileUrl: input.fileUrl,
+        sheet: input.sheet ?? null,
+        uploadedById: input.uploadedById,
+        totalRows: input.totalRows ?? null,
+        totalChunks: input.totalRows === undefined ? null : Math.ceil(input.totalRows / input.chunkSize),
+        chunkSize: input.chunkSize,
+        columnMapping: input.columnMapping ?? undefined,
+        parentJobId: input.parentJobId,
+        contentHash: input.contentHash,
+        status: 'PENDING',
+        progressMessage: 'Batch job queued, waiting for a worker...'
+      }
+    });
+  }
+
+  /**
+   * Put jobs whose worker stopped heartbeating back in the queue, or fail them once
+   * they have used up their attempts. Returns the number of jobs touched.
+   */
+  static async recoverStaleLeases(now: Date = new Date()): Promise<number> {
+    const stale = await prisma.batchJob.findMany({
+      where: { status: 'PROCESSING', leaseExpiresAt: { lt: now } },
+      select: { id: true, leaseOwner: true, attempts: true, maxAttempts: true, chunksProcessed: true, totalChunks: true }
+    });
+
+    let recovered = 0;
+    for (const job of stale) {
+      const exhausted = job.attempts >= job.maxAttempts;
+      // Conditional on the same lease so a worker that just heartbeated keeps its job
+      const result = await prisma.batchJob.updateMany({
+        where: { id: job.id, status: 'PROCESSING', leaseOwner: job.leaseOwner, leaseExpiresAt: { lt: now } },
+        data: exhausted
+          ? {
+              status: 'FAILED',
+              completedAt: now,
+              leaseOwner: null,
+              leaseExpiresAt: null,
+              lastError: `Worker ${job.leaseOwner} stopped responding`,
+              progressMessage: `Failed after ${job.attempts} attempts - worker stopped responding`
+            }
+          : {
+              status: 'PENDING',
+              availableAt: now,
+              leaseOwner: null,
+              leaseExpiresAt: null,
+              lastError: `Worker ${job.leaseOwner} stopped responding`,
+              progressMessage: `Worker lease expired - will resume at ${chunkOf(job.chunksProcessed + 1, job.totalChunks)}`
+            }
+      });
+
+      if (result.count > 0) {
+        recovered++;
+        console.warn(`⏱️ Batch job ${job.id}: lease held by ${job.leaseOwner} expired, ${exhausted ? 'marked failed' : 'queued for retry'}`);
+      }
+    }
+    return recovered;
+  }
+
+  /**
+   * Claim the oldest available job. Two workers may pick the same candidate; the
+   * conditional update lets only one of them win.
+   */
+  static async claimNext(workerId: string, now: Date = new Date()): Promise<BatchJob | null> {
+    for (let tries = 0; tries < 3; tries++) {
+      const candidate = await prisma.batchJob.findFirst({
+        where: { status: 'PENDING', availableAt: { lte: now } },
+        orderBy: { availableAt: 'asc' },
+        select: { id: true }
+      });
+      if (!candidate) return null;
+
+      const claimed = await prisma.batchJob.updateMany({
+        where: { id: candidate.id, status: 'PENDING' },
+        data: {
+          status: 'PROCESSING',
+          leaseOwner: workerId,
+          leaseExpiresAt: new Date(Date.now() + LEASE_MS),
+          heartbeatAt: new Date(),
+          attempts: { increment: 1 }
+        }
+      });
+      if (claimed.count === 1) {
+        return prisma.batchJob.findUnique({ where: { id: candidate.id } });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Extend the lease. False means the worker no longer owns the job - it was
+   * cancelled or recovered by another worker - and must stop.
+   */
+  static async heartbeat(jobId: string, workerId: string): Promise<boolean> {
+    const result = await prisma.batchJob.updateMany({
+      where: { id: jobId, status: 'PROCESSING', leaseOwner: workerId },
+      data: { leaseExpiresAt: new Date(Date.now() + LEASE_MS), heartbeatAt: new Date() }
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Recover stale leases, then claim and run jobs until the queue is empty or the
+   * time budget is spent.
+   */
+  static async work(options: WorkOptions = {}): Promise<WorkSummary> {
+    const workerId = options.workerId || this.newWorkerId();
+    const deadline = options.budgetMs ? Date.now() + options.budgetMs : Infinity;
+    const summary: WorkSummary = { workerId, recovered: await this.recoverStaleLeases(), jobs: [] };
+
+    while (Date.now() < deadline) {
+      const job = await this.claimNext(workerId);
+      if (!job) break;
+
+      const finished = await this.runJob(job, workerId, deadline);
+      summary.jobs.push({
+        id: finished.id,
+        status: finished.status,
+        chunksProcessed: finished.chunksProcessed,
+        totalChunks: finished.totalChunks
+      });
+    }
+    return summary;
+  }
+
+  /**
+   * Run a claimed job from chunksProcessed to the end, or until the deadline, the
+   * lease is lost, or an unexpected error ends the attempt.
+   */
+  static async runJob(job: BatchJob, workerId: string, deadline = Infinity): Promise<BatchJob> {
+    const heartbeatTimer = setInterval(() => {
+      this.heartbeat(job.id, workerId).catch(error => console.error(`Heartbeat failed for batch job ${job.id}:`, error));
+    }, Math.floor(LEASE_MS / 3));
+
+    try {
+      const file = await this.openRows(job);
+
+      if (job.chunksProcessed === 0 && !job.startedAt) {
+        await prisma.batchJob.update({ where: { id: job.id }, data: { startedAt: new Date() } });
+      }
+
+      // Each chunk is processed as soon as its rows have been read; committed chunks are only read past
+      let chunkIndex = -1;
+      let rowsRead = 0;
+      for await (const sourceRows of chunksOf(file.rows, job.chunkSize)) {
+        chunkIndex++;
+        rowsRead += sourceRows.length;
+        if (chunkIndex < job.chunksProcessed) continue;
+
+        if (Date.now() >= deadline) {
+          return this.release(job.id, workerId, `Paused at ${chunkOf(chunkIndex + 1, job.totalChunks)} - waiting for the next worker run`);
+        }
+        if (!(await this.heartbeat(job.id, workerId))) {
+          console.warn(`⏱️ Batch job ${job.id}: worker ${workerId} lost its lease, stopping`);
+          return this.settlePause(job.id, workerId);
+        }
+
+        const chunk = toBatchRows(sourceRows.map(row => row.values), job.columnMapping as ColumnMappings | null);
+        // Each row's line in the file, as the reader found it - the header is line 1
+        const rowNumbers = sourceRows.map(row => row.rowNumber);
+        let result;
+        try {
+          result = await BatchProcessor.processChunk(job.type, chunk, job.id, rowNumbers);
+        } catch (error) {
+          // A chunk that throws is recorded as failed rows; the job carries on
+          console.error(`Error processing chunk ${chunkIndex} of batch job ${job.id}:`, error);
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          result = {
+            succeeded: 0,
+            failed: chunk.length,
+            errors: rowNumbers.map(rowNumber => UploadErrorReport.entry(rowNumber, 'ROW_FAILED', message))
+          };
+        }
+        const valuesByRow = new Map(sourceRows.map(row => [row.rowNumber, row.values]));
+        const entry: BatchErrorLogEntry = {
+          chunkIndex,
+          errors: result.errors.map(rowError => UploadErrorReport.isFailure(rowError)
+            ? UploadErrorReport.entry(rowError.row, rowError.code, rowError.error, valuesByRow.get(rowError.row))
+            : rowError)
+        };
+
+        const current = await prisma.batchJob.findUniqueOrThrow({ where: { id: job.id }, select: { errorLog: true } });
+        const errorLog = Array.isArray(current.errorLog) ? current.errorLog : [];
+
+        // Commit progress only while still holding the lease - a pause lets the chunk in progress commit
+        const committed = await prisma.batchJob.updateMany({
+          where: { id: job.id, status: { in: ['PROCESSING', 'PAUSED'] }, leaseOwner: workerId },
+          data: {
+            chunksProcessed: chunkIndex + 1,
+            recordsProcessed: { increment: chunk.length },
+            recordsSucceeded: { increment: result.succeeded },
+            recordsFailed: { increment: result.failed },
+            recordsQueued: { increment: result.queuedForReview || 0 },
+            ...(result.errors.length > 0 ? { errorLog: [...errorLog, entry] as unknown as Prisma.InputJsonValue } : {}),
+            progressMessage: job.totalChunks === null
+              ? `Processed chunk ${chunkIndex + 1} (${rowsRead} rows read so far)`
+              : `Processed ${chunkOf(chunkIndex + 1, job.totalChunks)}`
+          }
+        });
+        if (committed.count === 0) {
+          console.warn(`⏱️ Batch job ${job.id}: lease lost before chunk ${chunkIndex + 1} was committed`);
+          return prisma.batchJob.findUniqueOrThrow({ where: { id: job.id } });
+        }
+      }
+
+      // The whole file has been read, so its size is now known
+      if (job.totalRows !== rowsRead) {
+        await prisma.batchJob.update({
+          where: { id: job.id },
+          data: { totalRows: rowsRead, totalChunks: chunkIndex + 1 }
+        });
+      }
+      return this.complete(job.id, workerId);
+    } catch (error) {
+      return this.failAttempt(job.id, workerId, error);
+    } finally {
+      clearInterval(heartbeatTimer);
+    }
+  }
+
+  /**
+   * Start a worker from a request so a job does not wait for the scheduled run. If
+   * the instance is frozen or recycled, the lease expires and the next scheduled
+   * worker resumes the job where it stopped.
+   */
+  static kick(): void {
+    this.work({ budgetMs: KICK_BUDGET_MS }).catch(error => {
+      console.error('Error running batch worker:', error);
+    });
+  }
+
+  /**
+   * Stop a job for good. A worker mid-chunk sees the lost lease at its next
+   * heartbeat; that chunk's rows may already be applied but are not counted.
+   */
+  static async cancel(jobId: string): Promise<BatchJob> {
+    const result = await prisma.batchJob.updateMany({
+      where: { id: jobId, status: { in: ACTIVE_STATUSES } },
+      data: {
+        status: 'CANCELLED',
+        completedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        progressMessage: 'Batch job cancelled by user'
+      }
+    });
+    if (result.count === 0) throw await this.stateError(jobId, 'cancel');
+    return prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+  }
+
+  /**
+   * Stop claiming a job. A running worker keeps its lease long enough to commit the
+   * chunk in progress, then lets go without using up an attempt.
+   */
+  static async pause(jobId: string): Promise<BatchJob> {
+    const result = await prisma.batchJob.updateMany({
+      where: { id: jobId, status: { in: ['PENDING', 'PROCESSING'] } },
+      data: { status: 'PAUSED', progressMessage: 'Paused by user' }
+    });
+    if (result.count === 0) throw await this.stateError(jobId, 'pause');
+    return prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+  }
+
+  static async resume(jobId: string): Promise<BatchJob> {
+    const job = await prisma.batchJob.findUnique({ where: { id: jobId } });
+    if (!job || job.status !== 'PAUSED') throw await this.stateError(jobId, 'resume');
+
+    const result = await prisma.batchJob.updateMany({
+      where: { id: jobId, status: 'PAUSED' },
+      data: {
+        status: 'PENDING',
+        availableAt: new Date(),
+        // A worker still finishing its chunk loses that commit; the chunk runs again
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        ...(job.leaseOwner ? { attempts: { decrement: 1 } } : {}),
+        progressMessage: `Resumed - waiting for a worker to continue at ${chunkOf(job.chunksProcessed + 1, job.totalChunks)}`
+      }
+    });
+    if (result.count === 0) throw await this.stateError(jobId, 'resume');
+    return prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+  }
+
+  /**
+   * Queue a child job with only the rows that failed in a finished job. The rows are
+   * taken from the stored file, so the child reads them with the same column mapping.
+   */
+  static async retryFailed(jobId: string, uploadedById: string): Promise<BatchJob> {
+    const job = await prisma.batchJob.findUnique({ where: { id: jobId } });
+    if (!job) throw new BatchJobError('Batch job not found', 404);
+    if (!FINISHED_STATUSES.includes(job.status)) {
+      throw new BatchJobError(`Cannot retry failed rows of a ${job.status.toLowerCase()} batch job`, 409);
+    }
+
+    const activeRetry = await prisma.batchJob.findFirst({
+      where: { parentJobId: jobId, status: { in: ACTIVE_STATUSES } },
+      select: { id: true }
+    });
+    if (activeRetry) {
+      throw new BatchJobError(`Failed rows are already being retried in batch job ${activeRetry.id}`, 409);
+    }
+
+    const failedRows = new Set(this.failedRowNumbers(job.errorLog));
+    if (failedRows.size === 0) throw new BatchJobError('Batch job has no failed rows to retry', 400);
+
+    let file: UploadRowStream;
+    try {
+      file = await this.openRows(job);
+    } catch (error) {
+      console.error(`Error opening the file of batch job ${job.id}:`, error);
+      throw new BatchJobError('Batch job no longer has its file content', 410);
+    }
+
+    const rows: Record<string, string>[] = [];
+    for await (const row of file.rows) {
+      if (failedRows.has(row.rowNumber)) rows.push(row.values);
+    }
+
+    // The failed rows are stored as a CSV file of their own, read like any other upload
+    const csv = Papa.unparse({ fields: file.headers, data: rows.map(row => file.headers.map(field => row[field])) });
+    const fileUrl = await getUploadStorage().save(uploadStorageKey('batch', 'retry.csv'), Readable.from([Buffer.from(csv, 'utf-8')]));
+
+    return this.enqueue({
+      type: job.type,
+      fileName: job.fileName,
+      fileUrl,
+      uploadedById,
+      totalRows: rows.length,
+      chunkSize: job.chunkSize,
+      columnMapping: job.columnMapping as ColumnMappings | null,
+      parentJobId: job.id
+    });
+  }
+
+  /**
+   * The job's rows as read from its stored file. Jobs queued before files were stored
+   * carry the file as encrypted CSV in payload.
+   */
+  static async openRows(job: Pick<BatchJob, 'id' | 'fileName' | 'fileUrl' | 'sheet' | 'payload'>): Promise<UploadRowStream> {
+    if (job.payload) {
+      return UploadFileReader.openStream('payload.csv', Readable.from([Buffer.from(PhiEncryption.decrypt(job.payload), 'utf-8')]));
+    }
+
+    const storage = getUploadStorage();
+    if (!storage.owns(job.fileUrl)) {
+      throw new Error(`Batch job ${job.id} has no stored file content`);
+    }
+    return UploadFileReader.openStream(job.fileName, storage.open(job.fileUrl), { sheet: job.sheet });
+  }
+
+  // Source row numbers of the rows that failed
+  static failedRowNumbers(errorLog: Prisma.JsonValue): number[] {
+    const rowNumbers = new Set<number>();
+    for (const rowError of UploadErrorReport.fromStored(errorLog)) {
+      if (UploadErrorReport.isFailure(rowError)) rowNumbers.add(rowError.row);
+    }
+    return Array.from(rowNumbers).sort((a, b) => a - b);
+  }
+
+  private static async stateError(jobId: string, action: string): Promise<BatchJobError> {
+    const job = await prisma.batchJob.findUnique({ where: { id: jobId }, select: { status: true } });
+    return job
+      ? new BatchJobError(`Cannot ${action} a ${job.status.toLowerCase()} batch job`, 409)
+      : new BatchJobError('Batch job not found', 404);
+  }
+
+  // Let go of a job paused under this worker, without using up an attempt
+  private static async settlePause(jobId: string, workerId: string): Promise<BatchJob> {
+    const job = await prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+    if (job.status !== 'PAUSED' || job.leaseOwner !== workerId) return job;
+
+    await prisma.batchJob.updateMany({
+      where: { id: jobId, status: 'PAUSED', leaseOwner: workerId },
+      data: {
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        attempts: { decrement: 1 },
+        progressMessage: `Paused after ${chunkOf(job.chunksProcessed, job.totalChunks)}`
+      }
+    });
+    return prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+  }
+
+  private static async complete(jobId: string, workerId: string): Promise<BatchJob> {
+    const job = await prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+    if (job.status === 'PAUSED') return this.settlePause(jobId, workerId);
+
+    await prisma.batchJob.updateMany({
+      where: { id: jobId, status: 'PROCESSING', leaseOwner: workerId },
+      data: {
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        progressMessage: `Completed: ${job.recordsSucceeded} succeeded, ${job.recordsFailed} failed${job.recordsQueued ? `, ${job.recordsQueued} queued for match review` : ''}`
+      }
+    });
+    return prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+  }
+
+  // Hand a job back to the queue without using up an attempt
+  private static async release(jobId: string, workerId: string, progressMessage: string): Promise<BatchJob> {
+    await prisma.batchJob.updateMany({
+      where: { id: jobId, status: 'PROCESSING', leaseOwner: workerId },
+      data: {
+        status: 'PENDING',
+        availableAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        attempts: { decrement: 1 },
+        progressMessage
+      }
+    });
+    return prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+  }
+
+  private static async failAttempt(jobId: string, workerId: string, error: unknown): Promise<BatchJob> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error in batch job ${jobId}:`, error);
+
+    const job = await prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    await prisma.batchJob.updateMany({
+      where: { id: jobId, status: 'PROCESSING', leaseOwner: workerId },
+      data: exhausted
+        ? {
+            status: 'FAILED',
+            completedAt: new Date(),
+            leaseOwner: null,
+            leaseExpiresAt: null,
+            lastError: message,
+            progressMessage: 'Batch processing failed'
+          }
+        : {
+            status: 'PENDING',
+            availableAt: new Date(Date.now() + RETRY_BACKOFF_MS * job.attempts),
+            leaseOwner: null,
+            leaseExpiresAt: null,
+            lastError: message,
+            progressMessage: `Attempt ${job.attempts} failed - retrying from chunk ${job.chunksProcessed + 1}`
+          }
+    });
+    return prisma.batchJob.findUniqueOrThrow({ where: { id: jobId } });
+  }
+}
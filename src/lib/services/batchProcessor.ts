@@ -1,228 +1,230 @@
 import { prisma } from '@/lib/prisma';
-import { FileUploadType } from '@prisma/client';
+import { DoctorApprovalStatus, FileUploadType } from '@prisma/client';
+import { LeadLifecycle } from '@/lib/services/leadLifecycle';
+import { PatientService } from '@/lib/services/patientService';
+import { DuplicateRuleService } from '@/lib/services/duplicateRuleService';
+import { PatientMatchingService, PatientMatchResult } from '@/lib/services/patientMatchingService';
+import { MatchReviewService } from '@/lib/services/matchReviewService';
+import {
+  UploadRowService,
+  UploadRowUpdate,
+  ShippingRowUpdate,
+  DoctorApprovalRowUpdate
+} from '@/lib/services/uploadRowService';
+import { UploadRowProcessor, RowOutcome, RowProcessingContext } from '@/lib/services/uploadRowProcessor';
+import { UploadPreviewService, PlannedRow } from '@/lib/services/uploadPreviewService';
+import { UploadErrorReport, UploadRowError } from '@/lib/services/uploadErrorReport';
+import { parseMBI } from '@/lib/utils/mbi';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
 
 export interface ProcessingResult {
   succeeded: number;
   failed: number;
-  errors: string[];
+  // Row errors and warnings, by line in the source file - the queue attaches the row values
+  errors: UploadRowError[];
+  // Rows left in the match review queue - neither applied nor failed
+  queuedForReview?: number;
   data?: any;
 }
 
+type RowProcessor = (row: Record<string, unknown>, context: RowProcessingContext) => Promise<RowOutcome>;
+
+function joinName(firstName?: string, lastName?: string): string | undefined {
+  const name = [firstName, lastName].filter(Boolean).join(' ').trim();
+  return name || undefined;
+}
+
 export class BatchProcessor {
-  // Process a single chunk for shipping report uploads
-  static async processShippingReportChunk(
-    chunk: any[],
-    batchJobId: string
-  ): Promise<ProcessingResult> {
-    let succeeded = 0;
-    let failed = 0;
-    const errors: string[] = [];
-
-    try {
-      // Process each row in the chunk
-      for (const row of chunk) {
-        try {
-          // Extract shipping data from row
-          const shippingData = this.extractShippingData(row);
-          
-          if (!shippingData) {
-            failed++;
-            errors.push(`Row ${chunk.indexOf(row) + 1}: Missing required shipping data`);
-            continue;
-          }
+  // Shipping report row: mark the matched order shipped
+  private static async processShippingReportRow(row: any, context: RowProcessingContext): Promise<RowOutcome> {
+    // Extract shipping data from row
+    const shippingData = this.extractShippingData(row);
 
-          // Find matching lead using multiple strategies
-          const lead = await this.findMatchingLead(shippingData);
-          
-          if (!lead) {
-            failed++;
-            errors.push(`Row ${chunk.indexOf(row) + 1}: No matching lead found for ${shippingData.name || shippingData.trackingNumber}`);
-            continue;
-          }
+    if (!shippingData) {
+      return { outcome: 'ERROR', code: 'MISSING_FIELDS', error: 'Missing required shipping data' };
+    }
 
-          // Update lead with shipping information
-          await this.updateLeadWithShipping(lead.id, shippingData);
-          succeeded++;
+    const update: ShippingRowUpdate = {
+      trackingNumber: shippingData.trackingNumber,
+      kitShippedDate: new Date().toISOString()
+    };
 
-        } catch (error) {
-          failed++;
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          errors.push(`Row ${chunk.indexOf(row) + 1}: ${errorMessage}`);
-        }
-      }
+    // Score candidates - only a confident match is updated automatically
+    const match = await PatientMatchingService.match({
+      fullName: shippingData.name,
+      trackingNumber: shippingData.trackingNumber,
+      street: shippingData.address,
+      city: shippingData.city,
+      state: shippingData.state,
+      zipCode: shippingData.zip
+    }, {
+      // A lead already shipped with this tracking number still matches, so a replayed row is a no-op
+      isEligible: lead => LeadLifecycle.canReach(lead.status, 'SHIPPED') || UploadRowService.isShippingApplied(lead, update)
+    });
 
-      return { succeeded, failed, errors };
+    if (match.decision === 'NO_MATCH') {
+      return { outcome: 'ERROR', code: 'NO_MATCH', error: `No matching lead found for ${shippingData.name || shippingData.trackingNumber}` };
+    }
 
-    } catch (error) {
-      // If there's a chunk-level error, mark all rows as failed
-      return {
-        succeeded: 0,
-        failed: chunk.length,
-        errors: [error instanceof Error ? error.message : 'Chunk processing failed']
-      };
+    if (match.decision === 'REVIEW') {
+      return this.queueForReview('SHIPPING_REPORT', row, update, match, context);
     }
-  }
 
-  // Process a single chunk for bulk lead uploads
-  static async processBulkLeadChunk(
-    chunk: any[],
-    batchJobId: string
-  ): Promise<ProcessingResult> {
-    let succeeded = 0;
-    let failed = 0;
-    const errors: string[] = [];
-
-    try {
-      // Process each row in the chunk
-      for (const row of chunk) {
-        try {
-          // Extract lead data from row
-          const leadData = this.extractLeadData(row);
-          
-          if (!leadData) {
-            failed++;
-            errors.push(`Row ${chunk.indexOf(row) + 1}: Missing required lead data`);
-            continue;
-          }
+    if (context.dryRun) {
+      return { outcome: 'PLANNED', plan: await UploadPreviewService.planMatch('SHIPPING_REPORT', context.rowNumber, match, update) };
+    }
 
-          // Check for duplicates
-          const existingLead = await prisma.lead.findUnique({
-            where: { mbi: leadData.mbi }
-          });
+    // Update lead with shipping information
+    const { lead, alreadyApplied } = await UploadRowService.applyShipping(match.lead!, update, {
+      source: 'BATCH',
+      reason: `Shipping report batch ${context.origin.batchJobId}: ${shippingData.trackingNumber}`,
+      origin: { ...context.origin, rowNumber: context.rowNumber }
+    });
+    return { outcome: alreadyApplied ? 'UNCHANGED' : 'UPDATED', lead };
+  }
 
-          if (existingLead) {
-            failed++;
-            errors.push(`Row ${chunk.indexOf(row) + 1}: Duplicate MBI ${leadData.mbi}`);
-            continue;
-          }
+  // Bulk lead row: create a new test order unless the duplicate rules block it
+  private static async processBulkLeadRow(row: any, context: RowProcessingContext): Promise<RowOutcome> {
+    // Extract lead data from row
+    const leadData = this.extractLeadData(row);
 
-          // Create new lead
-          await prisma.lead.create({
-            data: leadData
-          });
-          succeeded++;
+    if (!leadData) {
+      return { outcome: 'ERROR', code: 'MISSING_FIELDS', error: 'Missing required lead data' };
+    }
 
-        } catch (error) {
-          failed++;
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          errors.push(`Row ${chunk.indexOf(row) + 1}: ${errorMessage}`);
-        }
-      }
+    // Check for duplicates against the configured duplicate rules
+    const eligibility = await DuplicateRuleService.evaluate(leadData.mbi, leadData.testType);
 
-      return { succeeded, failed, errors };
+    if (eligibility.status === 'BLOCKED') {
+      return { outcome: 'ERROR', code: 'DUPLICATE', error: `Duplicate MBI ${PhiEncryption.maskMBI(leadData.mbi)} - ${eligibility.message}` };
+    }
 
-    } catch (error) {
+    if (context.dryRun) {
       return {
-        succeeded: 0,
-        failed: chunk.length,
-        errors: [error instanceof Error ? error.message : 'Chunk processing failed']
+        outcome: 'PLANNED',
+        plan: UploadPreviewService.planCreate(context.rowNumber, leadData, eligibility.status === 'WARNING' ? eligibility.message : undefined)
       };
     }
+
+    // Create new test order under the patient
+    const lead = await prisma.lead.create({
+      data: await PatientService.withPatient(leadData)
+    });
+    return { outcome: 'CREATED', lead };
   }
 
-  // Process a single chunk for doctor approval uploads
-  static async processDoctorApprovalChunk(
-    chunk: any[],
-    batchJobId: string
-  ): Promise<ProcessingResult> {
-    let succeeded = 0;
-    let failed = 0;
-    const errors: string[] = [];
-
-    try {
-      for (const row of chunk) {
-        try {
-          const approvalData = this.extractApprovalData(row);
-          
-          if (!approvalData) {
-            failed++;
-            errors.push(`Row ${chunk.indexOf(row) + 1}: Missing required approval data`);
-            continue;
-          }
+  // Doctor approval row: record the decision on the matched order
+  private static async processDoctorApprovalRow(row: any, context: RowProcessingContext): Promise<RowOutcome> {
+    const approvalData = this.extractApprovalData(row);
 
-          // Find matching lead
-          const lead = await this.findLeadByMbiOrName(approvalData.mbi, approvalData.name);
-          
-          if (!lead) {
-            failed++;
-            errors.push(`Row ${chunk.indexOf(row) + 1}: No matching lead found`);
-            continue;
-          }
+    if (!approvalData) {
+      return { outcome: 'ERROR', code: 'MISSING_FIELDS', error: 'Missing required approval data' };
+    }
 
-          // Update lead with approval status
-          await this.updateLeadWithApproval(lead.id, approvalData);
-          succeeded++;
+    // Find matching lead
+    const match = await PatientMatchingService.match({
+      mbi: approvalData.mbi,
+      fullName: approvalData.name
+    });
 
-        } catch (error) {
-          failed++;
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          errors.push(`Row ${chunk.indexOf(row) + 1}: ${errorMessage}`);
-        }
-      }
+    const update: DoctorApprovalRowUpdate = {
+      approvalStatus: approvalData.status,
+      approvalDate: approvalData.approvalDate.toISOString()
+    };
 
-      return { succeeded, failed, errors };
+    if (match.decision === 'NO_MATCH') {
+      return { outcome: 'ERROR', code: 'NO_MATCH', error: 'No matching lead found' };
+    }
 
-    } catch (error) {
-      return {
-        succeeded: 0,
-        failed: chunk.length,
-        errors: [error instanceof Error ? error.message : 'Chunk processing failed']
-      };
+    if (match.decision === 'REVIEW') {
+      return this.queueForReview('DOCTOR_APPROVAL', row, update, match, context);
+    }
+
+    if (context.dryRun) {
+      return { outcome: 'PLANNED', plan: await UploadPreviewService.planMatch('DOCTOR_APPROVAL', context.rowNumber, match, update) };
     }
+
+    // Update lead with approval status
+    const { lead, warning, alreadyApplied } = await UploadRowService.applyDoctorApproval(match.lead!, update, {
+      source: 'BATCH',
+      reason: `Doctor approval batch ${context.origin.batchJobId}: ${approvalData.status}`,
+      origin: { ...context.origin, rowNumber: context.rowNumber }
+    });
+    if (alreadyApplied) return { outcome: 'UNCHANGED', lead };
+    return { outcome: 'UPDATED', lead, warning };
   }
 
   // Main processor dispatcher
+  // rowNumbers holds each row's line in the source file (the header is line 1), as read
   static async processChunk(
     uploadType: FileUploadType,
     chunk: any[],
-    batchJobId: string
+    batchJobId: string,
+    rowNumbers: number[] = chunk.map((_, i) => i + 2)
   ): Promise<ProcessingResult> {
-    switch (uploadType) {
-      case 'SHIPPING_REPORT':
-        return this.processShippingReportChunk(chunk, batchJobId);
-      case 'BULK_LEAD':
-        return this.processBulkLeadChunk(chunk, batchJobId);
-      case 'DOCTOR_APPROVAL':
-        return this.processDoctorApprovalChunk(chunk, batchJobId);
-      case 'KIT_RETURN':
-        return this.processKitReturnChunk(chunk, batchJobId);
-      case 'MASTER_DATA':
-        return this.processMasterDataChunk(chunk, batchJobId);
-      default:
-        return {
-          succeeded: 0,
-          failed: chunk.length,
-          errors: [`Unsupported upload type: ${uploadType}`]
-        };
+    const processRow = this.rowProcessor(uploadType);
+    if (!processRow) {
+      return {
+        succeeded: 0,
+        failed: chunk.length,
+        errors: chunk.map((_, i) => UploadErrorReport.entry(
+          rowNumbers[i],
+          'UNSUPPORTED_TYPE',
+          `Unsupported upload type: ${uploadType}`
+        ))
+      };
+    }
+
+    return this.processRowsWith(chunk, batchJobId, processRow, rowNumbers);
+  }
+
+  /**
+   * Plan rows without writing anything, for a dry run of a batch upload.
+   * Row numbers count the header line, as in the standalone upload routes.
+   */
+  static async planRows(
+    uploadType: FileUploadType,
+    fileName: string,
+    rows: any[],
+    rowNumbers: number[] = rows.map((_, i) => i + 2)
+  ): Promise<PlannedRow[]> {
+    const processRow = this.rowProcessor(uploadType);
+    if (!processRow) {
+      throw new Error(`Unsupported upload type: ${uploadType}`);
+    }
+
+    const planned: PlannedRow[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const rowNumber = rowNumbers[i];
+      try {
+        const result = await processRow(rows[i], { source: 'BATCH', origin: { fileName }, rowNumber, dryRun: true });
+        planned.push(result.outcome === 'PLANNED'
+          ? result.plan
+          : UploadPreviewService.planError(rowNumber, result.outcome === 'ERROR' ? result.error : `Unexpected ${result.outcome} outcome`));
+      } catch (error) {
+        planned.push(UploadPreviewService.planError(rowNumber, error instanceof Error ? error.message : 'Unknown error'));
+      }
     }
+    return planned;
   }
 
   // Helper methods for data extraction
   private static extractShippingData(row: any) {
-    // Debug logging to see what headers and data we're getting
+    // Debug logging to see what headers we're getting - row values are PHI and never logged
     console.log('🔍 DEBUG: Extracting shipping data from row:', Object.keys(row));
-    console.log('🔍 DEBUG: First row sample:', row);
     
     const trackingNumber = row.packagetrackingnumber || row.tracking_number || row.trackingnumber;
-    const name = row.shiptocompanyorname || row.name || row.patient_name;
+    // full_name / first_name / last_name are the keys a column mapping renames to
+    const name = row.shiptocompanyorname || row.full_name || row.name || row.patient_name ||
+      joinName(row.first_name, row.last_name);
     const address = row.shiptoaddress1 || row.address || row.address1;
     const city = row.shiptocityortown || row.city;
     const state = row.shiptostateprovincecounty || row.state;
     const zip = row.shiptopostalcode || row.zip || row.zipcode;
     const email = row.shiptoemailaddress || row.email;
 
-    console.log('🔍 DEBUG: Extracted values:', {
-      trackingNumber,
-      name,
-      address,
-      city,
-      state,
-      zip,
-      email
-    });
-
     if (!trackingNumber || !name) {
-      console.log('❌ DEBUG: Missing required fields - trackingNumber:', trackingNumber, 'name:', name);
+      console.log('❌ DEBUG: Missing required fields - trackingNumber:', !!trackingNumber, 'name:', !!name);
       return null;
     }
 
@@ -249,11 +251,12 @@ export class BatchProcessor {
     }
 
     return {
-      mbi,
+      // Throws InvalidMBIError, which the chunk loop records as a row error
+      mbi: parseMBI(mbi),
       firstName,
       lastName,
       phone,
-      dateOfBirth: new Date(dateOfBirth),
+      dateOfBirth: PhiEncryption.toDateOnly(dateOfBirth),
       street: row.street || row.address || '',
       city: row.city || '',
       state: row.state || '',
@@ -267,132 +270,100 @@ export class BatchProcessor {
 
   private static extractApprovalData(row: any) {
     const mbi = row.mbi || row.medicare_beneficiary_identifier;
-    const name = row.name || row.patient_name;
+    const name = row.pt_full_name || row.name || row.patient_name || joinName(row.first_name, row.last_name);
     const status = row.status || row.approval_status;
 
-    if (!mbi || !status) {
+    if (!mbi || !status || !(status.toUpperCase() in DoctorApprovalStatus)) {
       return null;
     }
 
     return {
-      mbi,
+      mbi: parseMBI(mbi),
       name,
-      status: status.toUpperCase(),
+      status: status.toUpperCase() as DoctorApprovalStatus,
       approvalDate: new Date()
     };
   }
 
-  // Helper methods for database operations
-  private static async findMatchingLead(shippingData: any) {
-    // Try multiple matching strategies
-    const strategies = [
-      // Strategy 1: Match by tracking number if lead already has one
-      () => prisma.lead.findFirst({
-        where: { trackingNumber: shippingData.trackingNumber }
-      }),
-      
-      // Strategy 2: Match by exact name
-      () => prisma.lead.findFirst({
-        where: {
-          AND: [
-            { firstName: { contains: shippingData.name.split(' ')[0], mode: 'insensitive' } },
-            { lastName: { contains: shippingData.name.split(' ').slice(-1)[0], mode: 'insensitive' } }
-          ]
-        }
-      }),
-      
-      // Strategy 3: Match by address
-      () => prisma.lead.findFirst({
-        where: {
-          AND: [
-            { city: { equals: shippingData.city, mode: 'insensitive' } },
-            { state: { equals: shippingData.state, mode: 'insensitive' } },
-            { zipCode: shippingData.zip }
-          ]
-        }
-      })
-    ];
-
-    for (const strategy of strategies) {
-      const lead = await strategy();
-      if (lead) return lead;
-    }
-
-    return null;
-  }
-
-  private static async findLeadByMbiOrName(mbi: string, name?: string) {
-    // Try MBI first
-    let lead = await prisma.lead.findUnique({
-      where: { mbi }
-    });
-
-    if (!lead && name) {
-      // Try name match
-      const nameParts = name.split(' ');
-      lead = await prisma.lead.findFirst({
-        where: {
-          AND: [
-            { firstName: { contains: nameParts[0], mode: 'insensitive' } },
-            { lastName: { contains: nameParts.slice(-1)[0], mode: 'insensitive' } }
-          ]
-        }
-      });
+  // Park a row the matcher could not decide on in the match review queue
+  private static async queueForReview(
+    uploadType: FileUploadType,
+    row: Record<string, unknown>,
+    update: UploadRowUpdate,
+    match: PatientMatchResult,
+    context: RowProcessingContext
+  ): Promise<RowOutcome> {
+    if (context.dryRun) {
+      return { outcome: 'PLANNED', plan: UploadPreviewService.planReview(context.rowNumber, match) };
     }
-
-    return lead;
+    await MatchReviewService.enqueue(uploadType, { ...context.origin, rowNumber: context.rowNumber }, row, update, match);
+    return { outcome: 'QUEUED' };
   }
 
-  private static async updateLeadWithShipping(leadId: string, shippingData: any) {
-    await prisma.lead.update({
-      where: { id: leadId },
-      data: {
-        trackingNumber: shippingData.trackingNumber,
-        status: 'SHIPPED',
-        kitShippedDate: new Date(),
-        // Assign to collections agent (simplified logic)
-        collectionsAgentId: await this.getRandomCollectionsAgent(),
-        collectionsNotes: `Shipped via UPS: ${shippingData.trackingNumber}`,
-      }
+  private static async batchOrigin(batchJobId: string) {
+    const batchJob = await prisma.batchJob.findUnique({
+      where: { id: batchJobId },
+      select: { fileName: true }
     });
+    return { batchJobId, fileName: batchJob?.fileName || batchJobId };
   }
 
-  private static async updateLeadWithApproval(leadId: string, approvalData: any) {
-    const statusMap: { [key: string]: 'APPROVED' | 'RETURNED' | 'SENT_TO_CONSULT' } = {
-      'APPROVED': 'APPROVED',
-      'DECLINED': 'RETURNED',
-      'PENDING': 'SENT_TO_CONSULT'
-    };
-
-    await prisma.lead.update({
-      where: { id: leadId },
-      data: {
-        status: statusMap[approvalData.status] || 'SENT_TO_CONSULT',
-        doctorApprovalStatus: approvalData.status,
-        doctorApprovalDate: approvalData.approvalDate,
+  // Kit return and master data rows share their row logic with the standalone upload routes
+  private static rowProcessor(uploadType: FileUploadType): RowProcessor | null {
+    switch (uploadType) {
+      case 'SHIPPING_REPORT':
+        return (row, context) => this.processShippingReportRow(row, context);
+      case 'BULK_LEAD':
+        return (row, context) => this.processBulkLeadRow(row, context);
+      case 'DOCTOR_APPROVAL':
+        return (row, context) => this.processDoctorApprovalRow(row, context);
+      case 'KIT_RETURN':
+        return (row, context) => UploadRowProcessor.processKitReturnRow(row, context);
+      case 'MASTER_DATA': {
+        // Vendors resolved so far, so each lab is looked up once per chunk
+        const vendorCache = new Map<string, string>();
+        return (row, context) => UploadRowProcessor.processMasterDataRow(row, { ...context, vendorCache });
       }
-    });
+      default:
+        return null;
+    }
   }
 
-  private static async getRandomCollectionsAgent() {
-    const collectionsAgents = await prisma.user.findMany({
-      where: { role: 'COLLECTIONS', isActive: true },
-      select: { id: true }
-    });
+  private static async processRowsWith(
+    chunk: any[],
+    batchJobId: string,
+    processRow: RowProcessor,
+    rowNumbers: number[]
+  ): Promise<ProcessingResult> {
+    let succeeded = 0;
+    let failed = 0;
+    const errors: UploadRowError[] = [];
+    let queuedForReview = 0;
+    const origin = await this.batchOrigin(batchJobId);
 
-    if (collectionsAgents.length === 0) return null;
-    
-    return collectionsAgents[Math.floor(Math.random() * collectionsAgents.length)].id;
-  }
+    for (let i = 0; i < chunk.length; i++) {
+      const rowNumber = rowNumbers[i];
+      try {
+        const result = await processRow(chunk[i], { source: 'BATCH', origin, rowNumber });
 
-  // Placeholder methods for other upload types
-  private static async processKitReturnChunk(chunk: any[], batchJobId: string): Promise<ProcessingResult> {
-    // Implementation for kit return processing
-    return { succeeded: chunk.length, failed: 0, errors: [] };
-  }
+        if (result.outcome === 'ERROR') {
+          failed++;
+          errors.push(UploadErrorReport.entry(rowNumber, result.code, result.error));
+        } else if (result.outcome === 'QUEUED') {
+          queuedForReview++;
+        } else {
+          if (result.outcome === 'UPDATED' && result.warning) {
+            errors.push(UploadErrorReport.entry(rowNumber, 'WARNING', result.warning));
+          }
+          succeeded++;
+        }
+      } catch (error) {
+        failed++;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(UploadErrorReport.entry(rowNumber, UploadErrorReport.codeFor(error), errorMessage));
+      }
+    }
 
-  private static async processMasterDataChunk(chunk: any[], batchJobId: string): Promise<ProcessingResult> {
-    // Implementation for master data processing
-    return { succeeded: chunk.length, failed: 0, errors: [] };
+    return { succeeded, failed, errors, queuedForReview };
   }
 } 
\ No newline at end of file
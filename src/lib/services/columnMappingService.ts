@@ -0,0 +1,302 @@
+import { z } from 'zod';
+import { ColumnMappingProfile, FileUploadType } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Column Mapping Service
+ * Saved header mappings for upload files. Each upload type reads a fixed set of
+ * fields; a profile says which header in a given source's export holds each one.
+ * Before rows are processed the mapped headers are renamed to the field keys the
+ * upload routes and batch chunks already read, so a new export format needs a
+ * profile rather than another alias in code. Headers without a mapping still go
+ * through the routes' built-in aliases.
+ */
+
+export interface UploadField {
+  // Header the upload code reads - mapped columns are renamed to this
+  key: string;
+  label: string;
+  required?: boolean;
+  // Headers recognised without a profile, compared ignoring case and punctuation
+  aliases: string[];
+}
+
+// uploadField -> header in the file
+export type ColumnMappings = Record<string, string>;
+
+export const UPLOAD_FIELDS: Record<FileUploadType, UploadField[]> = {
+  BULK_LEAD: [
+    { key: 'firstName', label: 'First name', required: true, aliases: ['first_name', 'fname', 'first', 'given_name', 'patient_first_name'] },
+    { key: 'lastName', label: 'Last name', required: true, aliases: ['last_name', 'lname', 'last', 'surname', 'family_name', 'patient_last_name'] },
+    { key: 'phone', label: 'Phone', required: true, aliases: ['phone_number', 'tel', 'telephone', 'mobile', 'cell', 'contact_number'] },
+    { key: 'mbi', label: 'MBI', aliases: ['medicare', 'medicare_id', 'medicare_number', 'medicare_#'] },
+    { key: 'dateOfBirth', label: 'Date of birth', aliases: ['date_of_birth', 'dob', 'birthdate', 'birth_date'] },
+    { key: 'testType', label: 'Test type', aliases: ['test_type', 'test'] },
+    { key: 'address', label: 'Street address', aliases: ['street', 'street_address', 'address1'] },
+    { key: 'city', label: 'City', aliases: ['town'] },
+    { key: 'state', label: 'State', aliases: ['province', 'st'] },
+    { key: 'zipCode', label: 'ZIP code', aliases: ['zip', 'zip_code', 'postal_code'] }
+  ],
+  SHIPPING_REPORT: [
+    { key: 'tracking_number', label: 'Tracking number', required: true, aliases: ['tracking', 'trackingnumber', 'package_tracking_number', 'shipment_id', 'tracking_id'] },
+    { key: 'full_name', label: 'Full name', aliases: ['name', 'patient_name', 'customer_name', 'ship_to_company_or_name'] },
+    { key: 'first_name', label: 'First name', aliases: ['firstname', 'fname'] },
+    { key: 'last_name', label: 'Last name', aliases: ['lastname', 'lname', 'surname'] },
+    { key: 'mbi', label: 'MBI', aliases: ['medicare_id', 'member_id'] },
+    { key: 'patient_id', label: 'Lead ID', aliases: ['lead_id', 'patientid', 'customer_id'] },
+    { key: 'phone', label: 'Phone', aliases: ['phone_number', 'tel', 'telephone'] },
+    { key: 'email', label: 'Email', aliases: ['email_address', 'ship_to_email_address'] },
+    { key: 'address', label: 'Street address', aliases: ['street', 'address1', 'ship_to_address1'] },
+    { key: 'city', label: 'City', aliases: ['town', 'city_or_town', 'ship_to_city_or_town'] },
+    { key: 'state', label: 'State', aliases: ['province', 'ship_to_state_province_county'] },
+    { key: 'zip', label: 'ZIP code', aliases: ['zipcode', 'zip_code', 'postal_code', 'ship_to_postal_code'] },
+    { key: 'dob', label: 'Date of birth', aliases: ['date_of_birth', 'birth_date'] },
+    { key: 'shipped_date', label: 'Ship date', aliases: ['ship_date', 'date_shipped', 'shipping_date'] }
+  ],
+  KIT_RETURN: [
+    { key: 'mbi', label: 'MBI', aliases: ['medicare', 'medicare_id', 'patient_id'] },
+    { key: 'firstName', label: 'First name', aliases: ['first_name', 'fname', 'first'] },
+    { key: 'lastName', label: 'Last name', aliases: ['last_name', 'lname', 'last'] },
+    { key: 'phone', label: 'Phone', aliases: ['phone_number', 'tel', 'telephone'] },
+    { key: 'trackingNumber', label: 'Tracking number', aliases: ['tracking_number', 'tracking', 'shipment_id', 'return_tracking'] },
+    { key: 'returnedDate', label: 'Return date', aliases: ['returned_date', 'return_date', 'date_returned', 'completion_date', 'completed_date'] },
+    { key: 'status', label: 'Completion status', aliases: ['completion_status', 'completed'] }
+  ],
+  DOCTOR_APPROVAL: [
+    { key: 'STATUS', label: 'Approval status', required: true, aliases: ['approval_status', 'dispo'] },
+    { key: 'DECISION', label: 'Decision / provider note', aliases: ['approval', 'approved', 'provider_note'] },
+    { key: 'MBI', label: 'MBI', aliases: ['mbi#', 'medicare_id', 'primary_policy_#'] },
+    { key: 'PT_FULL_NAME', label: 'Full name', aliases: ['patient_name', 'name'] },
+    { key: 'FIRST_NAME', label: 'First name', aliases: ['firstname', 'first_name:'] },
+    { key: 'LAST_NAME', label: 'Last name', aliases: ['lastname', 'last_name:'] },
+    { key: 'PHONE', label: 'Phone', aliases: ['phone_number'] },
+    { key: 'DATE_SEEN', label: 'Decision date', aliases: ['date', 'approval_date', 'decision_date', 'time_stamp'] }
+  ],
+  MASTER_DATA: [
+    { key: 'FIRST NAME', label: 'First name', required: true, aliases: [] },
+    { key: 'LAST NAME', label: 'Last name', required: true, aliases: [] },
+    { key: 'DOB', label: 'Date of birth', required: true, aliases: ['date_of_birth'] },
+    { key: 'PHONE NUMBER', label: 'Phone', required: true, aliases: ['phone'] },
+    { key: 'LAB', label: 'Lab', required: true, aliases: [] },
+    { key: 'ADDRESS', label: 'Street address', aliases: ['street'] },
+    { key: 'CITY', label: 'City', aliases: [] },
+    { key: 'STATE', label: 'State', aliases: [] },
+    { key: 'ZIP', label: 'ZIP code', aliases: ['zip_code'] },
+    { key: 'TEST', label: 'Test type', aliases: [] },
+    { key: 'DELIVERY STATUS', label: 'Delivery status', aliases: [] },
+    { key: 'NOTES FOR YOU', label: 'Notes', aliases: ['other'] },
+    { key: 'Completed', label: 'Completed', aliases: [] }
+  ]
+};
+
+export const columnMappingsSchema = z.record(z.string().trim().min(1));
+
+export const columnMappingProfileSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  uploadType: z.nativeEnum(FileUploadType),
+  source: z.string().trim().nullable().optional(),
+  mappings: columnMappingsSchema,
+  isActive: z.boolean().default(true)
+});
+
+export type ColumnMappingProfileInput = z.infer<typeof columnMappingProfileSchema>;
+
+export interface MappingDetection {
+  uploadType: FileUploadType;
+  fields: UploadField[];
+  // Best active profile for these headers, if any covers them
+  profile: Pick<ColumnMappingProfile, 'id' | 'name' | 'source'> | null;
+  // Profile mappings plus the fields recognised from built-in aliases
+  mappings: ColumnMappings;
+  missingRequired: string[];
+  // Headers that are neither mapped nor a known alias
+  unknownHeaders: string[];
+}
+
+export interface ResolvedMapping {
+  mappings: ColumnMappings | null;
+  profile: Pick<ColumnMappingProfile, 'id' | 'name'> | null;
+}
+
+export class ColumnMappingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ColumnMappingError';
+  }
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9#]/g, '');
+
+function findHeader(headers: string[], wanted: string): string | undefined {
+  const normalized = normalizeHeader(wanted);
+  return headers.find(header => normalizeHeader(header) === normalized);
+}
+
+export class ColumnMappingService {
+  static fieldsFor(uploadType: FileUploadType): UploadField[] {
+    return UPLOAD_FIELDS[uploadType];
+  }
+
+  static async listProfiles(uploadType?: FileUploadType): Promise<ColumnMappingProfile[]> {
+    return prisma.columnMappingProfile.findMany({
+      where: uploadType ? { uploadType } : undefined,
+      orderBy: [{ uploadType: 'asc' }, { name: 'asc' }]
+    });
+  }
+
+  static async createProfile(input: ColumnMappingProfileInput, createdById?: string): Promise<ColumnMappingProfile> {
+    this.assertKnownFields(input.uploadType, input.mappings);
+    await this.assertNameFree(input.uploadType, input.name);
+    return prisma.columnMappingProfile.create({
+      data: { ...input, source: input.source || null, createdById: createdById || null }
+    });
+  }
+
+  static async updateProfile(id: string, input: Partial<ColumnMappingProfileInput>): Promise<ColumnMappingProfile> {
+    const existing = await prisma.columnMappingProfile.findUniqueOrThrow({ where: { id } });
+    const uploadType = input.uploadType ?? existing.uploadType;
+    if (input.mappings) {
+      this.assertKnownFields(uploadType, input.mappings);
+    }
+    if (input.name !== undefined || input.uploadType !== undefined) {
+      await this.assertNameFree(uploadType, input.name ?? existing.name, id);
+    }
+    return prisma.columnMappingProfile.update({ where: { id }, data: input });
+  }
+
+  static async deleteProfile(id: string): Promise<void> {
+    await prisma.columnMappingProfile.delete({ where: { id } });
+  }
+
+  /**
+   * Pick the active profile that best fits a file's headers. A profile qualifies
+   * only when every header it maps is present; the one mapping most headers wins.
+   */
+  static async detect(uploadType: FileUploadType, headers: string[]): Promise<MappingDetection> {
+    const profiles = await prisma.columnMappingProfile.findMany({
+      where: { uploadType, isActive: true },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    let best: { profile: ColumnMappingProfile; mappings: ColumnMappings } | null = null;
+    for (const profile of profiles) {
+      const mappings = profile.mappings as ColumnMappings;
+      const mapped = Object.values(mappings);
+      if (mapped.length === 0 || !mapped.every(header => findHeader(headers, header))) continue;
+      if (!best || mapped.length > Object.keys(best.mappings).length) {
+        best = { profile, mappings };
+      }
+    }
+
+    const fields = this.fieldsFor(uploadType);
+    const mappings: ColumnMappings = {};
+    for (const field of fields) {
+      const fromProfile = best?.mappings[field.key];
+      const header = fromProfile
+        ? findHeader(headers, fromProfile)
+        : [field.key, ...field.aliases].map(alias => findHeader(headers, alias)).find(Boolean);
+      if (header) mappings[field.key] = header;
+    }
+
+    const used = new Set(Object.values(mappings));
+    return {
+      uploadType,
+      fields,
+      profile: best ? { id: best.profile.id, name: best.profile.name, source: best.profile.source } : null,
+      mappings,
+      missingRequired: fields.filter(field => field.required && !mappings[field.key]).map(field => field.key),
+      unknownHeaders: headers.filter(header => header.trim() !== '' && !used.has(header))
+    };
+  }
+
+  /**
+   * The mapping to apply to an upload: mappings sent with the upload, else the named
+   * profile, else the best detected profile. Null when the built-in aliases are enough.
+   */
+  static async resolve(
+    uploadType: FileUploadType,
+    headers: string[],
+    requested: { profileId?: string | null; mappings?: string | ColumnMappings | null }
+  ): Promise<ResolvedMapping> {
+    if (requested.mappings) {
+      let parsed: unknown = requested.mappings;
+      if (typeof parsed === 'string') {
+        try {
+          parsed = JSON.parse(parsed);
+        } catch {
+          throw new ColumnMappingError('columnMapping must be a JSON object of field to header');
+        }
+      }
+      const result = columnMappingsSchema.safeParse(parsed);
+      if (!result.success) {
+        throw new ColumnMappingError('columnMapping must be a JSON object of field to header');
+      }
+      this.assertKnownFields(uploadType, result.data);
+      return { mappings: result.data, profile: null };
+    }
+
+    if (requested.profileId) {
+      const profile = await prisma.columnMappingProfile.findUnique({ where: { id: requested.profileId } });
+      if (!profile || profile.uploadType !== uploadType) {
+        throw new ColumnMappingError(`Column mapping profile ${requested.profileId} not found for ${uploadType}`, 404);
+      }
+      return { mappings: profile.mappings as ColumnMappings, profile: { id: profile.id, name: profile.name } };
+    }
+
+    const detection = await this.detect(uploadType, headers);
+    if (!detection.profile) return { mappings: null, profile: null };
+
+    const profile = await prisma.columnMappingProfile.findUniqueOrThrow({ where: { id: detection.profile.id } });
+    return { mappings: profile.mappings as ColumnMappings, profile: { id: profile.id, name: profile.name } };
+  }
+
+  /**
+   * Rename mapped headers to their field keys. Headers are matched ignoring case and
+   * punctuation; lowerCaseKeys suits batch rows, whose headers are lower-cased on parse.
+   */
+  static applyMappings<T extends Record<string, unknown>>(
+    rows: T[],
+    mappings: ColumnMappings | null,
+    options: { lowerCaseKeys?: boolean } = {}
+  ): Record<string, any>[] {
+    if (!mappings || rows.length === 0) return rows;
+
+    const headers = Object.keys(rows[0]);
+    const renames = Object.entries(mappings)
+      .map(([field, header]) => ({
+        key: options.lowerCaseKeys ? field.toLowerCase() : field,
+        header: findHeader(headers, header)
+      }))
+      .filter((rename): rename is { key: string; header: string } => !!rename.header);
+    const renamedHeaders = new Set(renames.map(rename => rename.header));
+
+    return rows.map(row => {
+      const mapped: Record<string, any> = {};
+      for (const [header, value] of Object.entries(row)) {
+        if (!renamedHeaders.has(header)) mapped[header] = value;
+      }
+      for (const { key, header } of renames) {
+        mapped[key] = row[header];
+      }
+      return mapped;
+    });
+  }
+
+  private static assertKnownFields(uploadType: FileUploadType, mappings: ColumnMappings) {
+    const known = new Set(this.fieldsFor(uploadType).map(field => field.key));
+    const unknown = Object.keys(mappings).filter(field => !known.has(field));
+    if (unknown.length > 0) {
+      throw new ColumnMappingError(`Unknown ${uploadType} fields: ${unknown.join(', ')}`);
+    }
+  }
+
+  private static async assertNameFree(uploadType: FileUploadType, name: string, exceptId?: string): Promise<void> {
+    const clash = await prisma.columnMappingProfile.findUnique({
+      where: { uploadType_name: { uploadType, name } },
+      select: { id: true }
+    });
+    if (clash && clash.id !== exceptId) {
+      throw new ColumnMappingError(`A ${uploadType} profile named "${name}" already exists`, 409);
+    }
+  }
+}
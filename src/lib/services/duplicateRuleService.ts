@@ -0,0 +1,377 @@
+import { DuplicateRule, DuplicateRuleAction, DuplicateRuleScope, LeadStatus, TestType } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+
+/**
+ * Duplicate Rule Service
+ * Decides whether another test order may be placed for an MBI. The policy lives in
+ * the DuplicateRule table so the MBI checker, the submit endpoint, duplicate alerts
+ * and uploads all evaluate the same rules. The built-in defaults (the original
+ * hard-coded policy) apply until the table is seeded with them, the first time the
+ * rules are listed. From then on only saved rules count, and the last rule cannot
+ * be deleted, so the defaults never come back on their own; deactivating every rule
+ * turns the checks off.
+ *
+ * Every rule is checked against every existing order for the MBI:
+ *  - the rule's test type pair must match (null matches any test type)
+ *  - the existing order must be younger than windowDays (null = any age)
+ *  - appliesTo limits the rule to consulted or not-yet-consulted orders
+ * Any BLOCK match blocks the order; otherwise any WARN match returns WARNING.
+ */
+
+export type DuplicateCheckStatus = 'ALLOWED' | 'WARNING' | 'BLOCKED';
+
+export type DuplicateMatchReason = 'SAME_TEST' | 'RECENT_CONSULTATION' | 'TOO_SOON' | 'EXISTING_ORDER';
+
+// Rule fields without persistence metadata - used for defaults and simulated drafts
+export type DuplicateRuleDefinition = Pick<
+  DuplicateRule,
+  'name' | 'description' | 'existingTestType' | 'newTestType' | 'windowDays' | 'consultedStatuses' | 'appliesTo' | 'action' | 'priority' | 'isActive'
+> & { id?: string };
+
+export interface ExistingTestOrder {
+  id: string;
+  patientId: string | null;
+  firstName: string;
+  lastName: string;
+  testType: TestType | null;
+  status: LeadStatus;
+  createdAt: Date;
+  consultDate: Date | null;
+  vendor: { name: string };
+}
+
+export interface ExistingTestOrderSummary {
+  id: string;
+  testType: TestType | null;
+  submittedAt: string;
+  daysSince: number;
+  vendor: string;
+  status: string;
+  wasConsulted: boolean;
+  consultationDate: string | null;
+}
+
+export interface DuplicateRuleMatch {
+  ruleId: string | null;
+  ruleName: string;
+  action: DuplicateRuleAction;
+  reason: DuplicateMatchReason;
+  message: string;
+  leadId: string;
+  daysSince: number;
+  windowDays: number | null;
+}
+
+export interface DuplicateCheckResult {
+  status: DuplicateCheckStatus;
+  reason?: DuplicateMatchReason;
+  message: string;
+  daysSince?: number;
+  requiredWaitDays?: number;
+  patientId?: string;
+  // Matched orders when blocked or warned, otherwise every order on file
+  existingLeads: ExistingTestOrderSummary[];
+  matches: DuplicateRuleMatch[];
+}
+
+export class DuplicateRuleError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'DuplicateRuleError';
+    this.status = status;
+  }
+}
+
+export const DEFAULT_CONSULTED_STATUSES: LeadStatus[] = [
+  'SENT_TO_CONSULT', 'APPROVED', 'READY_TO_SHIP', 'SHIPPED', 'DELIVERED', 'KIT_RETURNING', 'COLLECTIONS', 'KIT_COMPLETED'
+];
+
+// Minimum gap between orders for different tests on the same patient under the default rules
+export const DEFAULT_TEST_ORDER_WAIT_DAYS = 21;
+
+export const DEFAULT_DUPLICATE_RULES: DuplicateRuleDefinition[] = [
+  ...(['IMMUNE', 'NEURO'] as TestType[]).map(testType => ({
+    name: `Same test - ${testType}`,
+    description: 'A patient may only ever hold one order per test type',
+    existingTestType: testType,
+    newTestType: testType,
+    windowDays: null,
+    consultedStatuses: DEFAULT_CONSULTED_STATUSES,
+    appliesTo: 'ALL_ORDERS' as DuplicateRuleScope,
+    action: 'BLOCK' as DuplicateRuleAction,
+    priority: 10,
+    isActive: true
+  })),
+  ...([['IMMUNE', 'NEURO'], ['NEURO', 'IMMUNE']] as [TestType, TestType][]).map(([existing, next]) => ({
+    name: `${existing} then ${next} wait`,
+    description: `Wait ${DEFAULT_TEST_ORDER_WAIT_DAYS} days after a ${existing} order before ordering ${next}`,
+    existingTestType: existing,
+    newTestType: next,
+    windowDays: DEFAULT_TEST_ORDER_WAIT_DAYS,
+    consultedStatuses: DEFAULT_CONSULTED_STATUSES,
+    appliesTo: 'ALL_ORDERS' as DuplicateRuleScope,
+    action: 'BLOCK' as DuplicateRuleAction,
+    priority: 20,
+    isActive: true
+  }))
+];
+
+export const duplicateRuleSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  description: z.string().nullable().optional(),
+  existingTestType: z.nativeEnum(TestType).nullable().default(null),
+  newTestType: z.nativeEnum(TestType).nullable().default(null),
+  windowDays: z.number().int().positive().nullable().default(null),
+  consultedStatuses: z.array(z.nativeEnum(LeadStatus)).default(DEFAULT_CONSULTED_STATUSES),
+  appliesTo: z.nativeEnum(DuplicateRuleScope).default('ALL_ORDERS'),
+  action: z.nativeEnum(DuplicateRuleAction).default('BLOCK'),
+  priority: z.number().int().min(0).default(100),
+  isActive: z.boolean().default(true)
+});
+
+export type DuplicateRuleInput = z.infer<typeof duplicateRuleSchema>;
+
+const existingOrderSelect = {
+  id: true,
+  patientId: true,
+  firstName: true,
+  lastName: true,
+  testType: true,
+  status: true,
+  createdAt: true,
+  consultDate: true,
+  vendor: { select: { name: true } }
+} as const;
+
+function daysBetween(date1: Date, date2: Date): number {
+  const timeDiff = Math.abs(date2.getTime() - date1.getTime());
+  return Math.ceil(timeDiff / (1000 * 60 * 60 * 24));
+}
+
+function describeMatch(
+  rule: DuplicateRuleDefinition,
+  existing: ExistingTestOrder,
+  testType: TestType | null,
+  consulted: boolean,
+  daysSince: number
+): { reason: DuplicateMatchReason; message: string } {
+  const existingTest = existing.testType || testType || 'a';
+  const review = rule.action === 'WARN' ? ' Review before submitting.' : '';
+
+  if (!testType || existing.testType === testType) {
+    return {
+      reason: 'SAME_TEST',
+      message: consulted
+        ? `Patient already consulted for ${existingTest} test (Status: ${existing.status}).${rule.action === 'BLOCK' ? ' Cannot submit duplicate.' : review}`
+        : `Patient already has ${existingTest} test in system.${rule.action === 'BLOCK' ? ' Cannot submit duplicate.' : review}`
+    };
+  }
+
+  if (rule.windowDays === null) {
+    return {
+      reason: 'EXISTING_ORDER',
+      message: `Patient already has ${existingTest} test in system (Status: ${existing.status}).${rule.action === 'BLOCK' ? ` ${testType} cannot be ordered for this patient.` : review}`
+    };
+  }
+
+  const wait = rule.action === 'BLOCK' ? ` Must wait ${rule.windowDays} days between different tests${consulted ? ' after consultation' : ''}.` : review;
+  return consulted
+    ? {
+        reason: 'RECENT_CONSULTATION',
+        message: `Patient was consulted for ${existingTest} test ${daysSince} days ago (Status: ${existing.status}).${wait}`
+      }
+    : {
+        reason: 'TOO_SOON',
+        message: `Patient submitted ${existingTest} test ${daysSince} days ago (Status: ${existing.status}).${wait}`
+      };
+}
+
+export class DuplicateRuleService {
+  /**
+   * Active rules in evaluation order. Falls back to the built-in defaults while the
+   * table has not been seeded yet.
+   */
+  static async getActiveRules(): Promise<DuplicateRuleDefinition[]> {
+    const rules = await prisma.duplicateRule.findMany({
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    if (rules.length === 0) return DEFAULT_DUPLICATE_RULES;
+    return rules.filter(rule => rule.isActive);
+  }
+
+  /**
+   * All saved rules for the admin screen. The defaults are written to the table on
+   * first use so admins edit real rows instead of an invisible fallback.
+   */
+  static async listRules(): Promise<DuplicateRule[]> {
+    if (await prisma.duplicateRule.count() === 0) {
+      await prisma.duplicateRule.createMany({ data: DEFAULT_DUPLICATE_RULES });
+    }
+
+    return prisma.duplicateRule.findMany({
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  static async createRule(input: DuplicateRuleInput): Promise<DuplicateRule> {
+    return prisma.duplicateRule.create({ data: input });
+  }
+
+  static async updateRule(id: string, input: Partial<DuplicateRuleInput>): Promise<DuplicateRule> {
+    return prisma.duplicateRule.update({ where: { id }, data: input });
+  }
+
+  /**
+   * Delete a rule, unless it is the last one: an empty table would bring the defaults
+   * back. Serializable so two deletes cannot each see the other's rule still there.
+   */
+  static async deleteRule(id: string): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      if (await tx.duplicateRule.count() <= 1) {
+        throw new DuplicateRuleError('The last duplicate rule cannot be deleted. Deactivate it to stop checking for duplicates.', 409);
+      }
+      await tx.duplicateRule.delete({ where: { id } });
+    }, { isolationLevel: 'Serializable' });
+  }
+
+  /**
+   * Existing orders for each MBI, most recent first. Keyed by the MBI as passed in.
+   */
+  static async loadExistingOrders(mbis: string[], excludeLeadId?: string): Promise<Map<string, ExistingTestOrder[]>> {
+    const hashToMbi = new Map(mbis.map(mbi => [PhiEncryption.blindIndex('mbi', mbi), mbi]));
+    const byMbi = new Map<string, ExistingTestOrder[]>(mbis.map(mbi => [mbi, []]));
+    if (hashToMbi.size === 0) return byMbi;
+
+    const leads = await prisma.lead.findMany({
+      where: {
+        mbiHash: { in: Array.from(hashToMbi.keys()) },
+        // Archived orders still count towards the rules; deleted ones were never valid orders
+        deletedAt: null,
+        ...(excludeLeadId ? { id: { not: excludeLeadId } } : {})
+      },
+      select: { ...existingOrderSelect, mbiHash: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    for (const { mbiHash, ...lead } of leads) {
+      const mbi = mbiHash ? hashToMbi.get(mbiHash) : undefined;
+      if (mbi) byMbi.get(mbi)!.push(lead);
+    }
+    return byMbi;
+  }
+
+  /**
+   * Check whether a new order of testType may be placed for an MBI.
+   * Without a test type every rule is treated as applying to the new order.
+   */
+  static async evaluate(
+    mbi: string,
+    testType: TestType | null,
+    options: { excludeLeadId?: string; rules?: DuplicateRuleDefinition[] } = {}
+  ): Promise<DuplicateCheckResult> {
+    const [rules, existingOrders] = await Promise.all([
+      options.rules ? Promise.resolve(options.rules) : this.getActiveRules(),
+      this.loadExistingOrders([mbi], options.excludeLeadId)
+    ]);
+
+    return this.evaluateOrders(rules, existingOrders.get(mbi) || [], testType);
+  }
+
+  /**
+   * Pure rule evaluation against orders already loaded - uploads use this to check
+   * a whole file (including earlier rows of the same file) with one query.
+   */
+  static evaluateOrders(
+    rules: DuplicateRuleDefinition[],
+    existingOrders: ExistingTestOrder[],
+    testType: TestType | null,
+    now: Date = new Date()
+  ): DuplicateCheckResult {
+    const consultedFor = (rule: DuplicateRuleDefinition, order: ExistingTestOrder) => rule.consultedStatuses.includes(order.status);
+    const summarize = (order: ExistingTestOrder): ExistingTestOrderSummary => ({
+      id: order.id,
+      testType: order.testType,
+      submittedAt: order.createdAt.toISOString(),
+      daysSince: daysBetween(order.createdAt, now),
+      vendor: order.vendor.name,
+      status: order.status,
+      wasConsulted: DEFAULT_CONSULTED_STATUSES.includes(order.status),
+      consultationDate: order.consultDate?.toISOString() || null
+    });
+
+    const patientId = existingOrders.find(order => order.patientId)?.patientId || undefined;
+
+    if (existingOrders.length === 0) {
+      return {
+        status: 'ALLOWED',
+        message: 'MBI is available for this test type',
+        existingLeads: [],
+        matches: []
+      };
+    }
+
+    const activeRules = rules
+      .filter(rule => rule.isActive)
+      .sort((a, b) => a.priority - b.priority);
+
+    const matches: DuplicateRuleMatch[] = [];
+    for (const rule of activeRules) {
+      for (const existing of existingOrders) {
+        if (rule.existingTestType && existing.testType !== rule.existingTestType) continue;
+        if (rule.newTestType && testType && testType !== rule.newTestType) continue;
+
+        const daysSince = daysBetween(existing.createdAt, now);
+        if (rule.windowDays !== null && daysSince >= rule.windowDays) continue;
+
+        const consulted = consultedFor(rule, existing);
+        if (rule.appliesTo === 'CONSULTED_ONLY' && !consulted) continue;
+        if (rule.appliesTo === 'NOT_CONSULTED_ONLY' && consulted) continue;
+
+        matches.push({
+          ruleId: rule.id || null,
+          ruleName: rule.name,
+          action: rule.action,
+          ...describeMatch(rule, existing, testType, consulted, daysSince),
+          leadId: existing.id,
+          daysSince,
+          windowDays: rule.windowDays
+        });
+      }
+    }
+
+    const primary = matches.find(match => match.action === 'BLOCK') || matches[0];
+
+    if (!primary) {
+      const mostRecent = existingOrders[0];
+      const daysSinceMostRecent = daysBetween(mostRecent.createdAt, now);
+      return {
+        status: 'ALLOWED',
+        message: DEFAULT_CONSULTED_STATUSES.includes(mostRecent.status)
+          ? `Available for ${testType} test (previous ${mostRecent.testType} consultation was ${daysSinceMostRecent} days ago)`
+          : `Available for ${testType} test (previous ${mostRecent.testType} test was ${daysSinceMostRecent} days ago)`,
+        patientId,
+        existingLeads: existingOrders.map(summarize),
+        matches
+      };
+    }
+
+    // Primary match first so callers can report existingLeads[0]
+    const matchedIds = Array.from(new Set([primary.leadId, ...matches.map(match => match.leadId)]));
+
+    return {
+      status: primary.action === 'BLOCK' ? 'BLOCKED' : 'WARNING',
+      reason: primary.reason,
+      message: primary.message,
+      daysSince: primary.windowDays !== null ? primary.daysSince : undefined,
+      requiredWaitDays: primary.windowDays ?? undefined,
+      patientId,
+      existingLeads: matchedIds.map(id => summarize(existingOrders.find(order => order.id === id)!)),
+      matches
+    };
+  }
+}
@@ -0,0 +1,430 @@
+import Papa from 'papaparse';
+import { Carrier, Lead, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { LeadLifecycle } from '@/lib/services/leadLifecycle';
+import { ShippingLabelService } from '@/lib/services/shippingLabelService';
+import { LabelFormat } from '@/lib/shipping/shippingCarrier';
+import { carrierForLead, getCarrier, shipWithReturn, ShipmentResult } from '@/lib/shipping/carriers';
+import { LabelSheet, LabelSheetError, SHEET_LABEL_FORMATS } from '@/lib/shipping/labelSheet';
+
+/**
+ * Kit Shipment Service
+ * Ships an APPROVED lead's test kit: creates the outbound and return labels with the
+ * lead's carrier, moves the lead to SHIPPED, stores the labels for reprinting, and
+ * records the label-created tracking events and the collections alert. shipMany
+ * ships a morning's run for the warehouse: a few labels at a time per carrier, so no
+ * carrier's rate limit is hit, with every label on one printable sheet and a packing
+ * manifest listing each kit. One lead failing does not stop the run.
+ */
+
+export class KitShipmentError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'KitShipmentError';
+    this.status = status;
+  }
+}
+
+export type ShippableLead = Prisma.LeadGetPayload<{ include: { vendor: { select: { shippingCarrier: true } } } }>;
+
+export interface KitShipment {
+  lead: Lead;
+  shipment: ShipmentResult;
+}
+
+export interface ReadyToShipFilter {
+  vendorCode?: string;
+  // Carrier the kit would ship with - see carrierForLead
+  carrier?: Carrier;
+  // Approved by the doctor on or before
+  approvedBefore?: Date;
+  limit?: number;
+}
+
+export interface BulkShipmentEntry {
+  leadId: string;
+  success: boolean;
+  carrier?: Carrier;
+  trackingNumber?: string;
+  returnTrackingNumber?: string;
+  // Pages of the label sheet holding the kit's labels, outbound first
+  labelPages?: number[];
+  // Why a shipped kit's labels are not on the sheet
+  labelSheetError?: string;
+  error?: string;
+}
+
+export interface BulkShipmentResult {
+  results: BulkShipmentEntry[];
+  shipped: number;
+  failed: number;
+  // PDF of every label, or null when nothing shipped or the sheet could not be built
+  labelSheet: Buffer | null;
+  manifestCsv: string;
+}
+
+// Most leads one run ships. Each kit is two carrier calls made while the request waits,
+// so a run has to finish well inside the route's time limit, rate-limit retries included
+export const MAX_BULK_SHIPMENT = 20;
+
+// Labels in flight at once per carrier, kept under each carrier's API rate limit
+const CARRIER_CONCURRENCY: Record<Carrier, number> = {
+  UPS: 4,
+  USPS: 2,
+  FEDEX: 3
+};
+
+// A label the carrier turned away as rate limited (429) is tried again after a pause
+// that doubles each time
+const RATE_LIMIT_ATTEMPTS = 4;
+const RATE_LIMIT_BACKOFF_MS = 2000;
+
+const MANIFEST_COLUMNS = [
+  'lead_id', 'patient_name', 'street', 'city', 'state', 'zip_code', 'vendor_code',
+  'carrier', 'tracking_number', 'return_tracking_number', 'label_pages', 'result', 'error'
+];
+
+const withVendor = { vendor: { select: { shippingCarrier: true } } } as const;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class KitShipmentService {
+  /**
+   * Ship one lead's kit. Throws KitShipmentError when the lead cannot ship or the
+   * carrier refuses the label, and InvalidLeadTransitionError when another request
+   * moved the lead first.
+   */
+  static async ship(leadId: string, actorId?: string, labelFormats?: LabelFormat[]): Promise<KitShipment> {
+    const lead = await prisma.lead.findUnique({ where: { id: leadId }, include: withVendor });
+    if (!lead) {
+      throw new KitShipmentError('Lead not found', 404);
+    }
+    return this.shipLead(lead, actorId, labelFormats);
+  }
+
+  // APPROVED leads without a tracking number, longest approved first
+  static async readyToShip(filter: ReadyToShipFilter = {}): Promise<ShippableLead[]> {
+    const leads = await prisma.lead.findMany({
+      where: {
+        status: 'APPROVED',
+        trackingNumber: null,
+        ...(filter.vendorCode ? { vendorCode: filter.vendorCode } : {}),
+        ...(filter.approvedBefore ? { doctorApprovalDate: { lte: filter.approvedBefore } } : {})
+      },
+      include: withVendor,
+      orderBy: { doctorApprovalDate: 'asc' },
+      // The carrier is worked out per lead, so a carrier filter is applied after reading
+      take: filter.carrier ? undefined : filter.limit
+    });
+
+    const matching = filter.carrier ? leads.filter(lead => carrierForLead(lead) === filter.carrier) : leads;
+    return filter.limit ? matching.slice(0, filter.limit) : matching;
+  }
+
+  /**
+   * Ship each lead, in parallel across carriers and CARRIER_CONCURRENCY at a time
+   * within one. Results come back in the order the leads were given; labels go on the
+   * sheet in that order too, each kit's outbound label followed by its return label.
+   */
+  static async shipMany(leadsOrIds: (string | ShippableLead)[], actorId?: string): Promise<BulkShipmentResult> {
+    const ids = leadsOrIds.map(lead => typeof lead === 'string' ? lead : lead.id);
+    const given = leadsOrIds.filter((lead): lead is ShippableLead => typeof lead !== 'string');
+    const missing = ids.filter(id => !given.some(lead => lead.id === id));
+    const loaded = missing.length > 0
+      ? await prisma.lead.findMany({ where: { id: { in: missing } }, include: withVendor })
+      : [];
+    const leads = new Map([...given, ...loaded].map(lead => [lead.id, lead]));
+
+    const byCarrier = new Map<Carrier, ShippableLead[]>();
+    const outcomes = new Map<string, KitShipment | Error>();
+    for (const id of new Set(ids)) {
+      const lead = leads.get(id);
+      if (!lead) {
+        outcomes.set(id, new KitShipmentError('Lead not found', 404));
+        continue;
+      }
+      try {
+        const carrier = carrierForLead(lead);
+        byCarrier.set(carrier, [...(byCarrier.get(carrier) || []), lead]);
+      } catch (error) {
+        outcomes.set(id, error instanceof Error ? error : new Error('Unknown error'));
+      }
+    }
+
+    await Promise.all(Array.from(byCarrier.entries()).map(([carrier, carrierLeads]) =>
+      this.inPool(carrierLeads, CARRIER_CONCURRENCY[carrier], async lead => {
+        try {
+          outcomes.set(lead.id, await this.shipLead(lead, actorId, SHEET_LABEL_FORMATS));
+        } catch (error) {
+          outcomes.set(lead.id, error instanceof Error ? error : new Error('Unknown error'));
+        }
+      })
+    ));
+
+    const sheet = new LabelSheet();
+    const results: BulkShipmentEntry[] = [];
+    for (const leadId of Array.from(new Set(ids))) {
+      const outcome = outcomes.get(leadId)!;
+      if (outcome instanceof Error) {
+        results.push({ leadId, success: false, error: outcome.message });
+        continue;
+      }
+
+      const { shipment } = outcome;
+      const entry: BulkShipmentEntry = {
+        leadId,
+        success: true,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        returnTrackingNumber: shipment.returnTrackingNumber,
+        labelPages: []
+      };
+      for (const label of [shipment.label, shipment.returnLabel]) {
+        if (!label?.labelImage) continue;
+        // The kit has shipped either way - a label that will not go on the sheet is only noted
+        try {
+          entry.labelPages!.push(await sheet.add({ image: label.labelImage, format: label.labelFormat }));
+        } catch (error) {
+          if (!(error instanceof LabelSheetError)) {
+            console.error(`❌ Could not add a label of lead ${leadId} to the label sheet:`, error);
+          }
+          entry.labelSheetError = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+      results.push(entry);
+    }
+
+    let labelSheet: Buffer | null = null;
+    if (sheet.pageCount > 0) {
+      try {
+        labelSheet = await sheet.toBuffer();
+      } catch (error) {
+        // The results and manifest still go back - without them the shipped kits' tracking numbers are lost
+        console.error('❌ Could not build the label sheet:', error);
+        const message = `Label sheet could not be built: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        for (const entry of results) {
+          if (!entry.labelPages?.length) continue;
+          entry.labelPages = [];
+          entry.labelSheetError = message;
+        }
+      }
+    }
+
+    const shipped = results.filter(result => result.success).length;
+    console.log(`📦 Bulk shipment: ${shipped} of ${results.length} kits shipped, ${labelSheet ? sheet.pageCount : 0} label pages`);
+
+    return {
+      results,
+      shipped,
+      failed: results.length - shipped,
+      labelSheet,
+      manifestCsv: this.manifestCsv(results, leads)
+    };
+  }
+
+  /**
+   * Packing manifest: one row per lead in the run, in label sheet order, with where
+   * the kit goes, its tracking numbers and the sheet pages holding its labels.
+   * Failed leads are listed with the reason so they can be followed up.
+   */
+  static manifestCsv(results: BulkShipmentEntry[], leads: Map<string, Pick<Lead, 'firstName' | 'lastName' | 'street' | 'city' | 'state' | 'zipCode' | 'vendorCode'>>): string {
+    return Papa.unparse({
+      fields: MANIFEST_COLUMNS,
+      data: results.map(result => {
+        const lead = leads.get(result.leadId);
+        return [
+          result.leadId,
+          lead ? `${lead.firstName} ${lead.lastName}` : '',
+          lead?.street ?? '',
+          lead?.city ?? '',
+          lead?.state ?? '',
+          lead?.zipCode ?? '',
+          lead?.vendorCode ?? '',
+          result.carrier ?? '',
+          result.trackingNumber ?? '',
+          result.returnTrackingNumber ?? '',
+          result.labelPages?.join(' ') ?? '',
+          result.success ? 'SHIPPED' : 'FAILED',
+          result.error ?? result.labelSheetError ?? ''
+        ];
+      })
+    });
+  }
+
+  private static async shipLead(lead: ShippableLead, actorId?: string, labelFormats?: LabelFormat[]): Promise<KitShipment> {
+    if (lead.status !== 'APPROVED') {
+      throw new KitShipmentError('Lead must be in APPROVED status to ship', 400);
+    }
+    if (lead.trackingNumber) {
+      throw new KitShipmentError('Lead already has a tracking number', 400);
+    }
+
+    const carrier = carrierForLead(lead);
+    const carrierName = getCarrier(carrier).name;
+    console.log(`🚚 Shipping approved lead with ${carrierName}:`, lead.id);
+
+    // Create the shipping label and the return label
+    const shipment = await this.createLabels(carrier, {
+      leadId: lead.id,
+      recipient: {
+        name: `${lead.firstName} ${lead.lastName}`,
+        address: {
+          street: lead.street,
+          city: lead.city,
+          state: lead.state,
+          zipCode: lead.zipCode
+        },
+        phone: lead.phone
+      },
+      package: {
+        weight: '1.0',
+        dimensions: '12x8x4',
+        description: 'Medical Test Kit'
+      },
+      labelFormats
+    });
+
+    if (!shipment.success) {
+      console.error('❌ Shipping label creation failed:', shipment.error);
+      throw new KitShipmentError(`Shipping failed: ${shipment.error}`, 500);
+    }
+
+    const shippedAt = new Date();
+    const notes = `📦 SHIPPED (${carrierName}): ${shippedAt.toISOString()}\nTracking: ${shipment.trackingNumber}\nReturn Tracking: ${shipment.returnTrackingNumber}`;
+
+    // Update lead with shipping information
+    let updatedLead: Lead;
+    try {
+      ({ lead: updatedLead } = await LeadLifecycle.transition(lead, 'SHIPPED', {
+        source: 'SHIPPING',
+        actorId,
+        reason: `${carrierName} label created: ${shipment.trackingNumber}`
+      }, {
+        shippingCarrier: carrier,
+        trackingNumber: shipment.trackingNumber,
+        inboundTrackingNumber: shipment.returnTrackingNumber,
+        kitShippedDate: shippedAt,
+        lastTrackingUpdate: shippedAt,
+        collectionsNotes: lead.collectionsNotes ? `${lead.collectionsNotes}\n\n${notes}` : notes
+      }));
+    } catch (error) {
+      // Another request shipped or moved the lead first - its labels are the ones in use
+      await this.voidLabels(carrier, shipment);
+      throw error;
+    }
+
+    // Keep the labels for reprinting - the kit has shipped either way
+    try {
+      await ShippingLabelService.store(lead.id, shipment);
+    } catch (error) {
+      console.error(`❌ Could not store the labels for lead ${lead.id}:`, error);
+    }
+
+    // The lead is SHIPPED from here on - a failed write below is logged, never reported as a failed shipment
+    try {
+      await this.recordLabelEvents(lead.id, carrier, shipment, shippedAt);
+    } catch (error) {
+      console.error(`❌ Could not record the label tracking events for lead ${lead.id}:`, error);
+    }
+
+    // Create notification alert for collections team
+    try {
+      await prisma.leadAlert.create({
+        data: {
+          type: 'DATA_QUALITY',
+          severity: 'MEDIUM',
+          message: `Test kit shipped to ${lead.firstName} ${lead.lastName}. Tracking: ${shipment.trackingNumber}`,
+          leadId: lead.id,
+          isAcknowledged: false
+        }
+      });
+    } catch (error) {
+      console.error(`❌ Could not create the shipped alert for lead ${lead.id}:`, error);
+    }
+
+    console.log('✅ Lead shipped successfully:', {
+      leadId: lead.id,
+      patientName: `${lead.firstName} ${lead.lastName}`,
+      trackingNumber: shipment.trackingNumber,
+      returnTrackingNumber: shipment.returnTrackingNumber
+    });
+
+    return { lead: updatedLead, shipment };
+  }
+
+  // The LABEL_CREATED events that start the outbound and return tracking history
+  private static async recordLabelEvents(leadId: string, carrier: Carrier, shipment: ShipmentResult, shippedAt: Date): Promise<void> {
+    // Create initial tracking event
+    await prisma.trackingEvent.create({
+      data: {
+        leadId,
+        trackingNumber: shipment.trackingNumber!,
+        eventType: 'OUTBOUND',
+        carrier,
+        activityType: 'S',
+        activityCode: 'SH',
+        status: 'LABEL_CREATED',
+        description: 'SHIPPED - Label Created',
+        location: 'Atlanta, GA 30309',
+        eventDate: shippedAt,
+        eventTime: shippedAt.toISOString().substring(11, 19),
+        occurredAt: shippedAt
+      }
+    });
+
+    // Create return tracking event
+    if (shipment.returnTrackingNumber) {
+      await prisma.trackingEvent.create({
+        data: {
+          leadId,
+          trackingNumber: shipment.returnTrackingNumber,
+          eventType: 'INBOUND',
+          carrier,
+          activityType: 'S',
+          activityCode: 'RT',
+          status: 'LABEL_CREATED',
+          description: 'RETURN LABEL CREATED',
+          location: 'Atlanta, GA 30309',
+          eventDate: shippedAt,
+          eventTime: shippedAt.toISOString().substring(11, 19),
+          occurredAt: shippedAt
+        }
+      });
+    }
+  }
+
+  private static async createLabels(carrier: Carrier, request: Parameters<typeof shipWithReturn>[1]): Promise<ShipmentResult> {
+    for (let attempt = 1; ; attempt++) {
+      const shipment = await shipWithReturn(carrier, request);
+      if (shipment.success || shipment.status !== 429 || attempt === RATE_LIMIT_ATTEMPTS) {
+        return shipment;
+      }
+      const delay = RATE_LIMIT_BACKOFF_MS * 2 ** (attempt - 1);
+      console.warn(`⏳ ${carrier} rate limited the label for lead ${request.leadId} - retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+
+  private static async voidLabels(carrier: Carrier, shipment: ShipmentResult) {
+    for (const trackingNumber of [shipment.trackingNumber, shipment.returnTrackingNumber]) {
+      if (!trackingNumber) continue;
+      const result = await getCarrier(carrier).voidLabel(trackingNumber);
+      if (!result.success) {
+        console.warn(`⚠️ Could not void unused ${carrier} label ${trackingNumber}:`, result.error);
+      }
+    }
+  }
+
+  // Run `work` over the items with at most `limit` running at once
+  private static async inPool<T>(items: T[], limit: number, work: (item: T) => Promise<void>) {
+    let next = 0;
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+      while (next < items.length) {
+        await work(items[next++]);
+      }
+    });
+    await Promise.all(workers);
+  }
+}
@@ -0,0 +1,260 @@
+import { Lead, LeadStatus, LeadStatusChangeSource, Prisma } from '@prisma/client';
+import { prisma, TransactionClient } from '@/lib/prisma';
+
+/**
+ * Lead Lifecycle Service
+ * Single source of truth for lead status transitions. Every writer that
+ * changes Lead.status (UI, UPS webhook, uploads, batch jobs, shipping) must
+ * go through LeadLifecycle.transition instead of updating the column directly.
+ * Each transition is recorded in LeadStatusChange for the lead timeline.
+ */
+
+export type LeadTransitionSource = LeadStatusChangeSource;
+
+export interface LeadTransitionContext {
+  source: LeadTransitionSource;
+  actorId?: string | null;
+  reason?: string;
+  // Walk through intermediate statuses when the target is further down the pipeline
+  autoProgress?: boolean;
+}
+
+export interface LeadTransitionResult {
+  lead: Lead;
+  from: LeadStatus;
+  to: LeadStatus;
+  path: LeadStatus[];
+  changed: boolean;
+}
+
+// Fields a caller may write together with the status change
+export type LeadTransitionData = Omit<Prisma.LeadUncheckedUpdateManyInput, 'status'>;
+
+export class InvalidLeadTransitionError extends Error {
+  readonly from: LeadStatus;
+  readonly to: string;
+
+  constructor(from: LeadStatus, to: string, message?: string) {
+    super(message || `Illegal lead status transition: ${from} → ${to}`);
+    this.name = 'InvalidLeadTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// Legal next statuses for each status. Terminal statuses have no exits.
+const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  SUBMITTED: ['ADVOCATE_REVIEW', 'RETURNED'],
+  ADVOCATE_REVIEW: ['QUALIFIED', 'SENT_TO_CONSULT', 'RETURNED'],
+  QUALIFIED: ['ADVOCATE_REVIEW', 'SENT_TO_CONSULT', 'RETURNED'],
+  SENT_TO_CONSULT: ['APPROVED', 'RETURNED'],
+  APPROVED: ['READY_TO_SHIP', 'SHIPPED', 'RETURNED'],
+  READY_TO_SHIP: ['SHIPPED', 'RETURNED'],
+  SHIPPED: ['DELIVERED', 'KIT_RETURNING', 'COLLECTIONS', 'KIT_COMPLETED'],
+  DELIVERED: ['KIT_RETURNING', 'COLLECTIONS', 'KIT_COMPLETED'],
+  KIT_RETURNING: ['COLLECTIONS', 'KIT_COMPLETED'],
+  COLLECTIONS: ['KIT_RETURNING', 'KIT_COMPLETED'],
+  KIT_COMPLETED: [],
+  RETURNED: [],
+};
+
+export class LeadLifecycle {
+  static isLeadStatus(value: string): value is LeadStatus {
+    return Object.prototype.hasOwnProperty.call(LEAD_STATUS_TRANSITIONS, value);
+  }
+
+  static allowedTransitions(from: LeadStatus): LeadStatus[] {
+    return [...LEAD_STATUS_TRANSITIONS[from]];
+  }
+
+  static isTerminal(status: LeadStatus): boolean {
+    return LEAD_STATUS_TRANSITIONS[status].length === 0;
+  }
+
+  /**
+   * Check a direct transition. Staying in the same status is always allowed.
+   */
+  static canTransition(from: LeadStatus, to: string): boolean {
+    if (!this.isLeadStatus(to)) return false;
+    return from === to || LEAD_STATUS_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Resolve the statuses a lead passes through to reach `to`, ending with `to`.
+   * Returns an empty path when the lead is already in the target status.
+   * With autoProgress, the shortest chain of legal transitions is used;
+   * otherwise only a direct transition is accepted.
+   */
+  static planTransition(from: LeadStatus, to: string, autoProgress: boolean = false): LeadStatus[] {
+    if (!this.isLeadStatus(to)) {
+      throw new InvalidLeadTransitionError(from, to, `Unknown lead status: ${to}`);
+    }
+
+    if (from === to) return [];
+
+    if (LEAD_STATUS_TRANSITIONS[from].includes(to)) return [to];
+
+    if (autoProgress) {
+      // Breadth-first search so the shortest legal chain wins
+      const previous = new Map<LeadStatus, LeadStatus>();
+      const queue: LeadStatus[] = [from];
+      const visited = new Set<LeadStatus>([from]);
+
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const next of LEAD_STATUS_TRANSITIONS[current]) {
+          if (visited.has(next)) continue;
+          visited.add(next);
+          previous.set(next, current);
+
+          if (next === to) {
+            const path: LeadStatus[] = [to];
+            let step = previous.get(to)!;
+            while (step !== from) {
+              path.unshift(step);
+              step = previous.get(step)!;
+            }
+            return path;
+          }
+
+          queue.push(next);
+        }
+      }
+    }
+
+    throw new InvalidLeadTransitionError(from, to);
+  }
+
+  /**
+   * Whether a lead in `from` can be moved to `to`, walking intermediate statuses if needed
+   */
+  static canReach(from: LeadStatus, to: string): boolean {
+    try {
+      this.planTransition(from, to, true);
+      return true;
+    } catch (error) {
+      if (error instanceof InvalidLeadTransitionError) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Move a lead to a new status, writing any accompanying field updates and the
+   * status history in one transaction. The update is guarded on the status that
+   * was validated so a concurrent writer cannot slip an illegal transition in between.
+   */
+  static async transition(
+    leadOrId: string | Pick<Lead, 'id' | 'status'>,
+    to: string,
+    context: LeadTransitionContext,
+    data: LeadTransitionData = {}
+  ): Promise<LeadTransitionResult> {
+    const current = typeof leadOrId === 'string'
+      ? await prisma.lead.findUnique({ where: { id: leadOrId }, select: { id: true, status: true } })
+      : leadOrId;
+
+    if (!current) {
+      throw new Error('Lead not found');
+    }
+
+    const path = this.planTransition(current.status, to, context.autoProgress);
+    const target = to as LeadStatus;
+
+    await prisma.$transaction(async (tx) => {
+      const result = await tx.lead.updateMany({
+        where: { id: current.id, status: current.status },
+        data: { ...data, status: target }
+      });
+
+      if (result.count === 0) {
+        throw new InvalidLeadTransitionError(
+          current.status,
+          target,
+          `Lead ${current.id} is no longer in status ${current.status}; refusing to move it to ${target}`
+        );
+      }
+
+      if (path.length === 0) return;
+
+      // One history row per hop so auto-progressed steps stay visible
+      const hops = path.map((toStatus, index) => ({
+        leadId: current.id,
+        fromStatus: index === 0 ? current.status : path[index - 1],
+        toStatus,
+        source: context.source,
+        actorId: context.actorId || null,
+        reason: context.reason || null,
+        ...(path.length > 1 && { metadata: { autoProgressed: true, requested: target } })
+      }));
+
+      await tx.leadStatusChange.createMany({ data: hops });
+    });
+
+    if (path.length > 0) {
+      console.log(`🔀 Lead ${current.id} status ${[current.status, ...path].join(' → ')} (${context.source}${context.reason ? `: ${context.reason}` : ''})`);
+    }
+
+    const lead = await prisma.lead.findUniqueOrThrow({ where: { id: current.id } });
+
+    return {
+      lead,
+      from: current.status,
+      to: target,
+      path,
+      changed: path.length > 0
+    };
+  }
+
+  /**
+   * Put a lead back the way it was before a recorded change, e.g. when an upload is
+   * rolled back. This is the one move that ignores the transition table, so instead of
+   * the status it is guarded on updatedAt: it fails with InvalidLeadTransitionError if
+   * anything wrote the lead after it was read. Pass tx to revert inside a caller's transaction.
+   */
+  static async revert(
+    lead: Pick<Lead, 'id' | 'status' | 'updatedAt'>,
+    to: LeadStatus,
+    context: LeadTransitionContext,
+    data: LeadTransitionData = {},
+    tx?: TransactionClient
+  ): Promise<void> {
+    const write = async (client: TransactionClient) => {
+      const result = await client.lead.updateMany({
+        where: { id: lead.id, updatedAt: lead.updatedAt },
+        data: { ...data, status: to }
+      });
+
+      if (result.count === 0) {
+        throw new InvalidLeadTransitionError(
+          lead.status,
+          to,
+          `Lead ${lead.id} was changed after it was read; refusing to revert it`
+        );
+      }
+
+      if (lead.status === to) return;
+
+      await client.leadStatusChange.create({
+        data: {
+          leadId: lead.id,
+          fromStatus: lead.status,
+          toStatus: to,
+          source: context.source,
+          actorId: context.actorId || null,
+          reason: context.reason || null,
+          metadata: { reverted: true }
+        }
+      });
+    };
+
+    if (tx) {
+      await write(tx);
+    } else {
+      await prisma.$transaction(write);
+    }
+
+    if (lead.status !== to) {
+      console.log(`↩️ Lead ${lead.id} status ${lead.status} → ${to} reverted (${context.source}${context.reason ? `: ${context.reason}` : ''})`);
+    }
+  }
+}
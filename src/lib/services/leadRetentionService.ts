@@ -0,0 +1,154 @@
+import { Lead, LeadStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ANY_LEAD_STATE } from '@/lib/retention/softDeleteExtension';
+
+/**
+ * Lead Retention Service
+ * Leads are never hard-deleted - Medicare record-retention rules require the order
+ * and its history (alerts, tracking, status changes) to survive. Deleting a lead
+ * stamps deletedAt/deletedBy/reason, which hides it from every query. Deleted leads
+ * and closed leads untouched for LEAD_RETENTION_DAYS move to the archive tier.
+ * Both deleted and archived leads can be restored.
+ */
+
+// Days a closed or deleted lead stays in the working set before it is archived
+export const LEAD_RETENTION_DAYS = parseInt(process.env.LEAD_RETENTION_DAYS || '730', 10);
+
+// Statuses with no further work - eligible for archival once past retention
+export const CLOSED_LEAD_STATUSES: LeadStatus[] = ['KIT_COMPLETED', 'RETURNED'];
+
+export type RemovedLeadTier = 'deleted' | 'archived';
+
+export class LeadRetentionError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LeadRetentionError';
+    this.status = status;
+  }
+}
+
+export class LeadRetentionService {
+  static archiveCutoff(now: Date = new Date()): Date {
+    return new Date(now.getTime() - LEAD_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  static async softDelete(leadId: string, actorId: string, reason: string): Promise<Lead> {
+    const lead = await prisma.lead.findFirst({ where: { id: leadId, ...ANY_LEAD_STATE } });
+    if (!lead) {
+      throw new LeadRetentionError('Lead not found', 404);
+    }
+    if (lead.deletedAt) {
+      throw new LeadRetentionError('Lead is already deleted', 409);
+    }
+
+    const deleted = await prisma.lead.update({
+      where: { id: leadId, deletedAt: null },
+      data: { deletedAt: new Date(), deletedById: actorId, deletionReason: reason }
+    });
+
+    console.log(`🗑️ Lead ${leadId} soft-deleted by ${actorId}: ${reason}`);
+    return deleted;
+  }
+
+  /**
+   * Soft-delete every active lead matching the filter. Returns the number deleted.
+   */
+  static async softDeleteMany(where: Prisma.LeadWhereInput, actorId: string | null, reason: string): Promise<number> {
+    const result = await prisma.lead.updateMany({
+      where: { ...where, deletedAt: null },
+      data: { deletedAt: new Date(), deletedById: actorId, deletionReason: reason }
+    });
+
+    console.log(`🗑️ ${result.count} leads soft-deleted: ${reason}`);
+    return result.count;
+  }
+
+  /**
+   * Bring a deleted or archived lead back into the working set. The deletion
+   * reason and actor are kept as history.
+   */
+  static async restore(leadId: string, actorId: string): Promise<Lead> {
+    const lead = await prisma.lead.findFirst({ where: { id: leadId, ...ANY_LEAD_STATE } });
+    if (!lead) {
+      throw new LeadRetentionError('Lead not found', 404);
+    }
+    if (!lead.deletedAt && !lead.archivedAt) {
+      throw new LeadRetentionError('Lead is not deleted or archived', 409);
+    }
+
+    const restored = await prisma.lead.update({
+      where: { id: leadId, ...ANY_LEAD_STATE },
+      data: { deletedAt: null, archivedAt: null, restoredAt: new Date(), restoredById: actorId }
+    });
+
+    console.log(`♻️ Lead ${leadId} restored by ${actorId}${lead.archivedAt ? ' from archive' : ''}`);
+    return restored;
+  }
+
+  /**
+   * Archive deleted leads and closed leads untouched since the retention cutoff
+   */
+  static async archiveExpired(options: { dryRun?: boolean; now?: Date } = {}): Promise<{ cutoff: Date; eligible: number; archived: number }> {
+    const cutoff = this.archiveCutoff(options.now);
+    const where: Prisma.LeadWhereInput = {
+      archivedAt: null,
+      OR: [
+        { deletedAt: { lt: cutoff } },
+        { deletedAt: null, status: { in: CLOSED_LEAD_STATUSES }, updatedAt: { lt: cutoff } }
+      ]
+    };
+
+    if (options.dryRun) {
+      const eligible = await prisma.lead.count({ where });
+      return { cutoff, eligible, archived: 0 };
+    }
+
+    const result = await prisma.lead.updateMany({ where, data: { archivedAt: new Date() } });
+    console.log(`📦 Archived ${result.count} leads past the ${LEAD_RETENTION_DAYS}-day retention period`);
+    return { cutoff, eligible: result.count, archived: result.count };
+  }
+
+  static async getSummary(): Promise<{ retentionDays: number; active: number; deleted: number; archived: number; eligibleForArchive: number }> {
+    const [active, deleted, archived, { eligible }] = await Promise.all([
+      prisma.lead.count(),
+      prisma.lead.count({ where: { deletedAt: { not: null }, archivedAt: null } }),
+      prisma.lead.count({ where: { archivedAt: { not: null } } }),
+      this.archiveExpired({ dryRun: true })
+    ]);
+
+    return { retentionDays: LEAD_RETENTION_DAYS, active, deleted, archived, eligibleForArchive: eligible };
+  }
+
+  static async listRemoved(tier: RemovedLeadTier, page = 1, limit = 50) {
+    const where: Prisma.LeadWhereInput = tier === 'archived'
+      ? { archivedAt: { not: null } }
+      : { deletedAt: { not: null }, archivedAt: null };
+
+    const [leads, total] = await Promise.all([
+      prisma.lead.findMany({
+        where,
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          status: true,
+          testType: true,
+          vendorCode: true,
+          createdAt: true,
+          deletedAt: true,
+          deletionReason: true,
+          archivedAt: true,
+          deletedBy: { select: { id: true, email: true } }
+        },
+        orderBy: tier === 'archived' ? { archivedAt: 'desc' } : { deletedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.lead.count({ where })
+    ]);
+
+    return { leads, total };
+  }
+}
@@ -0,0 +1,248 @@
+import { FileUploadType, MatchReview, MatchReviewStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { MatchSignal, PatientMatchResult } from '@/lib/services/patientMatchingService';
+import { UploadRowService, UploadRowUpdate, RowApplyResult } from '@/lib/services/uploadRowService';
+
+/**
+ * Match Review Service
+ * Queue of upload rows the patient matcher would not apply on its own. Each review
+ * keeps the raw row, the update the upload would have written and the scored
+ * candidates. A reviewer confirms a candidate (or any other lead), which applies
+ * that update through UploadRowService, or discards the row.
+ */
+
+export interface MatchReviewSource {
+  fileUploadId?: string;
+  batchJobId?: string;
+  fileName: string;
+  rowNumber: number;
+}
+
+export interface StoredMatchCandidate {
+  leadId: string;
+  confidence: number;
+  eligible: boolean;
+  signals: MatchSignal[];
+}
+
+export interface MatchReviewCandidate extends StoredMatchCandidate {
+  // Null when the lead has since been deleted
+  lead: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    mbi: string;
+    dateOfBirth: string;
+    phone: string;
+    street: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    status: string;
+    testType: string | null;
+    trackingNumber: string | null;
+    createdAt: Date;
+  } | null;
+}
+
+export interface MatchReviewView extends Omit<MatchReview, 'rowData' | 'leadUpdate' | 'candidates'> {
+  rowData: Record<string, unknown>;
+  candidates: MatchReviewCandidate[];
+}
+
+export interface MatchReviewFilters {
+  status?: MatchReviewStatus;
+  uploadType?: FileUploadType;
+  page?: number;
+  limit?: number;
+}
+
+export class MatchReviewError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'MatchReviewError';
+    this.status = status;
+  }
+}
+
+const UPLOAD_LABELS: Record<FileUploadType, string> = {
+  SHIPPING_REPORT: 'Shipping report',
+  KIT_RETURN: 'Kit return report',
+  DOCTOR_APPROVAL: 'Doctor approval',
+  MASTER_DATA: 'Master data',
+  BULK_LEAD: 'Bulk lead upload'
+};
+
+const CANDIDATE_LEAD_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  mbi: true,
+  dateOfBirth: true,
+  phone: true,
+  street: true,
+  city: true,
+  state: true,
+  zipCode: true,
+  status: true,
+  testType: true,
+  trackingNumber: true,
+  createdAt: true
+} as const;
+
+export class MatchReviewService {
+  /**
+   * Queue a row for review. The raw row and pending update carry PHI, so both are
+   * stored encrypted.
+   */
+  static async enqueue(
+    uploadType: FileUploadType,
+    source: MatchReviewSource,
+    row: Record<string, unknown>,
+    update: UploadRowUpdate,
+    match: PatientMatchResult
+  ): Promise<MatchReview> {
+    const candidates: StoredMatchCandidate[] = match.candidates.map(candidate => ({
+      leadId: candidate.lead.id,
+      confidence: candidate.confidence,
+      eligible: candidate.eligible,
+      signals: candidate.signals
+    }));
+
+    const review = await prisma.matchReview.create({
+      data: {
+        uploadType,
+        fileUploadId: source.fileUploadId,
+        batchJobId: source.batchJobId,
+        fileName: source.fileName,
+        rowNumber: source.rowNumber,
+        rowData: PhiEncryption.encrypt(JSON.stringify(row)),
+        leadUpdate: PhiEncryption.encrypt(JSON.stringify(update)),
+        candidates: candidates as unknown as Prisma.InputJsonValue,
+        reviewReason: match.reviewReason,
+        summary: match.summary
+      }
+    });
+
+    console.log(`🧐 Queued ${source.fileName} row ${source.rowNumber} for match review (${match.reviewReason}): ${candidates.length} candidate(s)`);
+    return review;
+  }
+
+  static async list(filters: MatchReviewFilters = {}): Promise<{ reviews: MatchReviewView[]; total: number; pending: number }> {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(100, Math.max(1, filters.limit || 25));
+    const where: Prisma.MatchReviewWhereInput = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.uploadType && { uploadType: filters.uploadType })
+    };
+
+    const [rows, total, pending] = await Promise.all([
+      prisma.matchReview.findMany({
+        where,
+        orderBy: { createdAt: filters.status === 'PENDING' ? 'asc' : 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.matchReview.count({ where }),
+      prisma.matchReview.count({ where: { status: 'PENDING' } })
+    ]);
+
+    const leadIds = Array.from(new Set(rows.flatMap(row => this.storedCandidates(row).map(c => c.leadId))));
+    const leads = leadIds.length > 0
+      ? await prisma.lead.findMany({ where: { id: { in: leadIds } }, select: CANDIDATE_LEAD_SELECT })
+      : [];
+    const leadsById = new Map(leads.map(lead => [lead.id, lead]));
+
+    const reviews = rows.map(({ rowData, leadUpdate, candidates, ...review }) => ({
+      ...review,
+      rowData: JSON.parse(PhiEncryption.decrypt(rowData)),
+      candidates: this.storedCandidates({ candidates }).map(candidate => ({
+        ...candidate,
+        lead: leadsById.get(candidate.leadId) || null
+      }))
+    }));
+
+    return { reviews, total, pending };
+  }
+
+  /**
+   * Apply the row's update to the chosen lead. Any lead may be chosen, not only the
+   * suggested candidates.
+   */
+  static async confirm(id: string, leadId: string, actorId: string): Promise<{ review: MatchReview; result: RowApplyResult }> {
+    const review = await this.findPending(id);
+
+    const lead = await prisma.lead.findUnique({ where: { id: leadId } });
+    if (!lead) {
+      throw new MatchReviewError(`Lead ${leadId} not found`, 404);
+    }
+
+    // Claim the review first so two reviewers cannot apply the same row twice
+    const claimed = await prisma.matchReview.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'CONFIRMED', resolvedLeadId: lead.id, resolvedById: actorId, resolvedAt: new Date() }
+    });
+    if (claimed.count === 0) {
+      throw new MatchReviewError('Match review was already resolved', 409);
+    }
+
+    let result: RowApplyResult;
+    try {
+      const update = JSON.parse(PhiEncryption.decrypt(review.leadUpdate)) as UploadRowUpdate;
+      result = await UploadRowService.apply(review.uploadType, lead, update, {
+        source: 'UI',
+        actorId,
+        reason: `${UPLOAD_LABELS[review.uploadType]} ${review.fileName} row ${review.rowNumber} (confirmed in match review)`,
+        origin: { fileUploadId: review.fileUploadId, batchJobId: review.batchJobId, rowNumber: review.rowNumber }
+      });
+    } catch (error) {
+      // Nothing was written - put the row back in the queue
+      await prisma.matchReview.update({
+        where: { id },
+        data: { status: 'PENDING', resolvedLeadId: null, resolvedById: null, resolvedAt: null }
+      });
+      throw error;
+    }
+
+    if (result.warning) {
+      await prisma.matchReview.update({ where: { id }, data: { resolutionNote: result.warning } });
+    }
+
+    console.log(`✅ Match review ${id} confirmed: ${review.fileName} row ${review.rowNumber} → lead ${lead.id}`);
+    return { review: await prisma.matchReview.findUniqueOrThrow({ where: { id } }), result };
+  }
+
+  static async discard(id: string, actorId: string, note?: string): Promise<MatchReview> {
+    await this.findPending(id);
+
+    const discarded = await prisma.matchReview.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'DISCARDED', resolvedById: actorId, resolvedAt: new Date(), resolutionNote: note || null }
+    });
+    if (discarded.count === 0) {
+      throw new MatchReviewError('Match review was already resolved', 409);
+    }
+
+    const review = await prisma.matchReview.findUniqueOrThrow({ where: { id } });
+    console.log(`🗑️ Match review ${id} discarded: ${review.fileName} row ${review.rowNumber}`);
+    return review;
+  }
+
+  private static async findPending(id: string): Promise<MatchReview> {
+    const review = await prisma.matchReview.findUnique({ where: { id } });
+    if (!review) {
+      throw new MatchReviewError('Match review not found', 404);
+    }
+    if (review.status !== 'PENDING') {
+      throw new MatchReviewError(`Match review was already ${review.status.toLowerCase()}`, 409);
+    }
+    return review;
+  }
+
+  private static storedCandidates(review: Pick<MatchReview, 'candidates'>): StoredMatchCandidate[] {
+    return Array.isArray(review.candidates) ? review.candidates as unknown as StoredMatchCandidate[] : [];
+  }
+}
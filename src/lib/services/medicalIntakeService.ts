@@ -0,0 +1,227 @@
+import { FamilyHistoryMember, Patient, PatientInsurance, PatientMedication, Prisma } from '@prisma/client';
+import { prisma, TransactionClient } from '@/lib/prisma';
+
+/**
+ * Medical Intake Service
+ * Stores the intake collected by the vendor form (demographics, insurance,
+ * medical history, medications and family history) on the patient.
+ */
+
+export interface MedicalIntakeInput {
+  middleInitial?: string;
+  gender?: string;
+  ethnicity?: string;
+  maritalStatus?: string;
+  height?: string;
+  weight?: string;
+  insurance?: {
+    primaryCompany?: string;
+    primaryPolicyNumber?: string;
+  };
+  medicalHistory?: {
+    past?: string;
+    surgical?: string;
+    medications?: string;
+    conditions?: string;
+  };
+  familyHistory?: Array<{
+    relation?: string;
+    conditions?: string;
+    ageOfDiagnosis?: string;
+  }>;
+}
+
+// Shape returned to the lead detail view
+export interface MedicalIntakeResponse {
+  middleInitial?: string;
+  gender?: string;
+  ethnicity?: string;
+  maritalStatus?: string;
+  height?: string;
+  weight?: string;
+  insurance?: {
+    primaryCompany?: string;
+    primaryPolicyNumber?: string;
+  };
+  medicalHistory?: {
+    past?: string;
+    surgical?: string;
+    medications?: string;
+    conditions?: string;
+  };
+  medications: string[];
+  familyHistory: Array<{
+    relation: string;
+    conditions: string;
+    ageOfDiagnosis?: string;
+  }>;
+}
+
+type PrismaClientLike = TransactionClient | typeof prisma;
+
+type PatientWithIntake = Patient & {
+  insurances: PatientInsurance[];
+  medications: PatientMedication[];
+  familyHistory: FamilyHistoryMember[];
+};
+
+// Answers agents enter when a question does not apply
+const EMPTY_ANSWERS = ['none', 'n/a', 'na', 'no', 'nka', 'no medications', '-'];
+
+function clean(value: string | undefined | null): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+export class MedicalIntakeService {
+  /**
+   * Prisma include for loading the intake alongside a patient
+   */
+  static readonly include = {
+    insurances: true,
+    medications: { orderBy: { position: 'asc' as const } },
+    familyHistory: { orderBy: { position: 'asc' as const } }
+  };
+
+  /**
+   * Split a free-text medication answer into individual medications.
+   * Accepts commas, semicolons and new lines as separators.
+   */
+  static parseMedicationList(text: string | undefined | null): string[] {
+    const value = clean(text);
+    if (!value || EMPTY_ANSWERS.includes(value.toLowerCase())) return [];
+
+    return value
+      .split(/[,;\n]+/)
+      .map(item => item.trim())
+      .filter(item => item && !EMPTY_ANSWERS.includes(item.toLowerCase()));
+  }
+
+  /**
+   * Check whether any intake field was provided
+   */
+  static hasIntake(intake: MedicalIntakeInput): boolean {
+    const scalars = [intake.middleInitial, intake.gender, intake.ethnicity, intake.maritalStatus, intake.height, intake.weight];
+    return scalars.some(value => clean(value) !== undefined)
+      || !!(intake.insurance && (clean(intake.insurance.primaryCompany) || clean(intake.insurance.primaryPolicyNumber)))
+      || !!(intake.medicalHistory && Object.values(intake.medicalHistory).some(value => clean(value) !== undefined))
+      || !!(intake.familyHistory && intake.familyHistory.length > 0);
+  }
+
+  /**
+   * Save intake for a patient. Only provided sections are written, so a partial
+   * update (e.g. insurance only) leaves the rest of the intake untouched.
+   */
+  static async save(patientId: string, intake: MedicalIntakeInput, client: PrismaClientLike = prisma): Promise<void> {
+    const patientUpdate: Prisma.PatientUpdateInput = {};
+    if (intake.middleInitial !== undefined) patientUpdate.middleInitial = clean(intake.middleInitial) || null;
+    if (intake.gender !== undefined) patientUpdate.gender = clean(intake.gender) || null;
+    if (intake.ethnicity !== undefined) patientUpdate.ethnicity = clean(intake.ethnicity) || null;
+    if (intake.maritalStatus !== undefined) patientUpdate.maritalStatus = clean(intake.maritalStatus) || null;
+    if (intake.height !== undefined) patientUpdate.height = clean(intake.height) || null;
+    if (intake.weight !== undefined) patientUpdate.weight = clean(intake.weight) || null;
+
+    if (intake.medicalHistory) {
+      const { past, surgical, conditions } = intake.medicalHistory;
+      if (past !== undefined) patientUpdate.medicalHistory = clean(past) || null;
+      if (surgical !== undefined) patientUpdate.surgicalHistory = clean(surgical) || null;
+      if (conditions !== undefined) patientUpdate.conditionsHistory = clean(conditions) || null;
+    }
+
+    if (Object.keys(patientUpdate).length > 0) {
+      await client.patient.update({
+        where: { id: patientId },
+        data: patientUpdate
+      });
+    }
+
+    // Primary insurance record
+    if (intake.insurance) {
+      const company = clean(intake.insurance.primaryCompany);
+      const policyNumber = clean(intake.insurance.primaryPolicyNumber);
+
+      if (company || policyNumber) {
+        await client.patientInsurance.upsert({
+          where: { patientId_priority: { patientId, priority: 'PRIMARY' } },
+          create: { patientId, priority: 'PRIMARY', company: company || '', policyNumber: policyNumber || '' },
+          update: {
+            ...(company && { company }),
+            ...(policyNumber && { policyNumber })
+          }
+        });
+      }
+    }
+
+    // Medication list replaces the previous list
+    if (intake.medicalHistory?.medications !== undefined) {
+      const medications = this.parseMedicationList(intake.medicalHistory.medications);
+      await client.patientMedication.deleteMany({ where: { patientId } });
+      if (medications.length > 0) {
+        await client.patientMedication.createMany({
+          data: medications.map((name, position) => ({ patientId, name, position }))
+        });
+      }
+    }
+
+    // Family history rows replace the previous rows
+    if (intake.familyHistory) {
+      const members = intake.familyHistory
+        .map(member => ({
+          relation: clean(member.relation),
+          conditions: clean(member.conditions),
+          ageOfDiagnosis: clean(member.ageOfDiagnosis)
+        }))
+        .filter(member => member.relation || member.conditions);
+
+      await client.familyHistoryMember.deleteMany({ where: { patientId } });
+      if (members.length > 0) {
+        await client.familyHistoryMember.createMany({
+          data: members.map((member, position) => ({
+            patientId,
+            relation: member.relation || '',
+            conditions: member.conditions || '',
+            ageOfDiagnosis: member.ageOfDiagnosis || null,
+            position
+          }))
+        });
+      }
+    }
+  }
+
+  /**
+   * Convert a patient loaded with MedicalIntakeService.include into the lead detail shape
+   */
+  static format(patient: PatientWithIntake | null | undefined): MedicalIntakeResponse {
+    if (!patient) {
+      return { medications: [], familyHistory: [] };
+    }
+
+    const primaryInsurance = patient.insurances.find(insurance => insurance.priority === 'PRIMARY');
+    const medications = patient.medications.map(medication => medication.name);
+
+    return {
+      middleInitial: patient.middleInitial || undefined,
+      gender: patient.gender || undefined,
+      ethnicity: patient.ethnicity || undefined,
+      maritalStatus: patient.maritalStatus || undefined,
+      height: patient.height || undefined,
+      weight: patient.weight || undefined,
+      insurance: primaryInsurance ? {
+        primaryCompany: primaryInsurance.company,
+        primaryPolicyNumber: primaryInsurance.policyNumber
+      } : undefined,
+      medicalHistory: {
+        past: patient.medicalHistory || undefined,
+        surgical: patient.surgicalHistory || undefined,
+        medications: medications.length > 0 ? medications.join(', ') : undefined,
+        conditions: patient.conditionsHistory || undefined
+      },
+      medications,
+      familyHistory: patient.familyHistory.map(member => ({
+        relation: member.relation,
+        conditions: member.conditions,
+        ageOfDiagnosis: member.ageOfDiagnosis || undefined
+      }))
+    };
+  }
+}
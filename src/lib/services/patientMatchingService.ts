@@ -0,0 +1,418 @@
+import { Lead, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { normalizeMBI, validateMBI } from '@/lib/utils/mbi';
+
+/**
+ * Patient Matching Service
+ * Finds the test order an upload row refers to. Candidates are gathered from every
+ * identifier the row carries (MBI, lead id, tracking number, phone, DOB, last name,
+ * ZIP), then each candidate is scored field by field. Agreements add points,
+ * disagreements subtract them, and the total (0-100) is the match confidence.
+ *
+ * Only a match at or above the auto-apply threshold, clearly ahead of any other
+ * patient, is applied automatically. Anything weaker is returned for review.
+ */
+
+export type MatchField =
+  | 'leadId'
+  | 'mbi'
+  | 'trackingNumber'
+  | 'dateOfBirth'
+  | 'lastName'
+  | 'firstName'
+  | 'phone'
+  | 'street'
+  | 'zipCode'
+  | 'cityState';
+
+export interface PatientMatchCriteria {
+  leadId?: string;
+  // Invalid MBIs are ignored - callers report them as row errors
+  mbi?: string;
+  trackingNumber?: string;
+  firstName?: string;
+  lastName?: string;
+  // Used when first/last name are not separate columns ("Smith, John" or "John Smith")
+  fullName?: string;
+  dateOfBirth?: string | Date;
+  phone?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+}
+
+export interface MatchSignal {
+  field: MatchField;
+  points: number;
+  detail: string;
+}
+
+export interface MatchCandidate {
+  lead: Lead;
+  // 0-1
+  confidence: number;
+  signals: MatchSignal[];
+  eligible: boolean;
+}
+
+export type MatchDecision = 'AUTO' | 'REVIEW' | 'NO_MATCH';
+
+export interface PatientMatchResult {
+  decision: MatchDecision;
+  // Set when the decision is AUTO
+  lead?: Lead;
+  best?: MatchCandidate;
+  // Best first, at most MAX_CANDIDATES
+  candidates: MatchCandidate[];
+  // Why a candidate was not auto-applied
+  reviewReason?: 'BELOW_THRESHOLD' | 'AMBIGUOUS' | 'NOT_ELIGIBLE';
+  summary: string;
+}
+
+export interface PatientMatchOptions {
+  // Confidence needed to apply without review (default MATCH_AUTO_APPLY_THRESHOLD)
+  autoApplyThreshold?: number;
+  // Confidence below which candidates are not worth reviewing
+  reviewThreshold?: number;
+  // Orders the caller can act on, e.g. leads that can still move to SHIPPED.
+  // Ineligible orders are ranked last and never auto-applied.
+  isEligible?: (lead: Lead) => boolean;
+}
+
+export const MATCH_AUTO_APPLY_THRESHOLD = 0.8;
+export const MATCH_REVIEW_THRESHOLD = 0.4;
+// A different patient this close to the best candidate makes the match ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+const MAX_CANDIDATES = 5;
+const CANDIDATE_QUERY_LIMIT = 200;
+
+// Points for agreement / disagreement. Unique identifiers are decisive on their own;
+// name plus full address or name plus DOB and phone clears the auto-apply bar.
+const WEIGHTS: Record<MatchField, { agree: number; partial?: number; disagree: number }> = {
+  leadId: { agree: 100, disagree: 0 },
+  mbi: { agree: 90, disagree: -60 },
+  trackingNumber: { agree: 90, disagree: -10 },
+  dateOfBirth: { agree: 25, disagree: -30 },
+  lastName: { agree: 25, partial: 15, disagree: -25 },
+  firstName: { agree: 15, partial: 10, disagree: -10 },
+  phone: { agree: 30, disagree: -5 },
+  street: { agree: 30, partial: 15, disagree: -10 },
+  zipCode: { agree: 10, disagree: -5 },
+  cityState: { agree: 5, disagree: -5 }
+};
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'md', 'mr', 'mrs', 'ms', 'dr']);
+
+// Common nickname → given name pairs seen on carrier and provider files
+const NICKNAMES: Record<string, string> = {
+  bob: 'robert', rob: 'robert', bobby: 'robert', bill: 'william', will: 'william', billy: 'william',
+  jim: 'james', jimmy: 'james', mike: 'michael', dick: 'richard', rick: 'richard', tom: 'thomas',
+  tony: 'anthony', joe: 'joseph', dave: 'david', dan: 'daniel', chuck: 'charles', charlie: 'charles',
+  ed: 'edward', eddie: 'edward', ted: 'edward', larry: 'lawrence', jerry: 'gerald', ron: 'ronald',
+  don: 'donald', ken: 'kenneth', steve: 'steven', greg: 'gregory', pat: 'patricia', patty: 'patricia',
+  sue: 'susan', liz: 'elizabeth', beth: 'elizabeth', betty: 'elizabeth', peggy: 'margaret',
+  maggie: 'margaret', kathy: 'katherine', cathy: 'catherine', debbie: 'deborah', barb: 'barbara',
+  dottie: 'dorothy', jenny: 'jennifer', jen: 'jennifer', vicky: 'victoria', sandy: 'sandra'
+};
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', drive: 'dr', lane: 'ln', boulevard: 'blvd', court: 'ct',
+  circle: 'cir', place: 'pl', terrace: 'ter', highway: 'hwy', parkway: 'pkwy', apartment: 'apt',
+  suite: 'ste', north: 'n', south: 's', east: 'e', west: 'w', unit: 'apt', '#': 'apt'
+};
+
+function normalizeName(value: string | undefined | null): string {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s'-]/g, ' ')
+    .split(/\s+/)
+    .filter(part => part && !NAME_SUFFIXES.has(part))
+    .join(' ')
+    .replace(/['-]/g, '');
+}
+
+function normalizeStreet(value: string | undefined | null): string {
+  return String(value || '')
+    .toLowerCase()
+    .replace(/[.,]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => STREET_ABBREVIATIONS[part] || part)
+    .join(' ');
+}
+
+function digits(value: string | undefined | null): string {
+  return String(value || '').replace(/\D/g, '');
+}
+
+/**
+ * Jaro-Winkler similarity (0-1) - tolerant of the transpositions and dropped
+ * letters typical of hand-keyed names
+ */
+function jaroWinkler(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array(a.length).fill(false);
+  const bMatches = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+export class PatientMatchingService {
+  /**
+   * Split a single name column into first and last name
+   */
+  static parseFullName(fullName: string): { firstName: string; lastName: string } {
+    const value = fullName.trim();
+
+    if (value.includes(',')) {
+      // "Smith, John" or "Smith, John M"
+      const [lastPart, firstPart = ''] = value.split(',').map(part => part.trim());
+      return { firstName: firstPart.split(/\s+/)[0] || '', lastName: lastPart };
+    }
+
+    // "John Smith" or "John M Smith" - drop trailing suffixes like "Jr"
+    const parts = value.split(/\s+/).filter(part => !NAME_SUFFIXES.has(part.toLowerCase().replace(/\./g, '')));
+    return { firstName: parts[0] || '', lastName: parts.length > 1 ? parts[parts.length - 1] : '' };
+  }
+
+  /**
+   * Score one lead against the criteria
+   */
+  static scoreCandidate(lead: Lead, criteria: PatientMatchCriteria): { confidence: number; signals: MatchSignal[] } {
+    const signals: MatchSignal[] = [];
+    const add = (field: MatchField, outcome: 'agree' | 'partial' | 'disagree', detail: string) => {
+      const weight = WEIGHTS[field];
+      signals.push({ field, points: weight[outcome] ?? weight.agree, detail });
+    };
+
+    if (criteria.leadId && lead.id === criteria.leadId.trim()) {
+      add('leadId', 'agree', 'Lead id matches');
+    }
+
+    const mbi = validateMBI(criteria.mbi);
+    if (criteria.mbi && mbi.valid) {
+      normalizeMBI(lead.mbi) === mbi.normalized
+        ? add('mbi', 'agree', 'MBI matches')
+        : add('mbi', 'disagree', 'MBI differs');
+    }
+
+    const tracking = criteria.trackingNumber?.trim().toUpperCase();
+    if (tracking) {
+      const onFile = [lead.trackingNumber, lead.inboundTrackingNumber].filter(Boolean).map(t => t!.toUpperCase());
+      if (onFile.includes(tracking)) {
+        add('trackingNumber', 'agree', 'Tracking number matches');
+      } else if (onFile.length > 0) {
+        add('trackingNumber', 'disagree', 'Lead has a different tracking number');
+      }
+    }
+
+    if (criteria.dateOfBirth) {
+      try {
+        PhiEncryption.toDateOnly(criteria.dateOfBirth) === lead.dateOfBirth
+          ? add('dateOfBirth', 'agree', 'Date of birth matches')
+          : add('dateOfBirth', 'disagree', 'Date of birth differs');
+      } catch {
+        // Unparseable DOB in the file is no evidence either way
+      }
+    }
+
+    let { firstName, lastName } = criteria;
+    if (!firstName && !lastName && criteria.fullName) {
+      ({ firstName, lastName } = this.parseFullName(criteria.fullName));
+    }
+
+    const rowLast = normalizeName(lastName);
+    const leadLast = normalizeName(lead.lastName);
+    if (rowLast) {
+      if (rowLast === leadLast) {
+        add('lastName', 'agree', 'Last name matches');
+      } else if (jaroWinkler(rowLast, leadLast) >= 0.92) {
+        add('lastName', 'partial', `Last name similar ("${lastName}" vs "${lead.lastName}")`);
+      } else {
+        add('lastName', 'disagree', 'Last name differs');
+      }
+    }
+
+    const rowFirst = normalizeName(firstName).split(' ')[0] || '';
+    const leadFirst = normalizeName(lead.firstName).split(' ')[0] || '';
+    if (rowFirst) {
+      const canonical = (name: string) => NICKNAMES[name] || name;
+      if (rowFirst === leadFirst) {
+        add('firstName', 'agree', 'First name matches');
+      } else if (
+        canonical(rowFirst) === canonical(leadFirst) ||
+        jaroWinkler(rowFirst, leadFirst) >= 0.9 ||
+        (rowFirst.length === 1 && leadFirst.startsWith(rowFirst))
+      ) {
+        add('firstName', 'partial', `First name similar ("${firstName}" vs "${lead.firstName}")`);
+      } else {
+        add('firstName', 'disagree', 'First name differs');
+      }
+    }
+
+    const rowPhone = digits(criteria.phone).slice(-10);
+    if (rowPhone.length === 10) {
+      digits(lead.phone).slice(-10) === rowPhone
+        ? add('phone', 'agree', 'Phone matches')
+        : add('phone', 'disagree', 'Phone differs');
+    }
+
+    const rowStreet = normalizeStreet(criteria.street);
+    const leadStreet = normalizeStreet(lead.street);
+    if (rowStreet && leadStreet) {
+      const [rowNumber, ...rowRest] = rowStreet.split(' ');
+      const [leadNumber, ...leadRest] = leadStreet.split(' ');
+      if (rowStreet === leadStreet || leadStreet.startsWith(rowStreet) || rowStreet.startsWith(leadStreet)) {
+        add('street', 'agree', 'Address line matches');
+      } else if (rowNumber === leadNumber && rowRest[0] && rowRest[0] === leadRest[0]) {
+        add('street', 'partial', 'House number and street name match');
+      } else {
+        add('street', 'disagree', 'Address line differs');
+      }
+    }
+
+    const rowZip = digits(criteria.zipCode).slice(0, 5);
+    if (rowZip.length === 5) {
+      digits(lead.zipCode).slice(0, 5) === rowZip
+        ? add('zipCode', 'agree', 'ZIP matches')
+        : add('zipCode', 'disagree', 'ZIP differs');
+    }
+
+    if (criteria.city && criteria.state) {
+      const sameCity = lead.city.trim().toLowerCase() === criteria.city.trim().toLowerCase();
+      const sameState = lead.state.trim().toLowerCase() === criteria.state.trim().toLowerCase();
+      sameCity && sameState
+        ? add('cityState', 'agree', 'City and state match')
+        : add('cityState', 'disagree', 'City or state differs');
+    }
+
+    const score = signals.reduce((total, signal) => total + signal.points, 0);
+    return { confidence: Math.max(0, Math.min(100, score)) / 100, signals };
+  }
+
+  /**
+   * Gather candidates for the criteria, score them, and decide whether the best one
+   * can be applied without review
+   */
+  static async match(criteria: PatientMatchCriteria, options: PatientMatchOptions = {}): Promise<PatientMatchResult> {
+    const autoApplyThreshold = options.autoApplyThreshold ?? MATCH_AUTO_APPLY_THRESHOLD;
+    const reviewThreshold = options.reviewThreshold ?? MATCH_REVIEW_THRESHOLD;
+
+    const leads = await this.findCandidates(criteria);
+
+    const candidates: MatchCandidate[] = leads
+      .map(lead => ({
+        lead,
+        ...this.scoreCandidate(lead, criteria),
+        eligible: options.isEligible ? options.isEligible(lead) : true
+      }))
+      .filter(candidate => candidate.confidence >= reviewThreshold)
+      .sort((a, b) =>
+        b.confidence - a.confidence ||
+        Number(b.eligible) - Number(a.eligible) ||
+        b.lead.createdAt.getTime() - a.lead.createdAt.getTime()
+      );
+
+    const best = candidates[0];
+    if (!best) {
+      return { decision: 'NO_MATCH', candidates: [], summary: 'No candidate scored high enough to review' };
+    }
+
+    const describe = (candidate: MatchCandidate) =>
+      `${candidate.lead.firstName} ${candidate.lead.lastName} (${Math.round(candidate.confidence * 100)}% - ${candidate.signals.filter(s => s.points > 0).map(s => s.field).join(', ') || 'no agreeing fields'})`;
+    const top = candidates.slice(0, MAX_CANDIDATES);
+
+    // Several orders for the same patient score alike - only another patient makes it ambiguous
+    const patientKey = (lead: Lead) => lead.patientId || normalizeMBI(lead.mbi);
+    const rival = candidates.find(candidate => patientKey(candidate.lead) !== patientKey(best.lead));
+
+    // Best eligible order for the best-scoring patient
+    const chosen = candidates.find(candidate =>
+      candidate.eligible && patientKey(candidate.lead) === patientKey(best.lead) && candidate.confidence >= autoApplyThreshold
+    );
+
+    if (best.confidence < autoApplyThreshold) {
+      return { decision: 'REVIEW', best, candidates: top, reviewReason: 'BELOW_THRESHOLD', summary: `Best match ${describe(best)} is below the ${Math.round(autoApplyThreshold * 100)}% auto-apply threshold` };
+    }
+    if (rival && best.confidence - rival.confidence < AMBIGUITY_MARGIN) {
+      return { decision: 'REVIEW', best, candidates: top, reviewReason: 'AMBIGUOUS', summary: `Ambiguous match: ${describe(best)} vs ${describe(rival)}` };
+    }
+    if (!chosen) {
+      return { decision: 'REVIEW', best, candidates: top, reviewReason: 'NOT_ELIGIBLE', summary: `Matched ${describe(best)} but the order is ${best.lead.status}` };
+    }
+
+    return { decision: 'AUTO', lead: chosen.lead, best: chosen, candidates: top, summary: `Matched ${describe(chosen)}` };
+  }
+
+  // Union of every cheap lookup the criteria allow; scoring sorts them out
+  private static async findCandidates(criteria: PatientMatchCriteria): Promise<Lead[]> {
+    const or: Prisma.LeadWhereInput[] = [];
+
+    if (criteria.leadId?.trim()) or.push({ id: criteria.leadId.trim() });
+
+    const mbi = validateMBI(criteria.mbi);
+    if (criteria.mbi && mbi.valid) or.push({ mbiHash: PhiEncryption.blindIndex('mbi', mbi.normalized) });
+
+    const tracking = criteria.trackingNumber?.trim();
+    if (tracking) {
+      or.push({ trackingNumber: { equals: tracking, mode: 'insensitive' } });
+      or.push({ inboundTrackingNumber: { equals: tracking, mode: 'insensitive' } });
+    }
+
+    if (digits(criteria.phone).length >= 10) {
+      or.push({ phoneHash: PhiEncryption.blindIndex('phone', criteria.phone!) });
+    }
+
+    if (criteria.dateOfBirth) {
+      try {
+        or.push({ dateOfBirthHash: PhiEncryption.blindIndex('dateOfBirth', criteria.dateOfBirth) });
+      } catch {
+        // Unparseable DOB - other identifiers still apply
+      }
+    }
+
+    const lastName = criteria.lastName || (criteria.fullName ? this.parseFullName(criteria.fullName).lastName : '');
+    if (lastName.trim()) or.push({ lastName: { equals: lastName.trim(), mode: 'insensitive' } });
+
+    if (digits(criteria.zipCode).length >= 5 && criteria.street) {
+      or.push({ zipCodeHash: PhiEncryption.blindIndex('zipCode', criteria.zipCode!) });
+    }
+
+    if (or.length === 0) return [];
+
+    return prisma.lead.findMany({
+      where: { OR: or },
+      orderBy: { createdAt: 'desc' },
+      take: CANDIDATE_QUERY_LIMIT
+    });
+  }
+}
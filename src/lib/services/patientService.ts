@@ -0,0 +1,146 @@
+import { Patient } from '@prisma/client';
+import { prisma, TransactionClient } from '@/lib/prisma';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { normalizeMBI } from '@/lib/utils/mbi';
+
+/**
+ * Patient Service
+ * A Patient is identified by MBI and owns any number of test orders (Lead rows).
+ * Demographics live on the patient and are copied onto each of its orders.
+ */
+
+export interface PatientDemographics {
+  mbi: string;
+  firstName: string;
+  lastName: string;
+  // Stored as YYYY-MM-DD; a Date is converted on write
+  dateOfBirth: Date | string;
+  phone: string;
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+type PrismaClientLike = TransactionClient | typeof prisma;
+
+// Prisma-ready copy with the date of birth in its stored YYYY-MM-DD form
+function toPatientRecord(demographics: PatientDemographics) {
+  return {
+    mbi: demographics.mbi,
+    firstName: demographics.firstName,
+    lastName: demographics.lastName,
+    dateOfBirth: PhiEncryption.toDateOnly(demographics.dateOfBirth),
+    phone: demographics.phone,
+    street: demographics.street,
+    city: demographics.city,
+    state: demographics.state,
+    zipCode: demographics.zipCode
+  };
+}
+
+export class PatientService {
+  /**
+   * Return the patient for an MBI, creating it from the given demographics if needed.
+   * Existing patients are left untouched - demographic edits go through updateDemographics.
+   */
+  static async findOrCreate(demographics: PatientDemographics, client: PrismaClientLike = prisma): Promise<Patient> {
+    return client.patient.upsert({
+      where: { mbiHash: PhiEncryption.blindIndex('mbi', demographics.mbi) },
+      create: toPatientRecord(demographics),
+      update: {}
+    });
+  }
+
+  /**
+   * Link new test order data to its patient, creating the patient on first order.
+   * Usage: prisma.lead.create({ data: await PatientService.withPatient(leadData) })
+   */
+  static async withPatient<T extends PatientDemographics>(data: T, client: PrismaClientLike = prisma): Promise<Omit<T, 'dateOfBirth'> & { dateOfBirth: string; patientId: string }> {
+    const patient = await this.findOrCreate(data, client);
+
+    return { ...data, dateOfBirth: PhiEncryption.toDateOnly(data.dateOfBirth), patientId: patient.id };
+  }
+
+  /**
+   * Return the patient id for an existing lead, linking leads created before the
+   * patient split on first use
+   */
+  static async ensureForLead(lead: PatientDemographics & { id: string; patientId: string | null }): Promise<string> {
+    if (lead.patientId) return lead.patientId;
+
+    const { patientId } = await this.withPatient({
+      mbi: lead.mbi,
+      firstName: lead.firstName,
+      lastName: lead.lastName,
+      dateOfBirth: lead.dateOfBirth,
+      phone: lead.phone,
+      street: lead.street,
+      city: lead.city,
+      state: lead.state,
+      zipCode: lead.zipCode
+    });
+
+    await prisma.lead.update({
+      where: { id: lead.id },
+      data: { patientId }
+    });
+
+    return patientId;
+  }
+
+  /**
+   * Bulk variant of findOrCreate for uploads. Returns a map of MBI → patient id, keyed
+   * by each MBI exactly as given, so spacing, dashes and case in the input do not
+   * matter to the lookup.
+   */
+  static async ensurePatients(demographicsList: PatientDemographics[], client: PrismaClientLike = prisma): Promise<Map<string, string>> {
+    const byMbi = new Map<string, PatientDemographics>();
+    for (const demographics of demographicsList) {
+      const mbi = normalizeMBI(demographics.mbi);
+      if (mbi && !byMbi.has(mbi)) byMbi.set(mbi, demographics);
+    }
+
+    if (byMbi.size === 0) return new Map();
+
+    await client.patient.createMany({
+      data: Array.from(byMbi.values()).map(toPatientRecord),
+      skipDuplicates: true
+    });
+
+    const patients = await client.patient.findMany({
+      where: { mbiHash: { in: Array.from(byMbi.keys()).map(mbi => PhiEncryption.blindIndex('mbi', mbi)) } },
+      select: { id: true, mbi: true }
+    });
+    const byNormalizedMbi = new Map(patients.map(patient => [normalizeMBI(patient.mbi), patient.id]));
+
+    const patientIds = new Map<string, string>();
+    for (const { mbi } of demographicsList) {
+      const patientId = byNormalizedMbi.get(normalizeMBI(mbi));
+      if (patientId) patientIds.set(mbi, patientId);
+    }
+    return patientIds;
+  }
+
+  /**
+   * Update patient demographics and copy them onto every test order for the patient
+   */
+  static async updateDemographics(patientId: string, demographics: Partial<Omit<PatientDemographics, 'mbi'>>): Promise<Patient> {
+    const { dateOfBirth, ...rest } = demographics;
+    const data = dateOfBirth ? { ...rest, dateOfBirth: PhiEncryption.toDateOnly(dateOfBirth) } : rest;
+
+    return prisma.$transaction(async (tx) => {
+      const patient = await tx.patient.update({
+        where: { id: patientId },
+        data
+      });
+
+      await tx.lead.updateMany({
+        where: { patientId },
+        data
+      });
+
+      return patient;
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import { Readable } from 'stream';
+import { ShippingLabel } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ShipmentResult } from '@/lib/shipping/carriers';
+import { LabelResult } from '@/lib/shipping/shippingCarrier';
+import { getLabelStorage, labelStorageKey } from '@/lib/storage/labelStorage';
+import { TrackingDirection } from '@/lib/services/trackingEventService';
+
+/**
+ * Shipping Label Service
+ * Keeps the outbound and return labels a kit shipped with, exactly as the carrier
+ * issued them, so either can be printed again. The image goes to label storage and a
+ * ShippingLabel row links it to the lead by tracking number.
+ */
+
+export interface StoredLabel {
+  id: string;
+  direction: TrackingDirection;
+  carrier: ShippingLabel['carrier'];
+  trackingNumber: string;
+  format: string;
+  createdAt: Date;
+  // Base64, as the carrier issued it
+  labelImage: string;
+}
+
+export class ShippingLabelService {
+  /**
+   * Store the labels of a shipment. A label issued again under the same tracking number
+   * replaces the stored one.
+   */
+  static async store(leadId: string, shipment: ShipmentResult): Promise<ShippingLabel[]> {
+    const legs: [TrackingDirection, string | undefined, LabelResult | undefined][] = [
+      ['OUTBOUND', shipment.trackingNumber, shipment.label],
+      ['INBOUND', shipment.returnTrackingNumber, shipment.returnLabel]
+    ];
+
+    const stored: ShippingLabel[] = [];
+    for (const [direction, trackingNumber, label] of legs) {
+      if (!trackingNumber || !label?.labelImage) continue;
+
+      const format = label.labelFormat ?? 'GIF';
+      const fileUrl = await getLabelStorage().save(
+        labelStorageKey(leadId, trackingNumber, format),
+        Readable.from([Buffer.from(label.labelImage, 'base64')])
+      );
+      const previous = await prisma.shippingLabel.findUnique({ where: { trackingNumber }, select: { fileUrl: true } });
+      const data = { leadId, direction, carrier: shipment.carrier, format, fileUrl };
+      stored.push(await prisma.shippingLabel.upsert({
+        where: { trackingNumber },
+        create: { trackingNumber, ...data },
+        update: { ...data, createdAt: new Date() }
+      }));
+      if (previous && previous.fileUrl !== fileUrl) {
+        await getLabelStorage().remove(previous.fileUrl);
+      }
+    }
+    return stored;
+  }
+
+  // The lead's labels with their images, outbound first and newest first within a leg
+  static async list(leadId: string): Promise<StoredLabel[]> {
+    const labels = await prisma.shippingLabel.findMany({
+      where: { leadId },
+      orderBy: [{ direction: 'desc' }, { createdAt: 'desc' }]
+    });
+
+    return Promise.all(labels.map(async label => ({
+      id: label.id,
+      direction: label.direction as TrackingDirection,
+      carrier: label.carrier,
+      trackingNumber: label.trackingNumber,
+      format: label.format,
+      createdAt: label.createdAt,
+      labelImage: (await this.read(label.fileUrl)).toString('base64')
+    })));
+  }
+
+  private static async read(fileUrl: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of getLabelStorage().open(fileUrl)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,232 @@
+import { Carrier, Lead, LeadStatus, TrackingEvent, TrackingStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { LeadLifecycle, InvalidLeadTransitionError, LeadTransitionData } from '@/lib/services/leadLifecycle';
+import { CarrierTrackingActivity } from '@/lib/shipping/shippingCarrier';
+import { UPSCarrier } from '@/lib/shipping/upsCarrier';
+import { carrierForLead, getCarrier } from '@/lib/shipping/carriers';
+
+/**
+ * Tracking Event Service
+ * Records carrier tracking events and keeps the lead in step with them. Carriers
+ * redeliver webhooks and deliver them out of order, so an event is recorded once per
+ * (tracking number, activity code, local date/time), and the lead's shipping state is
+ * derived from its whole event history in event-time order rather than from whichever
+ * event arrived last. A late "in transit" after "delivered" changes nothing. Events
+ * carry a carrier-neutral TrackingStatus, so the same history rules apply to every
+ * carrier; UPS pushes events through its webhook, other carriers are polled with sync.
+ */
+
+export type TrackingDirection = 'OUTBOUND' | 'INBOUND';
+
+export interface CarrierTrackingEvent extends CarrierTrackingActivity {
+  carrier: Carrier;
+  trackingNumber: string;
+}
+
+export interface TrackingRecordResult {
+  lead: Lead;
+  direction: TrackingDirection;
+  // The event had been recorded before - only the history was applied again
+  duplicate: boolean;
+  event: TrackingEvent | null;
+  // Status the history moved the lead to, if it moved, and the leg whose event moved it
+  statusChange: { from: LeadStatus; to: LeadStatus; direction: TrackingDirection } | null;
+}
+
+const MOVING: TrackingStatus[] = [TrackingStatus.IN_TRANSIT, TrackingStatus.OUT_FOR_DELIVERY];
+
+// Shipping milestones, furthest first. A milestone applies once one of its events is in
+// the history; `from` limits which statuses it may move a lead out of.
+const TRACKING_MILESTONES: { status: LeadStatus; direction: TrackingDirection; tracking: TrackingStatus[]; from?: LeadStatus[] }[] = [
+  { status: LeadStatus.KIT_COMPLETED, direction: 'INBOUND', tracking: [TrackingStatus.DELIVERED] },
+  { status: LeadStatus.KIT_RETURNING, direction: 'INBOUND', tracking: MOVING, from: [LeadStatus.SHIPPED, LeadStatus.DELIVERED] },
+  { status: LeadStatus.DELIVERED, direction: 'OUTBOUND', tracking: [TrackingStatus.DELIVERED] },
+  { status: LeadStatus.SHIPPED, direction: 'OUTBOUND', tracking: MOVING, from: [LeadStatus.APPROVED, LeadStatus.READY_TO_SHIP] }
+];
+
+// Attempts at applying the history when another delivery moves the lead at the same time
+const APPLY_ATTEMPTS = 3;
+
+// Carrier dates are YYYYMMDD and times HHMMSS, both in the activity's local time
+function parseCarrierDate(date: string, time?: string | null): Date {
+  const day = `${date.substring(0, 4)}-${date.substring(4, 6)}-${date.substring(6, 8)}`;
+  const clock = time ? `${time.substring(0, 2)}:${time.substring(2, 4)}:${time.substring(4, 6)}` : '00:00:00';
+  const parsed = new Date(`${day}T${clock}Z`);
+  if (isNaN(parsed.getTime())) {
+    throw new Error(`Invalid carrier activity date ${date} ${time ?? ''}`.trim());
+  }
+  return parsed;
+}
+
+const eventTime = (event: Pick<TrackingEvent, 'occurredAt' | 'eventDate'>) => (event.occurredAt ?? event.eventDate).getTime();
+
+// Events recorded before statuses were normalized are all UPS
+const statusOf = (event: TrackingEvent) => event.status ?? UPSCarrier.normalizeStatus(event.activityType, event.activityCode);
+
+export class TrackingEventService {
+  static eventKey(event: CarrierTrackingEvent): string {
+    return [event.trackingNumber, event.activityCode || event.activityType, `${event.localDate}${event.localTime ?? ''}`].join(':');
+  }
+
+  /**
+   * Record a carrier event against the lead shipped with its tracking number (outbound)
+   * or due back with it (inbound), then bring the lead up to date with its history.
+   * A redelivered event still applies the history, so a retry after a delivery that
+   * stored the event but failed to apply it brings the lead up to date. Returns null
+   * when no lead has the tracking number.
+   */
+  static async record(input: CarrierTrackingEvent): Promise<TrackingRecordResult | null> {
+    const lead = await prisma.lead.findFirst({
+      where: {
+        OR: [
+          { trackingNumber: input.trackingNumber },
+          { inboundTrackingNumber: input.trackingNumber }
+        ]
+      }
+    });
+    if (!lead) return null;
+
+    const direction: TrackingDirection = lead.trackingNumber === input.trackingNumber ? 'OUTBOUND' : 'INBOUND';
+    const event = await this.insert(lead.id, direction, input);
+    if (!event) {
+      console.log(`⏭️ ${input.carrier} event ${this.eventKey(input)} already recorded - applying the history again`);
+    }
+
+    // Rebuilt from the stored history, so applying it again is safe
+    const { lead: updated, statusChange } = await this.applyHistory(lead.id);
+    return { lead: updated, direction, duplicate: !event, event, statusChange };
+  }
+
+  /**
+   * Poll the lead's carrier for both tracking numbers and record whatever is new. For
+   * carriers that do not push events; for UPS it fills in anything the webhook missed.
+   * Returns null when there is no such lead.
+   */
+  static async sync(leadId: string): Promise<{ lead: Lead; recorded: number; statusChange: TrackingRecordResult['statusChange'] } | null> {
+    const lead = await prisma.lead.findUnique({
+      where: { id: leadId },
+      include: { vendor: { select: { shippingCarrier: true } } }
+    });
+    if (!lead) return null;
+
+    // Kits shipped before the carrier was recorded all went UPS
+    const carrier = getCarrier(lead.shippingCarrier ?? (lead.trackingNumber ? Carrier.UPS : carrierForLead(lead)));
+
+    let recorded = 0;
+    const legs: [TrackingDirection, string | null][] = [['OUTBOUND', lead.trackingNumber], ['INBOUND', lead.inboundTrackingNumber]];
+    for (const [direction, trackingNumber] of legs) {
+      if (!trackingNumber) continue;
+      const summary = await carrier.track(trackingNumber);
+      for (const activity of summary.activities) {
+        if (await this.insert(lead.id, direction, { ...activity, carrier: carrier.code, trackingNumber })) recorded++;
+      }
+    }
+
+    const { lead: updated, statusChange } = await this.applyHistory(lead.id);
+    return { lead: updated, recorded, statusChange };
+  }
+
+  // Null when the event was recorded before
+  private static async insert(leadId: string, direction: TrackingDirection, input: CarrierTrackingEvent): Promise<TrackingEvent | null> {
+    const occurredAt = parseCarrierDate(input.localDate, input.localTime);
+    const eventKey = this.eventKey(input);
+
+    // skipDuplicates turns a redelivery into a no-op instead of a unique violation
+    const created = await prisma.trackingEvent.createMany({
+      data: [{
+        leadId,
+        trackingNumber: input.trackingNumber,
+        eventType: direction,
+        carrier: input.carrier,
+        activityType: input.activityType,
+        activityCode: input.activityCode ?? null,
+        status: input.status,
+        description: input.description ?? null,
+        location: input.location ?? null,
+        eventDate: parseCarrierDate(input.localDate),
+        eventTime: occurredAt.toISOString().substring(11, 19),
+        occurredAt,
+        eventKey
+      }],
+      skipDuplicates: true
+    });
+    return created.count === 0 ? null : prisma.trackingEvent.findUniqueOrThrow({ where: { eventKey } });
+  }
+
+  /**
+   * The lead's tracking events in the order they happened
+   */
+  static async history(leadId: string): Promise<TrackingEvent[]> {
+    const events = await prisma.trackingEvent.findMany({ where: { leadId } });
+    return events.sort((a, b) => eventTime(a) - eventTime(b) || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * The status and dates a lead's tracking history calls for. The status is only set
+   * when the lead can move to it - history never moves a lead backwards.
+   */
+  static deriveState(lead: Pick<Lead, 'status' | 'kitDeliveredDate' | 'kitReturnedDate'>, events: TrackingEvent[]): {
+    status: LeadStatus | null;
+    // The event that reached the status, for the status history reason
+    cause: TrackingEvent | null;
+    data: LeadTransitionData;
+  } {
+    const first = (direction: TrackingDirection, tracking: TrackingStatus[]) =>
+      events.find(event => event.eventType === direction && tracking.includes(statusOf(event))) ?? null;
+
+    const data: LeadTransitionData = {};
+    const delivered = first('OUTBOUND', [TrackingStatus.DELIVERED]);
+    if (delivered && !lead.kitDeliveredDate) data.kitDeliveredDate = delivered.eventDate;
+    const returned = first('INBOUND', [TrackingStatus.DELIVERED]);
+    if (returned && !lead.kitReturnedDate) data.kitReturnedDate = returned.eventDate;
+
+    for (const milestone of TRACKING_MILESTONES) {
+      const cause = first(milestone.direction, milestone.tracking);
+      if (!cause) continue;
+      if (lead.status === milestone.status) break;
+      if (milestone.from && !milestone.from.includes(lead.status)) continue;
+      if (LeadLifecycle.canReach(lead.status, milestone.status)) {
+        return { status: milestone.status, cause, data };
+      }
+    }
+    return { status: null, cause: null, data };
+  }
+
+  /**
+   * Bring the lead's status and shipping dates in line with its full tracking history
+   */
+  static async applyHistory(leadId: string): Promise<{ lead: Lead; statusChange: TrackingRecordResult['statusChange'] }> {
+    for (let attempt = 1; ; attempt++) {
+      const lead = await prisma.lead.findUniqueOrThrow({ where: { id: leadId } });
+      const { status, cause, data } = this.deriveState(lead, await this.history(leadId));
+      const update = { ...data, lastTrackingUpdate: new Date() };
+
+      if (!status) {
+        return { lead: await prisma.lead.update({ where: { id: leadId }, data: update }), statusChange: null };
+      }
+
+      try {
+        const result = await LeadLifecycle.transition(lead, status, {
+          source: 'WEBHOOK',
+          reason: `${cause!.carrier} ${cause!.eventType.toLowerCase()} ${cause!.activityType}/${cause!.activityCode ?? ''}: ${cause!.description ?? ''}`.trim(),
+          autoProgress: true
+        }, update);
+        return { lead: result.lead, statusChange: { from: lead.status, to: status, direction: cause!.eventType as TrackingDirection } };
+      } catch (error) {
+        // Another writer moved the lead in between - derive again from where it is now
+        if (!(error instanceof InvalidLeadTransitionError) || attempt >= APPLY_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  /**
+   * Whether an exception is still current: no later event on the same tracking number
+   * has moved the package on
+   */
+  static isOpenException(event: TrackingEvent, events: TrackingEvent[]): boolean {
+    return statusOf(event) === TrackingStatus.EXCEPTION && !events.some(other =>
+      other.trackingNumber === event.trackingNumber && other.id !== event.id
+        && statusOf(other) !== TrackingStatus.EXCEPTION && eventTime(other) > eventTime(event)
+    );
+  }
+}
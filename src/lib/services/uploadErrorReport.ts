@@ -0,0 +1,127 @@
+import Papa from 'papaparse';
+import { Prisma } from '@prisma/client';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { InvalidMBIError } from '@/lib/utils/mbi';
+
+/**
+ * Upload Error Report
+ * Per-row upload errors as structured entries: the row's line in the source file
+ * (header = line 1), a machine-readable code, the message, and the row exactly as
+ * read from the file. FileUpload.errors and BatchJob.errorLog store these entries,
+ * and a report is the failed rows written back out as CSV with the error appended,
+ * ready to be fixed and uploaded again. Row values are PHI, so entries hold them
+ * encrypted and API responses drop them.
+ */
+
+export type UploadErrorCode =
+  | 'MISSING_FIELDS'
+  | 'INVALID_MBI'
+  | 'INVALID_PHONE'
+  | 'INVALID_DATE'
+  | 'NO_MATCH'
+  | 'DUPLICATE'
+  | 'UNSUPPORTED_TYPE'
+  | 'ROW_FAILED'
+  // The row was applied but needs a look - never counted as failed
+  | 'WARNING';
+
+export interface UploadRowError {
+  row: number;
+  code: UploadErrorCode;
+  error: string;
+  // Encrypted JSON of the source row
+  values?: string;
+}
+
+// Columns appended to the source columns in a report
+const REPORT_COLUMNS = ['source_row', 'error_code', 'error'];
+
+export class UploadErrorReport {
+  static entry(row: number, code: UploadErrorCode, error: string, values?: Record<string, unknown>): UploadRowError {
+    return {
+      row,
+      code,
+      error,
+      ...(values ? { values: PhiEncryption.encrypt(JSON.stringify(values)) } : {})
+    };
+  }
+
+  // Code for an exception thrown while processing a row
+  static codeFor(error: unknown): UploadErrorCode {
+    return error instanceof InvalidMBIError ? 'INVALID_MBI' : 'ROW_FAILED';
+  }
+
+  static isFailure(entry: UploadRowError): boolean {
+    return entry.code !== 'WARNING';
+  }
+
+  // Entries without the row values, for API responses
+  static forResponse(entries: UploadRowError[]): Omit<UploadRowError, 'values'>[] {
+    return entries.map(({ values: _values, ...rest }) => rest);
+  }
+
+  /**
+   * Entries from a stored FileUpload.errors or BatchJob.errorLog value. errorLog holds
+   * one { chunkIndex, errors } object per chunk; anything not in the structured
+   * format (logs written before row errors carried codes) is skipped.
+   */
+  static fromStored(stored: Prisma.JsonValue): UploadRowError[] {
+    if (!Array.isArray(stored)) return [];
+
+    const entries: UploadRowError[] = [];
+    for (const item of stored) {
+      const candidates = item && typeof item === 'object' && !Array.isArray(item) && Array.isArray(item.errors)
+        ? item.errors
+        : [item];
+      for (const candidate of candidates) {
+        if (this.isEntry(candidate)) entries.push(candidate);
+      }
+    }
+    return entries.sort((a, b) => a.row - b.row);
+  }
+
+  /**
+   * The failed rows as CSV: the source columns in file order, then source_row,
+   * error_code and error. A row with several errors appears once with them joined.
+   */
+  static toCsv(entries: UploadRowError[]): string {
+    const byRow = new Map<number, { values: Record<string, unknown>; codes: string[]; errors: string[] }>();
+    for (const entry of entries.filter(entry => this.isFailure(entry))) {
+      const existing = byRow.get(entry.row);
+      if (existing) {
+        existing.codes.push(entry.code);
+        existing.errors.push(entry.error);
+        continue;
+      }
+      byRow.set(entry.row, {
+        values: entry.values ? JSON.parse(PhiEncryption.decrypt(entry.values)) : {},
+        codes: [entry.code],
+        errors: [entry.error]
+      });
+    }
+
+    const rows = Array.from(byRow.entries()).sort(([a], [b]) => a - b);
+    const sourceColumns: string[] = [];
+    for (const [, { values }] of rows) {
+      for (const column of Object.keys(values)) {
+        if (!sourceColumns.includes(column) && !REPORT_COLUMNS.includes(column)) sourceColumns.push(column);
+      }
+    }
+
+    return Papa.unparse({
+      fields: [...sourceColumns, ...REPORT_COLUMNS],
+      data: rows.map(([row, { values, codes, errors }]) => [
+        ...sourceColumns.map(column => values[column] ?? ''),
+        row,
+        Array.from(new Set(codes)).join('; '),
+        errors.join('; ')
+      ])
+    });
+  }
+
+  private static isEntry(value: unknown): value is UploadRowError {
+    if (!value || typeof value !== 'object') return false;
+    const entry = value as Record<string, unknown>;
+    return typeof entry.row === 'number' && typeof entry.code === 'string' && typeof entry.error === 'string';
+  }
+}
@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { parse } from 'csv-parse/sync';
+import { parse as parseCsvStream } from 'csv-parse';
+
+/**
+ * Upload File Reader
+ * Turns an uploaded file into header-keyed row objects, whatever the lab sent:
+ * comma- or tab-separated text, or an .xlsx workbook (first sheet unless one is
+ * chosen). The format is sniffed from the content rather than trusted from the
+ * extension. Every /api/admin/uploads/* route and the batch path read through here,
+ * so a row from a spreadsheet looks exactly like the same row from a CSV. Batch files
+ * are read as a stream (openStream) so rows are handed on before the whole file is in.
+ */
+
+export type UploadFileFormat = 'CSV' | 'TSV' | 'XLSX';
+
+export interface UploadFileReadOptions {
+  // Worksheet to read from a workbook - the first one when omitted
+  sheet?: string | null;
+}
+
+export interface UploadFileContent {
+  format: UploadFileFormat;
+  headers: string[];
+  rows: Record<string, string>[];
+  // SHA-256 of the file bytes (and sheet), for spotting a re-upload of the same file
+  contentHash: string;
+  // Workbook sheet names and the one that was read - XLSX only
+  sheetNames?: string[];
+  sheet?: string;
+}
+
+// A row with where it sits in the file, for error reports
+export interface UploadSourceRow {
+  // Line the row starts on (CSV/TSV) or its worksheet row (XLSX) - the header is 1
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+// Rows of a file read as a stream - rows can be iterated once
+export interface UploadRowStream {
+  format: UploadFileFormat;
+  headers: string[];
+  rows: AsyncIterable<UploadSourceRow>;
+  sheetNames?: string[];
+  sheet?: string;
+  // Let go of the file without reading the rows, e.g. after only the headers were needed
+  close(): void;
+}
+
+export class UploadFileError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'UploadFileError';
+    this.status = status;
+  }
+}
+
+export const SUPPORTED_UPLOAD_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx'];
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+// Compound file header of the pre-2007 .xls format
+const XLS_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+
+const startsWith = (data: Buffer, signature: number[]) => signature.every((byte, i) => data[i] === byte);
+
+// Bytes read ahead of a stream to tell its format
+const SNIFF_BYTES = 64 * 1024;
+
+/**
+ * The first bytes of a stream, and a stream that still yields every byte
+ */
+async function peek(source: Readable, length: number): Promise<{ head: Buffer; stream: Readable }> {
+  const iterator = source[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let done = false;
+  while (size < length) {
+    const next = await iterator.next();
+    if (next.done) {
+      done = true;
+      break;
+    }
+    const chunk = Buffer.from(next.value);
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+
+  const head = Buffer.concat(chunks);
+  const stream = Readable.from((async function* () {
+    try {
+      if (head.length > 0) yield head;
+      while (!done) {
+        const next = await iterator.next();
+        if (next.done) return;
+        yield Buffer.from(next.value);
+      }
+    } finally {
+      // Stops the source when the reader gives up early
+      await iterator.return?.();
+    }
+  })());
+  return { head, stream };
+}
+
+const lineBreaks = (text: string) => (text.match(/\r\n|\r|\n/g) || []).length;
+
+/**
+ * Source line numbers for records from csv-parse (with info: true). info.lines is
+ * the line a record ends on, except that the parser counts a CRLF inside a quoted
+ * field as two lines - that overcount is carried forward and taken off.
+ */
+function lineCounter() {
+  let overcount = 0;
+  return (record: Record<string, string>, info: { lines: number }): number => {
+    const text = Object.values(record).join('');
+    overcount += (text.match(/\r\n/g) || []).length;
+    return info.lines - overcount - lineBreaks(text);
+  };
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    // Excel dates carry no zone; exceljs reads them as UTC. Date-only cells become YYYY-MM-DD.
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('hyperlink' in value) return String(value.text ?? '');
+    if ('formula' in value || 'sharedFormula' in value) {
+      return value.result === undefined ? '' : cellText(value.result as ExcelJS.CellValue);
+    }
+    if ('error' in value) return '';
+  }
+  return String(value);
+}
+
+export class UploadFileReader {
+  static assertSupportedName(fileName: string) {
+    const lower = fileName.toLowerCase();
+    if (!SUPPORTED_UPLOAD_EXTENSIONS.some(extension => lower.endsWith(extension))) {
+      throw new UploadFileError('File must be a CSV, TSV or XLSX file');
+    }
+  }
+
+  static sniff(fileName: string, data: Buffer): UploadFileFormat {
+    if (startsWith(data, ZIP_SIGNATURE)) return 'XLSX';
+    if (startsWith(data, XLS_SIGNATURE)) {
+      throw new UploadFileError('Legacy .xls workbooks are not supported - save the file as .xlsx or CSV');
+    }
+    if (fileName.toLowerCase().endsWith('.xlsx')) {
+      throw new UploadFileError('File is named .xlsx but is not an Excel workbook');
+    }
+
+    const firstLine = data.subarray(0, 64 * 1024).toString('utf-8').split('\n')[0];
+    const tabCount = (firstLine.match(/\t/g) || []).length;
+    const commaCount = (firstLine.match(/,/g) || []).length;
+    return tabCount > commaCount ? 'TSV' : 'CSV';
+  }
+
+  static async read(fileName: string, data: Buffer, options: UploadFileReadOptions = {}): Promise<UploadFileContent> {
+    this.assertSupportedName(fileName);
+    const format = this.sniff(fileName, data);
+    const content = format === 'XLSX' ? await this.readWorkbook(data, options.sheet) : this.readDelimited(format, data);
+    return { ...content, contentHash: this.contentHash(crypto.createHash('sha256').update(data), content.sheet) };
+  }
+
+  /**
+   * Finish the hash of a file's bytes into its contentHash. Each sheet of a workbook
+   * is its own upload, so the sheet read is part of the hash.
+   */
+  static contentHash(bytesHash: crypto.Hash, sheet?: string): string {
+    if (sheet) bytesHash.update(`\0sheet:${sheet}`);
+    return bytesHash.digest('hex');
+  }
+
+  /**
+   * Read a file as it streams in. CSV and TSV rows come out of the parser as the
+   * bytes arrive; a workbook is a zip archive, which can only be read whole, so it is
+   * buffered first. Resolves once the header row has been read.
+   */
+  static async openStream(fileName: string, source: Readable, options: UploadFileReadOptions = {}): Promise<UploadRowStream> {
+    this.assertSupportedName(fileName);
+    const { head, stream } = await peek(source, SNIFF_BYTES);
+    const format = this.sniff(fileName, head);
+
+    if (format === 'XLSX') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) chunks.push(chunk);
+      const { sourceRows, ...content } = await this.readWorksheet(Buffer.concat(chunks), options.sheet);
+      return { ...content, rows: (async function* () { yield* sourceRows; })(), close: () => {} };
+    }
+
+    let headers: string[] = [];
+    const parser = parseCsvStream({
+      columns: (header: string[]) => {
+        headers = header.map(column => column.trim());
+        return headers;
+      },
+      skip_empty_lines: true,
+      trim: true,
+      bom: true,
+      info: true,
+      delimiter: format === 'TSV' ? '\t' : ','
+    });
+    stream.on('error', error => parser.destroy(error));
+    // A reader that stops early closes the parser - let go of the file too
+    parser.on('close', () => stream.destroy());
+    stream.pipe(parser);
+
+    const invalid = (parseError: unknown) =>
+      parseError instanceof UploadFileError
+        ? parseError
+        : new UploadFileError(`Invalid ${format} format: ${parseError instanceof Error ? parseError.message : parseError}`);
+
+    // Hold the first row back until the header is known - the columns callback runs on the first line
+    type ParsedRecord = { record: Record<string, string>; info: { lines: number } };
+    const iterator: AsyncIterator<ParsedRecord> = parser[Symbol.asyncIterator]();
+    const startLine = lineCounter();
+    const sourceRow = ({ record, info }: ParsedRecord): UploadSourceRow => ({ rowNumber: startLine(record, info), values: record });
+    let first: IteratorResult<ParsedRecord>;
+    try {
+      first = await iterator.next();
+    } catch (parseError) {
+      throw invalid(parseError);
+    }
+
+    async function* rows() {
+      try {
+        if (first.done) return;
+        yield sourceRow(first.value);
+        while (true) {
+          const next = await iterator.next();
+          if (next.done) return;
+          yield sourceRow(next.value);
+        }
+      } catch (parseError) {
+        throw invalid(parseError);
+      } finally {
+        parser.destroy();
+      }
+    }
+
+    return { format, headers, rows: rows(), close: () => parser.destroy() };
+  }
+
+  /**
+   * Read a web File from multipart form data
+   */
+  static async readFile(file: File, options: UploadFileReadOptions = {}): Promise<UploadFileContent> {
+    return this.read(file.name, Buffer.from(await file.arrayBuffer()), options);
+  }
+
+  private static readDelimited(format: 'CSV' | 'TSV', data: Buffer): Omit<UploadFileContent, 'contentHash'> {
+    let rows: Record<string, string>[];
+    try {
+      rows = parse(data.toString('utf-8'), {
+        columns: true,
+        skip_empty_lines: true,
+        trim: true,
+        bom: true,
+        delimiter: format === 'TSV' ? '\t' : ','
+      });
+    } catch (parseError) {
+      throw new UploadFileError(`Invalid ${format} format: ${parseError instanceof Error ? parseError.message : parseError}`);
+    }
+
+    return { format, headers: rows.length > 0 ? Object.keys(rows[0]) : [], rows };
+  }
+
+  private static async readWorkbook(data: Buffer, sheetName?: string | null): Promise<Omit<UploadFileContent, 'contentHash'>> {
+    const { sourceRows, ...content } = await this.readWorksheet(data, sheetName);
+    return { ...content, rows: sourceRows.map(row => row.values) };
+  }
+
+  // Rows of a workbook sheet with their worksheet row numbers - empty rows are skipped
+  private static async readWorksheet(data: Buffer, sheetName?: string | null): Promise<Omit<UploadFileContent, 'contentHash' | 'rows'> & { sourceRows: UploadSourceRow[] }> {
+    const workbook = new ExcelJS.Workbook();
+    try {
+      // exceljs types its own Buffer as an ArrayBuffer - hand it exactly the file's bytes
+      await workbook.xlsx.load(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+    } catch (loadError) {
+      throw new UploadFileError(`Invalid XLSX workbook: ${loadError instanceof Error ? loadError.message : loadError}`);
+    }
+
+    const sheetNames = workbook.worksheets.map(worksheet => worksheet.name);
+    const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+    if (!worksheet) {
+      throw new UploadFileError(
+        sheetName ? `Sheet "${sheetName}" not found - the workbook has ${sheetNames.join(', ')}` : 'Workbook has no sheets'
+      );
+    }
+
+    const headerRow = worksheet.getRow(1);
+    const headers: string[] = [];
+    for (let column = 1; column <= headerRow.cellCount; column++) {
+      headers.push(cellText(headerRow.getCell(column).value).trim());
+    }
+
+    const sourceRows: UploadSourceRow[] = [];
+    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const record: Record<string, string> = {};
+      let hasValue = false;
+      headers.forEach((header, index) => {
+        if (!header) return;
+        const value = cellText(row.getCell(index + 1).value).trim();
+        if (value) hasValue = true;
+        record[header] = value;
+      });
+      if (hasValue) sourceRows.push({ rowNumber, values: record });
+    });
+
+    return { format: 'XLSX', headers: headers.filter(Boolean), sourceRows, sheetNames, sheet: worksheet.name };
+  }
+}
@@ -0,0 +1,98 @@
+import { FileUploadType } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Upload Fingerprint Service
+ * Spots a file that has already been uploaded. Every upload and batch job records the
+ * SHA-256 of its bytes (UploadFileReader.contentHash); the same hash under the same
+ * upload type is the same file again. Re-uploads are refused unless the uploader
+ * confirms them with allowDuplicate, and a preview only warns. Replaying rows is
+ * safe either way - UploadRowService skips rows the lead already reflects.
+ */
+
+export interface PreviousUpload {
+  source: 'FILE_UPLOAD' | 'BATCH_JOB';
+  id: string;
+  fileName: string;
+  uploadedAt: Date;
+  uploadedBy: string | null;
+}
+
+export interface FingerprintCheckOptions {
+  // Previews never refuse - they report the earlier upload instead
+  dryRun?: boolean;
+  // The uploader has seen the warning and wants the file applied again
+  allowDuplicate?: boolean;
+}
+
+export class DuplicateUploadError extends Error {
+  readonly status = 409;
+  readonly previous: PreviousUpload;
+
+  constructor(previous: PreviousUpload) {
+    super(
+      `This file was already uploaded as "${previous.fileName}" on ${previous.uploadedAt.toISOString().slice(0, 10)}` +
+      `${previous.uploadedBy ? ` by ${previous.uploadedBy}` : ''}. Confirm the re-upload to apply it again.`
+    );
+    this.name = 'DuplicateUploadError';
+    this.previous = previous;
+  }
+}
+
+export class UploadFingerprintService {
+  /**
+   * The most recent upload or batch job of this type with the same content
+   */
+  static async findPrevious(type: FileUploadType, contentHash: string): Promise<PreviousUpload | null> {
+    const [fileUpload, batchJob] = await Promise.all([
+      prisma.fileUpload.findFirst({
+        where: { type, contentHash },
+        orderBy: { uploadedAt: 'desc' },
+        select: { id: true, fileName: true, uploadedAt: true, uploadedBy: { select: { email: true } } }
+      }),
+      prisma.batchJob.findFirst({
+        where: { type, contentHash },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, fileName: true, createdAt: true, uploadedBy: { select: { email: true } } }
+      })
+    ]);
+
+    const candidates: PreviousUpload[] = [];
+    if (fileUpload) {
+      candidates.push({
+        source: 'FILE_UPLOAD',
+        id: fileUpload.id,
+        fileName: fileUpload.fileName,
+        uploadedAt: fileUpload.uploadedAt,
+        uploadedBy: fileUpload.uploadedBy?.email ?? null
+      });
+    }
+    if (batchJob) {
+      candidates.push({
+        source: 'BATCH_JOB',
+        id: batchJob.id,
+        fileName: batchJob.fileName,
+        uploadedAt: batchJob.createdAt,
+        uploadedBy: batchJob.uploadedBy?.email ?? null
+      });
+    }
+
+    return candidates.sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime())[0] ?? null;
+  }
+
+  /**
+   * Throw DuplicateUploadError for an unconfirmed re-upload. Returns the earlier upload,
+   * if any, so previews and confirmed re-uploads can report it.
+   */
+  static async check(
+    type: FileUploadType,
+    contentHash: string,
+    options: FingerprintCheckOptions = {}
+  ): Promise<PreviousUpload | null> {
+    const previous = await this.findPrevious(type, contentHash);
+    if (previous && !options.dryRun && !options.allowDuplicate) {
+      throw new DuplicateUploadError(previous);
+    }
+    return previous;
+  }
+}
@@ -0,0 +1,158 @@
+import { FileUploadType, Lead, LeadStatus } from '@prisma/client';
+import { PatientMatchResult } from '@/lib/services/patientMatchingService';
+import { UploadRowService, UploadRowUpdate, RowWritePlan } from '@/lib/services/uploadRowService';
+import { ENCRYPTED_PHI_FIELDS } from '@/lib/crypto/phiEncryption';
+
+/**
+ * Upload Preview Service
+ * Builds the per-row plan a dry-run upload returns: which order each row matched,
+ * the fields and status it would change, and the rows that would be queued for
+ * review or rejected. Plans come from UploadRowService.plan, the same code the real
+ * upload writes through, so an approved preview is what gets applied.
+ */
+
+// UNCHANGED: the matched order already has everything the row would write
+export type PlannedRowAction = 'UPDATE' | 'UNCHANGED' | 'CREATE' | 'REVIEW' | 'ERROR';
+
+export interface PlannedFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+  // Encrypted PHI fields only say that they change, never the values
+  redacted?: boolean;
+  // Text added to the end of a notes field - `to` holds only the added text
+  appended?: boolean;
+}
+
+export interface PlannedRow {
+  row: number;
+  action: PlannedRowAction;
+  lead?: { id: string; name: string; status: LeadStatus };
+  // Match confidence (0-1) for matched and review rows
+  confidence?: number;
+  // Current status first, then each status the lead would pass through
+  statusPath?: LeadStatus[];
+  changes?: PlannedFieldChange[];
+  warning?: string;
+  error?: string;
+}
+
+export interface UploadPlan {
+  dryRun: true;
+  uploadType: FileUploadType;
+  fileName: string;
+  totalRows: number;
+  // Fewer than totalRows when the preview was cut short
+  plannedRows: number;
+  summary: Record<PlannedRowAction, number>;
+  rows: PlannedRow[];
+}
+
+type PlannedLead = Pick<Lead, 'id' | 'firstName' | 'lastName' | 'status'> & Partial<Lead>;
+
+function describeLead(lead: PlannedLead): PlannedRow['lead'] {
+  return { id: lead.id, name: `${lead.firstName} ${lead.lastName}`, status: lead.status };
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+export class UploadPreviewService {
+  /**
+   * Plan a row the matcher resolved to one order
+   */
+  static async planMatch(
+    uploadType: FileUploadType,
+    rowNumber: number,
+    match: PatientMatchResult,
+    update: UploadRowUpdate,
+    collectionsAgentId?: string | null
+  ): Promise<PlannedRow> {
+    const lead = match.lead!;
+    const plan = await UploadRowService.plan(uploadType, lead, update, collectionsAgentId);
+    return { ...this.planUpdate(rowNumber, lead, plan), confidence: match.best?.confidence };
+  }
+
+  /**
+   * Plan an update to an order the caller already picked
+   */
+  static planUpdate(rowNumber: number, lead: PlannedLead, plan: RowWritePlan): PlannedRow {
+    if (plan.alreadyApplied) {
+      return { row: rowNumber, action: 'UNCHANGED', lead: describeLead(lead), changes: [] };
+    }
+
+    return {
+      row: rowNumber,
+      action: 'UPDATE',
+      lead: describeLead(lead),
+      statusPath: plan.statusPath.length > 0 ? [lead.status, ...plan.statusPath] : undefined,
+      changes: this.describeChanges(lead, plan.data),
+      warning: plan.warning
+    };
+  }
+
+  static planReview(rowNumber: number, match: PatientMatchResult): PlannedRow {
+    return {
+      row: rowNumber,
+      action: 'REVIEW',
+      lead: match.best ? describeLead(match.best.lead) : undefined,
+      confidence: match.best?.confidence,
+      warning: match.summary
+    };
+  }
+
+  static planCreate(rowNumber: number, fields: Record<string, unknown>, warning?: string): PlannedRow {
+    return {
+      row: rowNumber,
+      action: 'CREATE',
+      changes: this.describeChanges({}, fields),
+      warning
+    };
+  }
+
+  static planError(rowNumber: number, error: string): PlannedRow {
+    return { row: rowNumber, action: 'ERROR', error };
+  }
+
+  /**
+   * Fields of `data` that differ from the lead's current values
+   */
+  static describeChanges(lead: Partial<Lead>, data: Record<string, unknown>): PlannedFieldChange[] {
+    const current = lead as Record<string, unknown>;
+    const changes: PlannedFieldChange[] = [];
+
+    for (const [field, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+
+      const from = comparable(current[field]);
+      const to = comparable(value);
+      if (from === to) continue;
+
+      if ((ENCRYPTED_PHI_FIELDS as readonly string[]).includes(field)) {
+        changes.push({ field, from: null, to: null, redacted: true });
+      } else if (typeof from === 'string' && from && typeof to === 'string' && to.startsWith(from)) {
+        changes.push({ field, from: null, to: to.slice(from.length).trim(), appended: true });
+      } else {
+        changes.push({ field, from, to });
+      }
+    }
+
+    return changes;
+  }
+
+  static buildPlan(uploadType: FileUploadType, fileName: string, totalRows: number, rows: PlannedRow[]): UploadPlan {
+    const summary: Record<PlannedRowAction, number> = { UPDATE: 0, UNCHANGED: 0, CREATE: 0, REVIEW: 0, ERROR: 0 };
+    rows.forEach(row => { summary[row.action]++; });
+
+    return {
+      dryRun: true,
+      uploadType,
+      fileName,
+      totalRows,
+      plannedRows: rows.length,
+      summary,
+      rows: [...rows].sort((a, b) => a.row - b.row)
+    };
+  }
+}
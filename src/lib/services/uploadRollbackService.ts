@@ -0,0 +1,183 @@
+import { BatchJobStatus, Lead, LeadStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { InvalidLeadTransitionError, LeadLifecycle, LeadTransitionData } from '@/lib/services/leadLifecycle';
+
+/**
+ * Upload Rollback Service
+ * Undoes a completed upload. Every lead an upload row changes is recorded as an
+ * UploadChange holding the changed fields before and after the row (status included);
+ * a rollback writes the before values back, newest change first. A lead that anything
+ * else has touched since - a later upload, an agent, the UPS webhook - no longer shows
+ * the upload's values and is left alone and reported. Leads the upload created are
+ * not removed. Recorded values are PHI, so both images are stored encrypted.
+ */
+
+export interface UploadChangeOrigin {
+  fileUploadId?: string | null;
+  batchJobId?: string | null;
+  rowNumber?: number;
+}
+
+export interface RolledBackChange {
+  leadId: string;
+  rowNumber: number | null;
+  fields: string[];
+}
+
+export interface SkippedChange {
+  leadId: string;
+  rowNumber: number | null;
+  reason: string;
+}
+
+export interface UploadRollbackSummary {
+  uploadId: string;
+  source: 'FILE_UPLOAD' | 'BATCH_JOB';
+  fileName: string;
+  reverted: RolledBackChange[];
+  skipped: SkippedChange[];
+}
+
+export class UploadRollbackError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'UploadRollbackError';
+    this.status = status;
+  }
+}
+
+type FieldValues = Record<string, unknown>;
+
+// JSON keeps dates as strings - tag them so they are written back as dates
+function encodeValues(values: FieldValues): string {
+  const encoded = Object.fromEntries(Object.entries(values).map(([field, value]) =>
+    [field, value instanceof Date ? { $date: value.toISOString() } : value ?? null]
+  ));
+  return PhiEncryption.encrypt(JSON.stringify(encoded));
+}
+
+function decodeValues(stored: string): FieldValues {
+  const decoded = JSON.parse(PhiEncryption.decrypt(stored)) as FieldValues;
+  return Object.fromEntries(Object.entries(decoded).map(([field, value]) =>
+    [field, value && typeof value === 'object' && '$date' in value ? new Date((value as { $date: string }).$date) : value]
+  ));
+}
+
+function sameValue(current: unknown, value: unknown): boolean {
+  const normalize = (v: unknown) => v instanceof Date ? v.toISOString() : v ?? null;
+  return normalize(current) === normalize(value);
+}
+
+const ACTIVE_BATCH_STATUSES: BatchJobStatus[] = ['PENDING', 'PROCESSING', 'PAUSED'];
+
+export class UploadRollbackService {
+  /**
+   * Record what a row changed on a lead. Only fields whose value actually changed are
+   * kept; nothing is recorded when none did, or when the write is not from an upload.
+   */
+  static async record(
+    before: Pick<Lead, 'id' | 'status'> & FieldValues,
+    after: Lead,
+    fields: readonly string[],
+    origin: UploadChangeOrigin | undefined
+  ): Promise<void> {
+    if (!origin || (!origin.fileUploadId && !origin.batchJobId)) return;
+
+    const current = after as unknown as FieldValues;
+    const changed = [...fields.filter(field => field !== 'status'), 'status']
+      .filter(field => !sameValue(before[field], current[field]));
+    if (changed.length === 0) return;
+
+    await prisma.uploadChange.create({
+      data: {
+        fileUploadId: origin.fileUploadId || null,
+        batchJobId: origin.batchJobId || null,
+        leadId: after.id,
+        rowNumber: origin.rowNumber ?? null,
+        before: encodeValues(Object.fromEntries(changed.map(field => [field, before[field]]))),
+        after: encodeValues(Object.fromEntries(changed.map(field => [field, current[field]])))
+      }
+    });
+  }
+
+  /**
+   * Roll back a file upload or batch job by id. Changes already rolled back are not
+   * touched again, so a rollback that skipped some leads can be repeated once they are
+   * sorted out.
+   */
+  static async rollback(uploadId: string, actorId: string): Promise<UploadRollbackSummary> {
+    const upload = await this.findUpload(uploadId);
+    const where = upload.source === 'FILE_UPLOAD' ? { fileUploadId: uploadId } : { batchJobId: uploadId };
+
+    const changes = await prisma.uploadChange.findMany({
+      where: { ...where, revertedAt: null },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    });
+
+    const summary: UploadRollbackSummary = { ...upload, uploadId, reverted: [], skipped: [] };
+    const reason = `Rollback of upload ${upload.fileName}`;
+
+    for (const change of changes) {
+      const skip = (why: string) => summary.skipped.push({ leadId: change.leadId, rowNumber: change.rowNumber, reason: why });
+
+      const lead = await prisma.lead.findUnique({ where: { id: change.leadId } });
+      if (!lead) {
+        skip('Lead was deleted or archived');
+        continue;
+      }
+
+      const before = decodeValues(change.before);
+      const after = decodeValues(change.after);
+      const current = lead as unknown as FieldValues;
+      const changedSince = Object.keys(after).filter(field => !sameValue(current[field], after[field]));
+      if (changedSince.length > 0) {
+        skip(`Changed since the upload: ${changedSince.join(', ')}`);
+        continue;
+      }
+
+      const { status, ...data } = before;
+      try {
+        await prisma.$transaction(async (tx) => {
+          await LeadLifecycle.revert(
+            lead,
+            (status as LeadStatus | undefined) ?? lead.status,
+            { source: 'UPLOAD', actorId, reason: change.rowNumber ? `${reason} row ${change.rowNumber}` : reason },
+            data as LeadTransitionData,
+            tx
+          );
+          await tx.uploadChange.update({ where: { id: change.id }, data: { revertedAt: new Date() } });
+        });
+      } catch (error) {
+        if (!(error instanceof InvalidLeadTransitionError)) throw error;
+        skip('Changed while the rollback was running');
+        continue;
+      }
+
+      summary.reverted.push({ leadId: change.leadId, rowNumber: change.rowNumber, fields: Object.keys(before) });
+    }
+
+    return summary;
+  }
+
+  private static async findUpload(id: string): Promise<Pick<UploadRollbackSummary, 'source' | 'fileName'>> {
+    const fileUpload = await prisma.fileUpload.findUnique({ where: { id }, select: { fileName: true, processedAt: true } });
+    if (fileUpload) {
+      if (!fileUpload.processedAt) {
+        throw new UploadRollbackError('Upload is still being processed', 409);
+      }
+      return { source: 'FILE_UPLOAD', fileName: fileUpload.fileName };
+    }
+
+    const batchJob = await prisma.batchJob.findUnique({ where: { id }, select: { fileName: true, status: true } });
+    if (!batchJob) {
+      throw new UploadRollbackError('Upload not found', 404);
+    }
+    if (ACTIVE_BATCH_STATUSES.includes(batchJob.status)) {
+      throw new UploadRollbackError(`Batch job is ${batchJob.status} - cancel it or wait for it to finish before rolling back`, 409);
+    }
+    return { source: 'BATCH_JOB', fileName: batchJob.fileName };
+  }
+}
@@ -0,0 +1,389 @@
+import { Lead, LeadStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { LeadLifecycle } from '@/lib/services/leadLifecycle';
+import { PatientService } from '@/lib/services/patientService';
+import { PatientMatchingService } from '@/lib/services/patientMatchingService';
+import { MatchReviewService, MatchReviewSource } from '@/lib/services/matchReviewService';
+import {
+  UploadRowService,
+  RowApplyContext,
+  KitReturnRowUpdate,
+  MasterDataRowUpdate
+} from '@/lib/services/uploadRowService';
+import { UploadPreviewService, PlannedRow } from '@/lib/services/uploadPreviewService';
+import { validateMBI, describeMBIErrors, generateMBI } from '@/lib/utils/mbi';
+import { UploadErrorCode } from '@/lib/services/uploadErrorReport';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+
+/**
+ * Upload Row Processor
+ * Reads one raw row of a kit return or master data file, matches it to an order and
+ * applies, queues or rejects it. The standalone upload routes and the batch queue
+ * both call these, so a file gives the same result whichever path it takes. Column
+ * lookups ignore case because batch rows arrive with lower-cased headers. In a dry
+ * run nothing is written and matched rows come back PLANNED.
+ */
+
+export type RowOutcome =
+  | { outcome: 'UPDATED'; lead: Lead; warning?: string }
+  // Matched an order that already had the row's update - nothing written
+  | { outcome: 'UNCHANGED'; lead: Lead }
+  | { outcome: 'CREATED'; lead: Lead }
+  | { outcome: 'QUEUED' }
+  | { outcome: 'PLANNED'; plan: PlannedRow }
+  // The caller records the row itself alongside the error
+  | { outcome: 'ERROR'; code: UploadErrorCode; error: string };
+
+export interface RowProcessingContext extends Pick<RowApplyContext, 'source' | 'actorId'> {
+  // Where the row came from - used for review queue entries and status history
+  origin: Omit<MatchReviewSource, 'rowNumber'>;
+  rowNumber: number;
+  // Vendors already resolved for this file, keyed by lab name
+  vendorCache?: Map<string, string>;
+  // Plan the row instead of writing it
+  dryRun?: boolean;
+}
+
+// Parse dates in the formats seen in lab files (MM/DD/YYYY, MM/DD/YY, ISO)
+export function parseUploadDate(dateStr: string): Date | null {
+  if (!dateStr || dateStr.trim() === '') return null;
+
+  try {
+    const cleanDate = dateStr.trim();
+
+    if (cleanDate.match(/^\d{1,2}\/\d{1,2}\/\d{4}$/)) {
+      const [month, day, year] = cleanDate.split('/');
+      return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+    }
+
+    if (cleanDate.match(/^\d{1,2}\/\d{1,2}\/\d{2}$/)) {
+      const [month, day, year] = cleanDate.split('/');
+      const fullYear = parseInt(year) > 50 ? 1900 + parseInt(year) : 2000 + parseInt(year);
+      return new Date(fullYear, parseInt(month) - 1, parseInt(day));
+    }
+
+    const parsed = new Date(cleanDate);
+    if (!isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  } catch (error) {
+    console.warn(`Failed to parse date: ${dateStr}`);
+  }
+
+  return null;
+}
+
+// First non-empty column from a list of possible header names - exact, then case-insensitive, then partial
+function findColumnValue(row: Record<string, unknown>, possibleNames: string[]): string {
+  const keys = Object.keys(row);
+
+  for (const name of possibleNames) {
+    if (row[name] !== undefined && row[name] !== null) {
+      return String(row[name]).trim();
+    }
+
+    const matchingKey = keys.find(key => key.toLowerCase() === name.toLowerCase());
+    if (matchingKey && row[matchingKey] !== undefined && row[matchingKey] !== null) {
+      return String(row[matchingKey]).trim();
+    }
+
+    const partialMatch = keys.find(key =>
+      key.toLowerCase().includes(name.toLowerCase()) ||
+      name.toLowerCase().includes(key.toLowerCase())
+    );
+    if (partialMatch && row[partialMatch] !== undefined && row[partialMatch] !== null) {
+      return String(row[partialMatch]).trim();
+    }
+  }
+  return '';
+}
+
+// A master data column by its exact header, ignoring case
+function readColumn(row: Record<string, unknown>, header: string): string {
+  const key = Object.keys(row).find(candidate => candidate.trim().toLowerCase() === header.toLowerCase());
+  const value = key !== undefined ? row[key] : undefined;
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function normalizePhone(phone: string): string {
+  if (!phone) return '';
+  return phone.replace(/\D/g, '').slice(-10);
+}
+
+// Map lab names in the master file to vendor codes in the system
+function mapVendorCode(labName: string): string {
+  const labMapping: { [key: string]: string } = {
+    'Areahou': 'AREAHOU',
+    'R & R Labs': 'RR_LABS',
+    'AlphaDera': 'ALPHADERA',
+    'RTM GEN X': 'RTM_GENX',
+    'GENX': 'GENX',
+    'GEN X': 'GENX',
+    'RTM': 'RTM',
+    'JOLU': 'JOLU',
+    'JO-LU': 'JOLU'
+  };
+
+  return labMapping[labName.trim()] || 'UNKNOWN';
+}
+
+// Lead status implied by the master file's progress columns
+function determineLeadStatus(row: Record<string, unknown>): LeadStatus {
+  const deliveryStatus = readColumn(row, 'DELIVERY STATUS').toLowerCase();
+  const notes = (readColumn(row, 'NOTES FOR YOU') || readColumn(row, 'OTHER')).toLowerCase();
+  const completed = readColumn(row, 'Completed').toLowerCase();
+
+  if (completed.includes('completed') || notes.includes('completed') || notes.includes('arrived')) {
+    return 'KIT_COMPLETED';
+  }
+
+  if (deliveryStatus.includes('delivered')) {
+    return 'SHIPPED';
+  }
+
+  if (deliveryStatus.includes('delayed')) {
+    return 'READY_TO_SHIP';
+  }
+
+  // Default to submitted for new records
+  return 'SUBMITTED';
+}
+
+// Vendor id for a lab, creating the vendor unless this is a dry run (null = it would be created)
+async function resolveVendor(labName: string, cache?: Map<string, string>, dryRun?: boolean): Promise<string | null> {
+  const cached = cache?.get(labName);
+  if (cached) return cached;
+
+  const vendorCode = mapVendorCode(labName);
+  let vendor = await prisma.vendor.findFirst({
+    where: {
+      OR: [
+        { code: vendorCode },
+        { name: { contains: labName, mode: 'insensitive' } }
+      ]
+    }
+  });
+
+  if (!vendor) {
+    if (dryRun) return null;
+    vendor = await prisma.vendor.create({
+      data: {
+        name: labName,
+        code: vendorCode,
+        staticCode: vendorCode,
+        isActive: true
+      }
+    });
+  }
+
+  cache?.set(labName, vendor.id);
+  return vendor.id;
+}
+
+export class UploadRowProcessor {
+  /**
+   * Kit return row: mark the matched order KIT_COMPLETED
+   */
+  static async processKitReturnRow(row: Record<string, unknown>, context: RowProcessingContext): Promise<RowOutcome> {
+    const mbi = findColumnValue(row, [
+      'mbi', 'MBI', 'medicare', 'MEDICARE', 'Medicare #', 'Medicare #:',
+      'medicare_id', 'MEDICARE_ID', 'patient_id', 'PATIENT_ID'
+    ]);
+
+    const firstName = findColumnValue(row, [
+      'firstName', 'first_name', 'FIRST_NAME', 'First Name', 'firstname',
+      'FNAME', 'fname', 'first', 'FIRST'
+    ]);
+
+    const lastName = findColumnValue(row, [
+      'lastName', 'last_name', 'LAST_NAME', 'Last Name', 'lastname',
+      'LNAME', 'lname', 'last', 'LAST'
+    ]);
+
+    const phone = findColumnValue(row, [
+      'phone', 'PHONE', 'Phone', 'phoneNumber', 'phone_number',
+      'Phone Number', 'PHONE_NUMBER', 'tel', 'telephone'
+    ]);
+
+    const trackingNumber = findColumnValue(row, [
+      'trackingNumber', 'tracking_number', 'TRACKING_NUMBER', 'Tracking Number',
+      'tracking', 'TRACKING', 'track', 'TRACK', 'shipment_id', 'SHIPMENT_ID',
+      'return_tracking', 'RETURN_TRACKING'
+    ]);
+
+    const returnedDate = findColumnValue(row, [
+      'returnedDate', 'returned_date', 'RETURNED_DATE', 'Returned Date',
+      'return_date', 'RETURN_DATE', 'date_returned', 'DATE_RETURNED',
+      'completion_date', 'COMPLETION_DATE', 'completed_date', 'COMPLETED_DATE'
+    ]);
+
+    const completionStatus = findColumnValue(row, [
+      'status', 'STATUS', 'Status', 'completion_status', 'COMPLETION_STATUS',
+      'completed', 'COMPLETED', 'Completed'
+    ]);
+
+    if (!mbi && !firstName && !lastName && !phone && !trackingNumber) {
+      return {
+        outcome: 'ERROR',
+        code: 'MISSING_FIELDS',
+        error: 'Missing patient identifier (need MBI, name, phone, or tracking number)'
+      };
+    }
+
+    // A malformed MBI is a row error rather than a silent fallback to name matching
+    if (mbi) {
+      const mbiCheck = validateMBI(mbi);
+      if (!mbiCheck.valid) {
+        return {
+          outcome: 'ERROR',
+          code: 'INVALID_MBI',
+          error: `Invalid MBI: ${describeMBIErrors(mbiCheck)}`
+        };
+      }
+    }
+
+    // Only a confident match for an order that can still be completed is updated
+    const match = await PatientMatchingService.match({
+      mbi,
+      firstName,
+      lastName,
+      phone,
+      trackingNumber
+    }, { isEligible: lead => LeadLifecycle.canReach(lead.status, LeadStatus.KIT_COMPLETED) });
+
+    const update: KitReturnRowUpdate = {
+      trackingNumber,
+      completionStatus,
+      returnedDate: (parseUploadDate(returnedDate) || new Date()).toISOString()
+    };
+
+    if (match.decision === 'REVIEW') {
+      if (context.dryRun) {
+        return { outcome: 'PLANNED', plan: UploadPreviewService.planReview(context.rowNumber, match) };
+      }
+      await MatchReviewService.enqueue('KIT_RETURN', { ...context.origin, rowNumber: context.rowNumber }, row, update, match);
+      return { outcome: 'QUEUED' };
+    }
+
+    if (match.decision === 'NO_MATCH') {
+      return {
+        outcome: 'ERROR',
+        code: 'NO_MATCH',
+        error: `No matching lead found for ${firstName} ${lastName} (${PhiEncryption.maskMBI(mbi)})`
+      };
+    }
+
+    if (context.dryRun) {
+      return { outcome: 'PLANNED', plan: await UploadPreviewService.planMatch('KIT_RETURN', context.rowNumber, match, update) };
+    }
+
+    const { lead, alreadyApplied } = await UploadRowService.applyKitReturn(match.lead!, update, {
+      source: context.source,
+      actorId: context.actorId,
+      reason: `Kit return report ${context.origin.fileName} row ${context.rowNumber}`,
+      origin: { ...context.origin, rowNumber: context.rowNumber }
+    });
+    if (alreadyApplied) return { outcome: 'UNCHANGED', lead };
+
+    console.log(`✅ Marked lead ${lead.id} as completed${trackingNumber ? ` with return tracking ${trackingNumber}` : ''}`);
+    return { outcome: 'UPDATED', lead };
+  }
+
+  /**
+   * Master data row: refresh the matched order, or create a new one when nothing matches
+   */
+  static async processMasterDataRow(row: Record<string, unknown>, context: RowProcessingContext): Promise<RowOutcome> {
+    const firstName = readColumn(row, 'FIRST NAME');
+    const lastName = readColumn(row, 'LAST NAME');
+    const dob = readColumn(row, 'DOB');
+    const phone = readColumn(row, 'PHONE NUMBER');
+    const labName = readColumn(row, 'LAB');
+
+    if (!firstName || !lastName || !phone || !labName) {
+      return {
+        outcome: 'ERROR',
+        code: 'MISSING_FIELDS',
+        error: 'Missing required fields: First Name, Last Name, Phone, or Lab'
+      };
+    }
+
+    const parsedDob = parseUploadDate(dob);
+    if (!parsedDob) {
+      return { outcome: 'ERROR', code: 'INVALID_DATE', error: `Invalid date format: ${dob}` };
+    }
+
+    const vendorId = await resolveVendor(labName, context.vendorCache, context.dryRun);
+    const normalizedPhone = normalizePhone(phone);
+    const address = {
+      street: readColumn(row, 'ADDRESS'),
+      city: readColumn(row, 'CITY'),
+      state: readColumn(row, 'STATE'),
+      zipCode: readColumn(row, 'ZIP')
+    };
+
+    // Look for the existing order by name, DOB, phone and address
+    const match = await PatientMatchingService.match({
+      firstName,
+      lastName,
+      dateOfBirth: parsedDob,
+      phone: normalizedPhone,
+      ...address
+    });
+
+    // Status is applied separately so existing leads go through the lifecycle
+    const status = determineLeadStatus(row);
+    const leadData = {
+      firstName,
+      lastName,
+      dateOfBirth: PhiEncryption.toDateOnly(parsedDob),
+      phone: normalizedPhone,
+      ...address,
+      // Only a dry run leaves the vendor unresolved - the preview names the lab instead
+      vendorId: vendorId ?? `new vendor ${labName}`,
+      vendorCode: mapVendorCode(labName),
+      testType: readColumn(row, 'TEST').toUpperCase() === 'IMMUNO' ? 'IMMUNE' as const : 'NEURO' as const
+    };
+
+    const update: MasterDataRowUpdate = { status, fields: leadData };
+
+    if (match.decision === 'REVIEW') {
+      // A near match could be this patient or a different one - let a reviewer decide
+      if (context.dryRun) {
+        return { outcome: 'PLANNED', plan: UploadPreviewService.planReview(context.rowNumber, match) };
+      }
+      await MatchReviewService.enqueue('MASTER_DATA', { ...context.origin, rowNumber: context.rowNumber }, row, update, match);
+      return { outcome: 'QUEUED' };
+    }
+
+    if (match.decision === 'AUTO') {
+      if (context.dryRun) {
+        return { outcome: 'PLANNED', plan: await UploadPreviewService.planMatch('MASTER_DATA', context.rowNumber, match, update) };
+      }
+      const { lead, alreadyApplied } = await UploadRowService.applyMasterData(match.lead!, update, {
+        source: context.source,
+        actorId: context.actorId,
+        reason: `Master data ${context.origin.fileName} row ${context.rowNumber}`,
+        origin: { ...context.origin, rowNumber: context.rowNumber }
+      });
+      return { outcome: alreadyApplied ? 'UNCHANGED' : 'UPDATED', lead };
+    }
+
+    if (context.dryRun) {
+      return {
+        outcome: 'PLANNED',
+        plan: UploadPreviewService.planCreate(context.rowNumber, { ...leadData, status }, vendorId ? undefined : `Creates vendor ${labName}`)
+      };
+    }
+
+    // Master data files carry no MBI - new leads get a CMS-format placeholder
+    const lead = await prisma.lead.create({
+      data: await PatientService.withPatient({
+        ...leadData,
+        status,
+        contactAttempts: 0,
+        mbi: generateMBI()
+      })
+    });
+    return { outcome: 'CREATED', lead };
+  }
+}
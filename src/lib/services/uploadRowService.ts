@@ -0,0 +1,352 @@
+import { DoctorApprovalStatus, FileUploadType, Lead, LeadStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  LeadLifecycle,
+  InvalidLeadTransitionError,
+  LeadTransitionContext,
+  LeadTransitionData
+} from '@/lib/services/leadLifecycle';
+import { UploadRollbackService, UploadChangeOrigin } from '@/lib/services/uploadRollbackService';
+
+/**
+ * Upload Row Service
+ * The lead update each upload type writes once a row has been matched to an order.
+ * Upload routes, batch chunks and the match review queue all go through here, so a
+ * row confirmed by a reviewer gets exactly the update the upload would have applied.
+ * Updates are plain JSON (dates as ISO strings) so they can be stored with a review.
+ * Each apply* writes the plan* of the same name, which upload previews call on their own.
+ * A row the lead already reflects plans as alreadyApplied and writes nothing, so
+ * replaying a file - or a batch chunk cut off mid-way - changes nothing twice.
+ * What a write changed is recorded against the row's upload so it can be rolled back.
+ */
+
+export interface ShippingRowUpdate {
+  trackingNumber?: string;
+  // Ship date as written in the file, for the collections note
+  shippedDate?: string;
+  kitShippedDate?: string;
+}
+
+export interface KitReturnRowUpdate {
+  trackingNumber?: string;
+  completionStatus?: string;
+  returnedDate: string;
+}
+
+export interface DoctorApprovalRowUpdate {
+  approvalStatus: DoctorApprovalStatus;
+  approvalDate: string;
+}
+
+export interface MasterDataRowUpdate {
+  // SUBMITTED means the row carried no progress indicator - the status is left alone
+  status: LeadStatus;
+  fields: LeadTransitionData;
+}
+
+export type UploadRowUpdate =
+  | ShippingRowUpdate
+  | KitReturnRowUpdate
+  | DoctorApprovalRowUpdate
+  | MasterDataRowUpdate;
+
+export interface RowApplyContext extends Pick<LeadTransitionContext, 'source' | 'actorId'> {
+  // Status history reason, e.g. "Shipping report june.csv row 14"
+  reason: string;
+  // Upload the row belongs to - the change is recorded for rollback when set
+  origin?: UploadChangeOrigin;
+}
+
+export interface RowApplyResult {
+  lead: Lead;
+  // The update was written but the lead could not take the status the row asked for
+  warning?: string;
+  // Nothing was written - the lead already had this row's update
+  alreadyApplied?: boolean;
+}
+
+export interface RowWritePlan {
+  // Status the lead is moved to, or null to write the fields and leave the status alone
+  status: LeadStatus | null;
+  // Statuses the lead passes through, ending with status - empty when it stays put
+  statusPath: LeadStatus[];
+  data: LeadTransitionData;
+  warning?: string;
+  // The lead already reflects the row - there is nothing to write
+  alreadyApplied?: boolean;
+}
+
+const ALREADY_APPLIED: RowWritePlan = { status: null, statusPath: [], data: {}, alreadyApplied: true };
+
+function sameValue(current: unknown, value: unknown): boolean {
+  const normalize = (v: unknown) => v instanceof Date ? v.toISOString() : v ?? null;
+  return normalize(current) === normalize(value);
+}
+
+export class UploadRowService {
+  /**
+   * Apply a stored update for the given upload type
+   */
+  static async apply(
+    uploadType: FileUploadType,
+    lead: Lead,
+    update: UploadRowUpdate,
+    context: RowApplyContext
+  ): Promise<RowApplyResult> {
+    switch (uploadType) {
+      case 'SHIPPING_REPORT':
+        return this.applyShipping(lead, update as ShippingRowUpdate, context);
+      case 'KIT_RETURN':
+        return this.applyKitReturn(lead, update as KitReturnRowUpdate, context);
+      case 'DOCTOR_APPROVAL':
+        return this.applyDoctorApproval(lead, update as DoctorApprovalRowUpdate, context);
+      case 'MASTER_DATA':
+        return this.applyMasterData(lead, update as MasterDataRowUpdate, context);
+      default:
+        throw new Error(`${uploadType} rows are not matched to existing leads`);
+    }
+  }
+
+  /**
+   * Work out what apply would write, without writing it. Throws the same
+   * InvalidLeadTransitionError apply would for a lead that cannot take the row.
+   */
+  static async plan(
+    uploadType: FileUploadType,
+    lead: Lead,
+    update: UploadRowUpdate,
+    collectionsAgentId?: string | null
+  ): Promise<RowWritePlan> {
+    switch (uploadType) {
+      case 'SHIPPING_REPORT':
+        return this.planShipping(lead, update as ShippingRowUpdate, collectionsAgentId);
+      case 'KIT_RETURN':
+        return this.planKitReturn(lead, update as KitReturnRowUpdate);
+      case 'DOCTOR_APPROVAL':
+        return this.planDoctorApproval(lead, update as DoctorApprovalRowUpdate);
+      case 'MASTER_DATA':
+        return this.planMasterData(lead, update as MasterDataRowUpdate);
+      default:
+        throw new Error(`${uploadType} rows are not matched to existing leads`);
+    }
+  }
+
+  /**
+   * Mark the kit shipped and hand the lead to collections. Pass collectionsAgentId to
+   * control assignment (null = leave unassigned); otherwise a random active agent is used.
+   */
+  static async applyShipping(
+    lead: Lead,
+    update: ShippingRowUpdate,
+    context: RowApplyContext,
+    collectionsAgentId?: string | null
+  ): Promise<RowApplyResult> {
+    return this.execute(lead, await this.planShipping(lead, update, collectionsAgentId), context);
+  }
+
+  static async planShipping(lead: Lead, update: ShippingRowUpdate, collectionsAgentId?: string | null): Promise<RowWritePlan> {
+    // A replayed row must not append the note again, re-assign collections or move the ship date
+    if (this.isShippingApplied(lead, update)) return ALREADY_APPLIED;
+
+    const trackingNumber = update.trackingNumber?.trim();
+    const note = `📦 Shipping Update: Kit shipped${trackingNumber ? ` with tracking ${trackingNumber}` : ''}${update.shippedDate ? ` on ${update.shippedDate}` : ''}`;
+
+    const assignedAgentId = lead.collectionsAgentId
+      || (collectionsAgentId === undefined ? await this.pickCollectionsAgent() : collectionsAgentId);
+
+    const data: LeadTransitionData = {
+      collectionsNotes: lead.collectionsNotes ? `${lead.collectionsNotes}\n\n${note}` : note,
+      collectionsAgentId: assignedAgentId
+    };
+    if (trackingNumber) data.trackingNumber = trackingNumber;
+    if (update.kitShippedDate) data.kitShippedDate = new Date(update.kitShippedDate);
+
+    return {
+      status: LeadStatus.SHIPPED,
+      statusPath: LeadLifecycle.planTransition(lead.status, LeadStatus.SHIPPED, true),
+      data
+    };
+  }
+
+  /**
+   * The lead already shipped with this row's tracking number, or on this row's ship
+   * date when the row has no tracking number
+   */
+  static isShippingApplied(lead: Pick<Lead, 'trackingNumber' | 'kitShippedDate'>, update: ShippingRowUpdate): boolean {
+    if (!lead.kitShippedDate) return false;
+    const trackingNumber = update.trackingNumber?.trim();
+    if (trackingNumber) return lead.trackingNumber === trackingNumber;
+    return !!update.kitShippedDate && sameValue(lead.kitShippedDate, new Date(update.kitShippedDate));
+  }
+
+  /**
+   * Mark the kit completed. Throws InvalidLeadTransitionError when the lead cannot
+   * reach KIT_COMPLETED.
+   */
+  static async applyKitReturn(lead: Lead, update: KitReturnRowUpdate, context: RowApplyContext): Promise<RowApplyResult> {
+    return this.execute(lead, this.planKitReturn(lead, update), context);
+  }
+
+  static planKitReturn(lead: Lead, update: KitReturnRowUpdate): RowWritePlan {
+    if (lead.status === LeadStatus.KIT_COMPLETED && lead.kitReturnedDate) {
+      console.log(`⚠️ Lead ${lead.id} (${lead.firstName} ${lead.lastName}) already completed - nothing to write`);
+      return ALREADY_APPLIED;
+    }
+
+    const returnedDate = new Date(update.returnedDate);
+    const trackingNumber = update.trackingNumber || lead.trackingNumber || 'not available';
+
+    const completionNote = [
+      `📋 Kit Return Completed:`,
+      `  • Tracking number: ${trackingNumber}`,
+      `  • Completion status: ${update.completionStatus || 'completed'}`,
+      `  • Return date: ${returnedDate.toLocaleDateString()}`
+    ].join('\n');
+    let collectionsNotes = lead.collectionsNotes ? `${lead.collectionsNotes}\n\n${completionNote}` : completionNote;
+
+    // Kit completion requires prior shipping - the lifecycle walks the
+    // lead through any skipped steps so the progression stays legal
+    const statusPath = LeadLifecycle.planTransition(lead.status, LeadStatus.KIT_COMPLETED, true);
+    if (statusPath.length > 1) {
+      // Log the status progression for audit trail
+      collectionsNotes += `\n\nStatus progression: ${[lead.status, ...statusPath].join(' → ')} (via kit return report)`;
+    }
+
+    // Note: Same tracking number for outbound and return is normal business behavior
+    return {
+      status: LeadStatus.KIT_COMPLETED,
+      statusPath,
+      data: {
+        kitReturnedDate: returnedDate,
+        collectionsDisposition: 'KIT_COMPLETED',
+        collectionsNotes
+      }
+    };
+  }
+
+  /**
+   * Record the doctor's decision. A lead that has already moved past the decision keeps
+   * its status - the decision is still recorded and a warning returned.
+   */
+  static async applyDoctorApproval(lead: Lead, update: DoctorApprovalRowUpdate, context: RowApplyContext): Promise<RowApplyResult> {
+    return this.execute(lead, this.planDoctorApproval(lead, update), context, error =>
+      this.keptStatusWarning(lead, update.approvalStatus, error)
+    );
+  }
+
+  static planDoctorApproval(lead: Lead, update: DoctorApprovalRowUpdate): RowWritePlan {
+    const { approvalStatus } = update;
+    // The decision is already recorded - a replay must not restamp the date or repeat the denial note
+    if (lead.doctorApprovalStatus === approvalStatus && lead.doctorApprovalDate) return ALREADY_APPLIED;
+
+    const approvalDate = new Date(update.approvalDate);
+
+    // APPROVED advances the lead, DECLINED is terminal, PENDING keeps the current status
+    const newLeadStatus = approvalStatus === 'APPROVED'
+      ? LeadStatus.APPROVED
+      : approvalStatus === 'DECLINED' ? LeadStatus.RETURNED : lead.status;
+
+    const data: LeadTransitionData = {
+      doctorApprovalStatus: approvalStatus,
+      doctorApprovalDate: approvalDate,
+      // Add denial reason for business intelligence
+      ...(approvalStatus === 'DECLINED' && {
+        advocateDisposition: 'DOESNT_QUALIFY',
+        collectionsNotes: lead.collectionsNotes
+          ? `${lead.collectionsNotes}\n\n🚫 Doctor Denied: ${approvalDate.toLocaleDateString()}`
+          : `🚫 Doctor Denied: ${approvalDate.toLocaleDateString()}`
+      })
+    };
+
+    try {
+      return {
+        status: newLeadStatus,
+        statusPath: LeadLifecycle.planTransition(lead.status, newLeadStatus, true),
+        data
+      };
+    } catch (transitionError) {
+      if (!(transitionError instanceof InvalidLeadTransitionError)) throw transitionError;
+
+      // Lead already moved past this point - record the decision without regressing the status
+      return { status: null, statusPath: [], data, warning: this.keptStatusWarning(lead, approvalStatus, transitionError) };
+    }
+  }
+
+  /**
+   * Overwrite the lead's details from the master file and move it forward to the
+   * file's status when the lifecycle allows
+   */
+  static async applyMasterData(lead: Lead, update: MasterDataRowUpdate, context: RowApplyContext): Promise<RowApplyResult> {
+    return this.execute(lead, this.planMasterData(lead, update), context, () => {
+      console.warn(`⚠️ Lead ${lead.id} is ${lead.status}; not moving it to ${update.status} from master data`);
+      return undefined;
+    });
+  }
+
+  static planMasterData(lead: Lead, update: MasterDataRowUpdate): RowWritePlan {
+    // SUBMITTED is only the fallback for rows without progress indicators -
+    // never use it to pull an existing lead back to the start of the pipeline
+    const moves = update.status !== LeadStatus.SUBMITTED && LeadLifecycle.canReach(lead.status, update.status);
+    const statusPath = moves ? LeadLifecycle.planTransition(lead.status, update.status, true) : [];
+
+    const current = lead as unknown as Record<string, unknown>;
+    const unchanged = Object.entries(update.fields).every(([field, value]) => value === undefined || sameValue(current[field], value));
+    if (statusPath.length === 0 && unchanged) return ALREADY_APPLIED;
+
+    if (moves) {
+      return { status: update.status, statusPath, data: update.fields };
+    }
+
+    if (update.status !== LeadStatus.SUBMITTED) {
+      console.warn(`⚠️ Lead ${lead.id} is ${lead.status}; not moving it to ${update.status} from master data`);
+    }
+    return { status: null, statusPath: [], data: update.fields };
+  }
+
+  /**
+   * Write a plan. A plan that moves the status fails with InvalidLeadTransitionError if
+   * the lead changed status in the meantime, unless onBlocked is given - then the fields
+   * are written without the status and onBlocked supplies the warning.
+   */
+  private static async execute(
+    lead: Lead,
+    plan: RowWritePlan,
+    context: RowApplyContext,
+    onBlocked?: (error: InvalidLeadTransitionError) => string | undefined
+  ): Promise<RowApplyResult> {
+    if (plan.alreadyApplied) {
+      return { lead, alreadyApplied: true };
+    }
+
+    const { origin, ...transitionContext } = context;
+    let updated: Lead | null = null;
+    if (plan.status) {
+      try {
+        updated = (await LeadLifecycle.transition(lead, plan.status, { ...transitionContext, autoProgress: true }, plan.data)).lead;
+      } catch (transitionError) {
+        if (!(transitionError instanceof InvalidLeadTransitionError) || !onBlocked) throw transitionError;
+        plan = { ...plan, status: null, warning: onBlocked(transitionError) };
+      }
+    }
+
+    updated ??= await prisma.lead.update({ where: { id: lead.id }, data: plan.data });
+    await UploadRollbackService.record(lead, updated, Object.keys(plan.data), origin);
+    return { lead: updated, warning: plan.warning };
+  }
+
+  private static keptStatusWarning(lead: Lead, approvalStatus: DoctorApprovalStatus, error: InvalidLeadTransitionError): string {
+    console.warn(`⚠️ Lead ${lead.id} (${lead.firstName} ${lead.lastName}) is ${lead.status}; keeping status, recording ${approvalStatus}`);
+    return `Recorded ${approvalStatus} for ${lead.firstName} ${lead.lastName} but left status ${lead.status}: ${error.message}`;
+  }
+
+  static async pickCollectionsAgent(): Promise<string | null> {
+    const collectionsAgents = await prisma.user.findMany({
+      where: { role: 'COLLECTIONS', isActive: true },
+      select: { id: true }
+    });
+
+    if (collectionsAgents.length === 0) return null;
+
+    return collectionsAgents[Math.floor(Math.random() * collectionsAgents.length)].id;
+  }
+}
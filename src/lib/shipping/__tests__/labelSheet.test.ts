@@ -0,0 +1,145 @@
+import zlib from 'zlib';
+import { PDFDocument, PDFRawStream, PDFName, PDFArray, PDFRef } from 'pdf-lib';
+import { LabelSheet, LabelSheetError } from '@/lib/shipping/labelSheet';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * An 8-bit PNG of the given colour type, every pixel the same sample values, each row
+ * unfiltered. colorType: 0 grey, 2 RGB, 3 palette, 4 grey + alpha, 6 RGBA.
+ */
+function png(width: number, height: number, colorType: 0 | 2 | 3 | 4 | 6): Buffer {
+  const samples = { 0: [0], 2: [0, 0, 0], 3: [1], 4: [0, 255], 6: [0, 0, 0, 128] }[colorType];
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+  const row = Buffer.from([0, ...Array.from({ length: width }, () => samples).flat()]);
+  const pixels = Buffer.concat(Array.from({ length: height }, () => row));
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    ...(colorType === 3 ? [chunk('PLTE', Buffer.from([255, 255, 255, 0, 0, 0]))] : []),
+    chunk('IDAT', zlib.deflateSync(pixels)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// A baseline JPEG's start and frame header - the frame header is all a PDF embed reads
+function jpeg(width: number, height: number, components: 1 | 3): Buffer {
+  const frame = Buffer.alloc(8 + components * 3);
+  frame.writeUInt16BE(frame.length, 0);
+  frame[2] = 8;
+  frame.writeUInt16BE(height, 3);
+  frame.writeUInt16BE(width, 5);
+  frame[7] = components;
+  for (let i = 0; i < components; i++) frame.set([i + 1, 0x11, 0], 8 + i * 3);
+  return Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xc0]), frame, Buffer.from([0xff, 0xd9])]);
+}
+
+// The PNG with its header claiming other dimensions
+function withHeader(image: Buffer, width: number, height: number): Buffer {
+  const header = Buffer.from(image.subarray(16, 29));
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  return Buffer.concat([image.subarray(0, 8), chunk('IHDR', header), image.subarray(33)]);
+}
+
+const base64 = (data: Buffer) => data.toString('base64');
+
+// The sheet's pages, with each page's content stream as text
+async function readSheet(sheet: LabelSheet) {
+  const document = await PDFDocument.load(await sheet.toBuffer());
+  return document.getPages().map(page => {
+    const contents = page.node.get(PDFName.of('Contents'));
+    const refs = contents instanceof PDFArray ? contents.asArray() : [contents];
+    const text = refs.map(ref => {
+      const stream = document.context.lookup(ref as PDFRef) as PDFRawStream;
+      const filter = stream.dict.get(PDFName.of('Filter'));
+      const bytes = Buffer.from(stream.contents);
+      return (filter ? zlib.inflateSync(bytes) : bytes).toString('latin1');
+    }).join('\n');
+    return { size: page.getSize(), content: text };
+  });
+}
+
+describe('LabelSheet', () => {
+  it.each([
+    ['grey PNG', png(40, 60, 0)],
+    ['RGB PNG', png(40, 60, 2)],
+    ['palette PNG', png(40, 60, 3)],
+    ['grey PNG with transparency', png(40, 60, 4)],
+    ['RGBA PNG', png(40, 60, 6)],
+    ['greyscale JPEG', jpeg(40, 60, 1)],
+    ['colour JPEG', jpeg(40, 60, 3)]
+  ])('places a %s on a 4x6 page', async (_name, image) => {
+    const sheet = new LabelSheet();
+    expect(await sheet.add({ image: base64(image) })).toBe(1);
+
+    const [page] = await readSheet(sheet);
+    expect(page.size).toEqual({ width: 288, height: 432 });
+    // Scaled to the page width, centred vertically
+    expect(page.content).toMatch(/288 0 0 432 0 0 cm/);
+  });
+
+  it('numbers pages in the order labels are added', async () => {
+    const sheet = new LabelSheet();
+    expect(await sheet.add({ image: base64(png(4, 6, 0)), format: 'PNG' })).toBe(1);
+    expect(await sheet.add({ image: base64(jpeg(4, 6, 3)), format: 'JPG' })).toBe(2);
+    expect(sheet.pageCount).toBe(2);
+    expect(await readSheet(sheet)).toHaveLength(2);
+  });
+
+  it('turns a landscape label a quarter to run along the page', async () => {
+    const sheet = new LabelSheet();
+    await sheet.add({ image: base64(png(60, 40, 0)) });
+
+    const [page] = await readSheet(sheet);
+    // Rotated 90 degrees about the corner moved to the page's bottom right
+    expect(page.content).toMatch(/1 0 0 1 288 0 cm\s+0[.\d]* 1 -1 0[.\d]* 0 0 cm\s+432 0 0 288 0 0 cm/);
+  });
+
+  it('refuses label formats a sheet cannot take', async () => {
+    const sheet = new LabelSheet();
+    await expect(sheet.add({ image: base64(png(4, 6, 0)), format: 'PDF' })).rejects.toThrow('PDF labels cannot be added to a label sheet');
+    await expect(sheet.add({ image: base64(Buffer.from('GIF89a')), format: 'GIF' })).rejects.toThrow(LabelSheetError);
+    expect(sheet.pageCount).toBe(0);
+  });
+
+  it.each([
+    ['text', Buffer.from('^XA^FO50,50^FDNot an image^FS^XZ'), 'Label is not a PNG or JPEG image'],
+    ['GIF', Buffer.from('GIF89a\x01\x00\x01\x00\x00\x00\x00;', 'latin1'), 'Label is not a PNG or JPEG image'],
+    ['empty', Buffer.alloc(0), 'Label is not a PNG or JPEG image'],
+    ['truncated PNG', png(4, 6, 2).subarray(0, 40), 'PNG label has no image data'],
+    ['PNG with a corrupt image stream', Buffer.concat([png(4, 6, 2).subarray(0, 33), chunk('IDAT', Buffer.from('not deflate')), chunk('IEND', Buffer.alloc(0))]), /PNG label could not be read/],
+    ['PNG with too little image data', Buffer.concat([png(4, 6, 2).subarray(0, 33), chunk('IDAT', zlib.deflateSync(Buffer.alloc(5))), chunk('IEND', Buffer.alloc(0))]), 'PNG label image data is cut short'],
+    ['PNG without image data', Buffer.concat([png(4, 6, 2).subarray(0, 33), chunk('IEND', Buffer.alloc(0))]), 'PNG label has no image data'],
+    ['PNG of impossible size', withHeader(png(4, 6, 0), 100000, 100000), 'PNG label is not a usable image (100000x100000, colour type 0)'],
+    ['JPEG without a frame header', Buffer.from([0xff, 0xd8, 0xff, 0xd9]), /JPEG label could not be read/]
+  ])('rejects a malformed label (%s) without adding a page', async (_name, image, message) => {
+    const sheet = new LabelSheet();
+    await expect(sheet.add({ image: base64(image) })).rejects.toThrow(message);
+    expect(sheet.pageCount).toBe(0);
+  });
+});
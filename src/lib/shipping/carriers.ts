@@ -0,0 +1,91 @@
+import { Carrier } from '@prisma/client';
+import { ShippingCarrier, ShipmentRequest, LabelResult } from '@/lib/shipping/shippingCarrier';
+import { UPSCarrier } from '@/lib/shipping/upsCarrier';
+import { USPSCarrier } from '@/lib/shipping/uspsCarrier';
+import { FedExCarrier } from '@/lib/shipping/fedexCarrier';
+
+/**
+ * Carriers
+ * Picks the carrier a kit ships with and hands out the adapter for it. A lead's own
+ * shippingCarrier wins, then its vendor's, then DEFAULT_SHIPPING_CARRIER (UPS when
+ * unset). Once a kit has shipped, the lead's shippingCarrier is the carrier both of its
+ * tracking numbers belong to.
+ */
+
+export interface ShipmentResult {
+  success: boolean;
+  carrier: Carrier;
+  trackingNumber?: string;
+  label?: LabelResult;
+  returnTrackingNumber?: string;
+  returnLabel?: LabelResult;
+  error?: string;
+  // HTTP status of the failed outbound label call
+  status?: number;
+}
+
+const factories: Record<Carrier, () => ShippingCarrier> = {
+  UPS: () => new UPSCarrier(),
+  USPS: () => new USPSCarrier(),
+  FEDEX: () => new FedExCarrier()
+};
+
+const carriers = new Map<Carrier, ShippingCarrier>();
+
+export function getCarrier(code: Carrier): ShippingCarrier {
+  let carrier = carriers.get(code);
+  if (!carrier) {
+    carrier = factories[code]();
+    carriers.set(code, carrier);
+  }
+  return carrier;
+}
+
+// Swap a carrier's adapter, e.g. for a simulator
+export function setCarrier(carrier: ShippingCarrier) {
+  carriers.set(carrier.code, carrier);
+}
+
+export function defaultCarrier(): Carrier {
+  const configured = (process.env.DEFAULT_SHIPPING_CARRIER || Carrier.UPS).toUpperCase();
+  if (!(configured in factories)) {
+    throw new Error(`Unknown DEFAULT_SHIPPING_CARRIER "${configured}" - use ${Object.keys(factories).join(', ')}`);
+  }
+  return configured as Carrier;
+}
+
+export function carrierForLead(lead: { shippingCarrier: Carrier | null; vendor?: { shippingCarrier: Carrier | null } | null }): Carrier {
+  return lead.shippingCarrier ?? lead.vendor?.shippingCarrier ?? defaultCarrier();
+}
+
+/**
+ * Create the outbound label and, with it, the return label the patient sends the kit
+ * back on. A failed return label does not fail the shipment - the kit can still go out.
+ */
+export async function shipWithReturn(code: Carrier, request: ShipmentRequest): Promise<ShipmentResult> {
+  const carrier = getCarrier(code);
+
+  const label = await carrier.createLabel(request);
+  if (!label.success) {
+    return { success: false, carrier: code, error: label.error, status: label.status };
+  }
+
+  const returnLabel = await carrier.createReturnLabel({
+    leadId: request.leadId,
+    sender: request.recipient,
+    originalTrackingNumber: label.trackingNumber,
+    labelFormats: request.labelFormats
+  });
+  if (!returnLabel.success) {
+    console.warn(`⚠️ ${carrier.name} return label creation failed:`, returnLabel.error);
+  }
+
+  return {
+    success: true,
+    carrier: code,
+    trackingNumber: label.trackingNumber,
+    label,
+    returnTrackingNumber: returnLabel.trackingNumber,
+    returnLabel: returnLabel.success ? returnLabel : undefined
+  };
+}
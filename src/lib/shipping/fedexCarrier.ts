@@ -0,0 +1,290 @@
+import { Carrier, TrackingStatus } from '@prisma/client';
+import {
+  ShippingCarrier, ShipmentRequest, ReturnLabelRequest, LabelResult, TrackingSummary,
+  CarrierTrackingActivity, ShippingAddress, AddressValidationResult, CarrierApiError,
+  LabelFormat, LAB_ADDRESS, KIT_PACKAGE, chooseLabelFormat, labelFailure, latestStatus, toLocalDateTime
+} from '@/lib/shipping/shippingCarrier';
+
+/**
+ * FedEx Shipping Carrier
+ * Labels, tracking and address checks through the FedEx REST APIs, billed to
+ * FEDEX_ACCOUNT_NUMBER. Kits go FedEx Ground (Home Delivery for residential
+ * addresses); return labels are printed with the outbound kit.
+ */
+
+interface FedExTokenResponse {
+  access_token: string;
+  expires_in: number;
+}
+
+// FedEx scan event types
+const FEDEX_STATUS: Record<string, TrackingStatus> = {
+  OC: TrackingStatus.LABEL_CREATED, // Shipment information sent to FedEx
+  CA: TrackingStatus.LABEL_CREATED, // Shipment cancelled
+  PU: TrackingStatus.IN_TRANSIT,
+  AR: TrackingStatus.IN_TRANSIT,
+  AF: TrackingStatus.IN_TRANSIT,
+  DP: TrackingStatus.IN_TRANSIT,
+  IT: TrackingStatus.IN_TRANSIT,
+  HL: TrackingStatus.IN_TRANSIT,    // Held at a FedEx location
+  OD: TrackingStatus.OUT_FOR_DELIVERY,
+  DL: TrackingStatus.DELIVERED,
+  DE: TrackingStatus.EXCEPTION,     // Delivery exception
+  SE: TrackingStatus.EXCEPTION,     // Shipment exception
+  CD: TrackingStatus.EXCEPTION,     // Clearance delay
+  RS: TrackingStatus.RETURNED_TO_SENDER
+};
+
+// Label formats FedEx can produce, default first, with the imageType for each
+const FEDEX_IMAGE_TYPES: Partial<Record<LabelFormat, string>> = {
+  PDF: 'PDF',
+  PNG: 'PNG',
+  ZPL: 'ZPLII'
+};
+const FEDEX_LABEL_FORMATS = Object.keys(FEDEX_IMAGE_TYPES) as LabelFormat[];
+
+const fedexAddress = (address: ShippingAddress) => ({
+  streetLines: [address.street],
+  city: address.city,
+  stateOrProvinceCode: address.state,
+  postalCode: address.zipCode,
+  countryCode: 'US'
+});
+
+const labParty = {
+  contact: {
+    personName: LAB_ADDRESS.attention,
+    companyName: LAB_ADDRESS.name,
+    phoneNumber: LAB_ADDRESS.phone
+  },
+  address: fedexAddress(LAB_ADDRESS.address)
+};
+
+const patientParty = (patient: ShipmentRequest['recipient']) => ({
+  contact: {
+    personName: patient.name,
+    phoneNumber: patient.phone.replace(/\D/g, '').substring(0, 10)
+  },
+  address: { ...fedexAddress(patient.address), residential: true }
+});
+
+export class FedExCarrier implements ShippingCarrier {
+  readonly code = Carrier.FEDEX;
+  readonly name = 'FedEx';
+  private apiKey: string;
+  private secretKey: string;
+  private accountNumber: string;
+  private baseUrl: string;
+  private accessToken: string | null = null;
+  private tokenExpiry: number = 0;
+
+  constructor() {
+    this.apiKey = process.env.FEDEX_API_KEY || '';
+    this.secretKey = process.env.FEDEX_SECRET_KEY || '';
+    this.accountNumber = process.env.FEDEX_ACCOUNT_NUMBER || '';
+    this.baseUrl = process.env.NODE_ENV === 'production'
+      ? 'https://apis.fedex.com'
+      : 'https://apis-sandbox.fedex.com';
+  }
+
+  /**
+   * FedEx scan event type in carrier-neutral terms
+   */
+  static normalizeStatus(eventType: string | null | undefined): TrackingStatus {
+    return (eventType && FEDEX_STATUS[eventType]) || TrackingStatus.UNKNOWN;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiry) {
+      return this.accessToken;
+    }
+
+    const response = await fetch(`${this.baseUrl}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: this.apiKey,
+        client_secret: this.secretKey
+      }).toString()
+    });
+
+    if (!response.ok) {
+      throw new CarrierApiError(Carrier.FEDEX, `OAuth error: ${response.status} ${await response.text()}`, response.status);
+    }
+
+    const tokenData: FedExTokenResponse = await response.json();
+    this.accessToken = tokenData.access_token;
+    this.tokenExpiry = Date.now() + (tokenData.expires_in * 1000) - 60000; // 1 minute buffer
+    return this.accessToken;
+  }
+
+  private async request(method: string, path: string, body: unknown) {
+    const accessToken = await this.getAccessToken();
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'X-locale': 'en_US'
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new CarrierApiError(Carrier.FEDEX, `API error: ${response.status} ${await response.text()}`, response.status);
+    }
+    return response.json();
+  }
+
+  private async ship(requestedShipment: Record<string, unknown>, labelFormats?: LabelFormat[]): Promise<LabelResult> {
+    const format = chooseLabelFormat(labelFormats, FEDEX_LABEL_FORMATS);
+    const result = await this.request('POST', '/ship/v1/shipments', {
+      labelResponseOptions: 'LABEL',
+      accountNumber: { value: this.accountNumber },
+      requestedShipment: {
+        pickupType: 'DROPOFF_AT_FEDEX_LOCATION',
+        packagingType: 'YOUR_PACKAGING',
+        shippingChargesPayment: { paymentType: 'SENDER' },
+        labelSpecification: {
+          imageType: FEDEX_IMAGE_TYPES[format],
+          labelStockType: format === 'ZPL' ? 'STOCK_4X6' : 'PAPER_4X6'
+        },
+        requestedPackageLineItems: [{
+          weight: { units: 'LB', value: Number(KIT_PACKAGE.weight) },
+          dimensions: {
+            length: Number(KIT_PACKAGE.length),
+            width: Number(KIT_PACKAGE.width),
+            height: Number(KIT_PACKAGE.height),
+            units: 'IN'
+          }
+        }],
+        ...requestedShipment
+      }
+    });
+
+    const shipment = result.output?.transactionShipments?.[0];
+    return {
+      success: true,
+      trackingNumber: shipment?.masterTrackingNumber,
+      labelImage: shipment?.pieceResponses?.[0]?.packageDocuments?.[0]?.encodedLabel,
+      labelFormat: format
+    };
+  }
+
+  async createLabel(request: ShipmentRequest): Promise<LabelResult> {
+    try {
+      console.log('🚚 Creating FedEx shipping label for lead:', request.leadId);
+      const label = await this.ship({
+        shipper: labParty,
+        recipients: [patientParty(request.recipient)],
+        serviceType: 'GROUND_HOME_DELIVERY',
+        customerReferences: [{ customerReferenceType: 'CUSTOMER_REFERENCE', value: `Lead-${request.leadId}` }]
+      }, request.labelFormats);
+      console.log('✅ FedEx shipping label created successfully');
+      return label;
+
+    } catch (error) {
+      console.error('❌ FedEx Ship API error:', error);
+      return labelFailure(error);
+    }
+  }
+
+  async createReturnLabel(request: ReturnLabelRequest): Promise<LabelResult> {
+    try {
+      console.log('🔄 Creating FedEx return label for lead:', request.leadId);
+      const label = await this.ship({
+        shipper: patientParty(request.sender),
+        recipients: [labParty],
+        serviceType: 'FEDEX_GROUND',
+        shipmentSpecialServices: {
+          specialServiceTypes: ['RETURN_SHIPMENT'],
+          returnShipmentDetail: { returnType: 'PRINT_RETURN_LABEL' }
+        },
+        customerReferences: [{ customerReferenceType: 'CUSTOMER_REFERENCE', value: `Return-Lead-${request.leadId}` }]
+      }, request.labelFormats);
+      console.log('✅ FedEx return label created successfully');
+      return label;
+
+    } catch (error) {
+      console.error('❌ FedEx Return Label error:', error);
+      return labelFailure(error);
+    }
+  }
+
+  async track(trackingNumber: string): Promise<TrackingSummary> {
+    console.log('📦 Getting FedEx tracking info for:', trackingNumber);
+
+    const result = await this.request('POST', '/track/v1/trackingnumbers', {
+      includeDetailedScans: true,
+      trackingInfo: [{ trackingNumberInfo: { trackingNumber } }]
+    });
+    const scans: any[] = result.output?.completeTrackResults?.[0]?.trackResults?.[0]?.scanEvents ?? [];
+
+    // FedEx lists the newest scan first
+    const activities: CarrierTrackingActivity[] = scans.map(scan => {
+      const location = scan.scanLocation;
+      return {
+        status: FedExCarrier.normalizeStatus(scan.eventType),
+        activityType: scan.eventType,
+        activityCode: scan.derivedStatusCode ?? null,
+        description: scan.eventDescription ?? null,
+        location: location?.city ? `${location.city}, ${location.stateOrProvinceCode} ${location.postalCode ?? ''}`.trim() : null,
+        ...toLocalDateTime(scan.date)
+      };
+    }).reverse();
+
+    return { carrier: Carrier.FEDEX, trackingNumber, status: latestStatus(activities), activities };
+  }
+
+  async validateAddress(address: ShippingAddress): Promise<AddressValidationResult> {
+    try {
+      const result = await this.request('POST', '/address/v1/addresses/resolve', {
+        addressesToValidate: [{ address: fedexAddress(address) }]
+      });
+      const resolved = result.output?.resolvedAddresses?.[0];
+
+      return {
+        valid: resolved?.attributes?.Resolved === 'true' && resolved?.attributes?.DPV === 'true',
+        suggested: resolved ? {
+          street: [].concat(resolved.streetLinesToken ?? []).join(' '),
+          city: resolved.city,
+          state: resolved.stateOrProvinceCode,
+          zipCode: resolved.postalCode
+        } : undefined
+      };
+
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Address validation failed' };
+    }
+  }
+
+  async voidLabel(trackingNumber: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const result = await this.request('PUT', '/ship/v1/shipments/cancel', {
+        accountNumber: { value: this.accountNumber },
+        trackingNumber
+      });
+      return result.output?.cancelledShipment
+        ? { success: true }
+        : { success: false, error: 'FedEx did not cancel the shipment' };
+
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  async validateConfiguration(): Promise<{ valid: boolean; error?: string }> {
+    try {
+      if (!this.apiKey || !this.secretKey || !this.accountNumber) {
+        return { valid: false, error: 'Missing FedEx credentials' };
+      }
+
+      await this.getAccessToken();
+      return { valid: true };
+
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Configuration validation failed' };
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import zlib from 'zlib';
+import { PDFDocument, PDFImage, degrees } from 'pdf-lib';
+import { LabelFormat } from '@/lib/shipping/shippingCarrier';
+
+/**
+ * Label Sheet
+ * Carrier labels laid out as one printable PDF, a 4x6 page per label, so a whole
+ * shipping run prints in one go. Label images go in as the carrier returned them (PNG
+ * or JPEG) and are embedded by pdf-lib without resampling, so barcodes print as sharp
+ * as the carrier drew them. Landscape labels - UPS draws its labels sideways - are
+ * turned to fit the page. PDF, GIF and thermal (ZPL) labels cannot go on a sheet: ask
+ * the carrier for one of SHEET_LABEL_FORMATS instead.
+ */
+
+// Label formats a sheet takes, in the order carriers should be asked for them
+export const SHEET_LABEL_FORMATS: LabelFormat[] = ['PNG', 'JPG'];
+
+export interface SheetLabel {
+  // Base64, as the carrier returned it
+  image: string;
+  format?: LabelFormat;
+}
+
+export class LabelSheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LabelSheetError';
+  }
+}
+
+// 4x6 inches in PDF points
+const PAGE_WIDTH = 288;
+const PAGE_HEIGHT = 432;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+// Far beyond any carrier label (a 4x6 label at 300 dpi is 1200x1800)
+const MAX_LABEL_PIXELS = 25_000_000;
+// Samples per pixel for each PNG colour type
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export class LabelSheet {
+  private document: Promise<PDFDocument> | null = null;
+  private pages = 0;
+
+  get pageCount(): number {
+    return this.pages;
+  }
+
+  /**
+   * Add a label as the next page and return its page number (from 1). Rejects with
+   * LabelSheetError when the label is not an image the sheet can place.
+   */
+  async add(label: SheetLabel): Promise<number> {
+    if (label.format && !SHEET_LABEL_FORMATS.includes(label.format)) {
+      throw new LabelSheetError(`${label.format} labels cannot be added to a label sheet`);
+    }
+
+    const data = Buffer.from(label.image, 'base64');
+    const isPng = data.subarray(0, 8).equals(PNG_SIGNATURE);
+    if (!isPng && !(data[0] === 0xff && data[1] === 0xd8)) {
+      throw new LabelSheetError('Label is not a PNG or JPEG image');
+    }
+
+    if (isPng) checkPng(data);
+
+    const document = await (this.document ??= PDFDocument.create());
+    let image: PDFImage;
+    try {
+      // A copy, since pdf-lib reads the whole ArrayBuffer under a view and Buffers can share one
+      const bytes = new Uint8Array(data);
+      image = isPng ? await document.embedPng(bytes) : await document.embedJpg(bytes);
+    } catch (error) {
+      throw new LabelSheetError(`${isPng ? 'PNG' : 'JPEG'} label could not be read: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const page = document.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    page.drawImage(image, placement(image));
+    return ++this.pages;
+  }
+
+  async toBuffer(): Promise<Buffer> {
+    const document = await (this.document ??= PDFDocument.create());
+    return Buffer.from(await document.save());
+  }
+}
+
+/**
+ * Where to draw the image so it is as large as fits on the page, centred. A landscape
+ * image is turned a quarter anticlockwise about its corner so it runs along the page.
+ */
+function placement({ width, height }: PDFImage) {
+  if (width <= height) {
+    const scale = Math.min(PAGE_WIDTH / width, PAGE_HEIGHT / height);
+    const drawnWidth = width * scale;
+    const drawnHeight = height * scale;
+    return { x: (PAGE_WIDTH - drawnWidth) / 2, y: (PAGE_HEIGHT - drawnHeight) / 2, width: drawnWidth, height: drawnHeight };
+  }
+
+  const scale = Math.min(PAGE_WIDTH / height, PAGE_HEIGHT / width);
+  const drawnWidth = width * scale;   // along the page's height
+  const drawnHeight = height * scale; // along the page's width
+  return {
+    x: (PAGE_WIDTH - drawnHeight) / 2 + drawnHeight,
+    y: (PAGE_HEIGHT - drawnWidth) / 2,
+    width: drawnWidth,
+    height: drawnHeight,
+    rotate: degrees(90)
+  };
+}
+
+/**
+ * Check a PNG's header and image data before pdf-lib decodes it. pdf-lib's inflate
+ * never returns on some corrupt streams, so the data is inflated here first, where
+ * corruption is an error.
+ */
+function checkPng(data: Buffer) {
+  let header: Buffer | null = null;
+  const compressed: Buffer[] = [];
+  for (let pos = 8; pos + 8 <= data.length;) {
+    const chunkLength = data.readUInt32BE(pos);
+    const type = data.toString('latin1', pos + 4, pos + 8);
+    const chunk = data.subarray(pos + 8, pos + 8 + chunkLength);
+    if (type === 'IHDR') header = chunk;
+    else if (type === 'IDAT') compressed.push(chunk);
+    else if (type === 'IEND') break;
+    pos += chunkLength + 12;
+  }
+  if (!header || header.length < 13 || compressed.length === 0) {
+    throw new LabelSheetError('PNG label has no image data');
+  }
+
+  const width = header.readUInt32BE(0);
+  const height = header.readUInt32BE(4);
+  const channels = PNG_CHANNELS[header[9]];
+  if (!channels || width === 0 || height === 0 || width * height > MAX_LABEL_PIXELS) {
+    throw new LabelSheetError(`PNG label is not a usable image (${width}x${height}, colour type ${header[9]})`);
+  }
+
+  let pixels: Buffer;
+  try {
+    pixels = zlib.inflateSync(Buffer.concat(compressed));
+  } catch (error) {
+    throw new LabelSheetError(`PNG label could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+  // Each row is a filter byte and its samples; interlaced images are stored in passes
+  const rowBytes = 1 + Math.ceil(width * channels * header[8] / 8);
+  if (header[12] === 0 && pixels.length < rowBytes * height) {
+    throw new LabelSheetError('PNG label image data is cut short');
+  }
+}
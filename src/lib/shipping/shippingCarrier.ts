@@ -0,0 +1,164 @@
+import { Carrier, TrackingStatus } from '@prisma/client';
+
+/**
+ * Shipping Carrier
+ * What the app needs from a carrier, in carrier-neutral terms. Each carrier's API is
+ * wrapped by an adapter (UPSCarrier, USPSCarrier, FedExCarrier) that turns its labels,
+ * tracking activity and address checks into the types below, so shipping and tracking
+ * code never deals in one carrier's codes. Tracking activity is normalized to a
+ * TrackingStatus; the carrier's own code is kept alongside for reference.
+ */
+
+export interface ShippingAddress {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+export type LabelFormat = 'GIF' | 'PNG' | 'JPG' | 'PDF' | 'ZPL';
+
+export interface ShipmentRequest {
+  leadId: string;
+  recipient: {
+    name: string;
+    address: ShippingAddress;
+    phone: string;
+  };
+  package: {
+    weight: string;
+    dimensions: string;
+    description: string;
+  };
+  // Label formats the caller can use, most wanted first - see chooseLabelFormat
+  labelFormats?: LabelFormat[];
+}
+
+export interface ReturnLabelRequest {
+  leadId: string;
+  // The patient the kit comes back from
+  sender: ShipmentRequest['recipient'];
+  // Outbound tracking number, for carriers that link the return to it
+  originalTrackingNumber?: string;
+  labelFormats?: LabelFormat[];
+}
+
+export interface LabelResult {
+  success: boolean;
+  trackingNumber?: string;
+  // Base64 label image as the carrier returned it
+  labelImage?: string;
+  labelFormat?: LabelFormat;
+  error?: string;
+  // HTTP status of the carrier call that failed, e.g. 429 when rate limited
+  status?: number;
+}
+
+export interface CarrierTrackingActivity {
+  status: TrackingStatus;
+  // The carrier's own activity code and detail code
+  activityType: string;
+  activityCode?: string | null;
+  description?: string | null;
+  location?: string | null;
+  // Local date (YYYYMMDD) and time (HHMMSS) at the activity's location
+  localDate: string;
+  localTime?: string | null;
+}
+
+export interface TrackingSummary {
+  carrier: Carrier;
+  trackingNumber: string;
+  // Status of the latest activity
+  status: TrackingStatus;
+  // Oldest first
+  activities: CarrierTrackingActivity[];
+}
+
+export interface AddressValidationResult {
+  valid: boolean;
+  // The carrier's corrected form of the address, when it has one
+  suggested?: ShippingAddress;
+  // Rural delivery area, where some carriers deliver much later than others
+  rural?: boolean;
+  error?: string;
+}
+
+export interface ShippingCarrier {
+  readonly code: Carrier;
+  readonly name: string;
+  createLabel(request: ShipmentRequest): Promise<LabelResult>;
+  createReturnLabel(request: ReturnLabelRequest): Promise<LabelResult>;
+  track(trackingNumber: string): Promise<TrackingSummary>;
+  validateAddress(address: ShippingAddress): Promise<AddressValidationResult>;
+  voidLabel(trackingNumber: string): Promise<{ success: boolean; error?: string }>;
+  // Whether credentials are set and accepted
+  validateConfiguration(): Promise<{ valid: boolean; error?: string }>;
+}
+
+export class CarrierApiError extends Error {
+  readonly carrier: Carrier;
+  readonly status: number;
+
+  constructor(carrier: Carrier, message: string, status: number = 502) {
+    super(`${carrier} ${message}`);
+    this.name = 'CarrierApiError';
+    this.carrier = carrier;
+    this.status = status;
+  }
+}
+
+// Where kits ship from and come back to
+export const LAB_ADDRESS = {
+  name: 'Healthcare Testing Lab',
+  attention: 'Lab Processing',
+  phone: '1234567890',
+  address: {
+    street: '123 Lab Street',
+    city: 'Atlanta',
+    state: 'GA',
+    zipCode: '30309'
+  } satisfies ShippingAddress
+};
+
+export const KIT_PACKAGE = {
+  length: '12',
+  width: '8',
+  height: '4',
+  weight: '1.0'
+};
+
+/**
+ * Split an ISO-ish timestamp into local YYYYMMDD and HHMMSS, keeping the clock time as
+ * written (carriers report activity in the location's local time)
+ */
+export function toLocalDateTime(timestamp: string): { localDate: string; localTime: string } {
+  const match = timestamp.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) {
+    throw new Error(`Unrecognised carrier timestamp: ${timestamp}`);
+  }
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  return { localDate: `${year}${month}${day}`, localTime: `${hour}${minute}${second}` };
+}
+
+/**
+ * The first of the caller's label formats the carrier can produce, or the carrier's own
+ * default (the first it supports) when the caller did not ask or none match
+ */
+export function chooseLabelFormat(wanted: LabelFormat[] | undefined, supported: LabelFormat[]): LabelFormat {
+  return wanted?.find(format => supported.includes(format)) ?? supported[0];
+}
+
+// A failed label call as a LabelResult
+export function labelFailure(error: unknown): LabelResult {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    status: error instanceof CarrierApiError ? error.status : undefined
+  };
+}
+
+// Status of the most recent activity - activities are listed oldest first
+export function latestStatus(activities: CarrierTrackingActivity[]): TrackingStatus {
+  return activities.length > 0 ? activities[activities.length - 1].status : TrackingStatus.UNKNOWN;
+}
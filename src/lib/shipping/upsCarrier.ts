@@ -0,0 +1,379 @@
+import { Carrier, TrackingStatus } from '@prisma/client';
+import {
+  ShippingCarrier, ShipmentRequest, ReturnLabelRequest, LabelResult, TrackingSummary,
+  CarrierTrackingActivity, ShippingAddress, AddressValidationResult, CarrierApiError,
+  LabelFormat, LAB_ADDRESS, KIT_PACKAGE, chooseLabelFormat, labelFailure, latestStatus
+} from '@/lib/shipping/shippingCarrier';
+
+/**
+ * UPS Shipping Carrier
+ * Handles shipping label creation and tracking queries against the UPS REST APIs
+ */
+
+interface UPSTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+// UPS activity status types
+const UPS_STATUS: Record<string, TrackingStatus> = {
+  M: TrackingStatus.LABEL_CREATED,  // Manifest - label created
+  MV: TrackingStatus.LABEL_CREATED, // Manifest voided
+  P: TrackingStatus.IN_TRANSIT,     // Pickup
+  I: TrackingStatus.IN_TRANSIT,
+  D: TrackingStatus.DELIVERED,
+  X: TrackingStatus.EXCEPTION,
+  RS: TrackingStatus.RETURNED_TO_SENDER
+};
+
+// UPS status codes for "out for delivery" - reported with type I
+const UPS_OUT_FOR_DELIVERY_CODES = new Set(['OT', 'OF', '021']);
+
+const kitPackage = (description: string, weight: string = KIT_PACKAGE.weight) => ({
+  Description: description,
+  Packaging: {
+    Code: '02',
+    Description: 'Package'
+  },
+  Dimensions: {
+    UnitOfMeasurement: {
+      Code: 'IN',
+      Description: 'Inches'
+    },
+    Length: KIT_PACKAGE.length,
+    Width: KIT_PACKAGE.width,
+    Height: KIT_PACKAGE.height
+  },
+  PackageWeight: {
+    UnitOfMeasurement: {
+      Code: 'LBS',
+      Description: 'Pounds'
+    },
+    Weight: weight
+  }
+});
+
+const upsAddress = (address: ShippingAddress) => ({
+  AddressLine: [address.street],
+  City: address.city,
+  StateProvinceCode: address.state,
+  PostalCode: address.zipCode,
+  CountryCode: 'US'
+});
+
+const labAddress = upsAddress(LAB_ADDRESS.address);
+
+// Label formats UPS can produce, default first
+const UPS_LABEL_FORMATS: LabelFormat[] = ['GIF', 'PNG', 'ZPL'];
+
+const labelSpecification = (format: LabelFormat) => ({
+  LabelImageFormat: {
+    Code: format,
+    Description: format
+  },
+  HTTPUserAgent: 'HealthcareCRM/1.0',
+  // Thermal formats need the stock size
+  ...(format === 'ZPL' ? { LabelStockSize: { Height: '6', Width: '4' } } : {})
+});
+
+export class UPSCarrier implements ShippingCarrier {
+  readonly code = Carrier.UPS;
+  readonly name = 'UPS';
+  private accessKey: string;
+  private username: string;
+  private password: string;
+  private baseUrl: string;
+  private accessToken: string | null = null;
+  private tokenExpiry: number = 0;
+
+  constructor() {
+    this.accessKey = process.env.UPS_ACCESS_KEY || '';
+    this.username = process.env.UPS_USERNAME || '';
+    this.password = process.env.UPS_PASSWORD || '';
+    // UPS_API_BASE_URL points at another host, e.g. the local simulator (scripts/ups-simulator.js)
+    this.baseUrl = process.env.UPS_API_BASE_URL?.replace(/\/$/, '') || (process.env.NODE_ENV === 'production'
+      ? 'https://onlinetools.ups.com/api'
+      : 'https://wwwcie.ups.com/api');
+  }
+
+  /**
+   * UPS activity status type (and status code) in carrier-neutral terms
+   */
+  static normalizeStatus(type: string, code?: string | null): TrackingStatus {
+    if (type === 'I' && code && UPS_OUT_FOR_DELIVERY_CODES.has(code)) {
+      return TrackingStatus.OUT_FOR_DELIVERY;
+    }
+    return UPS_STATUS[type] ?? TrackingStatus.UNKNOWN;
+  }
+
+  /**
+   * Get OAuth access token
+   */
+  private async getAccessToken(): Promise<string> {
+    // Check if current token is still valid
+    if (this.accessToken && Date.now() < this.tokenExpiry) {
+      return this.accessToken;
+    }
+
+    try {
+      console.log('🔑 Getting UPS OAuth token...');
+
+      const response = await fetch(`${this.baseUrl}/security/v1/oauth/token`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`${this.username}:${this.password}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'x-merchant-id': this.accessKey
+        },
+        body: 'grant_type=client_credentials'
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`UPS OAuth error: ${response.status} ${errorText}`);
+      }
+
+      const tokenData: UPSTokenResponse = await response.json();
+
+      this.accessToken = tokenData.access_token;
+      this.tokenExpiry = Date.now() + (tokenData.expires_in * 1000) - 60000; // 1 minute buffer
+
+      console.log('✅ UPS OAuth token obtained successfully');
+      return this.accessToken;
+
+    } catch (error) {
+      console.error('❌ UPS OAuth error:', error);
+      throw new Error(`Failed to get UPS access token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+    const accessToken = await this.getAccessToken();
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        ...headers
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new CarrierApiError(Carrier.UPS, `API error: ${response.status} ${errorText}`, response.status);
+    }
+    return response.json();
+  }
+
+  private async ship(shipment: Record<string, unknown>, context: string, labelFormats?: LabelFormat[]): Promise<LabelResult> {
+    const format = chooseLabelFormat(labelFormats, UPS_LABEL_FORMATS);
+    const result = await this.request('POST', '/shipments/v1/ship', {
+      ShipmentRequest: {
+        Request: {
+          RequestOption: 'nonvalidate',
+          TransactionReference: {
+            CustomerContext: context
+          }
+        },
+        Shipment: shipment,
+        LabelSpecification: labelSpecification(format)
+      }
+    }, {
+      'transId': `${context}-${Date.now()}`,
+      'transactionSrc': 'HealthcareCRM'
+    });
+
+    const packageResult = result.ShipmentResponse?.ShipmentResults?.PackageResults?.[0];
+    return {
+      success: true,
+      trackingNumber: packageResult?.TrackingNumber,
+      labelImage: packageResult?.ShippingLabel?.GraphicImage,
+      labelFormat: format
+    };
+  }
+
+  /**
+   * Create shipping label for test kit
+   */
+  async createLabel(request: ShipmentRequest): Promise<LabelResult> {
+    try {
+      console.log('🚚 Creating UPS shipping label for lead:', request.leadId);
+
+      const label = await this.ship({
+        Description: request.package.description,
+        Shipper: {
+          Name: LAB_ADDRESS.name,
+          AttentionName: 'Shipping Department',
+          TaxIdentificationNumber: '123456',
+          Phone: {
+            Number: LAB_ADDRESS.phone,
+            Extension: ' '
+          },
+          ShipperNumber: process.env.UPS_ACCOUNT_NUMBER,
+          Address: labAddress
+        },
+        ShipTo: {
+          Name: request.recipient.name,
+          AttentionName: request.recipient.name,
+          Phone: {
+            Number: request.recipient.phone.replace(/\D/g, '').substring(0, 10)
+          },
+          Address: upsAddress(request.recipient.address)
+        },
+        Service: {
+          Code: '03', // UPS Ground
+          Description: 'Ground'
+        },
+        Package: [kitPackage(request.package.description, request.package.weight)]
+      }, `Lead-${request.leadId}`, request.labelFormats);
+
+      console.log('✅ UPS shipping label created successfully');
+      return label;
+
+    } catch (error) {
+      console.error('❌ UPS Shipping API error:', error);
+      return labelFailure(error);
+    }
+  }
+
+  /**
+   * Create return shipping label
+   */
+  async createReturnLabel(request: ReturnLabelRequest): Promise<LabelResult> {
+    try {
+      console.log('🔄 Creating UPS return label for lead:', request.leadId);
+
+      const label = await this.ship({
+        Description: 'Medical Test Kit Return',
+        ReturnService: {
+          Code: '8' // UPS Return Service
+        },
+        Shipper: {
+          Name: LAB_ADDRESS.name,
+          AttentionName: LAB_ADDRESS.attention,
+          ShipperNumber: process.env.UPS_ACCOUNT_NUMBER,
+          Address: labAddress
+        },
+        ShipFrom: {
+          Name: request.sender.name,
+          AttentionName: request.sender.name,
+          Address: upsAddress(request.sender.address)
+        },
+        ShipTo: {
+          Name: LAB_ADDRESS.name,
+          AttentionName: LAB_ADDRESS.attention,
+          Address: labAddress
+        },
+        Service: {
+          Code: '03', // UPS Ground
+          Description: 'Ground'
+        },
+        Package: [kitPackage('Medical Test Kit Return')]
+      }, `Return-Lead-${request.leadId}`, request.labelFormats);
+
+      console.log('✅ UPS return label created successfully');
+      return label;
+
+    } catch (error) {
+      console.error('❌ UPS Return Label error:', error);
+      return labelFailure(error);
+    }
+  }
+
+  /**
+   * Get tracking information for a package
+   */
+  async track(trackingNumber: string): Promise<TrackingSummary> {
+    console.log('📦 Getting UPS tracking info for:', trackingNumber);
+
+    const result = await this.request('GET', `/track/v1/details/${trackingNumber}`);
+    const activity: any[] = result.trackResponse?.shipment?.[0]?.package?.[0]?.activity ?? [];
+
+    // UPS lists the newest activity first
+    const activities: CarrierTrackingActivity[] = activity.map(entry => {
+      const address = entry.location?.address;
+      return {
+        status: UPSCarrier.normalizeStatus(entry.status?.type, entry.status?.code),
+        activityType: entry.status?.type,
+        activityCode: entry.status?.code ?? null,
+        description: entry.status?.description ?? null,
+        location: address?.city ? `${address.city}, ${address.stateProvince} ${address.postalCode}` : null,
+        localDate: entry.date,
+        localTime: entry.time ?? null
+      };
+    }).reverse();
+
+    return { carrier: Carrier.UPS, trackingNumber, status: latestStatus(activities), activities };
+  }
+
+  /**
+   * Validate and classify an address with UPS Address Validation
+   */
+  async validateAddress(address: ShippingAddress): Promise<AddressValidationResult> {
+    try {
+      const result = await this.request('POST', '/addressvalidation/v1/1', {
+        XAVRequest: {
+          AddressKeyFormat: {
+            AddressLine: [address.street],
+            PoliticalDivision2: address.city,
+            PoliticalDivision1: address.state,
+            PostcodePrimaryLow: address.zipCode,
+            CountryCode: 'US'
+          }
+        }
+      });
+
+      const response = result.XAVResponse ?? {};
+      const candidate = [].concat(response.Candidate ?? [])[0] as any;
+      const suggested = candidate?.AddressKeyFormat ? {
+        street: [].concat(candidate.AddressKeyFormat.AddressLine ?? []).join(' '),
+        city: candidate.AddressKeyFormat.PoliticalDivision2,
+        state: candidate.AddressKeyFormat.PoliticalDivision1,
+        zipCode: candidate.AddressKeyFormat.PostcodePrimaryLow
+      } : undefined;
+
+      return { valid: 'ValidAddressIndicator' in response, suggested };
+
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Address validation failed' };
+    }
+  }
+
+  /**
+   * Void a label that has not been used
+   */
+  async voidLabel(trackingNumber: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const result = await this.request('DELETE', `/shipments/v1/void/cancel/${trackingNumber}`);
+      const status = result.VoidShipmentResponse?.SummaryResult?.Status;
+      return status?.Code === '1'
+        ? { success: true }
+        : { success: false, error: status?.Description || 'UPS did not void the label' };
+
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Validate UPS service configuration
+   */
+  async validateConfiguration(): Promise<{ valid: boolean; error?: string }> {
+    try {
+      if (!this.accessKey || !this.username || !this.password) {
+        return { valid: false, error: 'Missing UPS credentials' };
+      }
+
+      await this.getAccessToken();
+      return { valid: true };
+
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Configuration validation failed'
+      };
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { Carrier, TrackingStatus } from '@prisma/client';
+import {
+  ShippingCarrier, ShipmentRequest, ReturnLabelRequest, LabelResult, TrackingSummary,
+  CarrierTrackingActivity, ShippingAddress, AddressValidationResult, CarrierApiError,
+  LabelFormat, LAB_ADDRESS, KIT_PACKAGE, chooseLabelFormat, labelFailure, latestStatus, toLocalDateTime
+} from '@/lib/shipping/shippingCarrier';
+
+/**
+ * USPS Shipping Carrier
+ * Labels, tracking and address checks through the USPS APIs (v3). Labels are paid with
+ * a payment authorization token for the account in USPS_CRID / USPS_MID /
+ * USPS_ACCOUNT_NUMBER. USPS delivers rural routes daily, which for some patients is
+ * days faster than UPS Ground - validateAddress flags rural carrier routes.
+ */
+
+interface USPSTokenResponse {
+  access_token: string;
+  expires_in: number;
+}
+
+// USPS tracking event codes
+const USPS_STATUS: Record<string, TrackingStatus> = {
+  MA: TrackingStatus.LABEL_CREATED, // Pre-shipment - label created
+  GX: TrackingStatus.LABEL_CREATED, // Label cancelled
+  '01': TrackingStatus.DELIVERED,
+  '02': TrackingStatus.EXCEPTION,   // Notice left
+  '04': TrackingStatus.EXCEPTION,   // Refused
+  '05': TrackingStatus.EXCEPTION,   // Undeliverable as addressed
+  '09': TrackingStatus.RETURNED_TO_SENDER,
+  '21': TrackingStatus.EXCEPTION,   // No such number
+  OF: TrackingStatus.OUT_FOR_DELIVERY
+};
+
+// Label formats USPS can produce, default first, with the imageType for each
+const USPS_IMAGE_TYPES: Partial<Record<LabelFormat, string>> = {
+  PDF: 'PDF',
+  JPG: 'JPG',
+  ZPL: 'ZPL203DPI'
+};
+const USPS_LABEL_FORMATS = Object.keys(USPS_IMAGE_TYPES) as LabelFormat[];
+
+// Rural route (R) and highway contract route (H) carrier routes
+const RURAL_ROUTE = /^[RH]\d+/;
+
+function splitName(name: string): { firstName: string; lastName: string } {
+  const [firstName, ...rest] = name.trim().split(/\s+/);
+  return { firstName, lastName: rest.join(' ') };
+}
+
+const uspsAddress = (address: ShippingAddress) => ({
+  streetAddress: address.street,
+  city: address.city,
+  state: address.state,
+  ZIPCode: address.zipCode.substring(0, 5)
+});
+
+const labAddress = {
+  ...uspsAddress(LAB_ADDRESS.address),
+  firm: LAB_ADDRESS.name,
+  phone: LAB_ADDRESS.phone
+};
+
+const packageDescription = () => ({
+  mailClass: 'USPS_GROUND_ADVANTAGE',
+  rateIndicator: 'SP',
+  weightUOM: 'lb',
+  weight: Number(KIT_PACKAGE.weight),
+  dimensionsUOM: 'in',
+  length: Number(KIT_PACKAGE.length),
+  width: Number(KIT_PACKAGE.width),
+  height: Number(KIT_PACKAGE.height),
+  processingCategory: 'MACHINABLE',
+  mailingDate: new Date().toISOString().slice(0, 10),
+  destinationEntryFacilityType: 'NONE'
+});
+
+export class USPSCarrier implements ShippingCarrier {
+  readonly code = Carrier.USPS;
+  readonly name = 'USPS';
+  private clientId: string;
+  private clientSecret: string;
+  private baseUrl: string;
+  private accessToken: string | null = null;
+  private tokenExpiry: number = 0;
+
+  constructor() {
+    this.clientId = process.env.USPS_CLIENT_ID || '';
+    this.clientSecret = process.env.USPS_CLIENT_SECRET || '';
+    this.baseUrl = process.env.NODE_ENV === 'production'
+      ? 'https://apis.usps.com'
+      : 'https://apis-tem.usps.com';
+  }
+
+  /**
+   * USPS tracking event (code, falling back to its wording) in carrier-neutral terms
+   */
+  static normalizeStatus(eventCode: string | null | undefined, eventType: string = ''): TrackingStatus {
+    if (eventCode && USPS_STATUS[eventCode]) {
+      return USPS_STATUS[eventCode];
+    }
+    const text = eventType.toLowerCase();
+    if (text.includes('out for delivery')) return TrackingStatus.OUT_FOR_DELIVERY;
+    if (text.includes('return to sender')) return TrackingStatus.RETURNED_TO_SENDER;
+    if (text.startsWith('delivered')) return TrackingStatus.DELIVERED;
+    if (text.includes('label created') || text.includes('pre-shipment')) return TrackingStatus.LABEL_CREATED;
+    if (/alert|undeliverable|refused|notice left|attempted/.test(text)) return TrackingStatus.EXCEPTION;
+    return text ? TrackingStatus.IN_TRANSIT : TrackingStatus.UNKNOWN;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiry) {
+      return this.accessToken;
+    }
+
+    const response = await fetch(`${this.baseUrl}/oauth2/v3/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        grant_type: 'client_credentials',
+        client_id: this.clientId,
+        client_secret: this.clientSecret
+      })
+    });
+
+    if (!response.ok) {
+      throw new CarrierApiError(Carrier.USPS, `OAuth error: ${response.status} ${await response.text()}`, response.status);
+    }
+
+    const tokenData: USPSTokenResponse = await response.json();
+    this.accessToken = tokenData.access_token;
+    this.tokenExpiry = Date.now() + (tokenData.expires_in * 1000) - 60000; // 1 minute buffer
+    return this.accessToken;
+  }
+
+  private async request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+    const accessToken = await this.getAccessToken();
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        ...headers
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new CarrierApiError(Carrier.USPS, `API error: ${response.status} ${await response.text()}`, response.status);
+    }
+    return response.status === 204 ? {} : response.json();
+  }
+
+  // Labels are charged to the account this token authorizes
+  private async paymentHeaders(): Promise<Record<string, string>> {
+    const account = {
+      CRID: process.env.USPS_CRID,
+      MID: process.env.USPS_MID,
+      manifestMID: process.env.USPS_MID
+    };
+    const result = await this.request('POST', '/payments/v3/payment-authorization', {
+      roles: [
+        { roleName: 'PAYER', ...account, accountType: 'EPS', accountNumber: process.env.USPS_ACCOUNT_NUMBER },
+        { roleName: 'LABEL_OWNER', ...account }
+      ]
+    });
+    return { 'X-Payment-Authorization-Token': result.paymentAuthorizationToken };
+  }
+
+  private async label(path: string, body: Record<string, unknown>, labelFormats?: LabelFormat[]): Promise<LabelResult> {
+    const format = chooseLabelFormat(labelFormats, USPS_LABEL_FORMATS);
+    const result = await this.request('POST', path, {
+      imageInfo: { imageType: USPS_IMAGE_TYPES[format], labelType: '4X6LABEL' },
+      packageDescription: packageDescription(),
+      ...body
+    }, {
+      ...(await this.paymentHeaders()),
+      // JSON rather than the default multipart response
+      'Accept': 'application/vnd.usps.labels+json'
+    });
+
+    return {
+      success: true,
+      trackingNumber: result.labelMetadata?.trackingNumber,
+      labelImage: result.labelImage,
+      labelFormat: format
+    };
+  }
+
+  async createLabel(request: ShipmentRequest): Promise<LabelResult> {
+    try {
+      console.log('🚚 Creating USPS shipping label for lead:', request.leadId);
+      const label = await this.label('/labels/v3/label', {
+        toAddress: {
+          ...splitName(request.recipient.name),
+          ...uspsAddress(request.recipient.address),
+          phone: request.recipient.phone.replace(/\D/g, '').substring(0, 10)
+        },
+        fromAddress: labAddress
+      }, request.labelFormats);
+      console.log('✅ USPS shipping label created successfully');
+      return label;
+
+    } catch (error) {
+      console.error('❌ USPS Labels API error:', error);
+      return labelFailure(error);
+    }
+  }
+
+  async createReturnLabel(request: ReturnLabelRequest): Promise<LabelResult> {
+    try {
+      console.log('🔄 Creating USPS return label for lead:', request.leadId);
+      const label = await this.label('/labels/v3/return-label', {
+        fromAddress: {
+          ...splitName(request.sender.name),
+          ...uspsAddress(request.sender.address)
+        },
+        toAddress: labAddress
+      }, request.labelFormats);
+      console.log('✅ USPS return label created successfully');
+      return label;
+
+    } catch (error) {
+      console.error('❌ USPS Return Label error:', error);
+      return labelFailure(error);
+    }
+  }
+
+  async track(trackingNumber: string): Promise<TrackingSummary> {
+    console.log('📦 Getting USPS tracking info for:', trackingNumber);
+
+    const result = await this.request('GET', `/tracking/v3/tracking/${trackingNumber}?expand=DETAIL`);
+    const events: any[] = result.trackingEvents ?? [];
+
+    // USPS lists the newest event first
+    const activities: CarrierTrackingActivity[] = events.map(event => ({
+      status: USPSCarrier.normalizeStatus(event.eventCode, event.eventType),
+      activityType: event.eventCode || event.eventType,
+      activityCode: event.eventCode ?? null,
+      description: event.eventType ?? null,
+      location: event.eventCity ? `${event.eventCity}, ${event.eventState} ${event.eventZIP ?? ''}`.trim() : null,
+      ...toLocalDateTime(event.eventTimestamp)
+    })).reverse();
+
+    return { carrier: Carrier.USPS, trackingNumber, status: latestStatus(activities), activities };
+  }
+
+  async validateAddress(address: ShippingAddress): Promise<AddressValidationResult> {
+    try {
+      const query = new URLSearchParams(uspsAddress(address));
+      const result = await this.request('GET', `/addresses/v3/address?${query}`);
+      const standardized = result.address;
+
+      return {
+        valid: result.additionalInfo?.DPVConfirmation === 'Y',
+        suggested: standardized ? {
+          street: standardized.streetAddress,
+          city: standardized.city,
+          state: standardized.state,
+          zipCode: standardized.ZIPPlus4 ? `${standardized.ZIPCode}-${standardized.ZIPPlus4}` : standardized.ZIPCode
+        } : undefined,
+        rural: RURAL_ROUTE.test(result.additionalInfo?.carrierRoute ?? '')
+      };
+
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Address validation failed' };
+    }
+  }
+
+  async voidLabel(trackingNumber: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.request('DELETE', `/labels/v3/label/${trackingNumber}`, undefined, await this.paymentHeaders());
+      return { success: true };
+
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  async validateConfiguration(): Promise<{ valid: boolean; error?: string }> {
+    try {
+      if (!this.clientId || !this.clientSecret || !process.env.USPS_CRID || !process.env.USPS_MID) {
+        return { valid: false, error: 'Missing USPS credentials' };
+      }
+
+      await this.getAccessToken();
+      return { valid: true };
+
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Configuration validation failed' };
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { Readable } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import { S3Storage } from '@/lib/storage/s3Storage';
+
+process.env.PHI_KEY_PROVIDER = 'env';
+process.env.PHI_DATA_KEYS = `test:${Buffer.alloc(32, 7).toString('base64')}`;
+process.env.PHI_INDEX_KEY = Buffer.alloc(32, 9).toString('base64');
+
+// Keeps objects in memory, answering the commands S3Storage sends
+function fakeClient() {
+  const objects = new Map<string, Buffer>();
+  const client = new S3Client({ region: 'us-east-1', credentials: { accessKeyId: 'test', secretAccessKey: 'test' } });
+  jest.spyOn(client, 'send').mockImplementation(async (command: any) => {
+    const { Bucket, Key, Body } = command.input;
+    const id = `${Bucket}/${Key}`;
+    switch (command.constructor.name) {
+      case 'PutObjectCommand':
+        objects.set(id, Buffer.isBuffer(Body) ? Body : Buffer.from(Body));
+        return {};
+      case 'GetObjectCommand':
+        if (!objects.has(id)) throw Object.assign(new Error('NoSuchKey'), { name: 'NoSuchKey' });
+        return { Body: Readable.from([objects.get(id)!]) };
+      case 'DeleteObjectCommand':
+        objects.delete(id);
+        return {};
+      default:
+        throw new Error(`Unexpected command ${command.constructor.name}`);
+    }
+  });
+  return { client, objects };
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+describe('S3Storage', () => {
+  it('stores files encrypted under the prefix and reads them back', async () => {
+    const { client, objects } = fakeClient();
+    const storage = new S3Storage('phi-bucket', 'uploads/', client);
+
+    const url = await storage.save('batch/leads.csv', Readable.from([Buffer.from('mbi,name\nA1,Ada\n')]));
+
+    expect(url).toBe('s3://phi-bucket/uploads/batch/leads.csv');
+    expect(objects.get('phi-bucket/uploads/batch/leads.csv')!.toString('utf-8')).not.toContain('Ada');
+    expect(await readAll(storage.open(url))).toBe('mbi,name\nA1,Ada\n');
+  });
+
+  it('removes files and refuses URLs it does not own', async () => {
+    const { client, objects } = fakeClient();
+    const storage = new S3Storage('phi-bucket', 'uploads/', client);
+    const url = await storage.save('batch/leads.csv', Readable.from([Buffer.from('mbi\n')]));
+
+    await storage.remove(url);
+    expect(objects.size).toBe(0);
+    expect(() => storage.open('s3://other-bucket/uploads/batch/leads.csv')).toThrow(/Not an upload URL/);
+  });
+
+  it('fails the read stream when the object is missing', async () => {
+    const { client } = fakeClient();
+    const storage = new S3Storage('phi-bucket', 'uploads/', client);
+    await expect(readAll(storage.open('s3://phi-bucket/uploads/missing.csv'))).rejects.toThrow('NoSuchKey');
+  });
+});
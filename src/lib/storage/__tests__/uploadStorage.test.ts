@@ -0,0 +1,49 @@
+import { LocalDiskStorage, storageFromEnv } from '@/lib/storage/uploadStorage';
+import { S3Storage } from '@/lib/storage/s3Storage';
+
+const env = process.env as Record<string, string | undefined>;
+const original = { ...env };
+
+function setEnv(values: Record<string, string | undefined>) {
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined) delete env[name];
+    else env[name] = value;
+  }
+}
+
+afterEach(() => {
+  setEnv({ NODE_ENV: original.NODE_ENV, TEST_STORAGE: undefined, S3_STORAGE_BUCKET: undefined });
+});
+
+const options = { prefix: 'uploads/', localDir: '/tmp/test-uploads' };
+
+describe('storageFromEnv', () => {
+  it('defaults to local disk outside production', () => {
+    setEnv({ NODE_ENV: 'development' });
+    expect(storageFromEnv('TEST_STORAGE', options)).toBeInstanceOf(LocalDiskStorage);
+  });
+
+  it('defaults to s3 in production, under the prefix', () => {
+    setEnv({ NODE_ENV: 'production', S3_STORAGE_BUCKET: 'phi-bucket' });
+    const storage = storageFromEnv('TEST_STORAGE', options);
+    expect(storage).toBeInstanceOf(S3Storage);
+    expect(storage.owns('s3://phi-bucket/uploads/batch/file.csv')).toBe(true);
+    expect(storage.owns('s3://phi-bucket/labels/lead/1Z.png')).toBe(false);
+    expect(storage.owns('local://batch/file.csv')).toBe(false);
+  });
+
+  it('refuses local disk in production', () => {
+    setEnv({ NODE_ENV: 'production', TEST_STORAGE: 'local', S3_STORAGE_BUCKET: 'phi-bucket' });
+    expect(() => storageFromEnv('TEST_STORAGE', options)).toThrow(/production does not allow/);
+  });
+
+  it('needs a bucket for s3', () => {
+    setEnv({ NODE_ENV: 'development', TEST_STORAGE: 's3' });
+    expect(() => storageFromEnv('TEST_STORAGE', options)).toThrow(/S3_STORAGE_BUCKET is not set/);
+  });
+
+  it('rejects an unknown adapter', () => {
+    setEnv({ NODE_ENV: 'development', TEST_STORAGE: 'ftp' });
+    expect(() => storageFromEnv('TEST_STORAGE', options)).toThrow(/Unknown TEST_STORAGE "ftp"/);
+  });
+});
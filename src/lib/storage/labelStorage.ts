@@ -0,0 +1,36 @@
+import path from 'path';
+import { UploadStorage, storageFromEnv } from '@/lib/storage/uploadStorage';
+
+/**
+ * Label Storage
+ * Where shipping labels are kept once a carrier issues them, so a lost label can be
+ * printed again rather than voided and shipped anew. Labels carry the patient's name
+ * and address, so they are stored encrypted through the same adapters as uploads.
+ *  - s3:    objects under labels/ in S3_STORAGE_BUCKET, next to the uploads
+ *  - local: files under LABEL_STORAGE_DIR (default .labels), for development only
+ * Select with LABEL_STORAGE; defaults to s3 in production, which refuses local, and
+ * to local elsewhere. Swap in another adapter with setLabelStorage.
+ */
+
+// Storage key for a label: the lead, then the tracking number it was issued under
+export function labelStorageKey(leadId: string, trackingNumber: string, format: string): string {
+  const safe = (part: string) => part.replace(/[^\w-]/g, '');
+  return `${safe(leadId)}/${safe(trackingNumber)}.${safe(format).toLowerCase()}`;
+}
+
+let storage: UploadStorage | null = null;
+
+export function getLabelStorage(): UploadStorage {
+  if (!storage) {
+    storage = storageFromEnv('LABEL_STORAGE', {
+      prefix: 'labels/',
+      localDir: process.env.LABEL_STORAGE_DIR || path.join(process.cwd(), '.labels')
+    });
+  }
+  return storage;
+}
+
+// Swap the adapter, e.g. for object storage on a multi-instance deployment
+export function setLabelStorage(next: UploadStorage) {
+  storage = next;
+}
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import busboy from 'busboy';
+import { Readable, Transform } from 'stream';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { getUploadStorage, uploadStorageKey } from '@/lib/storage/uploadStorage';
+import { UploadFileReader, UploadFileError } from '@/lib/services/uploadFileReader';
+
+/**
+ * Multipart Upload
+ * Streams a multipart/form-data request straight into upload storage. The file part
+ * is hashed and written as its bytes arrive, so neither the request nor the route
+ * holds the whole file in memory (request.formData() would). Text fields are
+ * collected alongside. Only the part named "file" is stored.
+ */
+
+export interface ReceivedUpload {
+  fields: Record<string, string>;
+  fileName: string;
+  // Upload storage URL of the stored file
+  fileUrl: string;
+  bytes: number;
+  // SHA-256 of the bytes so far - finish it with UploadFileReader.contentHash
+  bytesHash: crypto.Hash;
+}
+
+export interface MultipartUploadOptions {
+  // Storage key prefix, e.g. "batch"
+  prefix: string;
+  maxBytes: number;
+}
+
+export class MultipartUpload {
+  static async receive(request: Request, options: MultipartUploadOptions): Promise<ReceivedUpload> {
+    if (!request.body) {
+      throw new UploadFileError('No file provided');
+    }
+
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: { 'content-type': request.headers.get('content-type') || '' },
+        limits: { files: 1, fileSize: options.maxBytes }
+      });
+    } catch {
+      throw new UploadFileError('Send the file as multipart/form-data', 415);
+    }
+
+    const source = Readable.fromWeb(request.body as WebReadableStream<Uint8Array>);
+    const storage = getUploadStorage();
+    const fields: Record<string, string> = {};
+    let stored = null as Promise<Omit<ReceivedUpload, 'fields'>> | null;
+
+    const parsed = new Promise<void>((resolve, reject) => {
+      parser.on('field', (name, value) => {
+        fields[name] = value;
+      });
+
+      parser.on('file', (name, file, info) => {
+        if (name !== 'file' || stored) {
+          file.resume();
+          return;
+        }
+
+        const bytesHash = crypto.createHash('sha256');
+        let bytes = 0;
+        const tap = new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            bytesHash.update(chunk);
+            bytes += chunk.length;
+            callback(null, chunk);
+          }
+        });
+        file.on('error', error => tap.destroy(error));
+        // Errors reach the caller through storage.save, which may not be piping yet
+        tap.on('error', () => undefined);
+        file.on('limit', () => {
+          tap.destroy(new UploadFileError(`File is larger than ${Math.floor(options.maxBytes / (1024 * 1024))} MB`, 413));
+          file.resume();
+        });
+
+        stored = (async () => {
+          UploadFileReader.assertSupportedName(info.filename);
+          const fileUrl = await storage.save(uploadStorageKey(options.prefix, info.filename), file.pipe(tap));
+          return { fileName: info.filename, fileUrl, bytes, bytesHash };
+        })();
+        // Surfaced when the request has been read; keeps an early failure from going unhandled
+        stored.catch(() => file.resume());
+      });
+
+      parser.on('close', resolve);
+      parser.on('error', reject);
+      // The client went away mid-upload
+      source.on('error', reject);
+    });
+
+    source.pipe(parser);
+    await parsed;
+
+    if (!stored) {
+      throw new UploadFileError('No file provided');
+    }
+    return { fields, ...(await stored) };
+  }
+}
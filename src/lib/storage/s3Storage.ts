@@ -0,0 +1,70 @@
+import { Readable } from 'stream';
+import { S3Client, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import type { UploadStorage } from '@/lib/storage/uploadStorage';
+
+/**
+ * S3 Storage
+ * Upload storage in an S3 bucket, shared by every instance, so a job queued on one
+ * serverless instance can be read by a worker on another and survives a redeploy.
+ * Files are encrypted with PhiEncryption.encryptStream before they leave the process,
+ * whatever encryption the bucket itself applies. Credentials and region come from the
+ * AWS SDK's default chain (the compute role on Amplify); S3_STORAGE_REGION overrides
+ * the region.
+ */
+
+export class S3Storage implements UploadStorage {
+  readonly name = 's3';
+
+  constructor(
+    private readonly bucket: string,
+    // Key prefix within the bucket, e.g. "uploads/"
+    private readonly prefix: string = '',
+    private readonly client: S3Client = new S3Client({ region: process.env.S3_STORAGE_REGION || undefined })
+  ) {}
+
+  async save(key: string, body: Readable): Promise<string> {
+    const objectKey = `${this.prefix}${key}`;
+    const encrypted = PhiEncryption.encryptStream();
+    body.on('error', error => encrypted.destroy(error));
+
+    // Multipart upload, so a large file streams through without being buffered whole
+    await new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: objectKey, Body: body.pipe(encrypted), ContentType: 'application/octet-stream' }
+    }).done();
+
+    return `s3://${this.bucket}/${objectKey}`;
+  }
+
+  open(url: string): Readable {
+    const { client, bucket } = this;
+    const key = this.keyOf(url);
+    const source = Readable.from((async function* () {
+      const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      if (!object.Body) throw new Error(`Stored upload ${url} is empty`);
+      yield* object.Body as Readable;
+    })());
+
+    const decrypted = PhiEncryption.decryptStream();
+    source.on('error', error => decrypted.destroy(error));
+    decrypted.on('close', () => source.destroy());
+    return source.pipe(decrypted);
+  }
+
+  async remove(url: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.keyOf(url) }));
+  }
+
+  owns(url: string): boolean {
+    return url.startsWith(`s3://${this.bucket}/${this.prefix}`);
+  }
+
+  private keyOf(url: string): string {
+    if (!this.owns(url)) {
+      throw new Error(`Not an upload URL in bucket ${this.bucket}: ${url}`);
+    }
+    return url.slice(`s3://${this.bucket}/`.length);
+  }
+}
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { PhiEncryption } from '@/lib/crypto/phiEncryption';
+import { S3Storage } from '@/lib/storage/s3Storage';
+
+/**
+ * Upload Storage
+ * Where the raw bytes of uploaded files are kept while batch jobs read them. Files
+ * are written and read as streams, so a large upload never has to fit in memory, and
+ * are always stored encrypted (PhiEncryption.encryptStream) since every row is PHI.
+ *  - s3:    objects under uploads/ in S3_STORAGE_BUCKET, shared by every instance
+ *  - local: files under UPLOAD_STORAGE_DIR (default .uploads), for development only
+ * Select with UPLOAD_STORAGE; defaults to s3 in production and local elsewhere.
+ * Production refuses local, since the worker that runs a job is rarely the instance
+ * that received its file. Swap in another adapter with setUploadStorage.
+ */
+
+export interface UploadStorage {
+  readonly name: string;
+  // Stream a file in; resolves with the URL it is read back from (stored as fileUrl)
+  save(key: string, body: Readable): Promise<string>;
+  // The file's plaintext bytes
+  open(url: string): Readable;
+  remove(url: string): Promise<void>;
+  // Whether a fileUrl was written by this adapter
+  owns(url: string): boolean;
+}
+
+/**
+ * Storage key for an upload: type, date and a random part, keeping the extension
+ * so the format can still be told from the name
+ */
+export function uploadStorageKey(type: string, fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase().replace(/[^.a-z0-9]/g, '');
+  const date = new Date().toISOString().slice(0, 10);
+  return `${type.toLowerCase().replace(/_/g, '-')}/${date}/${Date.now()}-${crypto.randomBytes(6).toString('hex')}${extension}`;
+}
+
+export class LocalDiskStorage implements UploadStorage {
+  readonly name = 'local';
+  private static readonly SCHEME = 'local://';
+
+  constructor(private readonly root: string = process.env.UPLOAD_STORAGE_DIR || path.join(process.cwd(), '.uploads')) {}
+
+  async save(key: string, body: Readable): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Written under a temporary name so a failed upload never leaves a partial file behind
+    const partial = `${filePath}.partial`;
+    try {
+      await pipeline(body, PhiEncryption.encryptStream(), fs.createWriteStream(partial, { mode: 0o600 }));
+      await fs.promises.rename(partial, filePath);
+    } catch (error) {
+      await fs.promises.rm(partial, { force: true });
+      throw error;
+    }
+    return `${LocalDiskStorage.SCHEME}${key}`;
+  }
+
+  open(url: string): Readable {
+    const source = fs.createReadStream(this.resolve(this.keyOf(url)));
+    const decrypted = PhiEncryption.decryptStream();
+    source.on('error', error => decrypted.destroy(error));
+    decrypted.on('close', () => source.destroy());
+    return source.pipe(decrypted);
+  }
+
+  async remove(url: string): Promise<void> {
+    await fs.promises.rm(this.resolve(this.keyOf(url)), { force: true });
+  }
+
+  owns(url: string): boolean {
+    return url.startsWith(LocalDiskStorage.SCHEME);
+  }
+
+  private keyOf(url: string): string {
+    if (!this.owns(url)) {
+      throw new Error(`Not a local upload URL: ${url}`);
+    }
+    return url.slice(LocalDiskStorage.SCHEME.length);
+  }
+
+  // Keys never climb out of the storage directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid upload storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * The adapter an environment variable selects (UPLOAD_STORAGE, LABEL_STORAGE), storing
+ * under the given prefix in the bucket or directory on local disk
+ */
+export function storageFromEnv(variable: string, options: { prefix: string; localDir: string }): UploadStorage {
+  const production = process.env.NODE_ENV === 'production';
+  const configured = process.env[variable] || (production ? 's3' : 'local');
+
+  if (configured === 's3') {
+    const bucket = process.env.S3_STORAGE_BUCKET;
+    if (!bucket) {
+      throw new Error(`${variable} is s3 but S3_STORAGE_BUCKET is not set`);
+    }
+    return new S3Storage(bucket, options.prefix);
+  }
+  if (configured === 'local') {
+    if (production) {
+      throw new Error(`${variable} is local, which production does not allow - set S3_STORAGE_BUCKET and use s3`);
+    }
+    return new LocalDiskStorage(options.localDir);
+  }
+  throw new Error(`Unknown ${variable} "${configured}" - register the adapter with its setter`);
+}
+
+let storage: UploadStorage | null = null;
+
+export function getUploadStorage(): UploadStorage {
+  if (!storage) {
+    storage = storageFromEnv('UPLOAD_STORAGE', {
+      prefix: 'uploads/',
+      localDir: process.env.UPLOAD_STORAGE_DIR || path.join(process.cwd(), '.uploads')
+    });
+  }
+  return storage;
+}
+
+// Swap the adapter, e.g. for object storage on a multi-instance deployment
+export function setUploadStorage(next: UploadStorage) {
+  storage = next;
+}
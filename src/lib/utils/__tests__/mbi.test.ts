@@ -0,0 +1,121 @@
+import {
+  InvalidMBIError, MBI_EXCLUDED_LETTERS, describeMBIErrors, formatMBI, generateMBI, isValidMBI, mbiSchema,
+  normalizeMBI, parseMBI, validateMBI
+} from '@/lib/utils/mbi';
+
+// The CMS example MBI
+const VALID = '1EG4TE5MK73';
+
+const codes = (value: string) => validateMBI(value).errors.map(error => [error.code, error.position]);
+
+describe('normalizeMBI', () => {
+  it('strips dashes and whitespace and upper-cases', () => {
+    expect(normalizeMBI(' 1eg4-te5-mk73 ')).toBe(VALID);
+    expect(normalizeMBI('1EG4 TE5\tMK73')).toBe(VALID);
+    expect(normalizeMBI(null)).toBe('');
+  });
+
+  it('accepts dashed, spaced and lower-case input as valid', () => {
+    expect(validateMBI('1eg4-te5-mk73')).toEqual({ valid: true, normalized: VALID, errors: [] });
+    expect(isValidMBI('1EG4 TE5 MK73')).toBe(true);
+    expect(mbiSchema.parse('1eg4-te5-mk73')).toBe(VALID);
+  });
+});
+
+describe('validateMBI position rules', () => {
+  it('requires a value of 11 characters', () => {
+    expect(codes('')).toEqual([['REQUIRED', undefined]]);
+    expect(codes('1EG4TE5MK7')).toEqual([['INVALID_LENGTH', undefined]]);
+    expect(codes('1EG4TE5MK733')).toEqual([['INVALID_LENGTH', undefined]]);
+  });
+
+  it('takes only 1-9 in position 1', () => {
+    expect(codes('0EG4TE5MK73')).toEqual([['WRONG_CHARACTER_TYPE', 1]]);
+    expect(codes('AEG4TE5MK73')).toEqual([['WRONG_CHARACTER_TYPE', 1]]);
+  });
+
+  it('takes only letters in positions 2, 5, 8 and 9', () => {
+    for (const position of [2, 5, 8, 9]) {
+      const value = VALID.slice(0, position - 1) + '7' + VALID.slice(position);
+      expect(codes(value)).toEqual([['WRONG_CHARACTER_TYPE', position]]);
+    }
+  });
+
+  it('takes only digits in positions 4, 7, 10 and 11', () => {
+    for (const position of [4, 7, 10, 11]) {
+      const value = VALID.slice(0, position - 1) + 'K' + VALID.slice(position);
+      expect(codes(value)).toEqual([['WRONG_CHARACTER_TYPE', position]]);
+    }
+  });
+
+  it('takes a letter or a digit in positions 3 and 6', () => {
+    expect(isValidMBI('1E94T05MK73')).toBe(true);
+    expect(isValidMBI('1EG4TE5MK73')).toBe(true);
+  });
+
+  it('refuses the excluded letters wherever a letter may go', () => {
+    expect(MBI_EXCLUDED_LETTERS).toEqual(['S', 'L', 'O', 'I', 'B', 'Z']);
+    for (const letter of MBI_EXCLUDED_LETTERS) {
+      expect(codes(`1${letter}G4TE5MK73`)).toEqual([['EXCLUDED_LETTER', 2]]);
+      expect(codes(`1EG4TE5M${letter}73`)).toEqual([['EXCLUDED_LETTER', 9]]);
+    }
+  });
+
+  it('reports characters that are not letters or digits', () => {
+    expect(codes('1EG4TE5MK7!')).toEqual([['INVALID_CHARACTER', 11]]);
+  });
+
+  it('reports every problem found', () => {
+    expect(codes('0SG4T#5MK7A')).toEqual([
+      ['WRONG_CHARACTER_TYPE', 1],
+      ['EXCLUDED_LETTER', 2],
+      ['INVALID_CHARACTER', 6],
+      ['WRONG_CHARACTER_TYPE', 11]
+    ]);
+  });
+});
+
+describe('describeMBIErrors', () => {
+  it('joins the messages into one line', () => {
+    expect(describeMBIErrors(validateMBI('0SG4TE5MK73'))).toBe(
+      'Character 1 ("0") must be a digit from 1 to 9; ' +
+      'Character 2 ("S") is not allowed - MBIs never use the letters S, L, O, I, B, Z'
+    );
+    expect(describeMBIErrors(validateMBI('1EG4'))).toBe('MBI must be 11 characters (got 4)');
+  });
+});
+
+describe('parseMBI', () => {
+  it('returns the normalized MBI', () => {
+    expect(parseMBI('1eg4-te5-mk73')).toBe(VALID);
+  });
+
+  it('throws InvalidMBIError without the MBI in its message or properties', () => {
+    const input = '1eg4-te5-mk7a';
+    let error: unknown;
+    try {
+      parseMBI(input);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(InvalidMBIError);
+    const message = (error as InvalidMBIError).message;
+    expect(message).toBe('Invalid MBI: Character 11 ("A") must be a digit');
+    const serialized = JSON.stringify({ message, ...(error as object) });
+    expect(serialized).not.toContain(input);
+    expect(serialized).not.toContain(normalizeMBI(input));
+    expect(serialized).not.toContain('MK7');
+  });
+});
+
+describe('formatMBI and generateMBI', () => {
+  it('formats full and partial MBIs with dashes', () => {
+    expect(formatMBI(VALID)).toBe('1EG4-TE5-MK73');
+    expect(formatMBI('1eg4t')).toBe('1EG4-T');
+  });
+
+  it('generates MBIs that validate', () => {
+    for (let i = 0; i < 50; i++) expect(isValidMBI(generateMBI())).toBe(true);
+  });
+});
@@ -0,0 +1,205 @@
+import { z } from 'zod';
+
+/**
+ * Medicare Beneficiary Identifier (MBI) validation and normalization
+ *
+ * CMS format - 11 characters, dashes are display-only:
+ *   position   1  2  3   4  5  6   7  8  9  10 11
+ *   type       C  A  AN  N  A  AN  N  A  A  N  N
+ * C  = numeric 1-9
+ * N  = numeric 0-9
+ * A  = letter A-Z excluding S, L, O, I, B, Z
+ * AN = either A or N
+ */
+
+export const MBI_LENGTH = 11;
+
+// Letters CMS never uses in an MBI (easily confused with digits)
+export const MBI_EXCLUDED_LETTERS = ['S', 'L', 'O', 'I', 'B', 'Z'];
+
+const MBI_LETTERS = 'ACDEFGHJKMNPQRTUVWXY';
+const MBI_DIGITS = '0123456789';
+
+type MBISlot = 'C' | 'N' | 'A' | 'AN';
+
+const MBI_POSITIONS: MBISlot[] = ['C', 'A', 'AN', 'N', 'A', 'AN', 'N', 'A', 'A', 'N', 'N'];
+
+const SLOT_DESCRIPTIONS: Record<MBISlot, string> = {
+  C: 'a digit from 1 to 9',
+  N: 'a digit',
+  A: 'a letter',
+  AN: 'a letter or digit'
+};
+
+export type MBIErrorCode = 'REQUIRED' | 'INVALID_LENGTH' | 'INVALID_CHARACTER' | 'EXCLUDED_LETTER' | 'WRONG_CHARACTER_TYPE';
+
+export interface MBIValidationError {
+  code: MBIErrorCode;
+  message: string;
+  // 1-based position within the normalized MBI
+  position?: number;
+}
+
+export interface MBIValidationResult {
+  valid: boolean;
+  normalized: string;
+  errors: MBIValidationError[];
+}
+
+function slotAccepts(slot: MBISlot, char: string): boolean {
+  switch (slot) {
+    case 'C':
+      return char >= '1' && char <= '9';
+    case 'N':
+      return MBI_DIGITS.includes(char);
+    case 'A':
+      return MBI_LETTERS.includes(char);
+    case 'AN':
+      return MBI_LETTERS.includes(char) || MBI_DIGITS.includes(char);
+  }
+}
+
+/**
+ * Strip dashes and whitespace and upper-case the value.
+ * Does not validate - use validateMBI for that.
+ */
+export function normalizeMBI(value: string | null | undefined): string {
+  if (!value) return '';
+  return String(value).replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Format an MBI for display as 1EG4-TE5-MK73. Partial input is formatted as far as it goes.
+ */
+export function formatMBI(value: string | null | undefined): string {
+  const cleaned = String(value || '').replace(/[^A-Z0-9]/gi, '').toUpperCase().slice(0, MBI_LENGTH);
+
+  if (cleaned.length <= 4) return cleaned;
+  if (cleaned.length <= 7) return `${cleaned.slice(0, 4)}-${cleaned.slice(4)}`;
+  return `${cleaned.slice(0, 4)}-${cleaned.slice(4, 7)}-${cleaned.slice(7)}`;
+}
+
+/**
+ * Validate an MBI against the CMS format and return every problem found
+ */
+export function validateMBI(value: string | null | undefined): MBIValidationResult {
+  const normalized = normalizeMBI(value);
+  const errors: MBIValidationError[] = [];
+
+  if (!normalized) {
+    return {
+      valid: false,
+      normalized,
+      errors: [{ code: 'REQUIRED', message: 'MBI is required' }]
+    };
+  }
+
+  if (normalized.length !== MBI_LENGTH) {
+    errors.push({
+      code: 'INVALID_LENGTH',
+      message: `MBI must be ${MBI_LENGTH} characters (got ${normalized.length})`
+    });
+  }
+
+  const checked = Math.min(normalized.length, MBI_LENGTH);
+  for (let i = 0; i < checked; i++) {
+    const char = normalized[i];
+    const slot = MBI_POSITIONS[i];
+    const position = i + 1;
+
+    if (!/[A-Z0-9]/.test(char)) {
+      errors.push({
+        code: 'INVALID_CHARACTER',
+        position,
+        message: `Character ${position} ("${char}") is not a letter or digit`
+      });
+    } else if (MBI_EXCLUDED_LETTERS.includes(char)) {
+      errors.push({
+        code: 'EXCLUDED_LETTER',
+        position,
+        message: `Character ${position} ("${char}") is not allowed - MBIs never use the letters ${MBI_EXCLUDED_LETTERS.join(', ')}`
+      });
+    } else if (!slotAccepts(slot, char)) {
+      errors.push({
+        code: 'WRONG_CHARACTER_TYPE',
+        position,
+        message: `Character ${position} ("${char}") must be ${SLOT_DESCRIPTIONS[slot]}`
+      });
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    normalized,
+    errors
+  };
+}
+
+export function isValidMBI(value: string | null | undefined): boolean {
+  return validateMBI(value).valid;
+}
+
+/**
+ * Single-line summary of the validation errors, for row errors and API responses
+ */
+export function describeMBIErrors(result: MBIValidationResult): string {
+  return result.errors.map(error => error.message).join('; ');
+}
+
+/**
+ * Generate a random MBI that satisfies the CMS format.
+ * Used as a placeholder when an upload has no MBI column.
+ */
+export function generateMBI(): string {
+  const pick = (chars: string) => chars.charAt(Math.floor(Math.random() * chars.length));
+
+  return MBI_POSITIONS.map(slot => {
+    switch (slot) {
+      case 'C':
+        return pick(MBI_DIGITS.slice(1));
+      case 'N':
+        return pick(MBI_DIGITS);
+      case 'A':
+        return pick(MBI_LETTERS);
+      case 'AN':
+        return pick(MBI_LETTERS + MBI_DIGITS);
+    }
+  }).join('');
+}
+
+/**
+ * Zod schema that accepts dashed or lower-case input and outputs the normalized MBI.
+ * Every validation problem is reported as a separate issue.
+ */
+export const mbiSchema = z.string().transform((value, ctx) => {
+  const result = validateMBI(value);
+  for (const error of result.errors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+  }
+  return result.valid ? result.normalized : z.NEVER;
+});
+
+/**
+ * The MBI itself is left out of the error, message and properties alike - messages end
+ * up in stored row errors, error reports and logs, none of which may hold PHI in the clear
+ */
+export class InvalidMBIError extends Error {
+  readonly errors: MBIValidationError[];
+
+  constructor(result: MBIValidationResult) {
+    super(`Invalid MBI: ${describeMBIErrors(result)}`);
+    this.name = 'InvalidMBIError';
+    this.errors = result.errors;
+  }
+}
+
+/**
+ * Normalize and validate in one step, throwing InvalidMBIError if the MBI is malformed
+ */
+export function parseMBI(value: string): string {
+  const result = validateMBI(value);
+  if (!result.valid) {
+    throw new InvalidMBIError(result);
+  }
+  return result.normalized;
+}
@@ -37,6 +37,8 @@ export type LeadStatus =
   | 'APPROVED'
   | 'READY_TO_SHIP'
   | 'SHIPPED'
+  | 'DELIVERED'
+  | 'KIT_RETURNING'
   | 'COLLECTIONS'
   | 'KIT_COMPLETED'
   | 'RETURNED';
@@ -68,8 +70,10 @@ export interface ComplianceChecklist {
   completedBy?: string;
 }
 
+// A Lead is one test order; a Patient (keyed by MBI) can hold several
 export interface Lead {
   id: string;
+  patientId?: string;
   mbi: string; // Medicare Beneficiary Identifier
   firstName: string;
   lastName: string;
@@ -121,6 +125,43 @@ export interface Lead {
   updatedAt: Date;
 }
 
+// Lead Timeline Types
+export type LeadTimelineEntryType =
+  | 'LEAD_CREATED'
+  | 'STATUS_CHANGE'
+  | 'CONTACT_ATTEMPT'
+  | 'CALLBACK_SCHEDULED'
+  | 'CALLBACK_COMPLETED'
+  | 'TRACKING_EVENT'
+  | 'ALERT_RAISED'
+  | 'ALERT_ACKNOWLEDGED';
+
+export interface LeadTimelineEntry {
+  id: string;
+  type: LeadTimelineEntryType;
+  occurredAt: string;
+  title: string;
+  description?: string;
+  source?: string; // UI, WEBHOOK, UPLOAD, BATCH, SHIPPING, SYSTEM
+  actor?: {
+    id: string;
+    name: string;
+  };
+  fromStatus?: LeadStatus;
+  toStatus?: LeadStatus;
+}
+
+// Shipping Label Types
+export interface LeadShippingLabel {
+  id: string;
+  direction: 'OUTBOUND' | 'INBOUND';
+  carrier: 'UPS' | 'USPS' | 'FEDEX';
+  trackingNumber: string;
+  format: string; // GIF, PNG, JPG, PDF or ZPL
+  createdAt: string;
+  labelImage: string; // Base64, as the carrier issued it
+}
+
 // Contact Attempt Types
 export interface ContactAttempt {
   id: string;